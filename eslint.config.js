@@ -16,6 +16,8 @@ export default [
       globals: {
         console: 'readonly',
         process: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
       },
     },
     plugins: {
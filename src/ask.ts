@@ -0,0 +1,187 @@
+import { AgentsError } from '@openai/agents';
+import { OpenAIError } from 'openai';
+import { isRetryableError } from './embedding-batch.js';
+import { EmbeddingProviderError } from './embedding-providers.js';
+import { Citation, GangstaAgent, NoRelevantContextError, TokenUsage } from './gansgta-agent.js';
+import type { PaperLibrary } from './paper-library.js';
+import { formatSourceList } from './paper-digest.js';
+import type { ToolCall } from './paper-tools.js';
+
+/**
+ * Exit codes of the ask command, so scripts can tell failures apart
+ */
+export const ASK_EXIT_CODES = {
+  /**
+   * The library holds no papers
+   */
+  noPapers: 3,
+
+  /**
+   * The model or embedder could not be set up or reached, or failed to answer
+   */
+  modelError: 4,
+
+  /**
+   * Nothing in the papers is relevant to the question
+   */
+  noRelevantContext: 5,
+} as const;
+
+/**
+ * Error raised by ask, with the exit code the CLI ends with
+ */
+export class AskError extends Error {
+  readonly exitCode: number;
+
+  constructor(message: string, exitCode: number) {
+    super(message);
+    this.name = 'AskError';
+    this.exitCode = exitCode;
+  }
+}
+
+/**
+ * Checks whether an error, or one of its causes, comes from a model or
+ * embedding provider: an API or connection error, a failed agent run, or a
+ * provider that could not be set up
+ */
+function isProviderError(error: unknown): boolean {
+  for (let cause = error; cause instanceof Error; cause = cause.cause) {
+    if (
+      cause instanceof OpenAIError ||
+      cause instanceof AgentsError ||
+      cause instanceof EmbeddingProviderError ||
+      isRetryableError(cause)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Options for asking a question
+ */
+export interface AskOptions {
+  /**
+   * Ids (or prefixes) of the papers to ask about; defaults to the whole library
+   */
+  paperIds?: string[];
+
+  /**
+   * Persona the agent was created with, reported in the result
+   */
+  persona?: string;
+
+  /**
+   * Number of excerpts retrieved for the question
+   * @default 5
+   */
+  topK?: number;
+
+  /**
+   * Called after every tool call the agent makes
+   */
+  onToolCall?: (call: ToolCall) => void;
+}
+
+/**
+ * Answer to a one-shot question, as printed by `ask --json`
+ */
+export interface AskResult {
+  question: string;
+  answer: string;
+
+  /**
+   * The chunks the answer cites
+   */
+  citations: Citation[];
+
+  /**
+   * Ids of the papers the question was asked about
+   */
+  papers: string[];
+
+  /**
+   * Model that wrote the answer
+   */
+  model: string;
+
+  /**
+   * Persona the agent answered as
+   */
+  persona?: string;
+
+  /**
+   * Tokens used, if the model reported them
+   */
+  usage?: TokenUsage;
+}
+
+/**
+ * Asks a question about papers of the library, without a conversation
+ * @param agent - The agent answering
+ * @param library - The library holding the papers
+ * @param question - The question
+ * @param options - Papers, persona and retrieval options
+ * @returns The answer with its citations, model and token usage
+ * @throws AskError if there are no papers, nothing relevant is found or the model or
+ *   embedder fails; PaperNotFoundError if a paper id does not match
+ */
+export async function ask(
+  agent: GangstaAgent,
+  library: PaperLibrary,
+  question: string,
+  options: AskOptions = {}
+): Promise<AskResult> {
+  const { paperIds = [], persona, topK, onToolCall } = options;
+  const papers =
+    paperIds.length > 0
+      ? await Promise.all(paperIds.map(id => library.getPaper(id)))
+      : await library.listPapers();
+  if (papers.length === 0) {
+    throw new AskError(`No papers in ${library.dir} yet`, ASK_EXIT_CODES.noPapers);
+  }
+
+  try {
+    const store = await library.openStore(papers.map(paper => paper.id));
+    const response = await agent.answer(question, store, {
+      topK,
+      library,
+      onToolCall,
+      requireRelevantContext: true,
+    });
+    return {
+      question,
+      answer: response.answer,
+      citations: response.citations,
+      papers: papers.map(paper => paper.id),
+      model: response.model,
+      persona,
+      usage: response.usage,
+    };
+  } catch (error) {
+    if (error instanceof NoRelevantContextError) {
+      throw new AskError(error.message, ASK_EXIT_CODES.noRelevantContext);
+    }
+    if (!isProviderError(error)) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AskError(`The model failed to answer: ${message}`, ASK_EXIT_CODES.modelError);
+  }
+}
+
+/**
+ * Formats an answer as Markdown: the answer, then the excerpts it cites
+ * @param result - The answer
+ * @returns The Markdown document
+ */
+export function formatAskMarkdown(result: AskResult): string {
+  const lines = [result.answer.trim()];
+  const sources = formatSourceList(result.citations);
+  if (sources.length > 0) {
+    lines.push('', '## Sources', '', ...sources.map(source => `- ${source}`));
+  }
+  return `${lines.join('\n')}\n`;
+}
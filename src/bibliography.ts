@@ -0,0 +1,596 @@
+import { detectSections, ParsedPaper } from './paper-chunker.js';
+
+/**
+ * Author of a referenced work
+ */
+export interface BibAuthor {
+  /**
+   * Family name, e.g. "Vaswani"
+   */
+  family: string;
+
+  /**
+   * Given names or initials, e.g. "Ashish" or "A."
+   */
+  given?: string;
+}
+
+/**
+ * Kind of a referenced work, as far as it can be told from the reference
+ */
+export type BibEntryKind = 'conference' | 'journal' | 'preprint' | 'other';
+
+/**
+ * A parsed entry of the references section of a paper
+ */
+export interface BibEntry {
+  /**
+   * Citation key, e.g. "vaswani2017attention"
+   */
+  id: string;
+
+  /**
+   * Marker the paper cites the entry with: "12" for [12], or the key of a
+   * LaTeX \bibitem. Absent for author-year bibliographies.
+   */
+  label?: string;
+
+  /**
+   * The reference as it appears in the paper
+   */
+  raw: string;
+
+  kind: BibEntryKind;
+  authors: BibAuthor[];
+  title?: string;
+
+  /**
+   * Conference, journal or publisher
+   */
+  venue?: string;
+
+  year?: number;
+  doi?: string;
+  arxivId?: string;
+  url?: string;
+}
+
+/**
+ * An in-text citation marker linked to bibliography entries
+ */
+export interface CitationLink {
+  /**
+   * Offset of the marker in the paper text
+   */
+  start: number;
+
+  /**
+   * Offset one past the end of the marker
+   */
+  end: number;
+
+  /**
+   * The marker as it appears in the text, e.g. "[3-5]" or "(Smith et al., 2020)"
+   */
+  marker: string;
+
+  /**
+   * Ids of the cited entries
+   */
+  entryIds: string[];
+}
+
+/**
+ * Bibliography of a paper with the citations linking its text to it
+ */
+export interface Bibliography {
+  entries: BibEntry[];
+  links: CitationLink[];
+}
+
+/**
+ * Item of a CSL-JSON bibliography, as read by citation processors and
+ * reference managers
+ */
+export interface CslItem {
+  id: string;
+  type: string;
+  title?: string;
+  author?: BibAuthor[];
+  issued?: { 'date-parts': number[][] };
+  'container-title'?: string;
+  DOI?: string;
+  URL?: string;
+  number?: string;
+}
+
+/**
+ * Words after which a period does not end a sentence of a reference
+ */
+const ABBREVIATIONS =
+  /(?:^|[\s(])(?:[A-Z]|vol|no|pp|ed|eds|proc|conf|int|intl|adv|dept|univ|jr|sr|st|vs|e\.g|i\.e)$/i;
+
+/**
+ * Lines that continue a reference rather than start one
+ */
+const CONTINUATION = /^(in|proceedings|journal|arxiv|url|https?:|doi|pp\.|pages|vol\.|volume)\b/i;
+
+/**
+ * Venues whose papers are conference papers
+ */
+const CONFERENCE =
+  /proceedings|proc\.|conference|advances in neural|workshop|symposium|neurips|nips|icml|iclr|acl|emnlp|naacl|cvpr|iccv|eccv|aaai|ijcai|kdd|sigir|interspeech|icassp/i;
+
+/**
+ * Venues whose papers are journal articles
+ */
+const JOURNAL =
+  /journal|transactions|letters|review|magazine|nature|science|neural computation|jmlr|tpami|tacl/i;
+
+const TITLE_STOPWORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'for', 'to', 'and', 'with']);
+
+const normalizeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Splits the text of a references section into single references. Numbered
+ * ([12] or "12.") and keyed ([ba2016]) entries split at their markers;
+ * author-year entries at lines that start a new author list.
+ * @param text - Text of the references section, with or without its heading
+ * @returns The references with their labels, in order
+ */
+export function splitReferences(text: string): { label?: string; raw: string }[] {
+  const lines = text
+    .replace(/^\s*(references|bibliography|works cited)\s*\n/i, '')
+    .split('\n')
+    .map(line => line.trim());
+
+  const bracketed = lines.map(line => line.match(/^\[([^\]\s]{1,40})\]\s*/));
+  const numbered: (RegExpMatchArray | null)[] = [];
+  let next = 1;
+  for (const line of lines) {
+    // "12." markers must count up, or years and volume numbers would split entries
+    const match = line.match(/^(\d{1,3})\.\s+(?=\S)/);
+    numbered.push(match && Number(match[1]) === next ? match : null);
+    if (numbered[numbered.length - 1]) {
+      next++;
+    }
+  }
+
+  // A lone marker counts only when it starts the section
+  const first = lines.findIndex(Boolean);
+  const splits = (found: (RegExpMatchArray | null)[]) =>
+    found.filter(Boolean).length >= 2 || (first >= 0 && found[first] !== null);
+  const markers = splits(bracketed) ? bracketed : numbered;
+  const entries: { label?: string; raw: string[] }[] = [];
+
+  if (splits(markers)) {
+    lines.forEach((line, i) => {
+      const marker = markers[i];
+      if (marker) {
+        entries.push({ label: marker[1], raw: [line.slice(marker[0].length)] });
+      } else if (entries.length > 0 && line) {
+        entries[entries.length - 1].raw.push(line);
+      }
+    });
+  } else {
+    let previous = '';
+    for (const line of lines) {
+      if (!line) {
+        previous = '';
+        continue;
+      }
+      const startsEntry =
+        /^\p{Lu}/u.test(line) && !CONTINUATION.test(line) && (!previous || /\.$/.test(previous));
+      if (startsEntry || entries.length === 0) {
+        entries.push({ raw: [line] });
+      } else {
+        entries[entries.length - 1].raw.push(line);
+      }
+      previous = line;
+    }
+  }
+
+  return entries
+    .map(entry => ({
+      label: entry.label,
+      // Join lines, undoing hyphenation at line ends
+      raw: collapse(entry.raw.join('\n').replace(/(\p{Ll})-\n(\p{Ll})/gu, '$1$2')),
+    }))
+    .filter(entry => entry.raw.length > 0);
+}
+
+/**
+ * Splits a reference into sentences, ignoring periods after initials and
+ * common abbreviations
+ */
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/[.?!]\s+/g)) {
+    const end = match.index!;
+    if (text[end] === '.' && ABBREVIATIONS.test(text.slice(start, end))) {
+      continue;
+    }
+    sentences.push(text.slice(start, end + 1).trim());
+    start = end + match[0].length;
+  }
+  sentences.push(text.slice(start).trim());
+  return sentences.filter(Boolean);
+}
+
+/**
+ * Parses an author list such as "Ashish Vaswani, Noam Shazeer, and Niki Parmar",
+ * "Smith, J., & Doe, A." or "Vaswani A, Shazeer N"
+ * @param text - The author list
+ * @returns The authors
+ */
+export function parseAuthors(text: string): BibAuthor[] {
+  const parts = text
+    .replace(/\bet al\.?/g, '')
+    .replace(/\s*&\s*/g, ', ')
+    .replace(/,?\s+and\s+/g, ', ')
+    .split(/\s*[,;]\s*/)
+    .map(part => part.trim())
+    .filter(part => part && !/^others$/i.test(part));
+
+  const isInitials = (part: string) => /^(\p{Lu}\.?[\s-]*)+$/u.test(part);
+  const authors: BibAuthor[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (isInitials(parts[i + 1] ?? '') && !part.includes(' ')) {
+      // "Smith, J." style
+      authors.push({ family: part, given: parts[i + 1] });
+      i++;
+      continue;
+    }
+
+    const words = part.split(/\s+/);
+    if (words.length === 1) {
+      authors.push({ family: part });
+    } else if (/^\p{Lu}{1,3}$/u.test(words[words.length - 1])) {
+      // "Vaswani A" style
+      authors.push({ family: words.slice(0, -1).join(' '), given: words[words.length - 1] });
+    } else {
+      authors.push({ family: words[words.length - 1], given: words.slice(0, -1).join(' ') });
+    }
+  }
+  return authors;
+}
+
+/**
+ * Removes page ranges, volumes and years from the end of a venue
+ */
+function cleanVenue(venue: string): string | undefined {
+  const cleaned = venue
+    .replace(/^in:?\s+/i, '')
+    .replace(/arXiv:\s*\S+/i, '')
+    .replace(/,?\s*(vol\.|volume|no\.|pp\.|pages?)\s*\d.*$/i, '')
+    // APA volume, issue and pages: "Nature, 12(3), 45-67"
+    .replace(/,\s*\d+(\s*\(\d+\))?(,\s*[\d\u2013-]+)?\.?$/, '')
+    .replace(/,?\s*\(?(19|20)\d{2}[a-z]?\)?\.?$/, '')
+    .replace(/[\s,.:;]+$/, '')
+    .trim();
+  return cleaned || undefined;
+}
+
+/**
+ * Tells the kind of a work from its venue and identifiers
+ */
+function entryKind(venue: string | undefined, arxivId: string | undefined): BibEntryKind {
+  if (venue && CONFERENCE.test(venue)) {
+    return 'conference';
+  }
+  if (venue && JOURNAL.test(venue)) {
+    return 'journal';
+  }
+  if (arxivId || (venue && /arxiv|preprint/i.test(venue))) {
+    return 'preprint';
+  }
+  return 'other';
+}
+
+/**
+ * Parses a single reference in any of the common styles (ACL/NeurIPS,
+ * APA, IEEE) into its parts
+ * @param raw - The reference text
+ * @returns The entry without its citation key
+ */
+export function parseReference(raw: string): Omit<BibEntry, 'id' | 'label'> {
+  const text = collapse(raw);
+  const doi = text.match(/\b(10\.\d{4,9}\/[^\s"<>]+?)[.,;)]?(?=\s|$)/)?.[1];
+  const arxivId = text.match(
+    /(?:arXiv[:\s]*(?:abs\/)?|arxiv\.org\/(?:abs|pdf)\/)(\d{4}\.\d{4,5}|[a-z-]+\/\d{7})/i
+  )?.[1];
+  const url = text.match(/https?:\/\/[^\s<>"]+?(?=[.,;)]?(?:\s|$))/)?.[0];
+
+  // Identifiers contain digits that look like years
+  const withoutIds = text
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/\b10\.\d{4,9}\/\S+/g, '')
+    .replace(/arXiv[:\s]*\S+/gi, '');
+  const parenthesized = withoutIds.match(/\(((?:19|20)\d{2})[a-z]?\)/);
+  const years = [...withoutIds.matchAll(/\b((?:19|20)\d{2})[a-z]?\b/g)];
+  const year = Number(parenthesized?.[1] ?? years[years.length - 1]?.[1]) || undefined;
+
+  let authors = '';
+  let title: string | undefined;
+  let venue: string | undefined;
+
+  const quoted = text.match(/^(.*?)[\u201c"]([^\u201d"]{3,}?)[,.]?[\u201d"],?\s*(.*)$/);
+  if (quoted) {
+    // IEEE: A. Vaswani et al., "Attention is all you need," in Proc. NeurIPS, 2017.
+    [, authors, title, venue] = quoted;
+  } else if (parenthesized) {
+    // APA: Smith, J., & Doe, A. (2020). Title. Venue, 12(3), 45-67.
+    const index = text.indexOf(parenthesized[0]);
+    authors = text.slice(0, index);
+    const rest = splitSentences(
+      text.slice(index + parenthesized[0].length).replace(/^[.,]\s*/, '')
+    );
+    [title, venue] = rest;
+  } else {
+    // ACL/NeurIPS: Ashish Vaswani and Noam Shazeer. Attention is all you need. In NeurIPS, 2017.
+    const sentences = splitSentences(text);
+    [authors, title, venue] = sentences;
+  }
+
+  const cleanTitle = title?.replace(/[.,]$/, '').trim();
+  const cleanedVenue = venue ? cleanVenue(venue) : undefined;
+  return {
+    raw: text,
+    kind: entryKind(cleanedVenue, arxivId),
+    authors: parseAuthors(authors.replace(/,\s*$/, '').replace(/(\p{Ll})\.\s*$/u, '$1')),
+    title: cleanTitle || undefined,
+    venue: cleanedVenue && !/^https?:/.test(cleanedVenue) ? cleanedVenue : undefined,
+    year,
+    doi,
+    arxivId,
+    url,
+  };
+}
+
+/**
+ * Builds a citation key such as "vaswani2017attention"
+ */
+function citationKey(entry: Omit<BibEntry, 'id'>): string {
+  const family = normalizeName(entry.authors[0]?.family ?? 'anonymous').replace(/[^a-z]/g, '');
+  const word = (entry.title ?? '')
+    .split(/\s+/)
+    .map(word => normalizeName(word).replace(/[^a-z0-9]/g, ''))
+    .find(word => word && !TITLE_STOPWORDS.has(word));
+  return `${family || 'anonymous'}${entry.year ?? ''}${word ?? ''}`;
+}
+
+/**
+ * Links in-text citation markers to bibliography entries. Recognizes numbered
+ * and keyed markers ([12], [3-5], [ba2016, vaswani2017]) as well as author-year
+ * citations, parenthetical ((Smith et al., 2020; Doe, 2019)) and narrative
+ * (Smith and Doe (2020)).
+ * @param text - The text to search
+ * @param entries - The bibliography entries
+ * @param exclude - Ranges of the text to skip, such as the references section
+ * @returns The links, ordered by position
+ */
+export function linkCitations(
+  text: string,
+  entries: BibEntry[],
+  exclude: { start: number; end: number }[] = []
+): CitationLink[] {
+  const byLabel = new Map(entries.filter(e => e.label).map(entry => [entry.label!, entry]));
+  const links: CitationLink[] = [];
+  const excluded = (start: number) =>
+    exclude.some(range => start >= range.start && start < range.end);
+
+  const add = (start: number, marker: string, cited: BibEntry[]) => {
+    const end = start + marker.length;
+    if (cited.length > 0 && !excluded(start) && !links.some(l => start < l.end && end > l.start)) {
+      links.push({ start, end, marker, entryIds: [...new Set(cited.map(entry => entry.id))] });
+    }
+  };
+
+  if (byLabel.size > 0) {
+    for (const match of text.matchAll(/\[([^[\]\n]{1,120})\]/g)) {
+      const cited: BibEntry[] = [];
+      let complete = true;
+      for (const part of match[1].split(/\s*[,;]\s*/)) {
+        const range = part.match(/^(\d+)\s*[-\u2013]\s*(\d+)$/);
+        const labels =
+          range && Number(range[2]) - Number(range[1]) <= 50
+            ? Array.from({ length: Number(range[2]) - Number(range[1]) + 1 }, (_, i) =>
+                String(Number(range[1]) + i)
+              )
+            : [part.trim()];
+        for (const label of labels) {
+          const entry = byLabel.get(label);
+          if (entry) {
+            cited.push(entry);
+          } else {
+            complete = false;
+          }
+        }
+      }
+      // "[12, Section 3]" still cites 12, but "[0, 1]" intervals cite nothing
+      if (complete || cited.length > 0) {
+        add(match.index!, match[0], cited);
+      }
+    }
+  }
+
+  const findByAuthorYear = (names: string, year: string, suffix?: string) => {
+    const family = normalizeName(names.split(/\s+(?:et al\.?|and|&)\s*|,/)[0].trim());
+    const candidates = entries.filter(
+      entry =>
+        entry.year === Number(year) &&
+        entry.authors.length > 0 &&
+        normalizeName(entry.authors[0].family) === family
+    );
+    // "2020b" is the second work of the same authors and year
+    const index = suffix ? suffix.charCodeAt(0) - 97 : 0;
+    return candidates[index] ? [candidates[index]] : candidates.slice(0, 1);
+  };
+
+  for (const match of text.matchAll(/\(([^()]{4,300})\)/g)) {
+    const cited = match[1]
+      .split(/\s*;\s*/)
+      .map(part =>
+        part.match(/^(?:see|e\.g\.,?|cf\.|also)?\s*(\p{Lu}[^,]*?),?\s+((?:19|20)\d{2})([a-z])?$/u)
+      )
+      .flatMap(part => (part ? findByAuthorYear(part[1], part[2], part[3]) : []));
+    add(match.index!, match[0], cited);
+  }
+
+  const narrative =
+    /(\p{Lu}[\p{L}'\u2019-]+)(?:\s+et al\.|\s+(?:and|&)\s+\p{Lu}[\p{L}'\u2019-]+)?\s+\(((?:19|20)\d{2})([a-z])?\)/gu;
+  for (const match of text.matchAll(narrative)) {
+    add(match.index!, match[0], findByAuthorYear(match[1], match[2], match[3]));
+  }
+
+  return links.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Extracts the bibliography of a paper from its references section and
+ * links the citations in the rest of the text to it
+ * @param paper - The parsed paper
+ * @returns The entries and citation links; empty if the paper has no references section
+ */
+export function extractBibliography(paper: ParsedPaper): Bibliography {
+  const references = (paper.sections ?? detectSections(paper.text)).filter(
+    section => section.kind === 'references'
+  );
+
+  const entries: BibEntry[] = [];
+  const keys = new Map<string, number>();
+  for (const section of references) {
+    for (const { label, raw } of splitReferences(paper.text.slice(section.start, section.end))) {
+      const parsed = parseReference(raw);
+      const key = citationKey(parsed);
+      const count = keys.get(key) ?? 0;
+      keys.set(key, count + 1);
+      // Later works with the same key get "b", "c", ...
+      const id = count === 0 ? key : `${key}${String.fromCharCode(97 + Math.min(count, 25))}`;
+      entries.push({ id, label, ...parsed });
+    }
+  }
+
+  return { entries, links: linkCitations(paper.text, entries, references) };
+}
+
+/**
+ * Formats an entry as a one-line reference, e.g.
+ * "[12] Vaswani et al. (2017). Attention is all you need. NeurIPS." The DOI or
+ * arXiv id, if any, comes last.
+ * @param entry - The entry
+ * @returns The reference
+ */
+export function formatReference(entry: BibEntry): string {
+  const authors =
+    entry.authors.length === 0
+      ? ''
+      : entry.authors.length === 1
+        ? entry.authors[0].family
+        : entry.authors.length === 2
+          ? `${entry.authors[0].family} and ${entry.authors[1].family}`
+          : `${entry.authors[0].family} et al.`;
+  const parts = [
+    [authors, entry.year ? `(${entry.year})` : ''].filter(Boolean).join(' '),
+    entry.title,
+    entry.venue,
+    entry.doi ? `doi:${entry.doi}` : entry.arxivId ? `arXiv:${entry.arxivId}` : undefined,
+  ].filter(Boolean);
+  const reference = parts.length > 0 ? `${parts.join('. ')}.` : entry.raw;
+  return entry.label ? `[${entry.label}] ${reference}` : reference;
+}
+
+/**
+ * Escapes characters with a special meaning in BibTeX values
+ */
+function escapeBibTeX(value: string): string {
+  return value.replace(/([&%$#_])/g, '\\$1');
+}
+
+/**
+ * Formats entries as a BibTeX database
+ * @param entries - The entries
+ * @returns The BibTeX source
+ */
+export function toBibTeX(entries: BibEntry[]): string {
+  return entries
+    .map(entry => {
+      const type =
+        entry.kind === 'conference'
+          ? 'inproceedings'
+          : entry.kind === 'journal'
+            ? 'article'
+            : 'misc';
+      const venueField =
+        entry.kind === 'conference'
+          ? 'booktitle'
+          : entry.kind === 'journal'
+            ? 'journal'
+            : 'howpublished';
+      const fields: [string, string | number | undefined][] = [
+        [
+          'author',
+          entry.authors
+            .map(author => (author.given ? `${author.family}, ${author.given}` : author.family))
+            .join(' and ') || undefined,
+        ],
+        ['title', entry.title],
+        [venueField, entry.venue],
+        ['year', entry.year],
+        ['doi', entry.doi],
+        ['eprint', entry.arxivId],
+        ['archivePrefix', entry.arxivId ? 'arXiv' : undefined],
+        ['url', entry.url],
+      ];
+      const body = fields
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([name, value]) => `  ${name} = {${escapeBibTeX(String(value))}},`)
+        .join('\n');
+      return `@${type}{${entry.id},\n${body}\n}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Converts entries to CSL-JSON items
+ * @param entries - The entries
+ * @returns The items
+ */
+export function toCslJson(entries: BibEntry[]): CslItem[] {
+  const types: Record<BibEntryKind, string> = {
+    conference: 'paper-conference',
+    journal: 'article-journal',
+    preprint: 'article',
+    other: 'document',
+  };
+
+  return entries.map(entry => {
+    const url = entry.url ?? (entry.arxivId ? `https://arxiv.org/abs/${entry.arxivId}` : undefined);
+    const item: CslItem = {
+      id: entry.id,
+      type: types[entry.kind],
+      title: entry.title,
+      author: entry.authors.length > 0 ? entry.authors : undefined,
+      issued: entry.year ? { 'date-parts': [[entry.year]] } : undefined,
+      'container-title': entry.venue,
+      DOI: entry.doi,
+      URL: url,
+      number: entry.arxivId ? `arXiv:${entry.arxivId}` : undefined,
+    };
+    // Leave out missing fields rather than writing them as undefined
+    for (const key of Object.keys(item) as (keyof CslItem)[]) {
+      if (item[key] === undefined) {
+        delete item[key];
+      }
+    }
+    return item;
+  });
+}
@@ -0,0 +1,219 @@
+/**
+ * Tuning parameters of a BM25 index
+ */
+export interface Bm25IndexOptions {
+  /**
+   * Term frequency saturation
+   * @default 1.2
+   */
+  k1?: number;
+
+  /**
+   * Document length normalization (0 = none, 1 = full)
+   * @default 0.75
+   */
+  b?: number;
+}
+
+/**
+ * A document found by the index
+ */
+export interface Bm25Match {
+  id: string;
+
+  /**
+   * BM25 score of the document for the query (higher is better, unbounded)
+   */
+  score: number;
+}
+
+/**
+ * Words too common to carry meaning
+ */
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be by for from has have in is it its of on or that the this to was ' +
+    'were which with we our their they these those not but can will been what how why who'
+  ).split(' ')
+);
+
+/**
+ * Alphanumeric runs, keeping internal hyphens, dots and underscores so that
+ * names like "GPT-4", "ResNet-50", "v1.5" and "d_model" survive as one token
+ */
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Splits text into lowercase search terms. Compound tokens ("BERT-base") are
+ * kept whole and also contribute their parts ("bert", "base").
+ * @param text - The text to tokenize
+ * @returns The terms, in order, with repetitions
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const [token] of text.normalize('NFKC').toLowerCase().matchAll(TOKEN_PATTERN)) {
+    const parts = token.split(/[-_.]/);
+    if (parts.length > 1) {
+      terms.push(token);
+    }
+    for (const part of parts) {
+      if (!STOPWORDS.has(part)) {
+        terms.push(part);
+      }
+    }
+  }
+  return terms;
+}
+
+/**
+ * Okapi BM25 keyword index over document texts
+ */
+export class Bm25Index {
+  readonly k1: number;
+  readonly b: number;
+  private postings: Map<string, Map<string, number>>;
+  private lengths: Map<string, number>;
+  private documentTerms: Map<string, string[]>;
+  private totalLength = 0;
+
+  /**
+   * Creates a new, empty Bm25Index
+   * @param options - Tuning parameters
+   */
+  constructor(options: Bm25IndexOptions = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.postings = new Map();
+    this.lengths = new Map();
+    this.documentTerms = new Map();
+  }
+
+  /**
+   * Gets the number of indexed documents
+   */
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  /**
+   * Indexes a document, replacing any document with the same id
+   * @param id - Identifier of the document
+   * @param text - The document text
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const terms = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+    for (const [term, frequency] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.lengths.set(id, terms.length);
+    this.documentTerms.set(id, [...frequencies.keys()]);
+    this.totalLength += terms.length;
+  }
+
+  /**
+   * Removes a document from the index
+   * @param id - Identifier of the document
+   * @returns True if the document was indexed
+   */
+  remove(id: string): boolean {
+    const length = this.lengths.get(id);
+    if (length === undefined) {
+      return false;
+    }
+
+    for (const term of this.documentTerms.get(id)!) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.lengths.delete(id);
+    this.documentTerms.delete(id);
+    this.totalLength -= length;
+    return true;
+  }
+
+  /**
+   * Removes every document from the index
+   */
+  clear(): void {
+    this.postings.clear();
+    this.lengths.clear();
+    this.documentTerms.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Contribution of one query term to the score of one document
+   */
+  private termScore(term: string, id: string): number {
+    const posting = this.postings.get(term);
+    const frequency = posting?.get(id);
+    if (!posting || !frequency) {
+      return 0;
+    }
+
+    const count = this.lengths.size;
+    const averageLength = this.totalLength / count || 1;
+    const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+    const norm = 1 - this.b + (this.b * this.lengths.get(id)!) / averageLength;
+    return (idf * frequency * (this.k1 + 1)) / (frequency + this.k1 * norm);
+  }
+
+  /**
+   * Computes the BM25 score of one document for a query
+   * @param query - The query text
+   * @param id - Identifier of the document
+   * @returns The score, 0 if the document shares no term with the query
+   */
+  score(query: string, id: string): number {
+    let score = 0;
+    for (const term of new Set(tokenize(query))) {
+      score += this.termScore(term, id);
+    }
+    return score;
+  }
+
+  /**
+   * Finds the documents best matching a query
+   * @param query - The query text
+   * @param k - Maximum number of matches
+   * @param filter - Optional predicate on document ids
+   * @returns Up to k matches with a positive score, best first
+   */
+  search(query: string, k: number, filter?: (id: string) => boolean): Bm25Match[] {
+    const terms = new Set(tokenize(query));
+    const candidates = new Set<string>();
+    for (const term of terms) {
+      for (const id of this.postings.get(term)?.keys() || []) {
+        candidates.add(id);
+      }
+    }
+
+    const matches: Bm25Match[] = [];
+    for (const id of candidates) {
+      if (filter && !filter(id)) {
+        continue;
+      }
+      let score = 0;
+      for (const term of terms) {
+        score += this.termScore(term, id);
+      }
+      matches.push({ id, score });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+}
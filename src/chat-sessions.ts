@@ -0,0 +1,210 @@
+import { randomBytes } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import type { AgentInputItem } from '@openai/agents';
+import type { Citation } from './gansgta-agent.js';
+import { writeFileAtomic } from './paper-library.js';
+
+/**
+ * Directory of the library holding chat sessions
+ */
+export const SESSIONS_DIR_NAME = 'sessions';
+
+/**
+ * A message of a chat transcript
+ */
+export interface SessionMessage {
+  role: 'user' | 'assistant';
+  content: string;
+
+  /**
+   * ISO timestamp of the message
+   */
+  at: string;
+
+  /**
+   * Excerpts the answer cites (assistant messages only)
+   */
+  sources?: Citation[];
+}
+
+/**
+ * A chat session, saved in the library so it can be resumed
+ */
+export interface ChatSession {
+  /**
+   * Session id, e.g. "20261019-170512-3fa2c1"
+   */
+  id: string;
+
+  /**
+   * Title of the session: its first question
+   */
+  title: string;
+
+  /**
+   * Persona the session is held with
+   */
+  persona: string;
+
+  /**
+   * Model the session is held with, if not the persona's or the default
+   */
+  model?: string;
+
+  /**
+   * Ids of the papers in scope; empty for the whole library
+   */
+  paperIds: string[];
+
+  /**
+   * ISO timestamp of the creation of the session
+   */
+  createdAt: string;
+
+  /**
+   * ISO timestamp of the last change to the session
+   */
+  updatedAt: string;
+
+  /**
+   * Full transcript, as shown to the user
+   */
+  transcript: SessionMessage[];
+
+  /**
+   * Conversation as sent to the model: older turns rolled into a summary,
+   * followed by the recent turns
+   */
+  history: AgentInputItem[];
+}
+
+/**
+ * Error raised when a session cannot be found
+ */
+export class SessionNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+/**
+ * Chat sessions stored as JSON files in `<libraryDir>/sessions`
+ */
+export class ChatSessionStore {
+  readonly dir: string;
+
+  /**
+   * Creates a new ChatSessionStore
+   * @param libraryDir - The library directory
+   */
+  constructor(libraryDir: string) {
+    this.dir = join(libraryDir, SESSIONS_DIR_NAME);
+  }
+
+  /**
+   * Starts a new, unsaved session
+   * @param options - Persona, model and papers of the session
+   * @returns The session
+   */
+  create(options: { persona: string; model?: string; paperIds?: string[] }): ChatSession {
+    const now = new Date();
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    return {
+      id: `${stamp}-${randomBytes(3).toString('hex')}`,
+      title: '',
+      persona: options.persona,
+      model: options.model,
+      paperIds: options.paperIds ?? [],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      transcript: [],
+      history: [],
+    };
+  }
+
+  /**
+   * Saves a session, updating its timestamp and title
+   * @param session - The session
+   */
+  async save(session: ChatSession): Promise<void> {
+    session.updatedAt = new Date().toISOString();
+    session.title ||= session.transcript.find(message => message.role === 'user')?.content ?? '';
+    await mkdir(this.dir, { recursive: true });
+    await writeFileAtomic(join(this.dir, `${session.id}.json`), JSON.stringify(session, null, 2));
+  }
+
+  /**
+   * Lists the saved sessions. Unreadable session files, e.g. truncated or
+   * edited by hand, are reported and skipped.
+   * @returns The sessions, most recently updated first
+   */
+  async list(): Promise<ChatSession[]> {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+
+    const sessions: ChatSession[] = [];
+    for (const fileName of await readdir(this.dir)) {
+      if (!fileName.endsWith('.json')) {
+        continue;
+      }
+      const file = join(this.dir, fileName);
+      try {
+        const session = JSON.parse(await readFile(file, 'utf-8'));
+        if (
+          typeof session?.id !== 'string' ||
+          typeof session.updatedAt !== 'string' ||
+          !Array.isArray(session.transcript)
+        ) {
+          throw new Error('not a chat session');
+        }
+        sessions.push(session);
+      } catch (error) {
+        console.warn(
+          `Skipping unreadable session ${file}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Loads a session by its id or a unique id prefix; "last" loads the most
+   * recently updated session
+   * @param idOrPrefix - The session id or prefix
+   * @returns The session
+   * @throws SessionNotFoundError if no session, or more than one, matches
+   */
+  async load(idOrPrefix: string): Promise<ChatSession> {
+    const sessions = await this.list();
+    if (idOrPrefix === 'last' && sessions.length > 0) {
+      return sessions[0];
+    }
+
+    const matches = sessions.filter(session => session.id.startsWith(idOrPrefix));
+    const exact = matches.find(session => session.id === idOrPrefix);
+    if (exact || matches.length === 1) {
+      return exact ?? matches[0];
+    }
+    if (matches.length > 1) {
+      throw new SessionNotFoundError(
+        `Session id "${idOrPrefix}" is ambiguous: ${matches.map(session => session.id).join(', ')}`
+      );
+    }
+    throw new SessionNotFoundError(`No session with id "${idOrPrefix}" in ${this.dir}`);
+  }
+
+  /**
+   * Deletes a session
+   * @param idOrPrefix - The session id or prefix
+   * @returns The deleted session
+   */
+  async remove(idOrPrefix: string): Promise<ChatSession> {
+    const session = await this.load(idOrPrefix);
+    await rm(join(this.dir, `${session.id}.json`), { force: true });
+    return session;
+  }
+}
@@ -0,0 +1,549 @@
+import { parseArgs } from 'util';
+
+/**
+ * An option of a command, e.g. `--top-k <n>` or `--force`
+ */
+export interface OptionSpec {
+  type: 'string' | 'boolean';
+  description: string;
+
+  /**
+   * One-letter alias, e.g. "h" for `-h`
+   */
+  short?: string;
+
+  /**
+   * Name of the value shown in the help, e.g. "dir" for `--library <dir>`
+   * @default "value"
+   */
+  valueName?: string;
+
+  /**
+   * Values the option accepts; any other value is rejected
+   */
+  choices?: string[];
+
+  /**
+   * Value of the option when it is not given
+   */
+  default?: string;
+}
+
+/**
+ * A positional argument of a command
+ */
+export interface ArgumentSpec {
+  name: string;
+  description: string;
+  required?: boolean;
+
+  /**
+   * Whether the argument takes every remaining positional argument; only the
+   * last argument of a command can be variadic
+   */
+  variadic?: boolean;
+
+  /**
+   * Values the argument accepts; any other value is rejected
+   */
+  choices?: string[];
+}
+
+/**
+ * Values of the options of a command line, by option name
+ */
+export type OptionValues = Record<string, string | boolean | undefined>;
+
+/**
+ * A parsed command line, passed to the command it runs
+ */
+export interface CommandInvocation {
+  /**
+   * Names of the commands below the program, e.g. ["papers", "show"]
+   */
+  path: string[];
+
+  /**
+   * Positional arguments by name; variadic arguments as arrays
+   */
+  args: Record<string, string | string[] | undefined>;
+
+  /**
+   * Options of the command and of the commands above it
+   */
+  options: OptionValues;
+}
+
+/**
+ * A command of the command line. The program itself is the root command:
+ * its options are the global options, and the options of every command are
+ * also accepted by its subcommands.
+ */
+export interface CommandSpec {
+  name: string;
+
+  /**
+   * One line shown in the command list of the parent command
+   */
+  summary: string;
+
+  /**
+   * Longer text shown in the help of the command
+   */
+  description?: string;
+
+  args?: ArgumentSpec[];
+  options?: Record<string, OptionSpec>;
+  subcommands?: CommandSpec[];
+  examples?: string[];
+
+  /**
+   * Runs the command; commands without it only group their subcommands
+   */
+  run?: (invocation: CommandInvocation) => Promise<void>;
+}
+
+/**
+ * A command line resolved to the command it runs
+ */
+export interface ParsedCommandLine {
+  /**
+   * The program and the commands below it, down to the one to run
+   */
+  commands: CommandSpec[];
+
+  /**
+   * Whether the help of the command was asked for, or the command only groups
+   * subcommands and none was given
+   */
+  help: boolean;
+
+  invocation: CommandInvocation;
+}
+
+/**
+ * Error raised for an invalid command line, with the commands it was parsed
+ * down to so their help can be pointed at
+ */
+export class CommandLineError extends Error {
+  readonly commands: CommandSpec[];
+
+  constructor(message: string, commands: CommandSpec[]) {
+    super(message);
+    this.name = 'CommandLineError';
+    this.commands = commands;
+  }
+}
+
+/**
+ * Shells completion scripts can be generated for
+ */
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'] as const;
+
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number];
+
+/**
+ * The option every command accepts
+ */
+const HELP_OPTION: OptionSpec = { type: 'boolean', short: 'h', description: 'Show this help' };
+
+/**
+ * Collects the options accepted by the last of the commands: its own and
+ * those of the commands above it
+ */
+function optionsOf(commands: CommandSpec[]): Record<string, OptionSpec> {
+  return Object.assign({}, ...commands.map(command => command.options ?? {}), {
+    help: HELP_OPTION,
+  });
+}
+
+/**
+ * Parses a command line into the command to run, its arguments and options
+ * @param program - The root command
+ * @param argv - The arguments, without the node and script paths
+ * @returns The parsed command line
+ * @throws CommandLineError for unknown commands or options, missing or
+ *   unexpected arguments and values outside the choices
+ */
+export function parseCommandLine(program: CommandSpec, argv: string[]): ParsedCommandLine {
+  const commands = [program];
+  const rest: string[] = [];
+
+  // Find the commands first: options of a command can be given before its subcommand
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+    const command = commands[commands.length - 1];
+    if (token === '--') {
+      rest.push(...argv.slice(i));
+      break;
+    }
+    if (token.startsWith('-')) {
+      const option = findOption(optionsOf(commands), token);
+      rest.push(token);
+      if (option?.type === 'string' && !token.includes('=') && i + 1 < argv.length) {
+        rest.push(argv[++i]);
+      }
+      continue;
+    }
+
+    const subcommand = command.subcommands?.find(candidate => candidate.name === token);
+    if (subcommand) {
+      commands.push(subcommand);
+    } else if (!command.run) {
+      throw new CommandLineError(`Unknown command "${[...pathOf(commands), token].join(' ')}"`, [
+        ...commands,
+      ]);
+    } else {
+      rest.push(...argv.slice(i));
+      break;
+    }
+  }
+
+  const command = commands[commands.length - 1];
+  const specs = optionsOf(commands);
+  let values: OptionValues;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: rest,
+      options: Object.fromEntries(
+        Object.entries(specs).map(([name, spec]) => [
+          name,
+          {
+            type: spec.type,
+            ...(spec.short ? { short: spec.short } : {}),
+            ...(spec.default !== undefined ? { default: spec.default } : {}),
+          },
+        ])
+      ),
+      allowPositionals: true,
+    }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CommandLineError(message.replace(/\. To specify a positional.*$/, ''), commands);
+  }
+
+  const invocation: CommandInvocation = { path: pathOf(commands), args: {}, options: values };
+  if (values.help === true || !command.run) {
+    return { commands, help: true, invocation };
+  }
+
+  for (const [name, spec] of Object.entries(specs)) {
+    const value = values[name];
+    if (typeof value === 'string' && spec.choices && !spec.choices.includes(value)) {
+      throw new CommandLineError(
+        `Invalid value "${value}" for --${name}. Use ${spec.choices.join(', ')}.`,
+        commands
+      );
+    }
+  }
+
+  const args = command.args ?? [];
+  args.forEach((arg, index) => {
+    const values = arg.variadic ? positionals.slice(index) : positionals.slice(index, index + 1);
+    if (arg.required && values.length === 0) {
+      throw new CommandLineError(`Missing <${arg.name}>`, commands);
+    }
+    const invalid = values.find(value => arg.choices && !arg.choices.includes(value));
+    if (invalid !== undefined) {
+      throw new CommandLineError(
+        `Invalid ${arg.name} "${invalid}". Use ${arg.choices?.join(', ')}.`,
+        commands
+      );
+    }
+    invocation.args[arg.name] = arg.variadic ? values : values[0];
+  });
+  if (positionals.length > args.length && !args[args.length - 1]?.variadic) {
+    throw new CommandLineError(`Unexpected argument "${positionals[args.length]}"`, commands);
+  }
+
+  return { commands, help: false, invocation };
+}
+
+/**
+ * Finds the option an argument such as `--top-k`, `--top-k=3` or `-h` names
+ */
+function findOption(options: Record<string, OptionSpec>, token: string): OptionSpec | undefined {
+  if (token.startsWith('--')) {
+    return options[token.slice(2).split('=')[0]];
+  }
+  return Object.values(options).find(option => option.short === token.slice(1));
+}
+
+/**
+ * Names of the commands below the program
+ */
+function pathOf(commands: CommandSpec[]): string[] {
+  return commands.slice(1).map(command => command.name);
+}
+
+/**
+ * Formats the usage of an option, e.g. `-h, --help` or `--top-k <n>`
+ */
+function formatOptionUsage(name: string, option: OptionSpec): string {
+  const flag = option.short ? `-${option.short}, --${name}` : `--${name}`;
+  return option.type === 'string' ? `${flag} <${option.valueName ?? 'value'}>` : flag;
+}
+
+/**
+ * Formats the usage of an argument, e.g. `<id>`, `[paper...]`
+ */
+function formatArgumentUsage(arg: ArgumentSpec): string {
+  const name = arg.variadic ? `${arg.name}...` : arg.name;
+  return arg.required ? `<${name}>` : `[${name}]`;
+}
+
+/**
+ * Formats the help of a command: usage, subcommands, arguments, options,
+ * the options inherited from the commands above it and examples
+ * @param commands - The program and the commands below it, down to the one
+ *   to describe
+ * @returns The help text
+ */
+export function formatHelp(commands: CommandSpec[]): string {
+  const command = commands[commands.length - 1];
+  const usage = [commands.map(parent => parent.name).join(' ')];
+  if (command.subcommands?.length) {
+    usage.push(command.run ? '[command]' : '<command>');
+  }
+  usage.push('[options]', ...(command.args ?? []).map(formatArgumentUsage));
+
+  const sections: [string, [string, string][]][] = [
+    [
+      'Commands',
+      (command.subcommands ?? []).map(subcommand => [subcommand.name, subcommand.summary]),
+    ],
+    [
+      'Arguments',
+      (command.args ?? []).map(arg => [
+        formatArgumentUsage(arg),
+        arg.choices ? `${arg.description} (${arg.choices.join(', ')})` : arg.description,
+      ]),
+    ],
+    // The program has no global options above it: its own are the global ones
+    [
+      'Options',
+      describeOptions(commands.length > 1 ? (command.options ?? {}) : optionsOf(commands)),
+    ],
+    [
+      'Global options',
+      commands.length > 1 ? describeOptions(optionsOf(commands.slice(0, -1))) : [],
+    ],
+  ];
+  const width = Math.max(...sections.flatMap(([, rows]) => rows.map(([left]) => left.length)));
+
+  const lines = [`Usage: ${usage.join(' ')}`, '', command.description ?? command.summary];
+  for (const [title, rows] of sections) {
+    if (rows.length > 0) {
+      lines.push('', `${title}:`);
+      lines.push(...rows.map(([left, right]) => `  ${left.padEnd(width)}  ${right}`));
+    }
+  }
+  if (command.examples?.length) {
+    lines.push('', 'Examples:', ...command.examples.map(example => `  ${example}`));
+  }
+  if (command.subcommands?.length) {
+    lines.push('', `Run "${usage[0]} <command> --help" for the help of a command.`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Lists options for the help, with their choices and default
+ */
+function describeOptions(options: Record<string, OptionSpec>): [string, string][] {
+  return Object.entries(options).map(([name, option]) => {
+    const notes = [
+      ...(option.choices ? [option.choices.join(', ')] : []),
+      ...(option.default !== undefined ? [`default: ${option.default}`] : []),
+    ];
+    const description =
+      notes.length > 0 ? `${option.description} (${notes.join('; ')})` : option.description;
+    return [formatOptionUsage(name, option), description];
+  });
+}
+
+/**
+ * A command with everything completion needs to know about it
+ */
+interface CompletionNode {
+  /**
+   * Names of the commands below the program
+   */
+  path: string[];
+  subcommands: CommandSpec[];
+  options: Record<string, OptionSpec>;
+
+  /**
+   * Values of the positional arguments that have choices
+   */
+  argumentChoices: string[];
+}
+
+/**
+ * Lists the program and every command below it
+ */
+function completionNodes(commands: CommandSpec[]): CompletionNode[] {
+  const command = commands[commands.length - 1];
+  return [
+    {
+      path: pathOf(commands),
+      subcommands: command.subcommands ?? [],
+      options: optionsOf(commands),
+      argumentChoices: (command.args ?? []).flatMap(arg => arg.choices ?? []),
+    },
+    ...(command.subcommands ?? []).flatMap(subcommand =>
+      completionNodes([...commands, subcommand])
+    ),
+  ];
+}
+
+/**
+ * Words completed after a command: its subcommands, argument choices and flags
+ */
+function completionWords(node: CompletionNode): string {
+  const flags = Object.entries(node.options).flatMap(([name, option]) =>
+    option.short ? [`--${name}`, `-${option.short}`] : [`--${name}`]
+  );
+  return [...node.subcommands.map(command => command.name), ...node.argumentChoices, ...flags].join(
+    ' '
+  );
+}
+
+/**
+ * Generates a shell completion script for a program: its commands, options
+ * and the choices of options and arguments. Paths, paper ids and other free
+ * values fall back to the completion of file names.
+ * @param program - The root command
+ * @param shell - The shell to generate the script for
+ * @returns The script
+ */
+export function completionScript(program: CommandSpec, shell: CompletionShell): string {
+  const nodes = completionNodes([program]);
+  const fn = `_${program.name.replace(/[^A-Za-z0-9]/g, '_')}`;
+  if (shell === 'fish') {
+    return fishCompletionScript(program.name, nodes);
+  }
+
+  // Both shells walk the words typed so far down the command tree, then
+  // complete the value of the previous option or the words of the command
+  const paths = nodes.slice(1).map(node => `" ${node.path.join(' ')}"`);
+  const cases = nodes.map(node => {
+    const valueCases = Object.entries(node.options)
+      .filter(([, option]) => option.type === 'string')
+      .map(([name, option]) =>
+        option.choices
+          ? `        --${name}) candidates="${option.choices.join(' ')}" ;;`
+          : `        --${name}) candidates="" ;;`
+      );
+    return [
+      `    "${node.path.map(name => ` ${name}`).join('')}")`,
+      '      case "$prev" in',
+      ...valueCases,
+      `        *) candidates="${completionWords(node)}" ;;`,
+      '      esac',
+      '      ;;',
+    ].join('\n');
+  });
+
+  if (shell === 'bash') {
+    return [
+      `# bash completion for ${program.name}`,
+      `# Add to ~/.bashrc: source <(${program.name} completion bash)`,
+      `${fn}() {`,
+      '  local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}"',
+      '  local cmdpath="" candidates i',
+      '  for ((i = 1; i < COMP_CWORD; i++)); do',
+      '    case "$cmdpath ${COMP_WORDS[i]}" in',
+      `      ${paths.join('|')}) cmdpath="$cmdpath \${COMP_WORDS[i]}" ;;`,
+      '    esac',
+      '  done',
+      '  case "$cmdpath" in',
+      ...cases,
+      '  esac',
+      '  COMPREPLY=($(compgen -W "$candidates" -- "$cur"))',
+      '}',
+      `complete -o default -F ${fn} ${program.name}`,
+      '',
+    ].join('\n');
+  }
+
+  return [
+    `#compdef ${program.name}`,
+    `# zsh completion for ${program.name}`,
+    `# Add to ~/.zshrc: source <(${program.name} completion zsh)`,
+    `${fn}() {`,
+    '  local prev="${words[CURRENT-1]}" cmdpath="" candidates i',
+    '  for ((i = 2; i < CURRENT; i++)); do',
+    '    case "$cmdpath ${words[i]}" in',
+    `      ${paths.join('|')}) cmdpath="$cmdpath \${words[i]}" ;;`,
+    '    esac',
+    '  done',
+    '  case "$cmdpath" in',
+    ...cases,
+    '  esac',
+    '  compadd -- ${=candidates} || _files',
+    '}',
+    `compdef ${fn} ${program.name}`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generates the fish completion script; fish matches the subcommands typed
+ * so far itself
+ */
+function fishCompletionScript(name: string, nodes: CompletionNode[]): string {
+  const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  const condition = (node: CompletionNode) => {
+    const seen = node.path.map(command => `__fish_seen_subcommand_from ${command}`);
+    const next = node.subcommands.map(command => command.name);
+    const conditions =
+      node.path.length === 0
+        ? ['__fish_use_subcommand']
+        : [
+            ...seen,
+            ...(next.length > 0 ? [`not __fish_seen_subcommand_from ${next.join(' ')}`] : []),
+          ];
+    return ` -n ${quote(conditions.join('; and '))}`;
+  };
+
+  const lines = [
+    `# fish completion for ${name}`,
+    `# Add to config.fish: ${name} completion fish | source`,
+  ];
+  for (const node of nodes) {
+    const parent = nodes.find(
+      candidate => candidate.path.join(' ') === node.path.slice(0, -1).join(' ')
+    );
+    for (const subcommand of node.subcommands) {
+      lines.push(
+        `complete -c ${name}${condition(node)} -a ${subcommand.name} -d ${quote(subcommand.summary)}`
+      );
+    }
+    if (node.argumentChoices.length > 0) {
+      lines.push(
+        `complete -c ${name}${condition(node)} -x -a ${quote(node.argumentChoices.join(' '))}`
+      );
+    }
+    // Options are listed once, at the command that declares them
+    const inherited = node.path.length > 0 && parent ? parent.options : {};
+    for (const [optionName, option] of Object.entries(node.options)) {
+      if (optionName in inherited) {
+        continue;
+      }
+      const when = node.path.length > 0 ? condition({ ...node, subcommands: [] }) : '';
+      const short = option.short ? ` -s ${option.short}` : '';
+      const value =
+        option.type === 'string'
+          ? option.choices
+            ? ` -x -a ${quote(option.choices.join(' '))}`
+            : ' -r'
+          : '';
+      lines.push(
+        `complete -c ${name}${when}${short} -l ${optionName}${value} -d ${quote(option.description)}`
+      );
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
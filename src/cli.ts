@@ -1,66 +1,1056 @@
 #!/usr/bin/env node
 
+import { join } from 'path';
+import { toBibTeX, toCslJson } from './bibliography.js';
+import {
+  CommandLineError,
+  CommandSpec,
+  COMPLETION_SHELLS,
+  CompletionShell,
+  completionScript,
+  formatHelp,
+  OptionSpec,
+  OptionValues,
+  parseCommandLine,
+} from './cli-parser.js';
+import {
+  COMMAND_LINE_ORIGIN,
+  CONFIG_SETTINGS,
+  ConfigKey,
+  DEFAULT_ORIGIN,
+  findProjectConfig,
+  formatSettingValue,
+  getSetting,
+  LoadedConfig,
+  loadConfig,
+  PROJECT_CONFIG_FILE_NAME,
+  setConfigValue,
+  userConfigPath,
+} from './config.js';
+import { createEmbeddingProvider, HASH_EMBEDDING_MODEL } from './embedding-providers.js';
+import { DEFAULT_EMBEDDING_MODEL, GangstaAgent } from './gansgta-agent.js';
+import { formatSourceLocation, GChat } from './g-chat.js';
+import { parseMetadataFilter } from './metadata-filter.js';
+import {
+  loadModelRegistry,
+  MODEL_CAPABILITY_NAMES,
+  ModelCapabilities,
+  MODELS_FILE_NAME,
+} from './model-registry.js';
+import { formatComparisonMarkdown } from './paper-comparison.js';
+import { formatDigestMarkdown } from './paper-digest.js';
+import { PaperLibrary, PaperManifest } from './paper-library.js';
+import { formatToolCall } from './paper-tools.js';
+import { ask, AskError, AskResult, formatAskMarkdown } from './ask.js';
+import { ChatSessionStore } from './chat-sessions.js';
+import { loadPersonas, PERSONAS_DIR_NAME, resolvePersona } from './personas.js';
+
+/**
+ * Name of the program, as installed by npm
+ */
+const PROGRAM_NAME = 'research-gangsta';
+
+/**
+ * Old `--command` flags, and the subcommands they stand for
+ */
+const LEGACY_COMMANDS: Record<string, string[]> = {
+  '--ingest': ['ingest'],
+  '--papers': ['papers', 'list'],
+  '--paper': ['papers', 'show'],
+  '--remove': ['papers', 'rm'],
+  '--bib': ['papers', 'bib'],
+  '--gchat': ['chat'],
+  '--resume': ['chat', '--resume'],
+  '--sessions': ['sessions'],
+  '--ask': ['ask'],
+  '--search': ['search'],
+  '--digest': ['digest'],
+  '--compare': ['compare'],
+  '--personas': ['personas'],
+  '--models': ['models'],
+  '--prune-cache': ['cache', 'prune'],
+};
+
+/**
+ * Settings and global options, resolved once for the command that runs
+ */
+interface CommandContext {
+  library: PaperLibrary;
+  config: LoadedConfig;
+
+  /**
+   * Model set on the command line, in the environment or a config file;
+   * undefined lets the persona pick
+   */
+  model?: string;
+
+  persona: string;
+  json: boolean;
+  verbose: boolean;
+}
+
+/**
+ * Loads the config, with the global options of a command line on top
+ */
+async function createContext(options: OptionValues): Promise<CommandContext> {
+  const config = await loadConfig({
+    overrides: {
+      library: options.library as string | undefined,
+      model: options.model as string | undefined,
+      persona: options.persona as string | undefined,
+    },
+  });
+  const { settings, origins } = config;
+  // The OpenAI clients read the key from the environment
+  if (settings.openai.apiKey && !process.env.OPENAI_API_KEY) {
+    process.env.OPENAI_API_KEY = settings.openai.apiKey;
+  }
+
+  return {
+    library: new PaperLibrary(settings.library),
+    config,
+    model: origins.model === DEFAULT_ORIGIN ? undefined : settings.model,
+    persona: settings.persona,
+    json: options.json === true,
+    verbose: options.verbose === true,
+  };
+}
+
+/**
+ * Prints a value as indented JSON
+ */
+function printJson(value: unknown) {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Parses a size such as "512MB", "1.5GB" or "1048576"
+ * @returns The size in bytes
+ */
+function parseSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i);
+  if (!match) {
+    throw new Error(`Invalid size "${value}". Use a number of bytes or e.g. 200MB, 1GB.`);
+  }
+  const units: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+  return Math.round(parseFloat(match[1]) * units[(match[2] || 'b').toLowerCase()]);
+}
+
+/**
+ * Parses a positive number of results or excerpts
+ */
+function parseTopK(value: string | undefined, fallback: number, what: string): number {
+  const topK = value === undefined ? fallback : Number(value);
+  if (!Number.isInteger(topK) || topK < 1) {
+    throw new Error(`Invalid number of ${what} "${value}"`);
+  }
+  return topK;
+}
+
+/**
+ * Formats a size in bytes for display
+ */
+function formatSize(bytes: number): string {
+  return bytes >= 1024 ** 2
+    ? `${(bytes / 1024 ** 2).toFixed(1)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
 /**
- * Display usage information
+ * Prints a one-line summary of a paper
  */
-function showUsage() {
-  console.log('Hello, Research Gangsta!');
-  console.log('\nUsage:');
-  console.log('  npx research-gangsta --ingest <file.pdf>  Ingest a research paper');
-  console.log('  npx research-gangsta --gchat              Chat with "The G"');
-  console.log('\nExamples:');
-  console.log('  npx research-gangsta --ingest ./paper.pdf');
-  console.log('  npx research-gangsta --gchat');
+function printPaperLine(paper: PaperManifest) {
+  console.log(
+    `  ${paper.id}  ${paper.title} (${paper.pageCount} pages, ${paper.chunkCount} chunks)`
+  );
 }
 
 /**
  * Handle paper ingestion
  */
-function handleIngest(filePath: string) {
-  console.log('Hello, Research Gangsta!');
-  console.log(`\nIngesting paper: ${filePath}`);
-  console.log('\nPaper ingestion functionality coming soon!');
-  console.log('This will analyze and extract key information from your research paper.');
+async function handleIngest(
+  context: CommandContext,
+  filePath: string,
+  options: { embeddingModel?: string; force: boolean }
+) {
+  const { library } = context;
+  // With --json, stdout only gets the manifest
+  const print = context.json ? console.error : console.log;
+  const progress = context.json ? process.stderr : process.stdout;
+
+  const { settings, origins } = context.config;
+  const embeddingModel = options.embeddingModel ?? settings.embedding.model;
+  if (
+    !options.embeddingModel &&
+    origins['embedding.model'] === DEFAULT_ORIGIN &&
+    embeddingModel === HASH_EMBEDDING_MODEL
+  ) {
+    print(`OPENAI_API_KEY is not set, using the offline ${HASH_EMBEDDING_MODEL} embedder.`);
+  }
+
+  print('Hello, Research Gangsta!');
+  print(`\nIngesting paper: ${filePath}`);
+
+  const { manifest, alreadyIngested } = await library.ingest(filePath, {
+    embeddingProvider: createEmbeddingProvider(embeddingModel),
+    force: options.force,
+    batching: {
+      onProgress: (done, total) => progress.write(`\r  Embedded ${done}/${total} chunks`),
+    },
+  });
+
+  if (context.json) {
+    console.error('');
+    printJson({ ...manifest, alreadyIngested });
+    return;
+  }
+  if (alreadyIngested) {
+    console.log(`\nAlready in the library as ${manifest.id} (use --force to re-ingest).`);
+    return;
+  }
+
+  console.log(`\nIngested "${manifest.title}" as ${manifest.id}`);
+  console.log(
+    `  ${manifest.pageCount} pages, ${manifest.chunkCount} chunks, ${manifest.embeddingModel}`
+  );
+  console.log(`  Library: ${library.dir}`);
+
+  const { hits, misses } = await library.embeddingCache.getStats();
+  console.log(`  Embedding cache: ${hits} hits, ${misses} misses`);
+}
+
+/**
+ * Handle listing ingested papers
+ */
+async function handleListPapers(context: CommandContext) {
+  const { library } = context;
+  const papers = await library.listPapers();
+
+  if (context.json) {
+    printJson(papers);
+    return;
+  }
+  if (papers.length === 0) {
+    console.log(`No papers in ${library.dir} yet.`);
+    console.log(`\nExample: npx ${PROGRAM_NAME} ingest ./paper.pdf`);
+    return;
+  }
+
+  console.log(`Papers in ${library.dir}:\n`);
+  papers.forEach(printPaperLine);
 }
 
 /**
- * Handle G-Chat
+ * Handle showing a single ingested paper
  */
-function handleGChat() {
-  console.log('Hello, The G!');
-  console.log('\nWelcome to G-Chat! Chat with "The G" to upgrade your knowledge.');
-  console.log('\nG-Chat functionality coming soon!');
-  console.log('This will provide an interactive chat interface to discuss ingested papers.');
+async function handleShowPaper(context: CommandContext, id: string) {
+  const { library } = context;
+  const paper = await library.getPaper(id);
+  const chunks = await library.getChunks(paper.id);
+  const sections = [...new Set(chunks.map(chunk => chunk.metadata?.section).filter(Boolean))];
+
+  if (context.json) {
+    printJson({ ...paper, sections });
+    return;
+  }
+
+  console.log(`${paper.title}\n`);
+  console.log(`  Id:          ${paper.id}`);
+  console.log(`  File:        ${paper.sourcePath}`);
+  console.log(`  SHA-256:     ${paper.hash}`);
+  console.log(`  Pages:       ${paper.pageCount}`);
+  console.log(`  Chunks:      ${paper.chunkCount}`);
+  if (paper.referenceCount !== undefined) {
+    console.log(`  References:  ${paper.referenceCount}`);
+  }
+  console.log(`  Embeddings:  ${paper.embeddingModel} (${paper.embeddingDimension} dimensions)`);
+  console.log(`  Ingested:    ${paper.ingestedAt}`);
+  console.log('\nSections:');
+  sections.forEach(section => console.log(`  - ${section}`));
 }
 
 /**
- * CLI entry point for research-gangsta
+ * Handle removing an ingested paper
+ */
+async function handleRemovePaper(context: CommandContext, id: string) {
+  const paper = await context.library.removePaper(id);
+  if (context.json) {
+    printJson(paper);
+  } else {
+    console.log(`Removed "${paper.title}" (${paper.id}).`);
+  }
+}
+
+/**
+ * Creates the agent for the selected persona, from the built-ins and the
+ * persona files of the library
  */
-function main() {
-  const args = process.argv.slice(2);
+async function createAgent(
+  context: CommandContext,
+  options: { model?: string; persona?: string } = context
+): Promise<GangstaAgent> {
+  const { library } = context;
+  const personas = await loadPersonas(library.dir);
+  const persona = resolvePersona(options.persona ?? context.persona, personas);
+  const model = options.model ?? persona.model ?? context.config.settings.model;
+  if (context.verbose) {
+    console.error(`Using ${model} as ${persona.name}, library ${library.dir}`);
+  }
+  return new GangstaAgent({
+    ...persona,
+    model,
+    modelRegistry: await loadModelRegistry(library.dir),
+  });
+}
 
-  if (args.length === 0) {
-    showUsage();
-    process.exit(0);
+/**
+ * Handle listing the models the agent can run on
+ */
+async function handleListModels(context: CommandContext) {
+  const { library } = context;
+  const registry = await loadModelRegistry(library.dir);
+  if (context.json) {
+    printJson(registry.list());
+    return;
   }
 
-  const command = args[0];
+  for (const model of registry.list()) {
+    const capabilities = Object.entries(model.capabilities)
+      .filter(([, supported]) => supported)
+      .map(([capability]) => MODEL_CAPABILITY_NAMES[capability as keyof ModelCapabilities]);
+    const server = model.baseURL ? ` at ${model.baseURL}` : '';
+    const supports = capabilities.join(', ') || 'no tools, structured output or streaming';
+    console.log(
+      `  ${model.id}  ${model.provider}${server}, ${model.contextWindow} tokens, ${supports}`
+    );
+  }
+  console.log(`\nRegister more in ${join(library.dir, MODELS_FILE_NAME)}.json, .yaml or .yml`);
+}
 
-  if (command === '--ingest') {
-    if (args.length < 2) {
-      console.error('Error: --ingest requires a file path');
-      console.log('\nExample: npx research-gangsta --ingest ./paper.pdf');
-      process.exit(1);
+/**
+ * Handle listing the available personas
+ */
+async function handleListPersonas(context: CommandContext) {
+  const { library } = context;
+  const personas = await loadPersonas(library.dir);
+  // Principle packs have no name and cannot be used on their own
+  const ids = [...personas.keys()].filter(id => personas.get(id)?.name);
+  if (context.json) {
+    printJson(ids.map(id => ({ id, ...resolvePersona(id, personas) })));
+    return;
+  }
+
+  for (const id of ids) {
+    const persona = resolvePersona(id, personas);
+    console.log(`  ${id}  ${persona.name}: ${persona.description}`);
+  }
+  console.log(`\nAdd your own as JSON or YAML files in ${join(library.dir, PERSONAS_DIR_NAME)}`);
+}
+
+/**
+ * Handle G-Chat, in a new session saved to the library, or in a saved session
+ * with its persona and model unless others are given
+ */
+async function handleChat(context: CommandContext, paperIds: string[], resume?: string) {
+  const { library } = context;
+  const sessions = new ChatSessionStore(library.dir);
+  if (resume === undefined) {
+    const agent = await createAgent(context);
+    const session = sessions.create({
+      persona: context.persona,
+      model: context.model,
+      paperIds,
+    });
+    await new GChat({ agent, library, paperIds, session, sessions }).start();
+    return;
+  }
+
+  if (paperIds.length > 0) {
+    throw new Error('A resumed chat keeps its papers. Switch papers with /paper in the chat.');
+  }
+  const session = await sessions.load(resume);
+  const { origins } = context.config;
+  if (origins.persona === COMMAND_LINE_ORIGIN) {
+    session.persona = context.persona;
+  }
+  if (origins.model === COMMAND_LINE_ORIGIN) {
+    session.model = context.model;
+  }
+  const agent = await createAgent(context, session);
+  await new GChat({ agent, library, session, sessions }).start();
+}
+
+/**
+ * Handle listing the saved G-Chat sessions
+ */
+async function handleListSessions(context: CommandContext) {
+  const { library } = context;
+  const sessions = await new ChatSessionStore(library.dir).list();
+  if (context.json) {
+    printJson(
+      sessions.map(session => ({
+        id: session.id,
+        title: session.title,
+        persona: session.persona,
+        model: session.model,
+        paperIds: session.paperIds,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        questions: session.transcript.filter(message => message.role === 'user').length,
+      }))
+    );
+    return;
+  }
+  if (sessions.length === 0) {
+    console.log(`No saved G-Chat sessions in ${library.dir} yet.`);
+    console.log(`\nStart one with: npx ${PROGRAM_NAME} chat`);
+    return;
+  }
+
+  for (const session of sessions) {
+    const questions = session.transcript.filter(message => message.role === 'user').length;
+    const papers = session.paperIds.length > 0 ? session.paperIds.join(', ') : 'all papers';
+    const title = session.title.length > 60 ? `${session.title.slice(0, 57)}...` : session.title;
+    console.log(`  ${session.id}  ${title || '(no questions yet)'}`);
+    console.log(
+      `      ${session.updatedAt.slice(0, 16).replace('T', ' ')}, ${questions} questions, ${session.persona}, ${papers}`
+    );
+  }
+  console.log(`\nResume one with: npx ${PROGRAM_NAME} chat --resume <session>`);
+}
+
+/**
+ * Handle asking a one-shot question, ending with a distinct exit code when
+ * there are no papers, nothing relevant is found or the model fails
+ */
+async function handleAsk(
+  context: CommandContext,
+  question: string,
+  paperIds: string[],
+  options: { format?: string; topK?: string }
+) {
+  const format = context.json ? 'json' : (options.format ?? 'markdown');
+  const topK = parseTopK(options.topK, context.config.settings.search.topK, 'excerpts');
+
+  const agent = await createAgent(context);
+  let result: AskResult;
+  try {
+    result = await ask(agent, context.library, question, {
+      paperIds,
+      persona: context.persona,
+      topK,
+      onToolCall: context.verbose
+        ? call => console.error(`  (${formatToolCall(call)})`)
+        : undefined,
+    });
+  } catch (error) {
+    if (error instanceof AskError) {
+      console.error(`Error: ${error.message}`);
+      process.exit(error.exitCode);
+    }
+    throw error;
+  }
+
+  if (format === 'json') {
+    printJson(result);
+  } else {
+    process.stdout.write(formatAskMarkdown(result));
+  }
+}
+
+/**
+ * Handle searching the chunks of every paper in the library
+ */
+async function handleSearch(
+  context: CommandContext,
+  query: string,
+  options: { where?: string; topK?: string }
+) {
+  const { library } = context;
+  const where = options.where === undefined ? undefined : parseMetadataFilter(options.where);
+  const topK = parseTopK(options.topK, context.config.settings.search.topK, 'results');
+
+  const papers = await library.listPapers();
+  if (papers.length === 0) {
+    if (context.json) {
+      printJson([]);
+    } else {
+      console.log(`No papers in ${library.dir} yet.`);
+      console.log(`\nExample: npx ${PROGRAM_NAME} ingest ./paper.pdf`);
     }
-    handleIngest(args[1]);
-  } else if (command === '--gchat') {
-    handleGChat();
+    return;
+  }
+
+  const store = await library.openStore(papers.map(paper => paper.id));
+  const results = await store.hybridSearch(query, { topK, where });
+  if (context.json) {
+    printJson(
+      results.map(({ document, score, semanticScore, lexicalScore }) => ({
+        id: document.id,
+        score,
+        semanticScore,
+        lexicalScore,
+        metadata: document.metadata,
+        content: document.content,
+      }))
+    );
+    return;
+  }
+  if (results.length === 0) {
+    console.log('No matching chunks.');
+    return;
+  }
+
+  for (const result of results) {
+    const location = formatSourceLocation(result);
+    const excerpt = result.document.content.replace(/\s+/g, ' ').trim();
+    console.log(`\n[${result.document.id}] ${location}`);
+    console.log(`  ${excerpt.length > 240 ? `${excerpt.slice(0, 240)}...` : excerpt}`);
+  }
+}
+
+/**
+ * Handle writing the digest of a paper
+ */
+async function handleDigest(context: CommandContext, id: string, format = 'markdown') {
+  const { library } = context;
+  const paper = await library.getPaper(id);
+  const store = await library.openStore([paper.id]);
+  const agent = await createAgent(context);
+  const { digest, citations } = await agent.digest(store, { paperId: paper.id });
+
+  if (context.json || format === 'json') {
+    printJson({ paperId: paper.id, ...digest, citations });
+  } else {
+    process.stdout.write(formatDigestMarkdown(digest, citations));
+  }
+}
+
+/**
+ * Handle comparing papers side by side
+ */
+async function handleCompare(context: CommandContext, ids: string[], format = 'markdown') {
+  const { library } = context;
+  if (ids.length < 2) {
+    throw new Error('compare requires at least two paper ids');
+  }
+
+  const papers = await Promise.all(ids.map(id => library.getPaper(id)));
+  const paperIds = papers.map(paper => paper.id);
+  const store = await library.openStore(paperIds);
+  const agent = await createAgent(context);
+  const { matrix, citations } = await agent.compare(store, paperIds);
+
+  if (context.json || format === 'json') {
+    printJson({ ...matrix, citations });
+  } else {
+    process.stdout.write(formatComparisonMarkdown(matrix, citations));
+  }
+}
+
+/**
+ * Handle exporting the bibliography of a paper
+ */
+async function handleBibliography(context: CommandContext, id: string, format = 'bibtex') {
+  const { library } = context;
+  const paper = await library.getPaper(id);
+  const { entries } = await library.getBibliography(paper.id);
+  if (entries.length === 0) {
+    console.error(`No references found in "${paper.title}" (${paper.id}).`);
+    return;
+  }
+
+  if (context.json || format === 'csl-json') {
+    printJson(toCslJson(entries));
+  } else {
+    console.log(toBibTeX(entries));
+  }
+}
+
+/**
+ * Handle pruning the embedding cache
+ */
+async function handlePruneCache(
+  context: CommandContext,
+  options: { maxSize?: string; unusedFor?: string }
+) {
+  const { library } = context;
+  const days = options.unusedFor === undefined ? undefined : Number(options.unusedFor);
+  if (days !== undefined && !(days >= 0)) {
+    throw new Error(`Invalid number of days "${options.unusedFor}"`);
+  }
+
+  const { removed, stats } = await library.embeddingCache.prune({
+    maxSizeBytes: options.maxSize === undefined ? undefined : parseSize(options.maxSize),
+    unusedSince: days === undefined ? undefined : new Date(Date.now() - days * 86400000),
+  });
+
+  if (context.json) {
+    printJson({ removed, ...stats });
+    return;
+  }
+  console.log(`Pruned ${removed} entries from ${library.embeddingCache.dir}`);
+  console.log(`  ${stats.entries} entries left (${formatSize(stats.sizeBytes)})`);
+}
+
+/**
+ * Handle listing the settings, with where each one comes from
+ */
+async function handleListConfig(context: CommandContext, showOrigin: boolean) {
+  const { settings, origins } = context.config;
+  const keys = Object.keys(CONFIG_SETTINGS) as ConfigKey[];
+  if (context.json) {
+    printJson(
+      Object.fromEntries(
+        keys.map(key => {
+          const value = formatSettingValue(key, getSetting(settings, key));
+          return [key, showOrigin ? { value, origin: origins[key] } : value];
+        })
+      )
+    );
+    return;
+  }
+
+  const values = keys.map(key => formatSettingValue(key, getSetting(settings, key)));
+  const keyWidth = Math.max(...keys.map(key => key.length));
+  const valueWidth = Math.max(...values.map(value => value.length));
+  keys.forEach((key, i) => {
+    const line = `  ${key.padEnd(keyWidth)}  ${values[i].padEnd(valueWidth)}  (${origins[key]})`;
+    console.log(showOrigin ? line : `  ${key.padEnd(keyWidth)}  ${values[i]}`);
+  });
+}
+
+/**
+ * Handle printing a setting
+ */
+async function handleGetConfig(context: CommandContext, key: ConfigKey, showOrigin: boolean) {
+  const { settings, origins } = context.config;
+  const value = formatSettingValue(key, getSetting(settings, key));
+  if (context.json) {
+    printJson(showOrigin ? { key, value, origin: origins[key] } : { key, value });
+  } else {
+    console.log(showOrigin ? `${value}\t${origins[key]}` : value);
+  }
+}
+
+/**
+ * Handle changing a setting in the user or the project config file. The
+ * config is not loaded first, so a broken file can be fixed.
+ */
+async function handleSetConfig(
+  key: ConfigKey,
+  text: string,
+  options: { project: boolean; json: boolean }
+) {
+  const path = options.project
+    ? (findProjectConfig(process.cwd()) ?? join(process.cwd(), PROJECT_CONFIG_FILE_NAME))
+    : userConfigPath();
+  const value = await setConfigValue(path, key, text);
+  if (options.json) {
+    printJson({ key, value: formatSettingValue(key, value), file: path });
   } else {
-    console.error(`Error: Unknown command "${command}"`);
-    console.log('');
-    showUsage();
-    process.exit(1);
+    console.log(`Set ${key} to ${formatSettingValue(key, value)} in ${path}`);
+  }
+}
+
+/**
+ * Option of the config commands printing settings
+ */
+const SHOW_ORIGIN: OptionSpec = {
+  type: 'boolean',
+  description: 'Show where each setting comes from: default, a file, a variable or command line',
+};
+
+/**
+ * Keys of the settings, for the help and completion of the config commands
+ */
+const CONFIG_KEYS = Object.keys(CONFIG_SETTINGS);
+
+/**
+ * Output format of the commands writing Markdown documents
+ */
+const MARKDOWN_FORMAT: OptionSpec = {
+  type: 'string',
+  valueName: 'format',
+  description: 'Output format',
+  choices: ['markdown', 'json'],
+  default: 'markdown',
+};
+
+/**
+ * The commands of research-gangsta, with their help and completion
+ */
+const program: CommandSpec = {
+  name: PROGRAM_NAME,
+  summary: 'Hello, Research Gangsta!',
+  description:
+    'Hello, Research Gangsta! Ingest papers, then search, ask, chat about, digest and compare them.',
+  options: {
+    library: {
+      type: 'string',
+      valueName: 'dir',
+      description: 'Paper library directory (default: the library setting)',
+    },
+    model: {
+      type: 'string',
+      valueName: 'model',
+      description: "Model The G runs on (default: the model setting, or the persona's)",
+    },
+    persona: {
+      type: 'string',
+      valueName: 'id',
+      description: 'Persona The G takes on (default: the persona setting)',
+    },
+    json: { type: 'boolean', description: 'Print JSON instead of text' },
+    verbose: {
+      type: 'boolean',
+      description: 'Print the model, tool calls and error stack traces to stderr',
+    },
+  },
+  examples: [
+    `npx ${PROGRAM_NAME} ingest ./paper.pdf`,
+    `npx ${PROGRAM_NAME} papers list --library ./.research-gangsta`,
+    `npx ${PROGRAM_NAME} chat attention --persona skeptical-reviewer`,
+    `npx ${PROGRAM_NAME} ask "Which dataset is used?" attention --json | jq .answer`,
+  ],
+  subcommands: [
+    {
+      name: 'ingest',
+      summary: 'Ingest a paper (PDF, LaTeX, HTML, Markdown, text)',
+      args: [{ name: 'file', description: 'The paper to ingest', required: true }],
+      options: {
+        'embedding-model': {
+          type: 'string',
+          valueName: 'model',
+          description: `Embedding model (default: ${DEFAULT_EMBEDDING_MODEL}, or ${HASH_EMBEDDING_MODEL} offline when OPENAI_API_KEY is unset)`,
+        },
+        force: { type: 'boolean', description: 'Re-ingest a paper that is already in the library' },
+      },
+      examples: [`npx ${PROGRAM_NAME} ingest ./paper.pdf`],
+      run: async ({ args, options }) =>
+        handleIngest(await createContext(options), args.file as string, {
+          embeddingModel: options['embedding-model'] as string | undefined,
+          force: options.force === true,
+        }),
+    },
+    {
+      name: 'papers',
+      summary: 'List, show, remove and export the references of ingested papers',
+      subcommands: [
+        {
+          name: 'list',
+          summary: 'List ingested papers',
+          run: async ({ options }) => handleListPapers(await createContext(options)),
+        },
+        {
+          name: 'show',
+          summary: 'Show title, hash, pages, sections and embedding model of a paper',
+          args: [{ name: 'id', description: 'Paper id or unique prefix', required: true }],
+          examples: [`npx ${PROGRAM_NAME} papers show attention`],
+          run: async ({ args, options }) =>
+            handleShowPaper(await createContext(options), args.id as string),
+        },
+        {
+          name: 'rm',
+          summary: 'Remove a paper',
+          args: [{ name: 'id', description: 'Paper id or unique prefix', required: true }],
+          run: async ({ args, options }) =>
+            handleRemovePaper(await createContext(options), args.id as string),
+        },
+        {
+          name: 'bib',
+          summary: 'Export the references of a paper',
+          args: [{ name: 'id', description: 'Paper id or unique prefix', required: true }],
+          options: {
+            format: {
+              type: 'string',
+              valueName: 'format',
+              description: 'Output format, csl-json with --json',
+              choices: ['bibtex', 'csl-json'],
+              default: 'bibtex',
+            },
+          },
+          examples: [`npx ${PROGRAM_NAME} papers bib attention --format csl-json > attention.json`],
+          run: async ({ args, options }) =>
+            handleBibliography(
+              await createContext(options),
+              args.id as string,
+              options.format as string | undefined
+            ),
+        },
+      ],
+    },
+    {
+      name: 'search',
+      summary: 'Search the chunks of ingested papers',
+      args: [{ name: 'query', description: 'What to search for', required: true, variadic: true }],
+      options: {
+        where: {
+          type: 'string',
+          valueName: 'json',
+          description: `Metadata filter, e.g. '{"section":{"ne":"References"}}'`,
+        },
+        'top-k': {
+          type: 'string',
+          valueName: 'n',
+          description: 'Number of results (default: the search.topK setting)',
+        },
+      },
+      examples: [
+        `npx ${PROGRAM_NAME} search "BLEU score" --where '{"paperId":{"in":["attention"]}}'`,
+      ],
+      run: async ({ args, options }) =>
+        handleSearch(await createContext(options), (args.query as string[]).join(' '), {
+          where: options.where as string | undefined,
+          topK: options['top-k'] as string | undefined,
+        }),
+    },
+    {
+      name: 'ask',
+      summary: 'Ask one question and print the answer',
+      description:
+        'Ask one question about the given papers (or the whole library) and print the answer. Exits with 3 when there are no papers, 4 when the model fails and 5 when nothing relevant is found.',
+      args: [
+        { name: 'question', description: 'The question', required: true },
+        { name: 'paper', description: 'Paper ids or unique prefixes', variadic: true },
+      ],
+      options: {
+        'top-k': {
+          type: 'string',
+          valueName: 'n',
+          description: 'Number of excerpts retrieved (default: the search.topK setting)',
+        },
+        format: MARKDOWN_FORMAT,
+      },
+      examples: [`npx ${PROGRAM_NAME} ask "Which dataset is used?" attention --json | jq .answer`],
+      run: async ({ args, options }) =>
+        handleAsk(await createContext(options), args.question as string, args.paper as string[], {
+          format: options.format as string | undefined,
+          topK: options['top-k'] as string | undefined,
+        }),
+    },
+    {
+      name: 'chat',
+      summary: 'Chat with "The G" about ingested papers',
+      args: [{ name: 'paper', description: 'Paper ids or unique prefixes', variadic: true }],
+      options: {
+        resume: {
+          type: 'string',
+          valueName: 'session',
+          description: 'Resume a saved session ("last" for the latest)',
+        },
+      },
+      examples: [
+        `npx ${PROGRAM_NAME} chat attention --model gpt-4.1-mini`,
+        `npx ${PROGRAM_NAME} chat --resume last`,
+      ],
+      run: async ({ args, options }) =>
+        handleChat(
+          await createContext(options),
+          args.paper as string[],
+          options.resume as string | undefined
+        ),
+    },
+    {
+      name: 'sessions',
+      summary: 'List saved G-Chat sessions',
+      run: async ({ options }) => handleListSessions(await createContext(options)),
+    },
+    {
+      name: 'digest',
+      summary: 'Write a structured digest of a paper',
+      args: [{ name: 'paper', description: 'Paper id or unique prefix', required: true }],
+      options: { format: MARKDOWN_FORMAT },
+      examples: [`npx ${PROGRAM_NAME} digest attention --json > attention.json`],
+      run: async ({ args, options }) =>
+        handleDigest(
+          await createContext(options),
+          args.paper as string,
+          options.format as string | undefined
+        ),
+    },
+    {
+      name: 'compare',
+      summary: 'Compare 2 to 5 papers side by side',
+      args: [
+        {
+          name: 'paper',
+          description: 'Paper ids or unique prefixes',
+          required: true,
+          variadic: true,
+        },
+      ],
+      options: { format: MARKDOWN_FORMAT },
+      examples: [`npx ${PROGRAM_NAME} compare attention bert gpt > comparison.md`],
+      run: async ({ args, options }) =>
+        handleCompare(
+          await createContext(options),
+          args.paper as string[],
+          options.format as string | undefined
+        ),
+    },
+    {
+      name: 'personas',
+      summary: 'List the personas The G can take on',
+      run: async ({ options }) => handleListPersonas(await createContext(options)),
+    },
+    {
+      name: 'models',
+      summary: 'List the models The G can run on',
+      run: async ({ options }) => handleListModels(await createContext(options)),
+    },
+    {
+      name: 'cache',
+      summary: 'Manage the embedding cache',
+      subcommands: [
+        {
+          name: 'prune',
+          summary: 'Prune the embedding cache',
+          options: {
+            'max-size': {
+              type: 'string',
+              valueName: 'size',
+              description: 'Cache size to prune to, e.g. 200MB (default: 512MB)',
+            },
+            'unused-for': {
+              type: 'string',
+              valueName: 'days',
+              description: 'Also prune entries unused for this many days',
+            },
+          },
+          examples: [`npx ${PROGRAM_NAME} cache prune --max-size 100MB --unused-for 30`],
+          run: async ({ options }) =>
+            handlePruneCache(await createContext(options), {
+              maxSize: options['max-size'] as string | undefined,
+              unusedFor: options['unused-for'] as string | undefined,
+            }),
+        },
+      ],
+    },
+    {
+      name: 'config',
+      summary: 'Show and change settings',
+      description: `Show and change settings. Settings are merged from the built-in defaults, the user config file (${userConfigPath()}), the project ${PROJECT_CONFIG_FILE_NAME} and environment variables, later ones winning, and the global options override them all.`,
+      subcommands: [
+        {
+          name: 'list',
+          summary: 'List the settings',
+          options: { 'show-origin': SHOW_ORIGIN },
+          run: async ({ options }) =>
+            handleListConfig(await createContext(options), options['show-origin'] === true),
+        },
+        {
+          name: 'get',
+          summary: 'Print a setting',
+          args: [{ name: 'key', description: 'The setting', required: true, choices: CONFIG_KEYS }],
+          options: { 'show-origin': SHOW_ORIGIN },
+          run: async ({ args, options }) =>
+            handleGetConfig(
+              await createContext(options),
+              args.key as ConfigKey,
+              options['show-origin'] === true
+            ),
+        },
+        {
+          name: 'set',
+          summary: 'Change a setting in the user config file',
+          args: [
+            { name: 'key', description: 'The setting', required: true, choices: CONFIG_KEYS },
+            { name: 'value', description: 'The new value', required: true },
+          ],
+          options: {
+            project: {
+              type: 'boolean',
+              description: `Change it in the project ${PROJECT_CONFIG_FILE_NAME} instead`,
+            },
+          },
+          examples: [
+            `npx ${PROGRAM_NAME} config set search.topK 8`,
+            `npx ${PROGRAM_NAME} config set library ./papers --project`,
+          ],
+          run: async ({ args, options }) =>
+            handleSetConfig(args.key as ConfigKey, args.value as string, {
+              project: options.project === true,
+              json: options.json === true,
+            }),
+        },
+      ],
+    },
+    {
+      name: 'completion',
+      summary: 'Print a shell completion script',
+      args: [
+        {
+          name: 'shell',
+          description: 'The shell',
+          required: true,
+          choices: [...COMPLETION_SHELLS],
+        },
+      ],
+      examples: [
+        `source <(${PROGRAM_NAME} completion bash)      # in ~/.bashrc`,
+        `${PROGRAM_NAME} completion fish | source       # in config.fish`,
+      ],
+      run: async ({ args }) => {
+        process.stdout.write(completionScript(program, args.shell as CompletionShell));
+      },
+    },
+    {
+      name: 'help',
+      summary: 'Show the help of a command',
+      args: [{ name: 'command', description: 'The command, e.g. "papers show"', variadic: true }],
+      run: async ({ args }) => {
+        const { commands } = parseCommandLine(program, [...(args.command as string[]), '--help']);
+        process.stdout.write(formatHelp(commands));
+      },
+    },
+  ],
+};
+
+/**
+ * Rewrites the old `--command` flags, e.g. `--gchat attention`, into
+ * subcommands, unless a subcommand is given
+ */
+function translateLegacyArgs(args: string[]): string[] {
+  const names = new Set(program.subcommands?.map(command => command.name));
+  const index = args.findIndex(arg => arg in LEGACY_COMMANDS || names.has(arg));
+  if (index === -1 || names.has(args[index])) {
+    return args;
+  }
+  return [...args.slice(0, index), ...LEGACY_COMMANDS[args[index]], ...args.slice(index + 1)];
+}
+
+/**
+ * CLI entry point for research-gangsta
+ */
+async function main() {
+  const args = translateLegacyArgs(process.argv.slice(2));
+  const verbose = args.includes('--verbose');
+
+  try {
+    const { commands, help, invocation } = parseCommandLine(program, args);
+    const command = commands[commands.length - 1];
+    if (help || !command.run) {
+      process.stdout.write(formatHelp(commands));
+      return;
+    }
+    await command.run(invocation);
+  } catch (error) {
+    if (error instanceof CommandLineError) {
+      const usage = error.commands.map(command => command.name).join(' ');
+      console.error(`Error: ${error.message}`);
+      console.error(`\nRun "${usage} --help" for usage.`);
+      process.exit(1);
+    }
+    if (verbose && error instanceof Error && error.stack) {
+      console.error(error.stack);
+      process.exit(1);
+    }
+    throw error;
   }
 }
 
-main();
+main().catch(error => {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
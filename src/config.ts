@@ -0,0 +1,451 @@
+import { existsSync } from 'fs';
+import { mkdir, readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { z } from 'zod';
+import { HASH_EMBEDDING_MODEL } from './embedding-providers.js';
+import { DEFAULT_EMBEDDING_MODEL, DEFAULT_GANGSTA_MODEL } from './gansgta-agent.js';
+import {
+  DEFAULT_LIBRARY_DIR,
+  LIBRARY_DIR_ENV,
+  PROJECT_LIBRARY_DIR_NAME,
+  writeFileAtomic,
+} from './paper-library.js';
+import { DEFAULT_PERSONA } from './personas.js';
+import { parseYaml } from './yaml.js';
+
+/**
+ * Name of the project config file, looked up from the working directory upwards
+ */
+export const PROJECT_CONFIG_FILE_NAME = '.research-gangstarc';
+
+/**
+ * Origin of settings given as command-line options
+ */
+export const COMMAND_LINE_ORIGIN = 'command line';
+
+/**
+ * Origin of the built-in defaults
+ */
+export const DEFAULT_ORIGIN = 'default';
+
+export const ConfigSchema = z
+  .object({
+    library: z.string().min(1),
+    model: z.string().min(1),
+    persona: z.string().min(1),
+    embedding: z.object({ model: z.string().min(1) }).strict(),
+    search: z.object({ topK: z.number().int().positive() }).strict(),
+    openai: z.object({ apiKey: z.string().min(1).optional() }).strict(),
+  })
+  .strict();
+
+export type ResearchGangstaConfig = z.infer<typeof ConfigSchema>;
+
+/**
+ * Settings of one layer: a config file, the environment or the command line
+ */
+export const ConfigLayerSchema = ConfigSchema.deepPartial();
+
+export type ConfigLayerValues = z.infer<typeof ConfigLayerSchema>;
+
+/**
+ * The settings, by dotted key
+ */
+export const CONFIG_SETTINGS = {
+  library: {
+    description: 'Paper library directory',
+    env: LIBRARY_DIR_ENV,
+  },
+  model: {
+    description: "Model The G runs on; unless set, the persona's model",
+    env: 'RESEARCH_GANGSTA_MODEL',
+  },
+  persona: {
+    description: 'Persona The G takes on',
+    env: 'RESEARCH_GANGSTA_PERSONA',
+  },
+  'embedding.model': {
+    description: 'Embedding model of new papers; unless set, hash-ngram-v1 without an API key',
+    env: 'RESEARCH_GANGSTA_EMBEDDING_MODEL',
+  },
+  'search.topK': {
+    description: 'Number of search results, or of excerpts retrieved for a question',
+    env: 'RESEARCH_GANGSTA_TOP_K',
+  },
+  'openai.apiKey': {
+    description: 'OpenAI API key',
+    env: 'OPENAI_API_KEY',
+    secret: true,
+  },
+} as const;
+
+export type ConfigKey = keyof typeof CONFIG_SETTINGS;
+
+/**
+ * Built-in defaults, below every other layer
+ */
+export const DEFAULT_CONFIG: ResearchGangstaConfig = {
+  library: DEFAULT_LIBRARY_DIR,
+  model: DEFAULT_GANGSTA_MODEL,
+  persona: DEFAULT_PERSONA,
+  embedding: { model: DEFAULT_EMBEDDING_MODEL },
+  search: { topK: 5 },
+  openai: {},
+};
+
+/**
+ * Error raised for an invalid config file, setting or value
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Options for loading the config
+ */
+export interface LoadConfigOptions {
+  /**
+   * Directory the project config and library are looked up from
+   * @default process.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * Environment variables
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * Path of the user config file
+   * @default see userConfigPath
+   */
+  userConfigPath?: string;
+
+  /**
+   * Settings given on the command line, above every other layer
+   */
+  overrides?: ConfigLayerValues;
+}
+
+/**
+ * The merged config, and where each setting came from
+ */
+export interface LoadedConfig {
+  settings: ResearchGangstaConfig;
+
+  /**
+   * Origin of each setting: "default", a file path, an environment variable
+   * or "command line"
+   */
+  origins: Record<ConfigKey, string>;
+
+  userConfigPath: string;
+
+  /**
+   * Path of the project config file, if one was found
+   */
+  projectConfigPath?: string;
+}
+
+/**
+ * Path of the user config file: `$XDG_CONFIG_HOME/research-gangsta/config.yaml`,
+ * by default in `~/.config`
+ * @param env - Environment variables
+ * @returns The path
+ */
+export function userConfigPath(env: Record<string, string | undefined> = process.env): string {
+  return join(env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'research-gangsta', 'config.yaml');
+}
+
+/**
+ * Finds the project config file in a directory or the nearest directory above it
+ * @param cwd - The directory to start from
+ * @returns The path of the file, or undefined if there is none
+ */
+export function findProjectConfig(cwd: string): string | undefined {
+  for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+    const path = join(dir, PROJECT_CONFIG_FILE_NAME);
+    if (existsSync(path)) {
+      return path;
+    }
+    if (dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Reads a setting
+ * @param settings - The settings
+ * @param key - Dotted key of the setting, e.g. "search.topK"
+ * @returns The value, or undefined if it is not set
+ */
+export function getSetting(settings: ConfigLayerValues, key: ConfigKey): unknown {
+  return key
+    .split('.')
+    .reduce<unknown>(
+      (value, name) => (value as Record<string, unknown> | undefined)?.[name],
+      settings
+    );
+}
+
+/**
+ * Writes a setting in place, creating the sections it is in
+ */
+function putSetting(settings: Record<string, unknown>, key: ConfigKey, value: unknown) {
+  const names = key.split('.');
+  let section = settings;
+  for (const name of names.slice(0, -1)) {
+    section[name] ??= {};
+    section = section[name] as Record<string, unknown>;
+  }
+  section[names[names.length - 1]] = value;
+}
+
+/**
+ * Checks a key names a setting
+ * @param key - The key
+ * @returns The key
+ * @throws ConfigError for unknown keys
+ */
+export function toConfigKey(key: string): ConfigKey {
+  if (!(key in CONFIG_SETTINGS)) {
+    throw new ConfigError(
+      `Unknown setting "${key}". Settings: ${Object.keys(CONFIG_SETTINGS).join(', ')}`
+    );
+  }
+  return key as ConfigKey;
+}
+
+/**
+ * Converts the text of a setting, e.g. from an environment variable, to its type
+ * @param key - The setting
+ * @param text - The text
+ * @returns The value: a number for numeric settings, the text otherwise
+ */
+export function parseSettingValue(key: ConfigKey, text: string): unknown {
+  return key === 'search.topK' && text.trim() !== '' ? Number(text) : text;
+}
+
+/**
+ * Formats a value for display, hiding secrets
+ * @param key - The setting
+ * @param value - The value
+ * @returns The value as text
+ */
+export function formatSettingValue(key: ConfigKey, value: unknown): string {
+  if (value === undefined) {
+    return '(not set)';
+  }
+  const text = String(value);
+  if ('secret' in CONFIG_SETTINGS[key]) {
+    return text.length > 8 ? `${text.slice(0, 3)}...${text.slice(-4)}` : '***';
+  }
+  return text;
+}
+
+/**
+ * Validates the settings of a layer
+ * @param values - The settings
+ * @param origin - Where they come from, for error messages
+ * @returns The settings
+ * @throws ConfigError naming the path of every invalid setting
+ */
+export function validateConfigLayer(values: unknown, origin: string): ConfigLayerValues {
+  const result = ConfigLayerSchema.safeParse(values ?? {});
+  if (!result.success) {
+    const issues = result.error.errors.map(
+      issue => `${issue.path.join('.') || 'config'}: ${issue.message}`
+    );
+    throw new ConfigError(`Invalid config in ${origin}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Whether the text of a config file is JSON rather than YAML
+ */
+function isJson(text: string): boolean {
+  return text.trimStart().startsWith('{');
+}
+
+/**
+ * Parses the text of a config file, JSON or YAML
+ */
+function parseConfigText(text: string): unknown {
+  if (text.trim() === '') {
+    return undefined;
+  }
+  return isJson(text) ? JSON.parse(text) : parseYaml(text);
+}
+
+/**
+ * Reads a config file, YAML or JSON
+ * @param path - The file
+ * @returns Its settings, or an empty layer if the file does not exist
+ * @throws ConfigError if the file cannot be parsed or holds invalid settings
+ */
+export async function readConfigFile(path: string): Promise<ConfigLayerValues> {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  const text = await readFile(path, 'utf-8');
+  let data: unknown;
+  try {
+    data = parseConfigText(text);
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot parse ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const values = validateConfigLayer(data, path);
+  // A relative library is relative to the file, not to where the command runs
+  if (values.library) {
+    values.library = resolve(dirname(path), values.library);
+  }
+  return values;
+}
+
+/**
+ * Reads the settings given as environment variables
+ * @param env - Environment variables
+ * @returns The settings, by the variable they came from
+ * @throws ConfigError for invalid values
+ */
+function readEnvLayers(env: Record<string, string | undefined>): [string, ConfigLayerValues][] {
+  const layers: [string, ConfigLayerValues][] = [];
+  for (const [key, setting] of Object.entries(CONFIG_SETTINGS)) {
+    const text = env[setting.env];
+    if (text) {
+      const values = {};
+      putSetting(values, key as ConfigKey, parseSettingValue(key as ConfigKey, text));
+      layers.push([setting.env, validateConfigLayer(values, setting.env)]);
+    }
+  }
+  return layers;
+}
+
+/**
+ * Merges a layer into the settings, recording the origin of what it sets
+ */
+function mergeLayer(
+  settings: Record<string, unknown>,
+  origins: Record<string, string>,
+  layer: ConfigLayerValues,
+  origin: string
+) {
+  for (const key of Object.keys(CONFIG_SETTINGS) as ConfigKey[]) {
+    const value = getSetting(layer, key);
+    if (value !== undefined) {
+      putSetting(settings, key, value);
+      origins[key] = origin;
+    }
+  }
+}
+
+/**
+ * Loads the config, merging in order: the built-in defaults, the user config
+ * file, a `.research-gangsta` library directory in the working directory, the
+ * project `.research-gangstarc`, environment variables and the command line.
+ * The embedding model falls back to the offline embedder when neither it nor
+ * an API key is set.
+ * @param options - Where to look up the layers
+ * @returns The merged settings and their origins
+ * @throws ConfigError if a layer holds invalid settings
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<LoadedConfig> {
+  const { cwd = process.cwd(), env = process.env, overrides = {} } = options;
+  const userPath = options.userConfigPath ?? userConfigPath(env);
+  const projectPath = findProjectConfig(cwd);
+
+  const settings = JSON.parse(JSON.stringify(DEFAULT_CONFIG)) as Record<string, unknown>;
+  const origins = Object.fromEntries(
+    Object.keys(CONFIG_SETTINGS).map(key => [key, DEFAULT_ORIGIN])
+  ) as Record<ConfigKey, string>;
+
+  mergeLayer(settings, origins, await readConfigFile(userPath), userPath);
+  const projectLibrary = resolve(cwd, PROJECT_LIBRARY_DIR_NAME);
+  if (existsSync(projectLibrary)) {
+    mergeLayer(settings, origins, { library: projectLibrary }, projectLibrary);
+  }
+  if (projectPath && resolve(projectPath) !== resolve(userPath)) {
+    mergeLayer(settings, origins, await readConfigFile(projectPath), projectPath);
+  }
+  for (const [variable, layer] of readEnvLayers(env)) {
+    mergeLayer(settings, origins, layer, variable);
+  }
+  const commandLine = validateConfigLayer(overrides, COMMAND_LINE_ORIGIN);
+  mergeLayer(settings, origins, commandLine, COMMAND_LINE_ORIGIN);
+
+  const values = settings as ResearchGangstaConfig;
+  values.library = resolve(cwd, values.library);
+  // Without an API key, new papers are embedded offline unless a model is set
+  if (origins['embedding.model'] === DEFAULT_ORIGIN && !values.openai.apiKey) {
+    values.embedding.model = HASH_EMBEDDING_MODEL;
+  }
+  return {
+    settings: ConfigSchema.parse(values),
+    origins,
+    userConfigPath: userPath,
+    projectConfigPath: projectPath,
+  };
+}
+
+/**
+ * Formats settings as YAML, the way config files are written
+ */
+function formatConfigYaml(values: Record<string, unknown>, indent = ''): string[] {
+  return Object.entries(values).flatMap(([name, value]) =>
+    value !== null && typeof value === 'object'
+      ? [`${indent}${name}:`, ...formatConfigYaml(value as Record<string, unknown>, `${indent}  `)]
+      : [`${indent}${name}: ${typeof value === 'string' ? JSON.stringify(value) : String(value)}`]
+  );
+}
+
+/**
+ * Changes a setting in a config file, keeping the other settings. The file
+ * stays JSON if it is JSON, and is written as YAML otherwise. A relative
+ * library is written as an absolute path, since it is given relative to where
+ * the command runs but read relative to the file.
+ * @param path - The config file, created if missing
+ * @param key - The setting
+ * @param text - The new value, as text
+ * @param cwd - Directory a relative library is resolved against
+ * @returns The value written
+ * @throws ConfigError if the value is invalid for the setting
+ */
+export async function setConfigValue(
+  path: string,
+  key: ConfigKey,
+  text: string,
+  cwd = process.cwd()
+): Promise<unknown> {
+  const existing = existsSync(path) ? await readFile(path, 'utf-8') : '';
+  const values = (parseConfigText(existing) ?? {}) as Record<string, unknown>;
+  const value = key === 'library' ? resolve(cwd, text) : parseSettingValue(key, text);
+  putSetting(values, key, value);
+
+  const checked: Record<string, unknown> = {};
+  putSetting(checked, key, value);
+  const result = ConfigLayerSchema.safeParse(checked);
+  if (!result.success) {
+    const issues = result.error.errors.map(issue => issue.message);
+    throw new ConfigError(`Invalid value "${text}" for ${key}: ${issues.join('; ')}`);
+  }
+
+  await mkdir(dirname(path), { recursive: true });
+  await writeFileAtomic(
+    path,
+    isJson(existing)
+      ? `${JSON.stringify(values, null, 2)}\n`
+      : `${formatConfigYaml(values).join('\n')}\n`
+  );
+  return value;
+}
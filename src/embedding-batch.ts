@@ -0,0 +1,234 @@
+import { setTimeout as sleep } from 'timers/promises';
+import type { EmbeddingProvider } from './embedding-providers.js';
+
+/**
+ * Options controlling how texts are sent to an embedding provider
+ */
+export interface EmbeddingBatchOptions {
+  /**
+   * Maximum number of texts per embedding request
+   * @default 64
+   */
+  batchSize?: number;
+
+  /**
+   * Maximum number of embedding requests in flight
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Number of retries of a failed request before giving up
+   * @default 5
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry; doubles with every attempt (with jitter)
+   * @default 500
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for a single backoff delay. A delay the server asks for
+   * through Retry-After is waited in full, up to `maxRetryAfterMs`.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Longest Retry-After to wait for; a request the server asks to retry later
+   * than this fails right away
+   * @default 300000
+   */
+  maxRetryAfterMs?: number;
+
+  /**
+   * Called after every completed request with the number of texts done so far
+   */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Outcome of embedding a list of texts
+ */
+export interface EmbeddingBatchResult {
+  /**
+   * Embedding per input text, in input order; undefined where embedding failed
+   */
+  embeddings: (number[] | undefined)[];
+
+  /**
+   * Error per failed input position
+   */
+  errors: Map<number, Error>;
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE']);
+
+/**
+ * Statuses caused by the content of the request, where splitting the batch can
+ * isolate the offending input
+ */
+const INPUT_ERROR_STATUS = new Set([400, 413, 422]);
+
+/**
+ * HTTP details that API clients (like the OpenAI SDK) attach to their errors
+ */
+interface HttpErrorLike {
+  status?: number;
+  code?: string;
+  headers?: { get?: (name: string) => string | null } | Record<string, string | undefined>;
+  name?: string;
+}
+
+function getHeader(error: HttpErrorLike, name: string): string | undefined {
+  const headers = error.headers;
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+  return (headers as Record<string, string | undefined>)[name];
+}
+
+/**
+ * Checks whether a failed embedding request is worth retrying: rate limits,
+ * timeouts, server errors and dropped connections are; bad requests are not
+ * @param error - The error thrown by the provider
+ * @returns True if the request should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  const httpError = (error || {}) as HttpErrorLike;
+  if (typeof httpError.status === 'number') {
+    return RETRYABLE_STATUS.has(httpError.status);
+  }
+  return (
+    (httpError.code !== undefined && RETRYABLE_CODES.has(httpError.code)) ||
+    httpError.name === 'APIConnectionError' ||
+    httpError.name === 'APIConnectionTimeoutError'
+  );
+}
+
+/**
+ * Reads the delay requested by the server through Retry-After (seconds or an
+ * HTTP date) or OpenAI's retry-after-ms header
+ * @param error - The error thrown by the provider
+ * @returns The delay in milliseconds, or undefined if the server did not ask for one
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const httpError = (error || {}) as HttpErrorLike;
+
+  const ms = getHeader(httpError, 'retry-after-ms');
+  if (ms !== undefined && Number.isFinite(Number(ms)) && Number(ms) >= 0) {
+    return Number(ms);
+  }
+
+  const value = getHeader(httpError, 'retry-after');
+  if (value === undefined) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Calls the provider, retrying retryable failures with exponential backoff
+ */
+async function embedWithRetry(
+  provider: EmbeddingProvider,
+  texts: string[],
+  options: Required<Omit<EmbeddingBatchOptions, 'onProgress'>>
+): Promise<number[][]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.embed(texts);
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      const retryAfter = getRetryAfterMs(error);
+      if (retryAfter !== undefined && retryAfter > options.maxRetryAfterMs) {
+        throw new Error(
+          `The server asked to retry after ${Math.ceil(retryAfter / 1000)} s, longer than the ${Math.ceil(options.maxRetryAfterMs / 1000)} s allowed by maxRetryAfterMs`,
+          { cause: error }
+        );
+      }
+      const backoff = options.initialDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+      await sleep(retryAfter ?? Math.min(backoff, options.maxDelayMs));
+    }
+  }
+}
+
+/**
+ * Embeds texts in batches with bounded concurrency and retries.
+ *
+ * A batch rejected because of its content (400, 413, 422) is split in halves
+ * and retried, so one bad input (e.g. a text over the model's token limit)
+ * only fails itself.
+ * @param provider - The embedding provider
+ * @param texts - The texts to embed
+ * @param options - Batching options
+ * @returns Embeddings in input order, and the errors of the texts that failed
+ */
+export async function embedInBatches(
+  provider: EmbeddingProvider,
+  texts: string[],
+  options: EmbeddingBatchOptions = {}
+): Promise<EmbeddingBatchResult> {
+  const settings = {
+    batchSize: Math.max(1, options.batchSize ?? 64),
+    concurrency: Math.max(1, options.concurrency ?? 4),
+    maxRetries: Math.max(0, options.maxRetries ?? 5),
+    initialDelayMs: options.initialDelayMs ?? 500,
+    maxDelayMs: options.maxDelayMs ?? 30000,
+    maxRetryAfterMs: options.maxRetryAfterMs ?? 300000,
+  };
+
+  const embeddings = new Array<number[] | undefined>(texts.length).fill(undefined);
+  const errors = new Map<number, Error>();
+  let done = 0;
+
+  const embedRange = async (start: number, end: number): Promise<void> => {
+    try {
+      const vectors = await embedWithRetry(provider, texts.slice(start, end), settings);
+      if (vectors.length !== end - start) {
+        throw new Error(`Expected ${end - start} embeddings, got ${vectors.length}`);
+      }
+      vectors.forEach((vector, offset) => (embeddings[start + offset] = vector));
+    } catch (error) {
+      const status = (error as HttpErrorLike | undefined)?.status;
+      if (end - start > 1 && status !== undefined && INPUT_ERROR_STATUS.has(status)) {
+        const middle = start + Math.ceil((end - start) / 2);
+        await embedRange(start, middle);
+        await embedRange(middle, end);
+        return;
+      }
+      for (let i = start; i < end; i++) {
+        errors.set(i, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+    done += end - start;
+    options.onProgress?.(done, texts.length);
+  };
+
+  const batches: [number, number][] = [];
+  for (let start = 0; start < texts.length; start += settings.batchSize) {
+    batches.push([start, Math.min(start + settings.batchSize, texts.length)]);
+  }
+
+  const worker = async () => {
+    for (let batch = batches.shift(); batch; batch = batches.shift()) {
+      await embedRange(...batch);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(settings.concurrency, batches.length) }, worker));
+
+  return { embeddings, errors };
+}
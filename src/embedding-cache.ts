@@ -0,0 +1,393 @@
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import type { EmbeddingProvider } from './embedding-providers.js';
+import type { Document } from './memory-vector-store.js';
+import {
+  appendVectorStoreRecords,
+  readVectorStoreFile,
+  VectorStoreRecord,
+  writeVectorStoreFile,
+} from './vector-store-file.js';
+
+/**
+ * Configuration options for EmbeddingCache
+ */
+export interface EmbeddingCacheOptions {
+  /**
+   * Directory holding the cache files (one per embedding model and dimension)
+   */
+  dir: string;
+
+  /**
+   * Maximum estimated size of the cached vectors in bytes; least recently
+   * used entries are evicted beyond it
+   * @default 536870912 (512 MiB)
+   */
+  maxSizeBytes?: number;
+}
+
+/**
+ * Statistics of an embedding cache
+ */
+export interface EmbeddingCacheStats {
+  /**
+   * Lookups answered from the cache since it was created
+   */
+  hits: number;
+
+  /**
+   * Lookups that had to go to the provider since it was created
+   */
+  misses: number;
+
+  /**
+   * Number of cached vectors (of the models loaded so far)
+   */
+  entries: number;
+
+  /**
+   * Estimated size of the cached vectors in bytes
+   */
+  sizeBytes: number;
+}
+
+/**
+ * Options for pruning the cache
+ */
+export interface PruneEmbeddingCacheOptions {
+  /**
+   * Evict least recently used entries until the cache is at most this size
+   */
+  maxSizeBytes?: number;
+
+  /**
+   * Remove entries not used since this date
+   */
+  unusedSince?: Date;
+}
+
+interface CacheEntry {
+  vector: number[];
+  lastUsed: number;
+}
+
+/**
+ * Cached vectors of one embedding model and dimension, backed by one file
+ */
+interface CacheNamespace {
+  file: string;
+  model: string;
+  dimension: number;
+  entries: Map<string, CacheEntry>;
+  changed: Set<string>;
+  fileSize: number;
+  rewrite: boolean;
+}
+
+/**
+ * Approximate bytes per entry besides the vector (key, record JSON, bookkeeping)
+ */
+const ENTRY_OVERHEAD_BYTES = 96;
+
+const DEFAULT_MAX_SIZE_BYTES = 512 * 1024 * 1024;
+
+/**
+ * Normalizes text before hashing so that insignificant differences (Unicode
+ * composition, whitespace runs, surrounding whitespace) share a cache entry
+ * @param text - The text to normalize
+ * @returns The normalized text
+ */
+export function normalizeForEmbedding(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Computes the cache key of a text
+ * @param text - The text
+ * @returns SHA-256 of the normalized text, hex-encoded
+ */
+export function embeddingCacheKey(text: string): string {
+  return createHash('sha256').update(normalizeForEmbedding(text)).digest('hex');
+}
+
+function entrySize(dimension: number): number {
+  return dimension * 4 + ENTRY_OVERHEAD_BYTES;
+}
+
+/**
+ * Persistent cache of embedding vectors keyed by (embedding model, normalized
+ * content hash). One instance can be shared by several stores; the files on
+ * disk share it across runs.
+ *
+ * Each model and dimension is stored in its own vector store file under
+ * `dir`, where new entries are appended and evictions trigger a rewrite.
+ */
+export class EmbeddingCache {
+  readonly dir: string;
+  readonly maxSizeBytes: number;
+  private namespaces: Map<string, Promise<CacheNamespace>>;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Creates a new EmbeddingCache instance
+   * @param options - Configuration options
+   */
+  constructor(options: EmbeddingCacheOptions) {
+    this.dir = options.dir;
+    this.maxSizeBytes = options.maxSizeBytes ?? DEFAULT_MAX_SIZE_BYTES;
+    this.namespaces = new Map();
+  }
+
+  private fileFor(model: string, dimension: number): string {
+    const slug = model.toLowerCase().replace(/[^a-z0-9.-]+/g, '-');
+    const hash = createHash('sha256').update(`${model}:${dimension}`).digest('hex').slice(0, 8);
+    return join(this.dir, `${slug}-${dimension}-${hash}.rgvs`);
+  }
+
+  /**
+   * Loads (once) the cached vectors of a model
+   */
+  private namespace(model: string, dimension: number): Promise<CacheNamespace> {
+    const key = `${model}:${dimension}`;
+    let namespace = this.namespaces.get(key);
+    if (!namespace) {
+      namespace = this.loadNamespace(this.fileFor(model, dimension), model, dimension);
+      this.namespaces.set(key, namespace);
+    }
+    return namespace;
+  }
+
+  private async loadNamespace(
+    file: string,
+    model: string,
+    dimension: number
+  ): Promise<CacheNamespace> {
+    const namespace: CacheNamespace = {
+      file,
+      model,
+      dimension,
+      entries: new Map(),
+      changed: new Set(),
+      fileSize: 0,
+      rewrite: false,
+    };
+    if (!existsSync(file)) {
+      return namespace;
+    }
+
+    try {
+      const { header, documents } = await readVectorStoreFile(file);
+      if (header.embeddingModel === model && header.dimension === dimension) {
+        for (const doc of documents) {
+          namespace.entries.set(doc.id, {
+            vector: doc.embedding!,
+            lastUsed: doc.metadata?.lastUsed ?? 0,
+          });
+        }
+      }
+      namespace.fileSize = (await stat(file)).size;
+    } catch (error) {
+      // The cache is disposable: start over rather than fail the caller
+      console.warn(
+        `Discarding unreadable embedding cache ${file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      namespace.rewrite = true;
+    }
+    return namespace;
+  }
+
+  /**
+   * Looks up the cached vectors of texts
+   * @param provider - The provider the vectors must come from
+   * @param texts - The texts to look up
+   * @returns The cached vector per text, undefined for misses
+   */
+  async get(provider: EmbeddingProvider, texts: string[]): Promise<(number[] | undefined)[]> {
+    const namespace = await this.namespace(provider.model, provider.dimension);
+    const now = Date.now();
+
+    return texts.map(text => {
+      const key = embeddingCacheKey(text);
+      const entry = namespace.entries.get(key);
+      if (!entry) {
+        this.misses++;
+        return undefined;
+      }
+      this.hits++;
+      entry.lastUsed = now;
+      namespace.changed.add(key);
+      return entry.vector;
+    });
+  }
+
+  /**
+   * Stores vectors produced by a provider. Call flush() to persist them.
+   * @param provider - The provider the vectors come from
+   * @param texts - The embedded texts
+   * @param vectors - The vector per text
+   */
+  async set(provider: EmbeddingProvider, texts: string[], vectors: number[][]): Promise<void> {
+    const namespace = await this.namespace(provider.model, provider.dimension);
+    const now = Date.now();
+
+    texts.forEach((text, i) => {
+      if (vectors[i]?.length !== namespace.dimension) {
+        return;
+      }
+      const key = embeddingCacheKey(text);
+      namespace.entries.set(key, { vector: vectors[i], lastUsed: now });
+      namespace.changed.add(key);
+    });
+  }
+
+  /**
+   * Gets hit/miss counts and the size of the loaded models
+   * @returns The statistics
+   */
+  async getStats(): Promise<EmbeddingCacheStats> {
+    let entries = 0;
+    let sizeBytes = 0;
+    for (const namespace of await Promise.all(this.namespaces.values())) {
+      entries += namespace.entries.size;
+      sizeBytes += namespace.entries.size * entrySize(namespace.dimension);
+    }
+    return { hits: this.hits, misses: this.misses, entries, sizeBytes };
+  }
+
+  /**
+   * Evicts entries, least recently used first, until the loaded models fit in `maxSizeBytes`
+   */
+  private evict(namespaces: CacheNamespace[], maxSizeBytes: number): number {
+    let size = namespaces.reduce(
+      (total, ns) => total + ns.entries.size * entrySize(ns.dimension),
+      0
+    );
+    if (size <= maxSizeBytes) {
+      return 0;
+    }
+
+    const candidates = namespaces
+      .flatMap(ns => [...ns.entries].map(([key, entry]) => ({ ns, key, lastUsed: entry.lastUsed })))
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    let removed = 0;
+    for (const { ns, key } of candidates) {
+      if (size <= maxSizeBytes) {
+        break;
+      }
+      ns.entries.delete(key);
+      ns.changed.delete(key);
+      ns.rewrite = true;
+      size -= entrySize(ns.dimension);
+      removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Persists new and recently used entries, evicting beyond the size limit
+   */
+  async flush(): Promise<void> {
+    const namespaces = await Promise.all(this.namespaces.values());
+    this.evict(namespaces, this.maxSizeBytes);
+    await Promise.all(namespaces.map(namespace => this.persist(namespace)));
+  }
+
+  private async persist(namespace: CacheNamespace): Promise<void> {
+    const { file, model, dimension, entries, changed } = namespace;
+    if (!namespace.rewrite && changed.size === 0) {
+      return;
+    }
+
+    const toDocument = (key: string): Document => ({
+      id: key,
+      content: '',
+      metadata: { lastUsed: entries.get(key)!.lastUsed },
+      embedding: entries.get(key)!.vector,
+    });
+
+    await mkdir(this.dir, { recursive: true });
+    const liveSize = entries.size * entrySize(dimension);
+
+    // Appends accumulate superseded records; rewrite once they dominate the file
+    if (namespace.rewrite || !existsSync(file) || namespace.fileSize > 2 * liveSize + 4096) {
+      await writeVectorStoreFile(
+        file,
+        { embeddingModel: model, dimension },
+        [...entries.keys()].map(toDocument)
+      );
+    } else {
+      const records: VectorStoreRecord[] = [...changed].map(key => ({
+        op: 'put',
+        document: toDocument(key),
+      }));
+      await appendVectorStoreRecords(file, { embeddingModel: model, dimension }, records);
+    }
+
+    namespace.fileSize = (await stat(file)).size;
+    namespace.rewrite = false;
+    changed.clear();
+  }
+
+  /**
+   * Loads the cache files of every model found in the cache directory
+   */
+  private async loadAll(): Promise<CacheNamespace[]> {
+    if (existsSync(this.dir)) {
+      for (const name of await readdir(this.dir)) {
+        if (!name.endsWith('.rgvs')) {
+          continue;
+        }
+        try {
+          const { header } = await readVectorStoreFile(join(this.dir, name));
+          await this.namespace(header.embeddingModel, header.dimension);
+        } catch {
+          await rm(join(this.dir, name), { force: true });
+        }
+      }
+    }
+    return Promise.all(this.namespaces.values());
+  }
+
+  /**
+   * Removes stale entries from every model's cache file
+   * @param options - What to remove; without options, enforces `maxSizeBytes`
+   * @returns Number of removed entries and the statistics afterwards
+   */
+  async prune(
+    options: PruneEmbeddingCacheOptions = {}
+  ): Promise<{ removed: number; stats: EmbeddingCacheStats }> {
+    const namespaces = await this.loadAll();
+    let removed = 0;
+
+    if (options.unusedSince) {
+      const cutoff = options.unusedSince.getTime();
+      for (const namespace of namespaces) {
+        for (const [key, entry] of namespace.entries) {
+          if (entry.lastUsed < cutoff) {
+            namespace.entries.delete(key);
+            namespace.changed.delete(key);
+            namespace.rewrite = true;
+            removed++;
+          }
+        }
+      }
+    }
+
+    removed += this.evict(namespaces, options.maxSizeBytes ?? this.maxSizeBytes);
+    await Promise.all(namespaces.map(namespace => this.persist(namespace)));
+
+    return { removed, stats: await this.getStats() };
+  }
+
+  /**
+   * Removes every cached vector, in memory and on disk
+   */
+  async clear(): Promise<void> {
+    this.namespaces.clear();
+    await rm(this.dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,366 @@
+import OpenAI from 'openai';
+
+/**
+ * A source of embedding vectors for the vector store
+ */
+export interface EmbeddingProvider {
+  /**
+   * Identifier of the embedding model (recorded alongside stored vectors)
+   */
+  readonly model: string;
+
+  /**
+   * Dimension of the vectors produced by this provider
+   */
+  readonly dimension: number;
+
+  /**
+   * Endpoint of the OpenAI-compatible server serving the model, if any
+   * (recorded alongside stored vectors, so the provider can be recreated)
+   */
+  readonly baseURL?: string;
+
+  /**
+   * Generates one embedding vector per input text, in input order
+   * @param texts - The texts to embed
+   * @returns The embedding vectors
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Error raised when an embedding provider cannot be set up, e.g. without an
+ * API key
+ */
+export class EmbeddingProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+/**
+ * OpenAI embedding model of OpenAIEmbeddingProvider and MemoryVectorStore when
+ * none is given. It differs on purpose from DEFAULT_EMBEDDING_MODEL, the model
+ * the agent and the CLI embed papers with: stores saved with this default must
+ * keep loading, and libraries must keep searching their papers together.
+ */
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * Known output dimensions of OpenAI embedding models
+ */
+export const OPENAI_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+/**
+ * Calls an OpenAI-style embeddings endpoint and returns vectors in input order
+ */
+async function createEmbeddings(
+  client: OpenAI,
+  model: string,
+  texts: string[],
+  dimensions?: number
+): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
+
+  const response = await client.embeddings.create({
+    model,
+    input: texts,
+    ...(dimensions ? { dimensions } : {}),
+  });
+
+  // Items carry their input index; don't rely on response order
+  const embeddings = new Array<number[]>(texts.length);
+  response.data.forEach((item, position) => {
+    embeddings[item.index ?? position] = item.embedding;
+  });
+
+  return embeddings;
+}
+
+/**
+ * Configuration options for OpenAIEmbeddingProvider
+ */
+export interface OpenAIEmbeddingProviderConfig {
+  /**
+   * OpenAI API key
+   * @default process.env.OPENAI_API_KEY
+   */
+  apiKey?: string;
+
+  /**
+   * OpenAI embedding model to use
+   * @default DEFAULT_OPENAI_EMBEDDING_MODEL ("text-embedding-3-small")
+   */
+  model?: string;
+
+  /**
+   * Requested output dimension (only supported by text-embedding-3 and later).
+   * Defaults to the native dimension of the model.
+   */
+  dimensions?: number;
+}
+
+/**
+ * Embedding provider backed by the OpenAI embeddings API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+  private client: OpenAI;
+  private requestedDimensions?: number;
+
+  /**
+   * Creates a new OpenAIEmbeddingProvider instance
+   * @param config - Configuration options
+   * @throws EmbeddingProviderError if no API key is available or the dimension is unknown
+   */
+  constructor(config: OpenAIEmbeddingProviderConfig = {}) {
+    const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
+
+    if (!apiKey) {
+      throw new EmbeddingProviderError(
+        'OpenAI API key is required. Provide it via config or OPENAI_API_KEY environment variable.'
+      );
+    }
+
+    // Retries are handled by embedInBatches, which honours Retry-After
+    this.client = new OpenAI({ apiKey, maxRetries: 0 });
+    this.model = config.model || DEFAULT_OPENAI_EMBEDDING_MODEL;
+    this.requestedDimensions = config.dimensions;
+
+    const dimension = config.dimensions || OPENAI_EMBEDDING_DIMENSIONS[this.model];
+    if (!dimension) {
+      throw new EmbeddingProviderError(
+        `Unknown dimension for embedding model "${this.model}". Pass "dimensions" explicitly.`
+      );
+    }
+    this.dimension = dimension;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return createEmbeddings(this.client, this.model, texts, this.requestedDimensions);
+  }
+}
+
+/**
+ * Configuration options for OpenAICompatibleEmbeddingProvider
+ */
+export interface OpenAICompatibleEmbeddingProviderConfig {
+  /**
+   * Base URL of the OpenAI-compatible API (e.g. "http://localhost:11434/v1")
+   */
+  baseURL: string;
+
+  /**
+   * Name of the embedding model served by the endpoint
+   */
+  model: string;
+
+  /**
+   * Dimension of the vectors returned by the served model
+   */
+  dimension: number;
+
+  /**
+   * API key, if the endpoint requires one
+   */
+  apiKey?: string;
+}
+
+/**
+ * Embedding provider for any server exposing the OpenAI embeddings API
+ * (Ollama, LM Studio, vLLM, llama.cpp server, ...)
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+  readonly baseURL: string;
+  private client: OpenAI;
+
+  /**
+   * Creates a new OpenAICompatibleEmbeddingProvider instance
+   * @param config - Configuration options
+   */
+  constructor(config: OpenAICompatibleEmbeddingProviderConfig) {
+    if (!config.baseURL) {
+      throw new Error('baseURL is required for an OpenAI-compatible embedding provider');
+    }
+    if (!Number.isInteger(config.dimension) || config.dimension <= 0) {
+      throw new Error('dimension must be a positive integer');
+    }
+
+    // Local servers usually ignore the key, but the client refuses to start without one
+    this.client = new OpenAI({
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseURL,
+      maxRetries: 0,
+    });
+    this.model = config.model;
+    this.dimension = config.dimension;
+    this.baseURL = config.baseURL;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return createEmbeddings(this.client, this.model, texts);
+  }
+}
+
+/**
+ * Configuration options for HashEmbeddingProvider
+ */
+export interface HashEmbeddingProviderConfig {
+  /**
+   * Dimension of the produced vectors
+   * @default 512
+   */
+  dimension?: number;
+
+  /**
+   * Character n-gram sizes hashed into the vector (words are always included)
+   * @default [3, 4]
+   */
+  ngramSizes?: number[];
+}
+
+/**
+ * Model identifier recorded for vectors produced by HashEmbeddingProvider with
+ * the default n-gram sizes. Other sizes give incompatible vectors, so they are
+ * appended to the identifier, e.g. `hash-ngram-v1:2,5`.
+ */
+export const HASH_EMBEDDING_MODEL = 'hash-ngram-v1';
+
+const DEFAULT_NGRAM_SIZES = [3, 4];
+
+/**
+ * Deterministic, offline embedding provider.
+ *
+ * Texts are lowercased and split into words; every word and every character
+ * n-gram of every word is hashed (FNV-1a) into a signed bucket of the vector,
+ * which is then L2-normalized. Texts sharing vocabulary land close together,
+ * which is enough for CI runs and air-gapped machines. It is not a semantic model.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+  private ngramSizes: number[];
+
+  /**
+   * Creates a new HashEmbeddingProvider instance
+   * @param config - Configuration options
+   */
+  constructor(config: HashEmbeddingProviderConfig = {}) {
+    this.dimension = config.dimension ?? 512;
+    this.ngramSizes = config.ngramSizes ?? DEFAULT_NGRAM_SIZES;
+
+    if (!Number.isInteger(this.dimension) || this.dimension <= 0) {
+      throw new Error('dimension must be a positive integer');
+    }
+    if (this.ngramSizes.some(size => !Number.isInteger(size) || size <= 0)) {
+      throw new Error('ngramSizes must be positive integers');
+    }
+    this.model =
+      this.ngramSizes.join(',') === DEFAULT_NGRAM_SIZES.join(',')
+        ? HASH_EMBEDDING_MODEL
+        : `${HASH_EMBEDDING_MODEL}:${this.ngramSizes.join(',')}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  /**
+   * Hashes the features of a single text into a normalized vector
+   * @param text - The text to embed
+   * @returns The embedding vector
+   */
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `<${word}>`;
+      for (const size of this.ngramSizes) {
+        for (let i = 0; i + size <= padded.length; i++) {
+          this.addFeature(vector, `g:${padded.slice(i, i + size)}`, 0.5);
+        }
+      }
+    }
+
+    let magnitude = 0;
+    for (const value of vector) {
+      magnitude += value * value;
+    }
+    magnitude = Math.sqrt(magnitude);
+
+    return magnitude === 0 ? vector : vector.map(value => value / magnitude);
+  }
+
+  /**
+   * Adds a hashed feature to the vector; one hash bit picks the sign so
+   * collisions cancel out on average instead of accumulating
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const bucket = hash % this.dimension;
+    vector[bucket] += (hash & 0x80000000) === 0 ? weight : -weight;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates the provider for an embedding model recorded alongside stored vectors,
+ * so a store can be reopened with the embedder it was built with
+ * @param model - The embedding model identifier
+ * @param dimension - The recorded embedding dimension
+ * @param baseURL - The recorded endpoint of an OpenAI-compatible server
+ * @returns The embedding provider
+ */
+export function createEmbeddingProvider(
+  model: string,
+  dimension?: number,
+  baseURL?: string
+): EmbeddingProvider {
+  if (baseURL) {
+    if (dimension === undefined) {
+      throw new EmbeddingProviderError(`Unknown dimension for embedding model "${model}"`);
+    }
+    return new OpenAICompatibleEmbeddingProvider({ baseURL, model, dimension });
+  }
+  if (model === HASH_EMBEDDING_MODEL) {
+    return new HashEmbeddingProvider({ dimension });
+  }
+  if (model.startsWith(`${HASH_EMBEDDING_MODEL}:`)) {
+    const ngramSizes = model
+      .slice(HASH_EMBEDDING_MODEL.length + 1)
+      .split(',')
+      .map(Number);
+    return new HashEmbeddingProvider({ dimension, ngramSizes });
+  }
+
+  // Only request a custom dimension when it differs from the model's native one
+  const nativeDimension = OPENAI_EMBEDDING_DIMENSIONS[model];
+  return new OpenAIEmbeddingProvider({
+    model,
+    dimensions: dimension && dimension !== nativeDimension ? dimension : undefined,
+  });
+}
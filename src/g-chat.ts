@@ -0,0 +1,418 @@
+import { writeFile } from 'fs/promises';
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import type { AgentInputItem } from '@openai/agents';
+import type { ChatSession, ChatSessionStore, SessionMessage } from './chat-sessions.js';
+import { Citation, GangstaAgent } from './gansgta-agent.js';
+import type { MemoryVectorStore, SearchResult } from './memory-vector-store.js';
+import type { PaperLibrary, PaperManifest } from './paper-library.js';
+import { formatToolCall } from './paper-tools.js';
+
+/**
+ * Options for a G-Chat session
+ */
+export interface GChatOptions {
+  /**
+   * The agent answering the questions ("The G")
+   */
+  agent: GangstaAgent;
+
+  /**
+   * Library holding the ingested papers
+   */
+  library: PaperLibrary;
+
+  /**
+   * Ids (or prefixes) of the papers to chat about; defaults to the whole library
+   */
+  paperIds?: string[];
+
+  /**
+   * Input stream
+   * @default process.stdin
+   */
+  input?: Readable;
+
+  /**
+   * Output stream
+   * @default process.stdout
+   */
+  output?: Writable;
+
+  /**
+   * Session to hold the chat in, new or resumed; its papers, when set,
+   * replace paperIds
+   */
+  session?: ChatSession;
+
+  /**
+   * Store the session is saved to after every answer
+   */
+  sessions?: ChatSessionStore;
+}
+
+/**
+ * A parsed slash command
+ */
+export interface SlashCommand {
+  name: string;
+  args: string[];
+}
+
+const HELP_TEXT = `Commands:
+  /paper [id...]   Show the papers in scope, or chat about the given papers ("all" for every paper)
+  /papers          List the papers in the library
+  /sources         Show the excerpts behind the last answer (* = cited)
+  /principles      Show the principles The G follows
+  /reset           Forget the conversation so far
+  /session         Show the id to resume this chat with (chat --resume <id>)
+  /save [file]     Save the transcript as Markdown
+  /exit            Leave G-Chat
+Press Ctrl-C to cancel an answer while it is streaming.`;
+
+/**
+ * Parses a line of input as a slash command
+ * @param line - The input line
+ * @returns The command, or undefined if the line is a regular message
+ */
+export function parseSlashCommand(line: string): SlashCommand | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('/')) {
+    return undefined;
+  }
+
+  const [name, ...args] = trimmed.slice(1).split(/\s+/);
+  return { name: name.toLowerCase(), args };
+}
+
+/**
+ * Formats the location of a retrieved chunk, e.g. "3.1 Attention, p. 4"
+ * @param result - The search result
+ * @returns The formatted location
+ */
+export function formatSourceLocation(result: SearchResult): string {
+  const { section, pageStart, pageEnd } = result.document.metadata || {};
+  const pages =
+    pageStart === undefined
+      ? ''
+      : pageStart === pageEnd
+        ? `p. ${pageStart}`
+        : `pp. ${pageStart}-${pageEnd}`;
+  return [section, pages].filter(Boolean).join(', ');
+}
+
+/**
+ * Formats the location of a cited chunk, e.g. "3.1 Attention, p. 4"
+ */
+function formatCitationLocation({ section, page, pageEnd }: Citation): string {
+  const pages =
+    page === undefined
+      ? ''
+      : page === pageEnd || pageEnd === undefined
+        ? `p. ${page}`
+        : `pp. ${page}-${pageEnd}`;
+  return [section, pages].filter(Boolean).join(', ');
+}
+
+/**
+ * Interactive terminal chat with "The G" over ingested papers.
+ *
+ * Answers stream as they are generated and the conversation is kept across
+ * turns. Ctrl-C cancels the answer in flight; /exit or Ctrl-D leaves.
+ */
+export class GChat {
+  private agent: GangstaAgent;
+  private library: PaperLibrary;
+  private input: Readable;
+  private output: Writable;
+  private scope: PaperManifest[] = [];
+  private store?: MemoryVectorStore;
+  private history: AgentInputItem[] = [];
+  private transcript: SessionMessage[] = [];
+  private session?: ChatSession;
+  private sessions?: ChatSessionStore;
+  private lastSources: SearchResult[] = [];
+  private lastCitedIds = new Set<string>();
+  private inFlight?: AbortController;
+  private initialPaperIds: string[];
+
+  /**
+   * Creates a new GChat session
+   * @param options - Session options
+   */
+  constructor(options: GChatOptions) {
+    this.agent = options.agent;
+    this.library = options.library;
+    this.session = options.session;
+    this.sessions = options.sessions;
+    this.initialPaperIds = this.session?.paperIds.length
+      ? this.session.paperIds
+      : options.paperIds || [];
+    this.history = this.session?.history ?? [];
+    this.transcript = this.session?.transcript ?? [];
+    this.input = options.input || process.stdin;
+    this.output = options.output || process.stdout;
+  }
+
+  private print(text = ''): void {
+    this.output.write(`${text}\n`);
+  }
+
+  /**
+   * Puts the given papers (or the whole library) in scope and loads their chunks
+   * @param ids - Paper ids or prefixes; empty for every paper in the library
+   */
+  async setScope(ids: string[]): Promise<void> {
+    const papers =
+      ids.length === 0 || (ids.length === 1 && ids[0] === 'all')
+        ? await this.library.listPapers()
+        : await Promise.all(ids.map(id => this.library.getPaper(id)));
+
+    this.store =
+      papers.length > 0 ? await this.library.openStore(papers.map(p => p.id)) : undefined;
+    this.scope = papers;
+    if (this.session) {
+      const everything = ids.length === 0 || ids[0] === 'all';
+      this.session.paperIds = everything ? [] : papers.map(paper => paper.id);
+    }
+  }
+
+  /**
+   * Runs the read-eval-print loop until /exit or end of input
+   */
+  async start(): Promise<void> {
+    await this.setScope(this.initialPaperIds);
+
+    const rl = createInterface({ input: this.input, output: this.output, prompt: 'you> ' });
+    rl.on('SIGINT', () => {
+      if (this.inFlight) {
+        this.inFlight.abort();
+      } else {
+        this.print('\n(Type /exit to leave G-Chat.)');
+        rl.prompt();
+      }
+    });
+
+    this.print('Hello, The G!');
+    this.print('\nWelcome to G-Chat! Chat with "The G" to upgrade your knowledge.');
+    this.printScope();
+    const asked = this.transcript.filter(message => message.role === 'user').length;
+    if (this.session && asked > 0) {
+      this.print(`Resuming "${this.session.title}" (${asked} questions so far).`);
+    }
+    this.print('Type /help for commands.\n');
+    rl.prompt();
+
+    for await (const line of rl) {
+      const keepGoing = await this.handleLine(line);
+      if (!keepGoing) {
+        break;
+      }
+      rl.prompt();
+    }
+
+    rl.close();
+  }
+
+  /**
+   * Handles one line of input
+   * @returns False when the session should end
+   */
+  private async handleLine(line: string): Promise<boolean> {
+    if (line.trim().length === 0) {
+      return true;
+    }
+
+    const command = parseSlashCommand(line);
+    if (!command) {
+      await this.ask(line.trim());
+      return true;
+    }
+
+    try {
+      return await this.runCommand(command);
+    } catch (error) {
+      this.print(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return true;
+    }
+  }
+
+  /**
+   * Executes a slash command
+   * @returns False when the session should end
+   */
+  private async runCommand(command: SlashCommand): Promise<boolean> {
+    switch (command.name) {
+      case 'help':
+        this.print(HELP_TEXT);
+        return true;
+      case 'paper':
+        if (command.args.length > 0) {
+          await this.setScope(command.args);
+          await this.saveSession();
+        }
+        this.printScope();
+        return true;
+      case 'papers': {
+        const papers = await this.library.listPapers();
+        papers.forEach(paper => this.print(`  ${paper.id}  ${paper.title}`));
+        if (papers.length === 0) {
+          this.print('No papers ingested yet.');
+        }
+        return true;
+      }
+      case 'sources':
+        this.printSources();
+        return true;
+      case 'principles':
+        this.agent.principles.forEach(principle => this.print(`  - ${principle}`));
+        return true;
+      case 'reset':
+        this.history = [];
+        this.transcript = [];
+        this.lastSources = [];
+        this.lastCitedIds.clear();
+        await this.saveSession();
+        this.print('Conversation reset.');
+        return true;
+      case 'session':
+        this.print(
+          this.session
+            ? `Session ${this.session.id}. Resume it with: npx research-gangsta chat --resume ${this.session.id}`
+            : 'This chat is not saved.'
+        );
+        return true;
+      case 'save': {
+        const file = await this.saveTranscript(command.args[0]);
+        this.print(`Transcript saved to ${file}`);
+        return true;
+      }
+      case 'exit':
+      case 'quit':
+        this.print('Peace out, G.');
+        return false;
+      default:
+        this.print(`Unknown command /${command.name}. Type /help for commands.`);
+        return true;
+    }
+  }
+
+  /**
+   * Sends a question to The G and streams the answer
+   */
+  private async ask(question: string): Promise<void> {
+    this.inFlight = new AbortController();
+    this.print('');
+
+    // Tool calls are logged as they happen, before the answer starts streaming
+    let answering = false;
+    try {
+      const turn = await this.agent.streamResponse(question, {
+        store: this.store,
+        history: this.history,
+        signal: this.inFlight.signal,
+        library: this.library,
+        onToken: token => {
+          if (!answering) {
+            answering = true;
+            this.output.write('G> ');
+          }
+          this.output.write(token);
+        },
+        onToolCall: call => this.print(`${answering ? '\n' : ''}  (${formatToolCall(call)})`),
+      });
+
+      this.lastSources = turn.sources;
+      this.lastCitedIds = new Set(turn.citations.map(citation => citation.chunkId));
+      if (turn.cancelled) {
+        this.print('\n(answer cancelled)\n');
+        return;
+      }
+
+      this.history = turn.history;
+      const at = new Date().toISOString();
+      this.transcript.push({ role: 'user', content: question, at });
+      this.transcript.push({
+        role: 'assistant',
+        content: turn.answer,
+        at,
+        sources: turn.citations,
+      });
+      this.print('\n');
+      if (turn.summarized) {
+        this.print('(Older questions were summarized to fit the context window.)\n');
+      }
+      await this.saveSession();
+    } catch (error) {
+      this.print(`\nError: ${error instanceof Error ? error.message : String(error)}\n`);
+    } finally {
+      this.inFlight = undefined;
+    }
+  }
+
+  private printScope(): void {
+    if (this.scope.length === 0) {
+      this.print('No papers in scope. Ingest one with: npx research-gangsta ingest ./paper.pdf');
+      return;
+    }
+    this.print('Papers in scope:');
+    this.scope.forEach(paper => this.print(`  ${paper.id}  ${paper.title}`));
+  }
+
+  private printSources(): void {
+    if (this.lastSources.length === 0) {
+      this.print('No sources yet. Ask a question first.');
+      return;
+    }
+    this.lastSources.forEach((result, index) => {
+      const cited = this.lastCitedIds.has(result.document.id) ? '*' : ' ';
+      this.print(
+        `${cited} [${index + 1}] ${result.document.id}  ${formatSourceLocation(result)}  (score ${result.score.toFixed(3)})`
+      );
+    });
+    this.print('\n* cited in the answer');
+  }
+
+  /**
+   * Saves the conversation to the session, if the chat has one
+   */
+  private async saveSession(): Promise<void> {
+    if (!this.session || !this.sessions) {
+      return;
+    }
+    this.session.history = this.history;
+    this.session.transcript = this.transcript;
+    await this.sessions.save(this.session);
+  }
+
+  /**
+   * Writes the transcript as Markdown
+   * @param file - Target file; defaults to a timestamped file in the working directory
+   * @returns The path written
+   */
+  private async saveTranscript(file?: string): Promise<string> {
+    const target =
+      file || `g-chat-${new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19)}.md`;
+
+    const lines = ['# G-Chat transcript', ''];
+    if (this.scope.length > 0) {
+      lines.push(
+        `Papers: ${this.scope.map(paper => `${paper.title} (${paper.id})`).join(', ')}`,
+        ''
+      );
+    }
+    for (const entry of this.transcript) {
+      lines.push(entry.role === 'user' ? '## You' : '## The G', '', entry.content, '');
+      if (entry.sources && entry.sources.length > 0) {
+        lines.push('Sources:', '');
+        entry.sources.forEach(source => {
+          lines.push(`- \`${source.chunkId}\` ${formatCitationLocation(source)}`);
+        });
+        lines.push('');
+      }
+    }
+
+    await writeFile(target, lines.join('\n'));
+    return target;
+  }
+}
@@ -7,36 +7,435 @@
  * @date October 2025
  * @version 1.0.0
  */
-import { Agent, run } from '@openai/agents';
+import {
+  Agent,
+  AgentInputItem,
+  assistant,
+  Model,
+  ModelResponse,
+  OpenAIProvider,
+  run,
+  system,
+  user,
+} from '@openai/agents';
 import { z } from 'zod';
-import { readFile } from 'fs/promises';
-import { PDFParse } from 'pdf-parse';
-
-export const GangstaAgentSupportedModels = [
-  'gpt-4.1',
-  'gpt-4.1-nano',
-  'gpt-4.1-mini',
-  'gpt-5-nano',
-  'gpt-5-mini',
-  'gpt-5',
-];
+import { basename, extname, resolve } from 'path';
+import { createEmbeddingProvider, EmbeddingProvider } from './embedding-providers.js';
+import { HybridSearchResult, MemoryVectorStore, SearchResult } from './memory-vector-store.js';
+import { MetadataFilter } from './metadata-filter.js';
+import {
+  BUILTIN_MODELS,
+  MODEL_CAPABILITY_NAMES,
+  ModelCapabilities,
+  ModelInfo,
+  ModelRegistry,
+  ModelRegistryError,
+  modelRegistry,
+  promptBudget,
+} from './model-registry.js';
+import { chunkPaper, estimateTokens } from './paper-chunker.js';
+import {
+  DIGEST_QUERIES,
+  digestChunkIds,
+  PaperDigest,
+  PaperDigestSchema,
+  resolveDigestSources,
+} from './paper-digest.js';
+import {
+  COMPARISON_ASPECTS,
+  ComparisonMatrix,
+  ComparisonMatrixSchema,
+  comparisonChunkIds,
+  MAX_COMPARED_PAPERS,
+  MIN_COMPARED_PAPERS,
+  resolveComparison,
+} from './paper-comparison.js';
+import type { PaperLibrary } from './paper-library.js';
+import { loadPaperFile, LoadedPaper } from './paper-loader.js';
+import { formatExcerpt, PaperTools, ToolCall } from './paper-tools.js';
 
+/**
+ * Ids of the built-in models.
+ * @deprecated Models are looked up in a ModelRegistry; use `modelRegistry.ids()`.
+ */
+export const GangstaAgentSupportedModels = BUILTIN_MODELS.map(model => model.id);
+
+export const DEFAULT_GANGSTA_MODEL = 'gpt-4.1';
+
+/**
+ * Embedding model the agent and the CLI embed papers with when none is
+ * configured. It differs on purpose from DEFAULT_OPENAI_EMBEDDING_MODEL, the
+ * library default: papers already ingested with it must stay searchable
+ * together with new ones.
+ */
 export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-large';
 
-interface GangstaAgentInitializationOptions {
+export interface GangstaAgentInitializationOptions {
   name: string;
   description: string;
   principles: string[];
   model: string;
+  embeddingProvider?: EmbeddingProvider;
+
+  /**
+   * Models the agent may run on; defaults to the built-in OpenAI models.
+   */
+  modelRegistry?: ModelRegistry;
 }
 
-const GangstaAgentInitializationOptionsSchema = z.object({
+export const GangstaAgentInitializationOptionsSchema = z.object({
   name: z.string(),
   description: z.string(),
   principles: z.array(z.string()),
   model: z.string(),
+  embeddingProvider: z.custom<EmbeddingProvider>().optional(),
+  modelRegistry: z.custom<ModelRegistry>().optional(),
 });
 
+/**
+ * A reference from an answer to the paper chunk backing it.
+ */
+export interface Citation {
+  /**
+   * Id of the cited chunk.
+   */
+  chunkId: string;
+
+  /**
+   * Id of the paper the chunk belongs to.
+   */
+  paperId?: string;
+
+  /**
+   * Section the chunk belongs to.
+   */
+  section?: string;
+
+  /**
+   * First page of the chunk.
+   */
+  page?: number;
+
+  /**
+   * Last page of the chunk.
+   */
+  pageEnd?: number;
+
+  /**
+   * Retrieval score of the chunk.
+   */
+  score: number;
+}
+
+/**
+ * An answer grounded in paper chunks.
+ */
+export interface GangstaResponse {
+  /**
+   * The answer text, citing chunks as [chunk-id].
+   */
+  answer: string;
+
+  /**
+   * The chunks the answer relies on.
+   */
+  citations: Citation[];
+
+  /**
+   * Tool calls the agent made to look things up in the papers.
+   */
+  toolCalls: ToolCall[];
+
+  /**
+   * Id of the model that wrote the answer.
+   */
+  model: string;
+
+  /**
+   * Tokens used to write the answer, if the model reported them.
+   */
+  usage?: TokenUsage;
+}
+
+/**
+ * Tokens used by the requests made to the model.
+ */
+export interface TokenUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Options for answering a prompt.
+ */
+export interface GangstaAnswerOptions {
+  /**
+   * Number of excerpts retrieved for the prompt.
+   * @default 5
+   */
+  topK?: number;
+
+  /**
+   * Library the papers come from; lets the agent look up their references.
+   */
+  library?: PaperLibrary;
+
+  /**
+   * Called after every tool call the agent makes.
+   */
+  onToolCall?: (call: ToolCall) => void;
+
+  /**
+   * Fail instead of asking the model when no retrieved chunk is relevant to the prompt.
+   * @default false
+   */
+  requireRelevantContext?: boolean;
+}
+
+/**
+ * Options for a single chat turn.
+ */
+export interface GangstaChatOptions {
+  /**
+   * Vector store holding the papers in scope; excerpts are retrieved from it for every turn.
+   */
+  store?: MemoryVectorStore;
+
+  /**
+   * Conversation so far, as returned by the previous turn.
+   */
+  history?: AgentInputItem[];
+
+  /**
+   * Aborts the turn while it is being generated.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called with each piece of the answer as it streams in.
+   */
+  onToken?: (token: string) => void;
+
+  /**
+   * Number of excerpts retrieved per turn.
+   * @default 5
+   */
+  topK?: number;
+
+  /**
+   * Library the papers come from; lets the agent look up their references.
+   */
+  library?: PaperLibrary;
+
+  /**
+   * Called after every tool call the agent makes.
+   */
+  onToolCall?: (call: ToolCall) => void;
+}
+
+/**
+ * Outcome of a single chat turn.
+ */
+export interface GangstaChatTurn {
+  /**
+   * The (possibly partial, if cancelled) answer.
+   */
+  answer: string;
+
+  /**
+   * Excerpts retrieved for the turn, followed by those the agent looked up with tools.
+   */
+  sources: SearchResult[];
+
+  /**
+   * Excerpts the answer cites (empty if the turn was cancelled).
+   */
+  citations: Citation[];
+
+  /**
+   * Conversation including this turn (unchanged if the turn was cancelled).
+   */
+  history: AgentInputItem[];
+
+  /**
+   * Tool calls the agent made to look things up in the papers.
+   */
+  toolCalls: ToolCall[];
+
+  /**
+   * True if older turns were rolled into a summary to fit the context window.
+   */
+  summarized: boolean;
+
+  /**
+   * True if the turn was aborted before it completed.
+   */
+  cancelled: boolean;
+}
+
+/**
+ * Options for writing a paper digest.
+ */
+export interface GangstaDigestOptions {
+  /**
+   * Paper to digest, for stores holding several papers.
+   */
+  paperId?: string;
+
+  /**
+   * Number of excerpts retrieved for each part of the digest.
+   * @default 4
+   */
+  topK?: number;
+
+  /**
+   * Aborts the digest while it is being generated.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A paper digest together with the chunks it cites.
+ */
+export interface GangstaDigest {
+  /**
+   * The digest, each field citing the ids of the chunks it comes from.
+   */
+  digest: PaperDigest;
+
+  /**
+   * The chunks the digest cites, in order of first citation.
+   */
+  citations: Citation[];
+}
+
+/**
+ * Options for comparing papers.
+ */
+export interface GangstaCompareOptions {
+  /**
+   * Number of excerpts retrieved from each paper for each compared aspect.
+   * @default 2
+   */
+  topK?: number;
+
+  /**
+   * Aborts the comparison while it is being generated.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A comparison matrix together with the chunks it cites.
+ */
+export interface GangstaComparison {
+  /**
+   * The matrix, one row per paper in the order they were given.
+   */
+  matrix: ComparisonMatrix;
+
+  /**
+   * The chunks the matrix cites, paper by paper.
+   */
+  citations: Citation[];
+}
+
+/**
+ * Tokens taken by the id, title, section and pages heading every excerpt.
+ */
+const EXCERPT_HEADER_TOKENS = 24;
+
+/**
+ * Least cosine similarity at which a chunk without any of the prompt's terms
+ * still counts as relevant to it.
+ */
+const RELEVANT_SEMANTIC_SCORE = 0.3;
+
+/**
+ * Share of the prompt budget the conversation history may take before older
+ * turns are rolled into a summary; the rest is left for the excerpts.
+ */
+const HISTORY_SHARE = 0.5;
+
+/**
+ * Number of most recent turns kept word for word when the history is summarized.
+ */
+const KEPT_TURNS = 2;
+
+/**
+ * Heading of the message holding the summary of earlier turns.
+ */
+const SUMMARY_HEADING = 'Summary of the conversation so far:';
+
+/**
+ * Task given to the agent when summarizing earlier turns of a chat.
+ */
+const SUMMARY_TASK = `Your task is to summarize the earlier part of a conversation about research papers.`;
+
+/**
+ * Rules given to the agent when summarizing earlier turns of a chat.
+ */
+const SUMMARY_RULES = `
+    Keep the questions asked, the answers given with their key facts and numbers, and the excerpt ids they cite, e.g. [paper#3].
+    Keep any earlier summary. Write plain prose in at most a few paragraphs.`;
+
+/**
+ * Task given to the agent when answering prompts.
+ */
+const ANSWER_TASK = `Your task is to read the research paper and respond to the prompt.`;
+
+/**
+ * Grounding rules given to the agent when answering prompts.
+ */
+const ANSWER_RULES = `
+    Ground every claim in the excerpts from the paper that come with the prompt.
+    After each claim, cite the excerpt ids it comes from in square brackets, e.g. [paper#3].
+    When asked about a citation such as [12], use the references listed with the excerpt that cites it.
+    If the excerpts do not answer the prompt, say so instead of guessing.`;
+
+/**
+ * Rules added when the agent has tools to look things up in the papers.
+ */
+const TOOL_RULES = `
+    When the excerpts are not enough, use the tools to search the papers, read sections and pages,
+    find figure captions and look up references, then cite the excerpt ids the tools return.`;
+
+/**
+ * Task given to the agent when writing a digest.
+ */
+const DIGEST_TASK = `Your task is to write a structured digest of the research paper.`;
+
+/**
+ * Grounding rules given to the agent when writing a digest.
+ */
+const DIGEST_RULES = `
+    Fill in every field from the excerpts of the paper that come with the prompt only.
+    List in "sources" the ids of the excerpts each field comes from, e.g. "paper#3".
+    Leave a field empty (empty text, empty list or null) when the excerpts do not cover it.
+    Report results with their numbers exactly as stated in the paper.`;
+
+/**
+ * Prompt sent with the excerpts when writing a digest.
+ */
+const DIGEST_PROMPT = 'Write the digest of this paper.';
+
+/**
+ * Task given to the agent when comparing papers.
+ */
+const COMPARE_TASK = `Your task is to compare research papers side by side.`;
+
+/**
+ * Grounding rules given to the agent when comparing papers.
+ */
+const COMPARE_RULES = `
+    Write one row per paper, filling every cell from the excerpts of that paper only.
+    List in "sources" the ids of the excerpts each cell comes from, e.g. "paper#3".
+    Keep cells short and parallel, so the papers can be read across an aspect.
+    Leave a cell empty when the excerpts of the paper do not cover it.
+    Report results with their numbers exactly as stated in the paper.`;
+
 export class GangstaAgentInitializationOptionsError extends Error {
   constructor(message: string) {
     super(message);
@@ -44,8 +443,21 @@ export class GangstaAgentInitializationOptionsError extends Error {
   }
 }
 
+/**
+ * Error raised when nothing in the papers is relevant to a prompt.
+ */
+export class NoRelevantContextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoRelevantContextError';
+  }
+}
+
 export class GangstaAgent {
   private options: GangstaAgentInitializationOptions;
+  private modelInfo: ModelInfo;
+  private chatModel?: Promise<Model>;
+  private vectorStores = new Map<string, Promise<MemoryVectorStore>>();
 
   /**
    * Constructs an instance of the GangstaAgent.
@@ -59,9 +471,13 @@ export class GangstaAgent {
     }
 
     this.options = options;
+    this.modelInfo = (options.modelRegistry ?? modelRegistry).get(options.model)!;
   }
 
-  private validateModel(model: string): {
+  private validateModel(
+    model: string,
+    registry: ModelRegistry
+  ): {
     status: boolean;
     error?: string;
   } {
@@ -69,10 +485,10 @@ export class GangstaAgent {
       return { status: false, error: 'model is required and must be a string' };
     }
 
-    if (!GangstaAgentSupportedModels.includes(model)) {
+    if (!registry.get(model)) {
       return {
         status: false,
-        error: `Invalid model. Supported models: ${GangstaAgentSupportedModels.join(', ')}`,
+        error: `Invalid model. Supported models: ${registry.ids().join(', ')}`,
       };
     }
 
@@ -88,7 +504,10 @@ export class GangstaAgent {
     status: boolean;
     error?: string;
   } {
-    const modelValidation = this.validateModel(options.model);
+    const modelValidation = this.validateModel(
+      options.model,
+      options.modelRegistry ?? modelRegistry
+    );
 
     if (!modelValidation.status) {
       return {
@@ -130,55 +549,575 @@ export class GangstaAgent {
   /**
    * Loads a file from the file system.
    * @param filePath - The path to the file to load.
-   * @returns The content of the file.
+   * @returns The text of the paper with its page layout.
    * @throws Error if the file type is not supported.
    */
-  // @ts-ignore - TODO: This method will be used in future implementation
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async loadFile(filePath: string): Promise<string> {
-    const file = await readFile(filePath);
-
-    if (filePath.endsWith('.pdf')) {
-      const parser = new PDFParse({
-        data: file,
-      });
-      const pdfTextNode = await parser.getText();
-      return pdfTextNode.text;
-    } else {
-      throw new Error(`Unsupported file type: ${filePath}. Only PDF files are supported.`);
-    }
+  private async loadFile(filePath: string): Promise<LoadedPaper> {
+    return loadPaperFile(filePath);
   }
 
-  // @ts-ignore - TODO: This method will be used in future implementation
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async getVectorStore(paperText: string): Promise<any> {
-    // TODO: Implement vector store
-  }
+  /**
+   * Gets a vector store holding the chunks of a paper, embedding it on first use.
+   * @param paperFilePath - The path to the paper.
+   * @returns The vector store.
+   */
+  private async getVectorStore(paperFilePath: string): Promise<MemoryVectorStore> {
+    const key = resolve(paperFilePath);
+    let store = this.vectorStores.get(key);
 
-  // @ts-ignore - TODO: This method will be used in future implementation
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async generateResponse(prompt: string, paperFilePath: string): Promise<string> {
-    const agentNumber = Math.floor(Math.random() * 1000000);
+    if (!store) {
+      store = (async () => {
+        const paper = await this.loadFile(key);
+        const vectorStore = new MemoryVectorStore({
+          embeddingProvider:
+            this.options.embeddingProvider || createEmbeddingProvider(DEFAULT_EMBEDDING_MODEL),
+        });
+        await vectorStore.addDocuments(chunkPaper(paper, { paperId: basename(key, extname(key)) }));
+        return vectorStore;
+      })();
+      this.vectorStores.set(key, store);
+      // Don't cache failures, so a later call can retry
+      store.catch(() => this.vectorStores.delete(key));
+    }
 
-    const name = `Gangsta Agent#${agentNumber}: ${this.options.name}`;
+    return store;
+  }
+
+  /**
+   * Builds the configuration of the underlying agent with the Gangsta instructions.
+   * @param task - What the agent is asked to do.
+   * @param rules - How the agent grounds its output in the excerpts.
+   * @returns The agent name, instructions and model.
+   */
+  private async agentConfig(task: string, rules: string) {
+    const name = `Gangsta Agent: ${this.options.name}`;
 
     const instructions = `
-    You are a Gangsta Agent.
-    Your task is to read the research paper and respond to the prompt.
+    You are a Gangsta Agent called ${this.options.name}: ${this.options.description}
+    ${task}
     You are to follow the following principles:
     ${this.options.principles.join('\n')}
+${rules}
     `;
 
-    // const paperText = await this.loadFile(paperFilePath);
-    // const relevantDocuments = await this.getVectorStore(paperText);
-
-    const agent = new Agent({
+    return {
       name: name,
       instructions: instructions,
+      model: await this.agentModel(),
+    };
+  }
+
+  /**
+   * Gets the model the underlying agent runs on: the model name for OpenAI,
+   * or a Chat Completions client for OpenAI-compatible servers.
+   * @returns The model.
+   */
+  private async agentModel(): Promise<string | Model> {
+    const { provider, id, model = id, baseURL, apiKeyEnv } = this.modelInfo;
+    if (provider === 'openai' && !baseURL) {
+      return model;
+    }
+
+    if (!this.chatModel) {
+      // Local servers usually ignore the key, but the client refuses to start without one
+      const apiKey = (apiKeyEnv && process.env[apiKeyEnv]) || 'not-needed';
+      const provider = new OpenAIProvider({ apiKey, baseURL, useResponses: false });
+      this.chatModel = provider.getModel(model);
+    }
+    return this.chatModel;
+  }
+
+  /**
+   * Fails early when the model lacks a capability a task needs.
+   * @param capability - The capability.
+   * @param task - What the capability is needed for, e.g. "digests".
+   * @throws ModelRegistryError if the model does not have the capability.
+   */
+  private requireCapability(capability: keyof ModelCapabilities, task: string): void {
+    if (!this.modelInfo.capabilities[capability]) {
+      throw new ModelRegistryError(
+        `Model "${this.modelInfo.id}" cannot write ${task}: it does not support ${MODEL_CAPABILITY_NAMES[capability]}`
+      );
+    }
+  }
+
+  /**
+   * Keeps the best-ranked excerpts that fit in the context window of the
+   * model, next to everything else sent with them.
+   * @param sources - The retrieved chunks, best first.
+   * @param reserved - The other text sent to the model: instructions, prompt, history.
+   * @returns The excerpts that fit, best first.
+   */
+  private fitToContext(sources: SearchResult[], reserved: string[]): SearchResult[] {
+    let budget =
+      promptBudget(this.modelInfo) - reserved.reduce((sum, text) => sum + estimateTokens(text), 0);
+
+    const fitting: SearchResult[] = [];
+    for (const source of sources) {
+      const tokens = estimateTokens(source.document.content) + EXCERPT_HEADER_TOKENS;
+      if (tokens > budget) {
+        break;
+      }
+      budget -= tokens;
+      fitting.push(source);
+    }
+    return fitting;
+  }
+
+  /**
+   * Builds the underlying agent with the Gangsta instructions.
+   * @param tools - Tools to look things up in the papers, given to models that can call tools.
+   * @returns The agent.
+   */
+  private async createAgent(tools?: PaperTools): Promise<Agent> {
+    if (!tools || !this.modelInfo.capabilities.tools) {
+      return new Agent(await this.agentConfig(ANSWER_TASK, ANSWER_RULES));
+    }
+    const config = await this.agentConfig(ANSWER_TASK, `${ANSWER_RULES}${TOOL_RULES}`);
+    return new Agent({ ...config, tools: tools.tools });
+  }
+
+  /**
+   * Formats a prompt together with the paper excerpts retrieved for it.
+   * @param prompt - The user prompt.
+   * @param sources - The retrieved paper chunks.
+   * @returns The message sent to the model.
+   */
+  private formatPromptWithContext(prompt: string, sources: SearchResult[]): string {
+    if (sources.length === 0) {
+      return prompt;
+    }
+
+    const excerpts = sources.map(({ document }) => formatExcerpt(document)).join('\n\n');
+
+    const papers = new Set(sources.map(({ document }) => document.metadata?.paperId));
+    const heading = papers.size > 1 ? 'Excerpts from the papers' : 'Excerpts from the paper';
+    return `${heading}:\n\n${excerpts}\n\nQuestion: ${prompt}`;
+  }
+
+  /**
+   * The principles the agent follows.
+   */
+  get principles(): string[] {
+    return [...this.options.principles];
+  }
+
+  /**
+   * Answers one chat turn, streaming the answer as it is generated.
+   * @param prompt - The user prompt.
+   * @param options - Chat options.
+   * @returns The answer, the excerpts it was based on and the updated history.
+   */
+  async streamResponse(prompt: string, options: GangstaChatOptions = {}): Promise<GangstaChatTurn> {
+    const { store, history = [], signal, onToken, topK = 5, library, onToolCall } = options;
+
+    const tools = store && new PaperTools({ store, library, onToolCall });
+    const agent = await this.createAgent(tools);
+    const retrieved = store ? await this.retrieve(store, prompt, topK) : [];
+    const reserved = [String(agent.instructions), prompt];
+    const recent = await this.compactHistory(history, reserved, signal);
+    const summarized = recent !== history;
+    const sources = this.fitToContext(retrieved, [...reserved, JSON.stringify(recent)]);
+    const input = [...recent, user(this.formatPromptWithContext(prompt, sources))];
+
+    let answer = '';
+    let cancelled = false;
+    try {
+      if (this.modelInfo.capabilities.streaming) {
+        const result = await run(agent, input, { stream: true, signal });
+        try {
+          for await (const token of result.toTextStream({ compatibleWithNodeStreams: true })) {
+            answer += token;
+            onToken?.(String(token));
+          }
+          await result.completed;
+        } finally {
+          cancelled = result.cancelled;
+        }
+      } else {
+        // Models that cannot stream deliver the answer in one piece
+        const result = await run(agent, input, { signal });
+        answer = result.finalOutput ?? '';
+        onToken?.(answer);
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        throw error;
+      }
+    }
+
+    const toolCalls = tools?.calls ?? [];
+    const consulted = withToolResults(sources, tools);
+    if (signal?.aborted || cancelled) {
+      // A cancelled turn leaves the conversation as it was
+      return {
+        answer,
+        sources: consulted,
+        citations: [],
+        history,
+        toolCalls,
+        summarized: false,
+        cancelled: true,
+      };
+    }
+
+    // Keep the plain prompt in the history; excerpts are re-retrieved every turn
+    return {
+      answer,
+      sources: consulted,
+      citations: extractCitations(answer, consulted),
+      history: [...recent, user(prompt), assistant(answer)],
+      toolCalls,
+      summarized,
+      cancelled: false,
+    };
+  }
+
+  /**
+   * Rolls older turns of a conversation into a summary once the history would
+   * take more than its share of the context window, keeping the most recent
+   * turns word for word.
+   * @param history - The conversation so far.
+   * @param reserved - The other text sent with the history: instructions and prompt.
+   * @param signal - Aborts the summarization.
+   * @returns The history unchanged if it fits, else a summary message followed by the recent turns.
+   */
+  private async compactHistory(
+    history: AgentInputItem[],
+    reserved: string[],
+    signal?: AbortSignal
+  ): Promise<AgentInputItem[]> {
+    const available =
+      promptBudget(this.modelInfo) - reserved.reduce((sum, text) => sum + estimateTokens(text), 0);
+    const kept = KEPT_TURNS * 2;
+    if (
+      history.length <= kept ||
+      estimateTokens(JSON.stringify(history)) <= available * HISTORY_SHARE
+    ) {
+      return history;
+    }
+
+    const older = history.slice(0, -kept);
+    const transcript = older
+      .map(item => {
+        const role = 'role' in item ? item.role : undefined;
+        const speaker = role === 'user' ? 'User' : role === 'assistant' ? this.options.name : '';
+        return speaker ? `${speaker}: ${messageText(item)}` : messageText(item);
+      })
+      .join('\n\n');
+
+    const config = await this.agentConfig(SUMMARY_TASK, SUMMARY_RULES);
+    const result = await run(new Agent(config), transcript, { signal });
+    return [system(`${SUMMARY_HEADING}\n${result.finalOutput ?? ''}`), ...history.slice(-kept)];
+  }
+
+  /**
+   * Retrieves the chunks most relevant to a prompt, by meaning and by exact terms,
+   * favouring chunks from different sections over near-duplicates.
+   * @param store - The vector store to search.
+   * @param prompt - The user prompt.
+   * @param topK - The number of chunks to retrieve.
+   * @returns The retrieved chunks.
+   */
+  private async retrieve(
+    store: MemoryVectorStore,
+    prompt: string,
+    topK: number
+  ): Promise<HybridSearchResult[]> {
+    return store.hybridSearch(prompt, { topK, mmr: true, maxPer: { 'paperId,section': 2 } });
+  }
+
+  /**
+   * Answers a prompt from the chunks of a vector store.
+   * @param prompt - The user prompt.
+   * @param store - The vector store holding the paper chunks.
+   * @param options - Retrieval and tool options.
+   * @returns The answer with citations of the chunks it relies on.
+   * @throws NoRelevantContextError if relevant context is required and none is found.
+   */
+  async answer(
+    prompt: string,
+    store: MemoryVectorStore,
+    options: GangstaAnswerOptions = {}
+  ): Promise<GangstaResponse> {
+    const { library, onToolCall } = options;
+    const retrieved = await this.retrieve(store, prompt, options.topK ?? 5);
+    const relevant = retrieved.some(
+      result => result.lexicalScore > 0 || result.semanticScore >= RELEVANT_SEMANTIC_SCORE
+    );
+    if (options.requireRelevantContext && !relevant) {
+      throw new NoRelevantContextError(`Nothing in the papers is relevant to "${prompt}"`);
+    }
+
+    const tools = new PaperTools({ store, library, onToolCall });
+    const agent = await this.createAgent(tools);
+    const sources = this.fitToContext(retrieved, [String(agent.instructions), prompt]);
+
+    const result = await run(agent, this.formatPromptWithContext(prompt, sources));
+    const answer = result.finalOutput || '';
+
+    return {
+      answer,
+      citations: extractCitations(answer, withToolResults(sources, tools)),
+      toolCalls: tools.calls,
+      model: this.modelInfo.id,
+      usage: sumUsage(result.rawResponses),
+    };
+  }
+
+  /**
+   * Writes a structured digest of a paper from the chunks of a vector store.
+   * Excerpts are retrieved for each part of the digest (front matter, problem,
+   * contributions, methods, datasets, results, limitations, open questions),
+   * and the model output is validated against PaperDigestSchema.
+   * @param store - The vector store holding the paper chunks.
+   * @param options - Digest options.
+   * @returns The digest with citations of the chunks it relies on.
+   * @throws ZodError if the model output does not match the digest schema.
+   */
+  async digest(
+    store: MemoryVectorStore,
+    options: GangstaDigestOptions = {}
+  ): Promise<GangstaDigest> {
+    const { paperId, topK = 4, signal } = options;
+    this.requireCapability('structuredOutput', 'digests');
+    const config = await this.agentConfig(DIGEST_TASK, DIGEST_RULES);
+    const where: MetadataFilter | undefined = paperId ? { paperId } : undefined;
+
+    // Title, authors and venue are only found in the front matter
+    const searches = [
+      store.hybridSearch('title authors affiliations venue year abstract', {
+        topK,
+        where: { ...where, sectionKind: { in: ['front-matter', 'abstract'] } },
+      }),
+      ...DIGEST_QUERIES.map(query =>
+        store.hybridSearch(query, { topK, where, mmr: true, maxPer: { 'paperId,section': 2 } })
+      ),
+    ];
+
+    const retrieved = this.fitToContext(interleave(await Promise.all(searches)), [
+      String(config.instructions),
+      DIGEST_PROMPT,
+    ]);
+
+    // Excerpts in paper order read more naturally than in retrieval order
+    const sources = [...retrieved].sort(
+      (a, b) =>
+        String(a.document.metadata?.paperId).localeCompare(String(b.document.metadata?.paperId)) ||
+        (a.document.metadata?.chunkIndex ?? 0) - (b.document.metadata?.chunkIndex ?? 0)
+    );
+
+    const agent = new Agent({
+      ...config,
+      outputType: PaperDigestSchema,
     });
+    const result = await run(agent, this.formatPromptWithContext(DIGEST_PROMPT, sources), {
+      signal,
+    });
+
+    const digest = resolveDigestSources(
+      PaperDigestSchema.parse(result.finalOutput),
+      sources.map(source => source.document.id)
+    );
+    const byId = new Map(sources.map(source => [source.document.id, source]));
+    return {
+      digest,
+      citations: digestChunkIds(digest).map(id => toCitation(byId.get(id)!)),
+    };
+  }
+
+  /**
+   * Compares papers side by side. Evidence for every aspect (problem, approach,
+   * datasets, metrics, results, limitations) is retrieved from each paper
+   * separately, so every paper is represented in every row, and the model
+   * output is validated against ComparisonMatrixSchema.
+   * @param store - The vector store holding the chunks of the papers.
+   * @param paperIds - The papers to compare, 2 to 5.
+   * @param options - Comparison options.
+   * @returns The matrix with citations of the chunks it relies on.
+   * @throws ZodError if the model output does not match the matrix schema.
+   */
+  async compare(
+    store: MemoryVectorStore,
+    paperIds: string[],
+    options: GangstaCompareOptions = {}
+  ): Promise<GangstaComparison> {
+    const { topK = 2, signal } = options;
+    const ids = [...new Set(paperIds)];
+    if (ids.length < MIN_COMPARED_PAPERS || ids.length > MAX_COMPARED_PAPERS) {
+      throw new Error(
+        `Compare ${MIN_COMPARED_PAPERS} to ${MAX_COMPARED_PAPERS} papers, got ${ids.length}`
+      );
+    }
+    this.requireCapability('structuredOutput', 'comparisons');
+    const config = await this.agentConfig(COMPARE_TASK, COMPARE_RULES);
+
+    const searches = ids.flatMap(paperId => [
+      store.hybridSearch('title authors abstract', {
+        topK: 1,
+        where: { paperId, sectionKind: { in: ['front-matter', 'abstract'] } },
+      }),
+      ...COMPARISON_ASPECTS.map(({ query }) =>
+        store.hybridSearch(query, { topK, where: { paperId }, mmr: true })
+      ),
+    ]);
 
-    const result = await run(agent, prompt);
+    const retrieved = interleave(await Promise.all(searches));
+    const papers = ids.map(paperId => ({
+      paperId,
+      title:
+        retrieved.find(source => source.document.metadata?.paperId === paperId)?.document.metadata
+          ?.title ?? paperId,
+    }));
+    const prompt = `Compare these papers: ${papers
+      .map(paper => `${paper.paperId} (${paper.title})`)
+      .join(', ')}.`;
 
-    return result.finalOutput || '';
+    // Group the excerpts by paper, in the order the papers were given
+    const sources = this.fitToContext(retrieved, [String(config.instructions), prompt]).sort(
+      (a, b) =>
+        ids.indexOf(a.document.metadata?.paperId) - ids.indexOf(b.document.metadata?.paperId) ||
+        (a.document.metadata?.chunkIndex ?? 0) - (b.document.metadata?.chunkIndex ?? 0)
+    );
+
+    const agent = new Agent({
+      ...config,
+      outputType: ComparisonMatrixSchema,
+    });
+    const result = await run(agent, this.formatPromptWithContext(prompt, sources), { signal });
+
+    const matrix = resolveComparison(
+      ComparisonMatrixSchema.parse(result.finalOutput),
+      papers,
+      sources.map(source => source.document.id)
+    );
+    const byId = new Map(sources.map(source => [source.document.id, source]));
+    return {
+      matrix,
+      citations: comparisonChunkIds(matrix).map(id => toCitation(byId.get(id)!)),
+    };
+  }
+
+  /**
+   * Answers a prompt about a paper, grounded in the chunks retrieved from it.
+   * @param prompt - The user prompt.
+   * @param paperFilePath - The path to the paper.
+   * @returns The answer with citations of the chunks it relies on.
+   */
+  async generateResponse(prompt: string, paperFilePath: string): Promise<GangstaResponse> {
+    const store = await this.getVectorStore(paperFilePath);
+    return this.answer(prompt, store);
+  }
+}
+
+/**
+ * Gets the text of a conversation message.
+ * @param item - The message.
+ * @returns Its text, or an empty string for items without text.
+ */
+function messageText(item: AgentInputItem): string {
+  const content = 'content' in item ? item.content : undefined;
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
   }
+  return content
+    .map(part => ('text' in part && typeof part.text === 'string' ? part.text : ''))
+    .join('');
+}
+
+/**
+ * Adds the chunks the agent looked up with tools after the retrieved ones,
+ * so the answer can cite either.
+ * @param sources - The retrieved chunks.
+ * @param tools - The tools the agent was given, if any.
+ * @returns The retrieved chunks followed by the ones only the tools returned.
+ */
+function withToolResults(sources: SearchResult[], tools?: PaperTools): SearchResult[] {
+  const retrieved = new Set(sources.map(source => source.document.id));
+  const looked = (tools?.results ?? []).filter(result => !retrieved.has(result.document.id));
+  return [...sources, ...looked];
+}
+
+/**
+ * Merges the results of several searches, taking the best result of every
+ * search before the second best of any, so each search keeps its evidence
+ * when the context window only has room for some of them.
+ * @param lists - The results of each search, best first.
+ * @returns The distinct results.
+ */
+function interleave(lists: SearchResult[][]): SearchResult[] {
+  const merged = new Map<string, SearchResult>();
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const list of lists) {
+      const result = list[rank];
+      if (result && !merged.has(result.document.id)) {
+        merged.set(result.document.id, result);
+      }
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Turns a retrieved chunk into a citation.
+ * @param result - The retrieved chunk.
+ * @returns The citation.
+ */
+export function toCitation(result: SearchResult): Citation {
+  const metadata = result.document.metadata || {};
+  return {
+    chunkId: result.document.id,
+    paperId: metadata.paperId,
+    section: metadata.section,
+    page: metadata.pageStart,
+    pageEnd: metadata.pageEnd,
+    score: result.score,
+  };
+}
+
+/**
+ * Adds up the tokens used by the model calls of a run
+ * @param responses - The raw model responses of the run.
+ * @returns The usage, or undefined if the model made no calls.
+ */
+function sumUsage(responses: ModelResponse[]): TokenUsage | undefined {
+  if (responses.length === 0) {
+    return undefined;
+  }
+  return responses.reduce(
+    (total, { usage }) => ({
+      requests: total.requests + usage.requests,
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+    }),
+    { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+  );
+}
+
+/**
+ * Collects the citations of an answer: the retrieved chunks it cites as [chunk-id],
+ * in order of first citation. An answer that cites nothing has no citations.
+ * @param answer - The answer text.
+ * @param sources - The chunks retrieved for the prompt.
+ * @returns The citations.
+ */
+export function extractCitations(answer: string, sources: SearchResult[]): Citation[] {
+  const byId = new Map(sources.map(source => [source.document.id, source]));
+  const cited: SearchResult[] = [];
+
+  for (const bracket of answer.matchAll(/\[([^\]]+)\]/g)) {
+    for (const id of bracket[1].split(/[,;]\s*/).map(part => part.trim())) {
+      const source = byId.get(id);
+      if (source && !cited.includes(source)) {
+        cited.push(source);
+      }
+    }
+  }
+
+  return cited.map(toCitation);
 }
@@ -0,0 +1,440 @@
+/**
+ * Tuning parameters of an HNSW index
+ */
+export interface HnswIndexOptions {
+  /**
+   * Number of links per node on the upper layers (twice as many on layer 0).
+   * Higher values improve recall at the cost of memory and insert time.
+   * @default 16
+   */
+  m?: number;
+
+  /**
+   * Size of the candidate list while inserting. Higher values build a better
+   * graph more slowly.
+   * @default 200
+   */
+  efConstruction?: number;
+
+  /**
+   * Size of the candidate list while searching. Higher values improve recall
+   * and slow down queries; can be overridden per search.
+   * @default 50
+   */
+  efSearch?: number;
+
+  /**
+   * Seed for the random level assignment, for reproducible graphs
+   */
+  seed?: number;
+}
+
+/**
+ * A neighbour found by the index
+ */
+export interface HnswMatch {
+  id: string;
+
+  /**
+   * Cosine similarity to the query
+   */
+  score: number;
+}
+
+/**
+ * Serialized form of an index, as stored by MemoryVectorStore.save. Vectors are
+ * not included; they are restored from the documents.
+ */
+export interface HnswIndexSnapshot {
+  m: number;
+  efConstruction: number;
+  entryPoint?: string;
+  ids: string[];
+  levels: number[];
+  /**
+   * Per node, per layer, the positions (in `ids`) of its neighbours
+   */
+  links: number[][][];
+}
+
+interface HnswNode {
+  id: string;
+  vector: number[];
+  level: number;
+  neighbors: string[][];
+}
+
+/**
+ * Small deterministic PRNG (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Scales a vector to unit length, so the dot product equals cosine similarity
+ */
+function normalize(vector: number[]): number[] {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  return norm === 0 ? vector.slice() : vector.map(value => value / norm);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Inserts a match into a list kept sorted by descending score
+ */
+function insertSorted(list: HnswMatch[], match: HnswMatch): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid].score >= match.score) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, match);
+}
+
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest neighbour
+ * search by cosine similarity (Malkov & Yashunin, 2016).
+ *
+ * Nodes can be added and removed at any time; removing a node reconnects the
+ * nodes that linked to it so the graph stays navigable.
+ */
+export class HnswIndex {
+  readonly m: number;
+  readonly efConstruction: number;
+  efSearch: number;
+  private maxM0: number;
+  private levelMultiplier: number;
+  private random: () => number;
+  private nodes: Map<string, HnswNode>;
+  private entryPoint?: string;
+
+  /**
+   * Creates a new, empty HnswIndex
+   * @param options - Tuning parameters
+   */
+  constructor(options: HnswIndexOptions = {}) {
+    const { m = 16, efConstruction = 200, efSearch = 50, seed = 42 } = options;
+    if (m < 2) {
+      throw new Error('HNSW m must be at least 2');
+    }
+    if (efConstruction < 1 || efSearch < 1) {
+      throw new Error('HNSW ef parameters must be positive');
+    }
+
+    this.m = m;
+    this.efConstruction = efConstruction;
+    this.efSearch = efSearch;
+    this.maxM0 = m * 2;
+    this.levelMultiplier = 1 / Math.log(m);
+    this.random = createRandom(seed);
+    this.nodes = new Map();
+  }
+
+  /**
+   * Gets the number of vectors in the index
+   */
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Checks whether a vector is indexed under the given id
+   */
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  private get maxLevel(): number {
+    return this.entryPoint === undefined ? -1 : this.nodes.get(this.entryPoint)!.level;
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.maxM0 : this.m;
+  }
+
+  /**
+   * Greedy best-first search of one layer
+   * @returns Up to `ef` nodes closest to the query, best first
+   */
+  private searchLayer(query: number[], entries: string[], ef: number, layer: number): HnswMatch[] {
+    const visited = new Set(entries);
+    const candidates: HnswMatch[] = [];
+    const results: HnswMatch[] = [];
+
+    for (const id of entries) {
+      const match = { id, score: dot(query, this.nodes.get(id)!.vector) };
+      insertSorted(candidates, match);
+      insertSorted(results, match);
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.score < results[results.length - 1].score) {
+        break;
+      }
+
+      for (const neighborId of this.nodes.get(current.id)!.neighbors[layer] || []) {
+        if (visited.has(neighborId)) {
+          continue;
+        }
+        visited.add(neighborId);
+
+        const score = dot(query, this.nodes.get(neighborId)!.vector);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          insertSorted(candidates, { id: neighborId, score });
+          insertSorted(results, { id: neighborId, score });
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Picks up to `count` diverse neighbours from candidates sorted by similarity
+   * to a base vector: a candidate is skipped when it is closer to an already
+   * selected neighbour than to the base. Skipped candidates fill any remaining slots.
+   */
+  private selectNeighbors(candidates: HnswMatch[], count: number): string[] {
+    const selected: HnswNode[] = [];
+    const skipped: string[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) {
+        break;
+      }
+      const node = this.nodes.get(candidate.id)!;
+      const diverse = selected.every(other => dot(node.vector, other.vector) < candidate.score);
+      if (diverse) {
+        selected.push(node);
+      } else {
+        skipped.push(candidate.id);
+      }
+    }
+
+    const ids = selected.map(node => node.id);
+    return ids.concat(skipped.slice(0, count - ids.length));
+  }
+
+  /**
+   * Re-selects the links of a node on a layer from the given candidate ids
+   */
+  private relink(node: HnswNode, layer: number, candidateIds: Iterable<string>): void {
+    const candidates: HnswMatch[] = [];
+    for (const id of new Set(candidateIds)) {
+      if (id !== node.id && this.nodes.has(id)) {
+        insertSorted(candidates, { id, score: dot(node.vector, this.nodes.get(id)!.vector) });
+      }
+    }
+    node.neighbors[layer] = this.selectNeighbors(candidates, this.maxLinks(layer));
+  }
+
+  /**
+   * Adds a vector to the index, replacing any vector with the same id
+   * @param id - Identifier of the vector
+   * @param vector - The vector
+   */
+  add(id: string, vector: number[]): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      level: this.randomLevel(),
+      neighbors: [],
+    };
+    for (let layer = 0; layer <= node.level; layer++) {
+      node.neighbors.push([]);
+    }
+
+    if (this.entryPoint === undefined) {
+      this.nodes.set(id, node);
+      this.entryPoint = id;
+      return;
+    }
+
+    const topLevel = this.maxLevel;
+    let entries = [this.entryPoint];
+    for (let layer = topLevel; layer > node.level; layer--) {
+      entries = [this.searchLayer(node.vector, entries, 1, layer)[0].id];
+    }
+
+    this.nodes.set(id, node);
+    for (let layer = Math.min(node.level, topLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(node.vector, entries, this.efConstruction, layer).filter(
+        match => match.id !== id
+      );
+      node.neighbors[layer] = this.selectNeighbors(found, this.m);
+
+      for (const neighborId of node.neighbors[layer]) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[layer].push(id);
+        if (neighbor.neighbors[layer].length > this.maxLinks(layer)) {
+          this.relink(neighbor, layer, neighbor.neighbors[layer]);
+        }
+      }
+
+      entries = found.map(match => match.id);
+    }
+
+    if (node.level > topLevel) {
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * Removes a vector from the index
+   * @param id - Identifier of the vector
+   * @returns True if the vector was indexed
+   */
+  remove(id: string): boolean {
+    const removed = this.nodes.get(id);
+    if (!removed) {
+      return false;
+    }
+    this.nodes.delete(id);
+
+    // Links are not always symmetric, so look for every node pointing at the removed one
+    for (const node of this.nodes.values()) {
+      for (let layer = 0; layer < node.neighbors.length; layer++) {
+        const links = node.neighbors[layer];
+        if (links.includes(id)) {
+          this.relink(node, layer, [
+            ...links.filter(link => link !== id),
+            ...(removed.neighbors[layer] || []),
+          ]);
+        }
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = undefined;
+      let best = -1;
+      for (const node of this.nodes.values()) {
+        if (node.level > best) {
+          best = node.level;
+          this.entryPoint = node.id;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Removes every vector from the index
+   */
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = undefined;
+  }
+
+  /**
+   * Finds the approximate nearest neighbours of a query vector
+   * @param vector - The query vector
+   * @param k - Number of neighbours to return
+   * @param ef - Candidate list size; defaults to efSearch (never less than k)
+   * @returns Up to k matches, most similar first
+   */
+  search(vector: number[], k: number, ef: number = this.efSearch): HnswMatch[] {
+    if (this.entryPoint === undefined || k <= 0) {
+      return [];
+    }
+
+    const query = normalize(vector);
+    let entries = [this.entryPoint];
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entries = [this.searchLayer(query, entries, 1, layer)[0].id];
+    }
+
+    return this.searchLayer(query, entries, Math.max(ef, k), 0).slice(0, k);
+  }
+
+  /**
+   * Serializes the graph structure (without vectors)
+   * @returns The snapshot
+   */
+  toJSON(): HnswIndexSnapshot {
+    const ids = Array.from(this.nodes.keys());
+    const positions = new Map(ids.map((id, index) => [id, index]));
+    const nodes = Array.from(this.nodes.values());
+
+    return {
+      m: this.m,
+      efConstruction: this.efConstruction,
+      entryPoint: this.entryPoint,
+      ids,
+      levels: nodes.map(node => node.level),
+      links: nodes.map(node => node.neighbors.map(layer => layer.map(id => positions.get(id)!))),
+    };
+  }
+
+  /**
+   * Restores an index from a snapshot
+   * @param snapshot - The snapshot produced by toJSON
+   * @param getVector - Looks up the vector of an id
+   * @param options - Search-time options (m and efConstruction come from the snapshot)
+   * @returns The restored index
+   * @throws Error if a vector referenced by the snapshot is missing
+   */
+  static fromJSON(
+    snapshot: HnswIndexSnapshot,
+    getVector: (id: string) => number[] | undefined,
+    options: Pick<HnswIndexOptions, 'efSearch' | 'seed'> = {}
+  ): HnswIndex {
+    const index = new HnswIndex({
+      ...options,
+      m: snapshot.m,
+      efConstruction: snapshot.efConstruction,
+    });
+
+    snapshot.ids.forEach((id, position) => {
+      const vector = getVector(id);
+      if (!vector) {
+        throw new Error(`Missing vector for indexed document ${id}`);
+      }
+      index.nodes.set(id, {
+        id,
+        vector: normalize(vector),
+        level: snapshot.levels[position],
+        neighbors: snapshot.links[position].map(layer => layer.map(link => snapshot.ids[link])),
+      });
+    });
+    index.entryPoint = snapshot.entryPoint;
+
+    return index;
+  }
+}
@@ -0,0 +1,215 @@
+import { Buffer } from 'buffer';
+import { joinSections } from './paper-chunker.js';
+import type { PaperLoader } from './paper-loader.js';
+
+/**
+ * Elements whose content is never part of the paper text
+ */
+const SKIPPED_ELEMENTS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'nav',
+  'footer',
+  'button',
+]);
+
+/**
+ * Elements that start a new paragraph
+ */
+const BLOCK_ELEMENTS = new Set([
+  'p',
+  'div',
+  'section',
+  'article',
+  'header',
+  'blockquote',
+  'pre',
+  'ul',
+  'ol',
+  'li',
+  'dl',
+  'dt',
+  'dd',
+  'table',
+  'tr',
+  'figure',
+  'figcaption',
+  'caption',
+  'hr',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  times: '×',
+  minus: '−',
+  deg: '°',
+  plusmn: '±',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+};
+
+/**
+ * Decodes character references such as `&amp;`, `&#8211;` and `&#x2014;`
+ * @param text - HTML text
+ * @returns The decoded text
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : +code.slice(1);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Reads an attribute from the attribute source of a tag
+ */
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(
+    new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i')
+  );
+  return match ? decodeHtmlEntities(match[2] ?? match[3] ?? match[4]) : undefined;
+}
+
+/**
+ * Collapses whitespace within lines and runs of blank lines
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/[ \t\r\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Parses HTML pages (ar5iv renderings, journal pages saved locally). Headings
+ * become sections; scripts, styles and navigation are dropped, and MathML is
+ * replaced by its alt text.
+ */
+export const htmlLoader: PaperLoader = {
+  name: 'html',
+  extensions: ['.html', '.htm', '.xhtml'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  async load(data) {
+    const html = Buffer.from(data).toString('utf-8');
+    const tokens =
+      /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<(\/?)([a-zA-Z][\w:-]*)([^>]*)>|<[!?][^>]*>|[^<]+|</g;
+
+    let documentTitle: string | undefined;
+    let headingTitle: string | undefined;
+    let frontMatter = '';
+    const sections: { title: string; text: string }[] = [];
+    let buffer = '';
+    let headingLevel: number | undefined;
+    let skipping: string | undefined;
+    let skipDepth = 0;
+    let inTitle = false;
+
+    // Moves the text read so far to the section it belongs to
+    const flush = () => {
+      if (sections.length > 0) {
+        sections[sections.length - 1].text += buffer;
+      } else {
+        frontMatter += buffer;
+      }
+      buffer = '';
+    };
+
+    for (const match of html.matchAll(tokens)) {
+      const [token, closing, rawName, attributes = ''] = match;
+      const name = rawName?.toLowerCase();
+      const selfClosing = attributes.trim().endsWith('/');
+
+      if (skipping) {
+        if (name === skipping && !selfClosing) {
+          skipDepth += closing ? -1 : 1;
+          if (skipDepth === 0) {
+            skipping = undefined;
+          }
+        }
+        continue;
+      }
+
+      if (!name) {
+        if (token[0] !== '<' || token === '<') {
+          const text = decodeHtmlEntities(token);
+          if (inTitle) {
+            documentTitle = (documentTitle ?? '') + text;
+          } else {
+            buffer += text;
+          }
+        }
+        continue;
+      }
+
+      if (!closing && !selfClosing && (SKIPPED_ELEMENTS.has(name) || name === 'math')) {
+        // Keep the TeX source of MathML formulas (ar5iv sets it as alttext)
+        const alt = name === 'math' ? attribute(attributes, 'alttext') : undefined;
+        buffer += alt ? ` ${alt} ` : '';
+        skipping = name;
+        skipDepth = 1;
+      } else if (name === 'title') {
+        inTitle = !closing;
+      } else if (name === 'img') {
+        const alt = attribute(attributes, 'alt');
+        buffer += alt ? ` ${alt} ` : '';
+      } else if (/^h[1-6]$/.test(name)) {
+        if (!closing) {
+          flush();
+          headingLevel = Number(name[1]);
+        } else if (headingLevel !== undefined) {
+          const title = normalizeText(buffer).replace(/\n/g, ' ');
+          // A leading <h1> is the paper title, which belongs to the front matter
+          if (headingLevel === 1 && sections.length === 0 && headingTitle === undefined) {
+            frontMatter += `${title}\n\n`;
+            headingTitle = title;
+          } else if (title.length > 0) {
+            sections.push({ title, text: '' });
+          }
+          buffer = '';
+          headingLevel = undefined;
+        }
+      } else if (name === 'br') {
+        buffer += '\n';
+      } else if (name === 'li') {
+        buffer += closing ? '' : '\n- ';
+      } else if (BLOCK_ELEMENTS.has(name)) {
+        buffer += '\n\n';
+      } else if (name === 'td' || name === 'th') {
+        buffer += closing ? ' ' : '';
+      }
+    }
+    flush();
+
+    // Page titles often carry the site name, so the leading <h1> wins
+    const title =
+      headingTitle || normalizeText(documentTitle ?? '').replace(/\n/g, ' ') || undefined;
+    return {
+      ...joinSections(
+        normalizeText(frontMatter),
+        sections.map(section => ({ title: section.title, text: normalizeText(section.text) }))
+      ),
+      title,
+    };
+  },
+};
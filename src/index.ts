@@ -1,6 +1,253 @@
 export {
   MemoryVectorStore,
+  EmbeddingBatchError,
+  CollectionNotFoundError,
+  DEFAULT_COLLECTION,
+  type CollectionInfo,
+  type CollectionStats,
+  type AddDocumentsReport,
+  type HybridSearchOptions,
+  type HybridSearchResult,
   type MemoryVectorStoreConfig,
+  type SaveOptions,
+  type SimilaritySearchOptions,
   type Document,
   type SearchResult,
 } from './memory-vector-store.js';
+export {
+  embedInBatches,
+  getRetryAfterMs,
+  isRetryableError,
+  type EmbeddingBatchOptions,
+  type EmbeddingBatchResult,
+} from './embedding-batch.js';
+export {
+  EmbeddingCache,
+  embeddingCacheKey,
+  normalizeForEmbedding,
+  type EmbeddingCacheOptions,
+  type EmbeddingCacheStats,
+  type PruneEmbeddingCacheOptions,
+} from './embedding-cache.js';
+export {
+  matchesMetadataFilter,
+  parseMetadataFilter,
+  metadataFilterSchema,
+  MetadataFilterError,
+  type MetadataCondition,
+  type MetadataFilter,
+  type MetadataRange,
+  type MetadataScalar,
+} from './metadata-filter.js';
+export { Bm25Index, tokenize, type Bm25IndexOptions, type Bm25Match } from './bm25-index.js';
+export {
+  HnswIndex,
+  type HnswIndexOptions,
+  type HnswIndexSnapshot,
+  type HnswMatch,
+} from './hnsw-index.js';
+export {
+  readVectorStoreFile,
+  writeVectorStoreFile,
+  appendVectorStoreRecords,
+  VectorStoreCorruptionError,
+  VECTOR_STORE_FILE_VERSION,
+  type VectorStoreFileContents,
+  type VectorStoreFileHeader,
+  type VectorStoreRecord,
+} from './vector-store-file.js';
+export {
+  OpenAIEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  HashEmbeddingProvider,
+  createEmbeddingProvider,
+  DEFAULT_OPENAI_EMBEDDING_MODEL,
+  EmbeddingProviderError,
+  HASH_EMBEDDING_MODEL,
+  OPENAI_EMBEDDING_DIMENSIONS,
+  type EmbeddingProvider,
+  type OpenAIEmbeddingProviderConfig,
+  type OpenAICompatibleEmbeddingProviderConfig,
+  type HashEmbeddingProviderConfig,
+} from './embedding-providers.js';
+export {
+  chunkPaper,
+  detectSections,
+  estimateTokens,
+  joinPages,
+  joinSections,
+  type ChunkPaperOptions,
+  type PaperChunkMetadata,
+  type PaperPage,
+  type PaperSection,
+  type PaperSectionKind,
+  type ParsedPaper,
+} from './paper-chunker.js';
+export {
+  loadPaperFile,
+  parsePaper,
+  paperLoaders,
+  sniffMimeType,
+  PaperLoaderRegistry,
+  UnsupportedPaperFormatError,
+  type LoadedPaper,
+  type PaperLoader,
+} from './paper-loader.js';
+export {
+  cleanPdfPages,
+  sourceLocation,
+  type CleanedPaper,
+  type CleanPdfOptions,
+  type SourceSpan,
+} from './pdf-cleanup.js';
+export { latexLoader, latexToText } from './latex-loader.js';
+export { htmlLoader, decodeHtmlEntities } from './html-loader.js';
+export { markdownLoader, stripMarkdownInline } from './markdown-loader.js';
+export {
+  PaperLibrary,
+  PaperNotFoundError,
+  resolveLibraryDir,
+  DEFAULT_LIBRARY_DIR,
+  LIBRARY_DIR_ENV,
+  type IngestOptions,
+  type IngestResult,
+  type PaperManifest,
+} from './paper-library.js';
+export {
+  GangstaAgent,
+  GangstaAgentInitializationOptionsError,
+  NoRelevantContextError,
+  GangstaAgentSupportedModels,
+  GangstaAgentInitializationOptionsSchema,
+  type GangstaAgentInitializationOptions,
+  DEFAULT_EMBEDDING_MODEL,
+  DEFAULT_GANGSTA_MODEL,
+  extractCitations,
+  toCitation,
+  type Citation,
+  type GangstaResponse,
+  type GangstaAnswerOptions,
+  type TokenUsage,
+  type GangstaChatOptions,
+  type GangstaChatTurn,
+  type GangstaDigest,
+  type GangstaDigestOptions,
+  type GangstaCompareOptions,
+  type GangstaComparison,
+} from './gansgta-agent.js';
+export {
+  PaperDigestSchema,
+  DIGEST_QUERIES,
+  digestChunkIds,
+  formatDigestMarkdown,
+  formatSourceList,
+  resolveDigestSources,
+  type PaperDigest,
+} from './paper-digest.js';
+export {
+  ComparisonMatrixSchema,
+  COMPARISON_ASPECTS,
+  MIN_COMPARED_PAPERS,
+  MAX_COMPARED_PAPERS,
+  comparisonChunkIds,
+  formatComparisonMarkdown,
+  resolveComparison,
+  type ComparisonAspect,
+  type ComparisonMatrix,
+  type ComparisonRow,
+} from './paper-comparison.js';
+export {
+  extractBibliography,
+  splitReferences,
+  parseReference,
+  parseAuthors,
+  linkCitations,
+  formatReference,
+  toBibTeX,
+  toCslJson,
+  type BibAuthor,
+  type BibEntry,
+  type BibEntryKind,
+  type Bibliography,
+  type CitationLink,
+  type CslItem,
+} from './bibliography.js';
+export {
+  BUILTIN_PERSONAS,
+  BUILTIN_PRINCIPLE_PACKS,
+  DEFAULT_PERSONA,
+  PERSONAS_DIR_NAME,
+  GangstaPersonaSchema,
+  PersonaDefinitionSchema,
+  PersonaError,
+  loadPersonas,
+  parsePersonaFile,
+  resolvePersona,
+  type GangstaPersona,
+  type PersonaDefinition,
+} from './personas.js';
+export { parseYaml, YamlSyntaxError } from './yaml.js';
+export {
+  BUILTIN_MODELS,
+  MODELS_FILE_NAME,
+  MODEL_CAPABILITY_NAMES,
+  ModelInfoSchema,
+  ModelRegistry,
+  ModelRegistryError,
+  modelRegistry,
+  loadModelRegistry,
+  parseModelsFile,
+  promptBudget,
+  type ModelCapabilities,
+  type ModelInfo,
+} from './model-registry.js';
+export {
+  PaperTools,
+  findCaption,
+  findReferences,
+  formatExcerpt,
+  formatToolCall,
+  type PaperToolsOptions,
+  type ToolCall,
+} from './paper-tools.js';
+export {
+  ask,
+  ASK_EXIT_CODES,
+  AskError,
+  formatAskMarkdown,
+  type AskOptions,
+  type AskResult,
+} from './ask.js';
+export {
+  ChatSessionStore,
+  SessionNotFoundError,
+  SESSIONS_DIR_NAME,
+  type ChatSession,
+  type SessionMessage,
+} from './chat-sessions.js';
+export { GChat, parseSlashCommand, type GChatOptions, type SlashCommand } from './g-chat.js';
+export {
+  COMMAND_LINE_ORIGIN,
+  CONFIG_SETTINGS,
+  ConfigError,
+  ConfigLayerSchema,
+  ConfigSchema,
+  DEFAULT_CONFIG,
+  DEFAULT_ORIGIN,
+  PROJECT_CONFIG_FILE_NAME,
+  findProjectConfig,
+  formatSettingValue,
+  getSetting,
+  loadConfig,
+  parseSettingValue,
+  readConfigFile,
+  setConfigValue,
+  toConfigKey,
+  userConfigPath,
+  validateConfigLayer,
+  type ConfigKey,
+  type ConfigLayerValues,
+  type LoadConfigOptions,
+  type LoadedConfig,
+  type ResearchGangstaConfig,
+} from './config.js';
@@ -0,0 +1,548 @@
+import { Buffer } from 'buffer';
+import { readFile } from 'fs/promises';
+import { basename, dirname, posix, resolve } from 'path';
+import { gunzipSync } from 'zlib';
+import { joinSections, PaperSectionKind } from './paper-chunker.js';
+import type { LoadedPaper, PaperLoader } from './paper-loader.js';
+
+/**
+ * Reads a file referenced by \input, relative to the main file
+ */
+type InputReader = (path: string) => Promise<string | undefined>;
+
+/**
+ * Maximum nesting of \input files, guarding against include cycles
+ */
+const MAX_INPUT_DEPTH = 16;
+
+/**
+ * Largest archive accepted after decompression
+ */
+const MAX_ARCHIVE_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Environments whose content is kept verbatim as math
+ */
+const MATH_ENVIRONMENTS = new Set([
+  'equation',
+  'equation*',
+  'align',
+  'align*',
+  'gather',
+  'gather*',
+  'multline',
+  'multline*',
+  'eqnarray',
+  'eqnarray*',
+  'displaymath',
+  'math',
+]);
+
+/**
+ * Environments whose content is not text
+ */
+const DROPPED_ENVIRONMENTS = new Set(['comment', 'tikzpicture', 'picture', 'filecontents']);
+
+/**
+ * Commands dropped together with their arguments
+ */
+const DROPPED_COMMANDS = new Set([
+  'label',
+  'includegraphics',
+  'vspace',
+  'hspace',
+  'vskip',
+  'hskip',
+  'bibliographystyle',
+  'usepackage',
+  'documentclass',
+  'setlength',
+  'addtolength',
+  'setcounter',
+  'thispagestyle',
+  'pagestyle',
+  'newcommand',
+  'renewcommand',
+  'maketitle',
+  'centering',
+  'noindent',
+  'newpage',
+  'clearpage',
+  'tableofcontents',
+  'footnotemark',
+  'nocite',
+  'thanks',
+]);
+
+/**
+ * Commands that stand for a piece of text
+ */
+const SYMBOL_COMMANDS: Record<string, string> = {
+  LaTeX: 'LaTeX',
+  TeX: 'TeX',
+  ldots: '…',
+  dots: '…',
+  textendash: '–',
+  textemdash: '—',
+  textbackslash: '\\',
+  ie: 'i.e.',
+  eg: 'e.g.',
+  etal: 'et al.',
+};
+
+/**
+ * Combining marks for accent commands such as \'e or \"{o}
+ */
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '"': '\u0308',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  c: '\u0327',
+  v: '\u030c',
+  u: '\u0306',
+  H: '\u030b',
+};
+
+/**
+ * Characters produced by escaped symbols such as \% and \&
+ */
+const ESCAPED_SYMBOLS = '%&_#${}';
+
+/**
+ * Marks a forced line break while converting; replaced once whitespace is collapsed
+ */
+const LINE_BREAK = '\uE000';
+
+/**
+ * Reads the regular files of a tar archive
+ * @param data - The archive
+ * @returns File contents by normalized path
+ */
+function readTarEntries(data: Uint8Array): Map<string, Buffer> {
+  const archive = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const entries = new Map<string, Buffer>();
+  let longName: string | undefined;
+  let offset = 0;
+
+  while (offset + 512 <= archive.length) {
+    const header = archive.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    const field = (start: number, length: number) =>
+      header
+        .subarray(start, start + length)
+        .toString('utf-8')
+        .replace(/\0[\s\S]*$/, '');
+    const size = parseInt(field(124, 12).trim() || '0', 8);
+    const type = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+    const prefix = field(257, 5) === 'ustar' ? field(345, 155) : '';
+    const body = archive.subarray(offset + 512, offset + 512 + size);
+
+    if (type === 'L') {
+      longName = body.toString('utf-8').replace(/\0[\s\S]*$/, '');
+    } else if (type === 'x') {
+      longName = body.toString('utf-8').match(/^\d+ path=(.*)$/m)?.[1] ?? longName;
+    } else {
+      const name = longName ?? (prefix ? `${prefix}/${field(0, 100)}` : field(0, 100));
+      if (type === '0' || type === '7') {
+        entries.set(posix.normalize(name).replace(/^(\.\/)+/, ''), body);
+      }
+      longName = undefined;
+    }
+
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  return entries;
+}
+
+/**
+ * Removes % comments, keeping escaped \% signs
+ */
+function stripComments(source: string): string {
+  return source.replace(/(^|[^\\])((?:\\\\)*)%.*$/gm, '$1$2');
+}
+
+/**
+ * Reads a brace-delimited group starting at `start` (which must be "{")
+ * @returns The content of the group and the offset after its closing brace
+ */
+function readGroup(source: string, start: number): { content: string; end: number } {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return { content: source.slice(start + 1, i), end: i + 1 };
+    }
+  }
+  return { content: source.slice(start + 1), end: source.length };
+}
+
+/**
+ * Skips whitespace and optional [...] arguments
+ */
+function skipOptionalArguments(source: string, start: number): number {
+  let i = start;
+  for (;;) {
+    while (/\s/.test(source[i] ?? '') && source[i] !== '\n') i++;
+    if (source[i] !== '[') {
+      return i;
+    }
+    const close = source.indexOf(']', i);
+    if (close === -1) {
+      return i;
+    }
+    i = close + 1;
+  }
+}
+
+/**
+ * Reads the next mandatory argument of a command: a group or a single token
+ */
+function readArgument(source: string, start: number): { content: string; end: number } {
+  let i = start;
+  while (/\s/.test(source[i] ?? '')) i++;
+  if (source[i] === '{') {
+    return readGroup(source, i);
+  }
+  if (source[i] === '\\') {
+    const name = source.slice(i).match(/^\\([a-zA-Z]+|.)/)![0];
+    return { content: name, end: i + name.length };
+  }
+  return { content: source[i] ?? '', end: Math.min(i + 1, source.length) };
+}
+
+/**
+ * Expands \input, \include and \bibliography (from the .bbl file) recursively
+ */
+async function expandInputs(
+  source: string,
+  readInput: InputReader,
+  bibliography: string | undefined,
+  depth = 0
+): Promise<string> {
+  const pattern =
+    /\\(input|include|subfile)\s*(?:\{([^}]+)\}|\s([^\s{}\\]+))|\\bibliography\s*\{[^}]*\}/g;
+  const text = stripComments(source);
+  let result = '';
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    result += text.slice(last, match.index);
+    last = match.index! + match[0].length;
+
+    if (!match[1]) {
+      result += bibliography ?? '';
+      continue;
+    }
+    if (depth >= MAX_INPUT_DEPTH) {
+      continue;
+    }
+
+    const name = (match[2] ?? match[3]).trim();
+    const content = (await readInput(`${name}.tex`)) ?? (await readInput(name));
+    if (content !== undefined) {
+      result += await expandInputs(content, readInput, bibliography, depth + 1);
+    }
+  }
+
+  return result + text.slice(last);
+}
+
+/**
+ * Converts LaTeX markup to plain text, keeping math in its TeX form
+ * @param source - LaTeX source without comments
+ * @returns The text, with paragraphs separated by blank lines
+ */
+export function latexToText(source: string): string {
+  let out = '';
+  let i = 0;
+
+  const copyMath = (open: string, close: string) => {
+    const end = source.indexOf(close, i + open.length);
+    const stop = end === -1 ? source.length : end + close.length;
+    out += source.slice(i, stop).replace(/\s+/g, ' ');
+    i = stop;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '$') {
+      copyMath(source[i + 1] === '$' ? '$$' : '$', source[i + 1] === '$' ? '$$' : '$');
+    } else if (char === '~') {
+      out += ' ';
+      i++;
+    } else if (char === '{' || char === '}') {
+      i++;
+    } else if (char === '&') {
+      out += ' ';
+      i++;
+    } else if (char === '-' && source.startsWith('---', i)) {
+      out += '—';
+      i += 3;
+    } else if (char === '-' && source.startsWith('--', i)) {
+      out += '–';
+      i += 2;
+    } else if ((char === '`' || char === "'") && source[i + 1] === char) {
+      out += '"';
+      i += 2;
+    } else if (char !== '\\') {
+      out += char;
+      i++;
+    } else if (source[i + 1] === '(' || source[i + 1] === '[') {
+      copyMath(`\\${source[i + 1]}`, source[i + 1] === '(' ? '\\)' : '\\]');
+    } else if (source[i + 1] === '\\') {
+      out += LINE_BREAK;
+      i = skipOptionalArguments(source, i + 2);
+    } else if (ESCAPED_SYMBOLS.includes(source[i + 1])) {
+      out += source[i + 1];
+      i += 2;
+    } else if (
+      ACCENTS[source[i + 1]] &&
+      !(/[a-zA-Z]/.test(source[i + 1]) && /[a-zA-Z]/.test(source[i + 2] ?? ''))
+    ) {
+      // \'e, \"{o}, \c{c}: the letter followed by a combining mark
+      const accent = ACCENTS[source[i + 1]];
+      const { content, end } = readArgument(source, i + 2);
+      const letter = content === '\\i' ? 'i' : content === '\\j' ? 'j' : content;
+      out += `${letter}${accent}`.normalize('NFC');
+      i = end;
+    } else if (/[,;:! ]/.test(source[i + 1] ?? '')) {
+      out += source[i + 1] === '!' ? '' : ' ';
+      i += 2;
+    } else {
+      const name = source.slice(i + 1).match(/^[a-zA-Z]+\*?/)?.[0];
+      if (!name) {
+        i += 2;
+        continue;
+      }
+      let next = i + 1 + name.length;
+      const bare = name.replace(/\*$/, '');
+
+      if (bare === 'begin' || bare === 'end') {
+        const { content: environment, end } = readArgument(source, next);
+        next = end;
+        if (bare === 'begin' && MATH_ENVIRONMENTS.has(environment)) {
+          const close = `\\end{${environment}}`;
+          const stop = source.indexOf(close, next);
+          const body = source.slice(next, stop === -1 ? source.length : stop);
+          out += `\n\n$$ ${body.trim().replace(/\s+/g, ' ')} $$\n\n`;
+          next = stop === -1 ? source.length : stop + close.length;
+        } else if (bare === 'begin' && DROPPED_ENVIRONMENTS.has(environment)) {
+          const close = `\\end{${environment}}`;
+          const stop = source.indexOf(close, next);
+          next = stop === -1 ? source.length : stop + close.length;
+        } else {
+          out += '\n\n';
+          if (bare === 'begin') {
+            next = skipOptionalArguments(source, next);
+            // Column specs of tabular and friends
+            if (/^(tabular|tabularx|array)\*?$/.test(environment)) {
+              next = readArgument(source, next).end;
+            }
+          }
+        }
+      } else if (bare === 'item') {
+        out += `${LINE_BREAK}- `;
+        next = skipOptionalArguments(source, next);
+      } else if (
+        /^(cite|citep|citet|citealp|citealt|citeauthor|citeyear|parencite|textcite|autocite)$/.test(
+          bare
+        )
+      ) {
+        const { content, end } = readArgument(source, skipOptionalArguments(source, next));
+        out += `[${content
+          .split(',')
+          .map(key => key.trim())
+          .join(', ')}]`;
+        next = end;
+      } else if (/^(ref|eqref|autoref|cref|Cref|pageref)$/.test(bare)) {
+        out += '?';
+        next = readArgument(source, next).end;
+      } else if (bare === 'footnote') {
+        const { content, end } = readArgument(source, skipOptionalArguments(source, next));
+        out += ` (${latexToText(content)})`;
+        next = end;
+      } else if (bare === 'href') {
+        next = readArgument(source, next).end;
+        const { content, end } = readArgument(source, next);
+        out += latexToText(content);
+        next = end;
+      } else if (bare === 'bibitem') {
+        const { content, end } = readArgument(source, skipOptionalArguments(source, next));
+        out += `\n\n[${content.trim()}] `;
+        next = end;
+      } else if (Object.hasOwn(SYMBOL_COMMANDS, bare)) {
+        out += SYMBOL_COMMANDS[bare];
+        if (source.startsWith('{}', next)) {
+          next += 2;
+        }
+      } else if (DROPPED_COMMANDS.has(bare)) {
+        next = skipOptionalArguments(source, next);
+        while (source[next] === '{' || (bare === 'newcommand' && source[next] === '\\')) {
+          next = readArgument(source, next).end;
+          next = skipOptionalArguments(source, next);
+        }
+      } else {
+        // Formatting and unknown commands: keep the text of their first argument
+        next = skipOptionalArguments(source, next);
+        if (source[next] === '{') {
+          const { content, end } = readGroup(source, next);
+          out += latexToText(content);
+          next = end;
+        }
+      }
+      i = next;
+    }
+  }
+
+  return out
+    .split(/\n\s*\n/)
+    .map(paragraph =>
+      paragraph
+        .replace(/\s+/g, ' ')
+        .replace(new RegExp(` *${LINE_BREAK} *`, 'g'), '\n')
+        .trim()
+    )
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Converts an expanded LaTeX document into a paper with its sections
+ */
+function parseLatexDocument(source: string): LoadedPaper {
+  const titleMatch = source.match(/\\title\s*(\[[^\]]*\])?\s*\{/);
+  const title = titleMatch
+    ? latexToText(readGroup(source, titleMatch.index! + titleMatch[0].length - 1).content)
+        .replace(/\s+/g, ' ')
+        .trim()
+    : undefined;
+
+  const begin = source.indexOf('\\begin{document}');
+  const end = source.lastIndexOf('\\end{document}');
+  let body = begin === -1 ? source : source.slice(begin + 16, end === -1 ? undefined : end);
+  body = body
+    .replace(/\\begin\{abstract\}/g, '\\section*{Abstract}')
+    .replace(/\\end\{abstract\}/g, '')
+    .replace(/\\begin\{thebibliography\}\s*\{[^}]*\}/g, '\\section*{References}')
+    .replace(/\\end\{thebibliography\}/g, '');
+
+  const headings = [
+    ...body.matchAll(/\\(chapter|section|subsection|subsubsection|appendix)\b\*?(\s*\[[^\]]*\])?/g),
+  ];
+  const sections: { title: string; text: string; kind?: PaperSectionKind }[] = [];
+  let frontMatter = '';
+  let inAppendix = false;
+  let position = 0;
+  let current: { title: string; kind?: PaperSectionKind } | undefined;
+
+  const close = (stop: number) => {
+    const text = latexToText(body.slice(position, stop));
+    if (current) {
+      sections.push({ title: current.title, text, kind: current.kind });
+    } else {
+      frontMatter = text;
+    }
+  };
+
+  for (const heading of headings) {
+    // Text between \appendix and the next heading stays with the current section
+    if (heading[1] === 'appendix') {
+      inAppendix = true;
+      continue;
+    }
+    close(heading.index!);
+
+    const group = body.indexOf('{', heading.index! + heading[0].length);
+    const { content, end: after } = readGroup(body, group);
+    const sectionTitle = latexToText(content).replace(/\s+/g, ' ').trim();
+    const isReferences = /^(references|bibliography)$/i.test(sectionTitle);
+    current = {
+      title: sectionTitle,
+      kind: isReferences ? 'references' : inAppendix ? 'appendix' : undefined,
+    };
+    position = after;
+  }
+  close(body.length);
+
+  return { ...joinSections(frontMatter, sections), title: title || undefined };
+}
+
+/**
+ * Picks the main file of a multi-file LaTeX project
+ */
+function findMainFile(files: Map<string, Buffer>): string | undefined {
+  const candidates = [...files.keys()]
+    .filter(name => name.toLowerCase().endsWith('.tex'))
+    .map(name => ({ name, source: stripComments(files.get(name)!.toString('utf-8')) }))
+    .filter(({ source }) => source.includes('\\documentclass'));
+
+  const preferred = ['main.tex', 'ms.tex', 'paper.tex'];
+  candidates.sort(
+    (a, b) =>
+      Number(b.source.includes('\\begin{document}')) -
+        Number(a.source.includes('\\begin{document}')) ||
+      Number(preferred.includes(basename(b.name))) - Number(preferred.includes(basename(a.name))) ||
+      b.source.length - a.source.length
+  );
+  return candidates[0]?.name;
+}
+
+/**
+ * Parses LaTeX sources: single .tex files (reading \input files next to them)
+ * and arXiv source tarballs (.tar.gz, .tar, or a gzipped single .tex file).
+ * Sectioning commands become sections, \cite keys are kept as [key], and
+ * math is kept in its TeX form.
+ */
+export const latexLoader: PaperLoader = {
+  name: 'latex',
+  extensions: ['.tex', '.latex', '.ltx', '.tar.gz', '.tgz', '.tar'],
+  mimeTypes: ['application/x-tex', 'application/gzip', 'application/x-tar'],
+  async load(data, fileName) {
+    let bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+      bytes = gunzipSync(bytes, { maxOutputLength: MAX_ARCHIVE_BYTES });
+    }
+
+    const isTar = bytes.length >= 262 && bytes.subarray(257, 262).toString('latin1') === 'ustar';
+    if (!isTar) {
+      const dir = dirname(resolve(fileName));
+      const mainBase = basename(fileName).replace(/\.(tex|latex|ltx)(\.gz)?$/i, '');
+      const readInput: InputReader = path =>
+        readFile(resolve(dir, path), 'utf-8').catch(() => undefined);
+      const bibliography = await readInput(`${mainBase}.bbl`);
+      return parseLatexDocument(
+        await expandInputs(bytes.toString('utf-8'), readInput, bibliography)
+      );
+    }
+
+    const files = readTarEntries(bytes);
+    const main = findMainFile(files);
+    if (!main) {
+      throw new Error(`No main .tex file (with \\documentclass) found in ${basename(fileName)}`);
+    }
+
+    const dir = posix.dirname(main);
+    const readInput: InputReader = async path =>
+      (files.get(posix.join(dir, path)) ?? files.get(posix.normalize(path)))?.toString('utf-8');
+    const bibliography =
+      (await readInput(`${posix.basename(main, '.tex')}.bbl`)) ??
+      [...files].find(([name]) => name.endsWith('.bbl'))?.[1].toString('utf-8');
+
+    return parseLatexDocument(
+      await expandInputs(files.get(main)!.toString('utf-8'), readInput, bibliography)
+    );
+  },
+};
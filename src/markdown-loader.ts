@@ -0,0 +1,106 @@
+import { Buffer } from 'buffer';
+import { joinSections } from './paper-chunker.js';
+import type { PaperLoader } from './paper-loader.js';
+
+/**
+ * Removes inline Markdown syntax, keeping the readable text
+ * @param line - A line of Markdown
+ * @returns The line as plain text
+ */
+export function stripMarkdownInline(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_](?=\S)(.+?)(?<=\S)[*_](?![\w*])/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+/**
+ * Parses Markdown notes and papers. ATX (`## Title`) and setext headings
+ * become sections; a single leading level-1 heading, or a `title` in YAML
+ * front matter, is the title of the paper.
+ */
+export const markdownLoader: PaperLoader = {
+  name: 'markdown',
+  extensions: ['.md', '.markdown', '.mdown'],
+  mimeTypes: ['text/markdown'],
+  async load(data) {
+    let source = Buffer.from(data)
+      .toString('utf-8')
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n');
+
+    let title: string | undefined;
+    const yaml = source.match(/^---\n([\s\S]*?)\n(---|\.\.\.)\n/);
+    if (yaml) {
+      const declared = yaml[1].match(/^title:\s*(.+)$/m);
+      title = declared?.[1].trim().replace(/^(["'])(.*)\1$/, '$2') || undefined;
+      source = source.slice(yaml[0].length);
+    }
+
+    const lines = source.split('\n');
+    const headings: { line: number; level: number; title: string; end: number }[] = [];
+    let fence: string | undefined;
+    lines.forEach((line, i) => {
+      const fenceMatch = line.match(/^\s{0,3}(```+|~~~+)/);
+      if (fenceMatch) {
+        if (!fence) {
+          fence = fenceMatch[1];
+        } else if (fenceMatch[1].startsWith(fence)) {
+          fence = undefined;
+        }
+        return;
+      }
+      if (fence) {
+        return;
+      }
+
+      const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (atx) {
+        headings.push({ line: i, level: atx[1].length, title: atx[2], end: i + 1 });
+        return;
+      }
+      const setext = line.match(/^\s{0,3}(=+|-+)\s*$/);
+      if (setext && i > 0 && lines[i - 1].trim() && !headings.some(h => h.end === i)) {
+        const level = setext[1][0] === '=' ? 1 : 2;
+        headings.push({ line: i - 1, level, title: lines[i - 1].trim(), end: i + 1 });
+      }
+    });
+
+    const body = (from: number, to: number) =>
+      lines
+        .slice(from, to)
+        .map(line => stripMarkdownInline(line))
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n');
+
+    // A lone leading level-1 heading is the document title, not a section
+    let sectionHeadings = headings;
+    let frontMatter = body(0, headings.length > 0 ? headings[0].line : lines.length);
+    const titles = headings.filter(heading => heading.level === 1);
+    if (titles.length === 1 && headings[0] === titles[0]) {
+      const heading = headings[0];
+      title = title || stripMarkdownInline(heading.title);
+      sectionHeadings = headings.slice(1);
+      frontMatter = [
+        frontMatter,
+        stripMarkdownInline(heading.title),
+        body(heading.end, sectionHeadings[0]?.line ?? lines.length),
+      ].join('\n\n');
+    }
+
+    return {
+      ...joinSections(
+        frontMatter,
+        sectionHeadings.map((heading, i) => ({
+          title: stripMarkdownInline(heading.title),
+          text: body(heading.end, sectionHeadings[i + 1]?.line ?? lines.length),
+        }))
+      ),
+      title,
+    };
+  },
+};
@@ -1,25 +1,61 @@
-import OpenAI from 'openai';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { Bm25Index, Bm25IndexOptions } from './bm25-index.js';
+import { embedInBatches, EmbeddingBatchOptions, EmbeddingBatchResult } from './embedding-batch.js';
+import type { EmbeddingCache } from './embedding-cache.js';
+import { EmbeddingProvider, OpenAIEmbeddingProvider } from './embedding-providers.js';
+import { HnswIndex, HnswIndexOptions, HnswIndexSnapshot } from './hnsw-index.js';
+import { matchesMetadataFilter, MetadataFilter, parseMetadataFilter } from './metadata-filter.js';
+import {
+  appendVectorStoreRecords,
+  documentKey,
+  readVectorStoreFile,
+  VectorStoreRecord,
+  writeVectorStoreFile,
+} from './vector-store-file.js';
 
 /**
  * Configuration options for MemoryVectorStore
  */
 export interface MemoryVectorStoreConfig {
   /**
-   * OpenAI API key for generating embeddings
+   * Provider used to generate embeddings. Defaults to an OpenAIEmbeddingProvider
+   * built from `apiKey` and `embeddingModel`.
+   */
+  embeddingProvider?: EmbeddingProvider;
+
+  /**
+   * OpenAI API key for generating embeddings (ignored when `embeddingProvider` is set)
    */
   apiKey?: string;
 
   /**
-   * OpenAI embedding model to use
-   * @default "text-embedding-3-small"
+   * OpenAI embedding model to use (ignored when `embeddingProvider` is set)
+   * @default DEFAULT_OPENAI_EMBEDDING_MODEL ("text-embedding-3-small")
    */
   embeddingModel?: string;
 
   /**
-   * Dimension of the embedding vectors (depends on the model)
-   * @default 1536 for text-embedding-3-small
+   * Maintain an HNSW index for approximate nearest neighbour search. Without
+   * it, every search compares the query against every document.
+   */
+  hnsw?: HnswIndexOptions;
+
+  /**
+   * Batching, concurrency and retry settings for embedding requests
+   */
+  batching?: EmbeddingBatchOptions;
+
+  /**
+   * Cache consulted before calling the embedding provider, for both documents
+   * and queries. Can be shared between stores.
+   */
+  embeddingCache?: EmbeddingCache;
+
+  /**
+   * Tuning parameters of the BM25 keyword index used by hybridSearch
    */
-  dimension?: number;
+  bm25?: Bm25IndexOptions;
 }
 
 /**
@@ -45,6 +81,59 @@ export interface Document {
    * The embedding vector for this document
    */
   embedding?: number[];
+
+  /**
+   * Collection holding the document; unset for the default collection.
+   * Ids are unique within a collection.
+   */
+  collection?: string;
+}
+
+/**
+ * Name of the collection that documents without a collection belong to
+ */
+export const DEFAULT_COLLECTION = 'default';
+
+/**
+ * A named collection of documents
+ */
+export interface CollectionInfo {
+  name: string;
+
+  /**
+   * ISO timestamp of when the collection was created
+   */
+  createdAt: string;
+
+  /**
+   * Number of documents in the collection
+   */
+  size: number;
+}
+
+/**
+ * Statistics of a collection
+ */
+export interface CollectionStats extends CollectionInfo {
+  /**
+   * Total length of the document contents in characters
+   */
+  characters: number;
+
+  /**
+   * Metadata fields used by the documents, sorted
+   */
+  metadataKeys: string[];
+}
+
+/**
+ * Error raised when a collection that does not exist is used
+ */
+export class CollectionNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Collection "${name}" does not exist`);
+    this.name = 'CollectionNotFoundError';
+  }
 }
 
 /**
@@ -63,29 +152,238 @@ export interface SearchResult {
 }
 
 /**
- * In-memory vector store using OpenAI embeddings for similarity search
+ * Options for similarity searches
+ */
+export interface SimilaritySearchOptions {
+  /**
+   * Maximum number of results to return
+   * @default 5
+   */
+  topK?: number;
+
+  /**
+   * Minimum similarity score threshold (0 to 1)
+   * @default 0
+   */
+  threshold?: number;
+
+  /**
+   * Optional filter function to filter documents before similarity comparison
+   */
+  filter?: (doc: Document) => boolean;
+
+  /**
+   * Declarative metadata filter applied before similarity comparison, e.g.
+   * `{ section: { ne: 'References' } }` (see metadata-filter.ts). Combined with
+   * `filter` when both are given.
+   * @throws MetadataFilterError from the search if the filter is invalid
+   */
+  where?: MetadataFilter;
+
+  /**
+   * Collections to search
+   * @default every collection
+   */
+  collections?: string[];
+
+  /**
+   * Compare against every document even when the store has an HNSW index
+   * @default false
+   */
+  exact?: boolean;
+
+  /**
+   * HNSW candidate list size for this search (higher is more accurate and slower)
+   */
+  efSearch?: number;
+
+  /**
+   * Re-rank the candidates with maximal marginal relevance, so that each next
+   * result is relevant to the query but unlike the results already chosen
+   * @default false
+   */
+  mmr?: boolean;
+
+  /**
+   * MMR trade-off between relevance (1) and diversity (0)
+   * @default 0.5
+   */
+  mmrLambda?: number;
+
+  /**
+   * Number of candidates retrieved before MMR and the caps are applied
+   * @default max(4 * topK, 20)
+   */
+  fetchK?: number;
+
+  /**
+   * Maximum number of results sharing a metadata value, e.g. `{ paperId: 3 }`.
+   * A key can list several comma-separated fields (`{ 'paperId,section': 2 }`)
+   * to cap combinations. Documents without the field are not capped.
+   */
+  maxPer?: Record<string, number>;
+}
+
+/**
+ * Outcome of adding a list of documents
+ */
+export interface AddDocumentsReport {
+  /**
+   * Documents that were embedded and added, in input order
+   */
+  added: Document[];
+
+  /**
+   * Documents that could not be embedded, with the reason
+   */
+  failed: { document: Omit<Document, 'embedding'>; error: Error }[];
+}
+
+/**
+ * Error raised by addDocuments when some documents could not be embedded.
+ * The documents that were embedded have been added to the store.
+ */
+export class EmbeddingBatchError extends Error {
+  readonly report: AddDocumentsReport;
+
+  constructor(report: AddDocumentsReport) {
+    const total = report.added.length + report.failed.length;
+    const details = report.failed
+      .slice(0, 3)
+      .map(({ document, error }) => `${document.id}: ${error.message}`)
+      .join('; ');
+    const more = report.failed.length > 3 ? `; and ${report.failed.length - 3} more` : '';
+    super(`Failed to embed ${report.failed.length} of ${total} documents (${details}${more})`);
+    this.name = 'EmbeddingBatchError';
+    this.report = report;
+  }
+}
+
+/**
+ * Options for hybrid (keyword + vector) searches
+ */
+export interface HybridSearchOptions extends Omit<SimilaritySearchOptions, 'threshold' | 'fetchK'> {
+  /**
+   * How the two rankings are combined: reciprocal rank fusion, or a weighted
+   * sum of the min-max normalized scores
+   * @default "rrf"
+   */
+  fusion?: 'rrf' | 'weighted';
+
+  /**
+   * Weight of the semantic score in weighted fusion (the lexical score gets the rest)
+   * @default 0.5
+   */
+  semanticWeight?: number;
+
+  /**
+   * Rank offset of reciprocal rank fusion; higher values flatten the rank curve
+   * @default 60
+   */
+  rrfK?: number;
+
+  /**
+   * Number of candidates taken from each ranking before fusion
+   * @default max(4 * topK, 20)
+   */
+  candidates?: number;
+}
+
+/**
+ * Result from a hybrid search
+ */
+export interface HybridSearchResult extends SearchResult {
+  /**
+   * Fused score (higher is better); its scale depends on the fusion method
+   */
+  score: number;
+
+  /**
+   * Cosine similarity between the query and the document
+   */
+  semanticScore: number;
+
+  /**
+   * BM25 score of the document for the query (0 if no query term occurs in it)
+   */
+  lexicalScore: number;
+
+  /**
+   * 1-based rank in the semantic candidates, if the document was among them
+   */
+  semanticRank?: number;
+
+  /**
+   * 1-based rank in the lexical candidates, if the document was among them
+   */
+  lexicalRank?: number;
+}
+
+/**
+ * Options for saving a store to disk
+ */
+export interface SaveOptions {
+  /**
+   * Append only the changes made since the store was last saved to or loaded
+   * from the same file, instead of rewriting it. Falls back to a full write
+   * when there is nothing to append to.
+   * @default false
+   */
+  incremental?: boolean;
+}
+
+/**
+ * In-memory vector store using pluggable embeddings for similarity search
  */
 export class MemoryVectorStore {
-  private openai: OpenAI;
+  private embeddingProvider: EmbeddingProvider;
   private documents: Map<string, Document>;
   private embeddingModel: string;
   private dimension: number;
+  private persistedPath?: string;
+  private collections: Map<string, { createdAt: string }>;
+  private collectionsChanged = false;
+  private changes: Map<string, { id: string; collection?: string }>;
+  private hnswOptions?: HnswIndexOptions;
+  private index?: HnswIndex;
+  private batching: EmbeddingBatchOptions;
+  private embeddingCache?: EmbeddingCache;
+  private bm25: Bm25Index;
 
   /**
    * Creates a new MemoryVectorStore instance
    * @param config - Configuration options
    */
   constructor(config: MemoryVectorStoreConfig = {}) {
-    const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
+    this.embeddingProvider =
+      config.embeddingProvider ||
+      new OpenAIEmbeddingProvider({ apiKey: config.apiKey, model: config.embeddingModel });
+    this.documents = new Map();
+    this.collections = new Map([[DEFAULT_COLLECTION, { createdAt: new Date().toISOString() }]]);
+    this.changes = new Map();
+    this.embeddingModel = this.embeddingProvider.model;
+    this.dimension = this.embeddingProvider.dimension;
+    this.batching = config.batching || {};
+    this.embeddingCache = config.embeddingCache;
+    this.bm25 = new Bm25Index(config.bm25);
+    this.hnswOptions = config.hnsw;
+    this.index = config.hnsw ? new HnswIndex(config.hnsw) : undefined;
+  }
 
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required. Provide it via config or OPENAI_API_KEY environment variable.');
-    }
+  /**
+   * Gets the identifier of the embedding model used by this store
+   * @returns The embedding model name
+   */
+  getEmbeddingModel(): string {
+    return this.embeddingModel;
+  }
 
-    this.openai = new OpenAI({ apiKey });
-    this.documents = new Map();
-    this.embeddingModel = config.embeddingModel || 'text-embedding-3-small';
-    this.dimension = config.dimension || 1536;
+  /**
+   * Gets the dimension of the embedding vectors in this store
+   * @returns The embedding dimension
+   */
+  getDimension(): number {
+    return this.dimension;
   }
 
   /**
@@ -94,15 +392,73 @@ export class MemoryVectorStore {
    * @returns The embedding vector
    */
   private async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      const response = await this.openai.embeddings.create({
-        model: this.embeddingModel,
-        input: text,
+    const {
+      embeddings: [embedding],
+      errors,
+    } = await this.embedTexts([text], this.batching);
+    if (errors.has(0)) {
+      throw new Error(`Failed to generate embedding: ${errors.get(0)!.message}`, {
+        cause: errors.get(0),
       });
+    }
+
+    this.checkDimension(embedding);
+    return embedding!;
+  }
 
-      return response.data[0].embedding;
-    } catch (error) {
-      throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : String(error)}`);
+  /**
+   * Embeds texts, taking what it can from the embedding cache and storing
+   * newly generated vectors in it
+   */
+  private async embedTexts(
+    texts: string[],
+    options: EmbeddingBatchOptions
+  ): Promise<EmbeddingBatchResult> {
+    if (!this.embeddingCache) {
+      return embedInBatches(this.embeddingProvider, texts, options);
+    }
+
+    const embeddings = await this.embeddingCache.get(this.embeddingProvider, texts);
+    const missing = texts.map((_, i) => i).filter(i => !embeddings[i]);
+    if (missing.length === 0) {
+      return { embeddings, errors: new Map() };
+    }
+
+    const result = await embedInBatches(
+      this.embeddingProvider,
+      missing.map(i => texts[i]),
+      options
+    );
+    const errors = new Map<number, Error>();
+    const generated: number[] = [];
+    missing.forEach((index, position) => {
+      const error = result.errors.get(position);
+      if (error) {
+        errors.set(index, error);
+      } else {
+        embeddings[index] = result.embeddings[position];
+        generated.push(index);
+      }
+    });
+
+    await this.embeddingCache.set(
+      this.embeddingProvider,
+      generated.map(i => texts[i]),
+      generated.map(i => embeddings[i]!)
+    );
+    await this.embeddingCache.flush();
+
+    return { embeddings, errors };
+  }
+
+  /**
+   * Throws if a vector produced by the provider does not have the store's dimension
+   */
+  private checkDimension(embedding: number[] | undefined): void {
+    if (!embedding || embedding.length !== this.dimension) {
+      throw new Error(
+        `Embedding dimension mismatch: expected ${this.dimension}, got ${embedding?.length ?? 0}`
+      );
     }
   }
 
@@ -143,73 +499,282 @@ export class MemoryVectorStore {
    * @returns The document with its generated embedding
    */
   async addDocument(document: Omit<Document, 'embedding'>): Promise<Document> {
+    this.collectionOf(document);
     const embedding = await this.generateEmbedding(document.content);
 
-    const fullDocument: Document = {
+    return this.put({
       ...document,
       embedding,
-    };
-
-    this.documents.set(document.id, fullDocument);
-    return fullDocument;
+    });
   }
 
   /**
-   * Adds multiple documents to the vector store
+   * Adds multiple documents to the vector store, embedding them in batches
    * @param documents - Array of documents to add
+   * @param options - Batching options, overriding the store configuration
    * @returns Array of documents with their generated embeddings
+   * @throws EmbeddingBatchError if some documents could not be embedded; the
+   *   others are added regardless
+   */
+  async addDocuments(
+    documents: Omit<Document, 'embedding'>[],
+    options: EmbeddingBatchOptions = {}
+  ): Promise<Document[]> {
+    const report = await this.addDocumentsWithReport(documents, options);
+    if (report.failed.length > 0) {
+      throw new EmbeddingBatchError(report);
+    }
+    return report.added;
+  }
+
+  /**
+   * Adds multiple documents to the vector store, reporting failures per
+   * document instead of throwing
+   * @param documents - Array of documents to add
+   * @param options - Batching options, overriding the store configuration
+   * @returns The added documents and the ones that failed
    */
-  async addDocuments(documents: Omit<Document, 'embedding'>[]): Promise<Document[]> {
-    const results: Document[] = [];
+  async addDocumentsWithReport(
+    documents: Omit<Document, 'embedding'>[],
+    options: EmbeddingBatchOptions = {}
+  ): Promise<AddDocumentsReport> {
+    documents.forEach(document => this.collectionOf(document));
+    const { embeddings, errors } = await this.embedTexts(
+      documents.map(doc => doc.content),
+      { ...this.batching, ...options }
+    );
 
-    // Process documents sequentially to avoid rate limits
-    for (const doc of documents) {
-      const result = await this.addDocument(doc);
-      results.push(result);
+    const report: AddDocumentsReport = { added: [], failed: [] };
+    documents.forEach((document, i) => {
+      try {
+        if (errors.has(i)) {
+          throw errors.get(i);
+        }
+        this.checkDimension(embeddings[i]);
+      } catch (error) {
+        report.failed.push({
+          document,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+        return;
+      }
+
+      report.added.push(this.put({ ...document, embedding: embeddings[i] }));
+    });
+
+    return report;
+  }
+
+  /**
+   * Resolves the collection a document belongs to
+   * @returns The collection, undefined for the default collection
+   * @throws CollectionNotFoundError if the collection does not exist
+   */
+  private collectionOf(document: { collection?: string }): string | undefined {
+    const { collection } = document;
+    if (collection === undefined || collection === DEFAULT_COLLECTION) {
+      return undefined;
+    }
+    if (!this.collections.has(collection)) {
+      throw new CollectionNotFoundError(collection);
     }
+    return collection;
+  }
 
-    return results;
+  /**
+   * Stores a document with its embedding, replacing the one with the same id
+   * in the same collection, and keeps the indexes in sync
+   */
+  private put(document: Document): Document {
+    const collection = this.collectionOf(document);
+    const { id, content, metadata, embedding } = document;
+    const stored: Document = {
+      id,
+      content,
+      ...(metadata !== undefined ? { metadata } : {}),
+      embedding,
+      ...(collection !== undefined ? { collection } : {}),
+    };
+    const key = documentKey(stored.id, collection);
+
+    this.documents.set(key, stored);
+    this.index?.add(key, stored.embedding!);
+    this.bm25.add(key, stored.content);
+    this.changes.set(key, { id: stored.id, collection });
+    return stored;
+  }
+
+  /**
+   * Removes the document stored under a key, keeping the indexes in sync
+   */
+  private remove(key: string): boolean {
+    const document = this.documents.get(key);
+    if (!document) {
+      return false;
+    }
+
+    this.documents.delete(key);
+    this.index?.remove(key);
+    this.bm25.remove(key);
+    this.changes.set(key, { id: document.id, collection: document.collection });
+    return true;
   }
 
   /**
    * Retrieves a document by its ID
    * @param id - The document ID
+   * @param collection - The collection holding the document
    * @returns The document, or undefined if not found
    */
-  getDocument(id: string): Document | undefined {
-    return this.documents.get(id);
+  getDocument(id: string, collection?: string): Document | undefined {
+    return this.documents.get(documentKey(id, this.collectionOf({ collection })));
   }
 
   /**
    * Retrieves all documents in the store
+   * @param collection - Only retrieve the documents of this collection
    * @returns Array of all documents
    */
-  getAllDocuments(): Document[] {
-    return Array.from(this.documents.values());
+  getAllDocuments(collection?: string): Document[] {
+    const documents = Array.from(this.documents.values());
+    if (collection === undefined) {
+      return documents;
+    }
+
+    const resolved = this.collectionOf({ collection });
+    return documents.filter(doc => doc.collection === resolved);
   }
 
   /**
    * Deletes a document from the store
    * @param id - The document ID to delete
+   * @param collection - The collection holding the document
    * @returns True if the document was deleted, false if it didn't exist
    */
-  deleteDocument(id: string): boolean {
-    return this.documents.delete(id);
+  deleteDocument(id: string, collection?: string): boolean {
+    return this.remove(documentKey(id, this.collectionOf({ collection })));
   }
 
   /**
-   * Clears all documents from the store
+   * Clears all documents from the store (or from one collection); the
+   * collections themselves are kept
+   * @param collection - Only clear this collection
    */
-  clear(): void {
+  clear(collection?: string): void {
+    if (collection !== undefined) {
+      this.getAllDocuments(collection).forEach(doc =>
+        this.remove(documentKey(doc.id, doc.collection))
+      );
+      return;
+    }
+
+    for (const [key, document] of this.documents) {
+      this.changes.set(key, { id: document.id, collection: document.collection });
+    }
     this.documents.clear();
+    this.index?.clear();
+    this.bm25.clear();
   }
 
   /**
    * Gets the number of documents in the store
+   * @param collection - Only count the documents of this collection
    * @returns The count of documents
    */
-  size(): number {
-    return this.documents.size;
+  size(collection?: string): number {
+    return collection === undefined ? this.documents.size : this.getAllDocuments(collection).length;
+  }
+
+  /**
+   * Creates an empty collection
+   * @param name - Name of the collection
+   * @returns The new collection
+   * @throws Error if the name is invalid or a collection with that name exists
+   */
+  createCollection(name: string): CollectionInfo {
+    const hasControlCharacters = [...name].some(char => char.charCodeAt(0) < 0x20);
+    if (name === '' || hasControlCharacters || name.trim() !== name) {
+      throw new Error(`Invalid collection name "${name}"`);
+    }
+    if (this.collections.has(name)) {
+      throw new Error(`Collection "${name}" already exists`);
+    }
+
+    const createdAt = new Date().toISOString();
+    this.collections.set(name, { createdAt });
+    this.collectionsChanged = true;
+    return { name, createdAt, size: 0 };
+  }
+
+  /**
+   * Checks whether a collection exists
+   * @param name - Name of the collection
+   * @returns True if it exists
+   */
+  hasCollection(name: string): boolean {
+    return this.collections.has(name);
+  }
+
+  /**
+   * Lists the collections, the default one first
+   * @returns The collections with their sizes
+   */
+  listCollections(): CollectionInfo[] {
+    const sizes = new Map<string, number>();
+    for (const document of this.documents.values()) {
+      const name = document.collection ?? DEFAULT_COLLECTION;
+      sizes.set(name, (sizes.get(name) || 0) + 1);
+    }
+
+    return [...this.collections].map(([name, { createdAt }]) => ({
+      name,
+      createdAt,
+      size: sizes.get(name) || 0,
+    }));
+  }
+
+  /**
+   * Computes statistics of a collection
+   * @param name - Name of the collection
+   * @returns The statistics
+   * @throws CollectionNotFoundError if the collection does not exist
+   */
+  getCollectionStats(name: string): CollectionStats {
+    const documents = this.getAllDocuments(name);
+    const metadataKeys = new Set<string>();
+    let characters = 0;
+    for (const document of documents) {
+      characters += document.content.length;
+      Object.keys(document.metadata || {}).forEach(key => metadataKeys.add(key));
+    }
+
+    return {
+      name,
+      createdAt: this.collections.get(name)!.createdAt,
+      size: documents.length,
+      characters,
+      metadataKeys: [...metadataKeys].sort(),
+    };
+  }
+
+  /**
+   * Deletes a collection and all of its documents
+   * @param name - Name of the collection
+   * @returns True if the collection was dropped, false if it didn't exist
+   * @throws Error for the default collection, which cannot be dropped
+   */
+  dropCollection(name: string): boolean {
+    if (name === DEFAULT_COLLECTION) {
+      throw new Error(`The ${DEFAULT_COLLECTION} collection cannot be dropped; clear it instead`);
+    }
+    if (!this.collections.has(name)) {
+      return false;
+    }
+
+    this.clear(name);
+    this.collections.delete(name);
+    this.collectionsChanged = true;
+    return true;
   }
 
   /**
@@ -220,27 +785,9 @@ export class MemoryVectorStore {
    */
   async similaritySearch(
     query: string,
-    options: {
-      /**
-       * Maximum number of results to return
-       * @default 5
-       */
-      topK?: number;
-
-      /**
-       * Minimum similarity score threshold (0 to 1)
-       * @default 0
-       */
-      threshold?: number;
-
-      /**
-       * Optional filter function to filter documents before similarity comparison
-       */
-      filter?: (doc: Document) => boolean;
-    } = {}
+    options: SimilaritySearchOptions = {}
   ): Promise<SearchResult[]> {
-    const { topK = 5, threshold = 0, filter } = options;
-
+    options = this.resolveFilters(options);
     if (this.documents.size === 0) {
       return [];
     }
@@ -248,35 +795,7 @@ export class MemoryVectorStore {
     // Generate embedding for the query
     const queryEmbedding = await this.generateEmbedding(query);
 
-    // Calculate similarity scores for all documents
-    const results: SearchResult[] = [];
-
-    for (const doc of this.documents.values()) {
-      // Apply filter if provided
-      if (filter && !filter(doc)) {
-        continue;
-      }
-
-      if (!doc.embedding) {
-        console.warn(`Document ${doc.id} has no embedding, skipping`);
-        continue;
-      }
-
-      const score = this.cosineSimilarity(queryEmbedding, doc.embedding);
-
-      // Only include results above the threshold
-      if (score >= threshold) {
-        results.push({
-          document: doc,
-          score,
-        });
-      }
-    }
-
-    // Sort by score (descending) and take top K
-    return results
-      .sort((a, b) => b.score - a.score)
-      .slice(0, topK);
+    return this.rankDiverse(queryEmbedding, options);
   }
 
   /**
@@ -287,26 +806,275 @@ export class MemoryVectorStore {
    */
   similaritySearchByVector(
     embedding: number[],
-    options: {
-      topK?: number;
-      threshold?: number;
-      filter?: (doc: Document) => boolean;
-    } = {}
+    options: SimilaritySearchOptions = {}
   ): SearchResult[] {
-    const { topK = 5, threshold = 0, filter } = options;
-
+    options = this.resolveFilters(options);
     if (this.documents.size === 0) {
       return [];
     }
 
     if (embedding.length !== this.dimension) {
-      throw new Error(`Embedding dimension mismatch: expected ${this.dimension}, got ${embedding.length}`);
+      throw new Error(
+        `Embedding dimension mismatch: expected ${this.dimension}, got ${embedding.length}`
+      );
+    }
+
+    return this.rankDiverse(embedding, options);
+  }
+
+  /**
+   * Searches with both the BM25 keyword index and the embeddings and fuses the
+   * two rankings, so exact terms (model names, datasets, symbols, acronyms)
+   * count as well as meaning
+   * @param query - The search query text
+   * @param options - Search options
+   * @returns Array of search results sorted by fused score (highest first)
+   */
+  async hybridSearch(
+    query: string,
+    options: HybridSearchOptions = {}
+  ): Promise<HybridSearchResult[]> {
+    options = this.resolveFilters(options);
+    const {
+      topK = 5,
+      filter,
+      fusion = 'rrf',
+      semanticWeight = 0.5,
+      rrfK = 60,
+      candidates = Math.max(4 * topK, 20),
+    } = options;
+
+    if (this.documents.size === 0) {
+      return [];
+    }
+
+    const queryEmbedding = await this.generateEmbedding(query);
+    const semantic = this.rank(queryEmbedding, { ...options, topK: candidates, threshold: -1 });
+    const lexical = this.bm25.search(
+      query,
+      candidates,
+      filter ? id => filter(this.documents.get(id)!) : undefined
+    );
+
+    const semanticRanks = new Map(
+      semantic.map((result, i) => [
+        documentKey(result.document.id, result.document.collection),
+        i + 1,
+      ])
+    );
+    const lexicalRanks = new Map(lexical.map((match, i) => [match.id, i + 1]));
+    const ids = new Set([...semanticRanks.keys(), ...lexicalRanks.keys()]);
+
+    const results: HybridSearchResult[] = [...ids].map(id => {
+      const document = this.documents.get(id)!;
+      return {
+        document,
+        score: 0,
+        semanticScore: document.embedding
+          ? this.cosineSimilarity(queryEmbedding, document.embedding)
+          : 0,
+        lexicalScore: this.bm25.score(query, id),
+        semanticRank: semanticRanks.get(id),
+        lexicalRank: lexicalRanks.get(id),
+      };
+    });
+
+    if (fusion === 'rrf') {
+      for (const result of results) {
+        result.score =
+          (result.semanticRank ? 1 / (rrfK + result.semanticRank) : 0) +
+          (result.lexicalRank ? 1 / (rrfK + result.lexicalRank) : 0);
+      }
+    } else {
+      const normalize = (values: number[]) => {
+        const min = Math.min(...values);
+        const range = Math.max(...values) - min;
+        return values.map(value => (range > 0 ? (value - min) / range : value > 0 ? 1 : 0));
+      };
+      const semanticScores = normalize(results.map(result => result.semanticScore));
+      const lexicalScores = normalize(results.map(result => result.lexicalScore));
+      results.forEach((result, i) => {
+        result.score = semanticWeight * semanticScores[i] + (1 - semanticWeight) * lexicalScores[i];
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    if (!options.mmr && !options.maxPer) {
+      return results.slice(0, topK);
+    }
+
+    // Fused scores have no fixed scale: bring them to [0, 1] to weigh them against similarity
+    const top = results[0]?.score ?? 0;
+    const bottom = results[results.length - 1]?.score ?? 0;
+    const relevance = results.map(result =>
+      top > bottom ? (result.score - bottom) / (top - bottom) : 1
+    );
+    return this.diversify(results, relevance, options);
+  }
+
+  /**
+   * Validates the `where` filter and the collections of search options and
+   * folds them into `filter`
+   */
+  private resolveFilters<T extends SimilaritySearchOptions>(options: T): T {
+    if (options.where === undefined && options.collections === undefined) {
+      return options;
+    }
+
+    const where = options.where === undefined ? undefined : parseMetadataFilter(options.where);
+    const collections = options.collections?.map(collection => {
+      if (!this.collections.has(collection)) {
+        throw new CollectionNotFoundError(collection);
+      }
+      return collection;
+    });
+    const { filter } = options;
+    return {
+      ...options,
+      where: undefined,
+      collections: undefined,
+      filter: (doc: Document) =>
+        (!collections || collections.includes(doc.collection ?? DEFAULT_COLLECTION)) &&
+        (!where || matchesMetadataFilter(doc.metadata, where)) &&
+        (!filter || filter(doc)),
+    };
+  }
+
+  /**
+   * Ranks the documents against a query embedding, then applies MMR and the
+   * per-group caps if requested
+   */
+  private rankDiverse(embedding: number[], options: SimilaritySearchOptions): SearchResult[] {
+    const { topK = 5, mmr, maxPer, fetchK = Math.max(4 * topK, 20) } = options;
+    if (!mmr && !maxPer) {
+      return this.rank(embedding, options);
+    }
+
+    const candidates = this.rank(embedding, { ...options, topK: Math.max(fetchK, topK) });
+    return this.diversify(
+      candidates,
+      candidates.map(result => result.score),
+      options
+    );
+  }
+
+  /**
+   * Picks up to topK results from ranked candidates, greedily by maximal
+   * marginal relevance (or in order without MMR), skipping candidates that
+   * would exceed a maxPer cap
+   * @param candidates - Candidates, best first
+   * @param relevance - Relevance of each candidate to the query
+   * @param options - Search options
+   * @returns The chosen results in the order they were picked
+   */
+  private diversify<T extends SearchResult>(
+    candidates: T[],
+    relevance: number[],
+    options: SimilaritySearchOptions
+  ): T[] {
+    const { topK = 5, mmr, mmrLambda = 0.5, maxPer = {} } = options;
+    if (mmrLambda < 0 || mmrLambda > 1) {
+      throw new Error(`MMR lambda must be between 0 and 1, got ${mmrLambda}`);
+    }
+    for (const [key, cap] of Object.entries(maxPer)) {
+      if (!(cap >= 1)) {
+        throw new Error(`maxPer cap for "${key}" must be at least 1, got ${cap}`);
+      }
+    }
+
+    const caps = Object.entries(maxPer).map(([key, cap]) => ({
+      fields: key.split(',').map(field => field.trim()),
+      cap,
+      counts: new Map<string, number>(),
+    }));
+    const groupsOf = (document: Document) =>
+      caps.map(({ fields }) => {
+        const values = fields.map(field => document.metadata?.[field]);
+        return values.some(value => value === undefined) ? undefined : JSON.stringify(values);
+      });
+
+    const selected: T[] = [];
+    // Highest similarity of each candidate to any selected result
+    const redundancy = new Array<number>(candidates.length).fill(-1);
+    const remaining = new Set(candidates.keys());
+
+    while (selected.length < topK && remaining.size > 0) {
+      let best = -1;
+      let bestScore = -Infinity;
+      for (const i of remaining) {
+        const groups = groupsOf(candidates[i].document);
+        if (
+          groups.some(
+            (group, c) => group !== undefined && (caps[c].counts.get(group) || 0) >= caps[c].cap
+          )
+        ) {
+          remaining.delete(i);
+          continue;
+        }
+        const score =
+          mmr && selected.length > 0
+            ? mmrLambda * relevance[i] - (1 - mmrLambda) * redundancy[i]
+            : relevance[i];
+        if (score > bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      }
+      if (best < 0) {
+        break;
+      }
+
+      const chosen = candidates[best];
+      remaining.delete(best);
+      selected.push(chosen);
+      groupsOf(chosen.document).forEach((group, c) => {
+        if (group !== undefined) {
+          caps[c].counts.set(group, (caps[c].counts.get(group) || 0) + 1);
+        }
+      });
+
+      if (mmr && chosen.document.embedding) {
+        for (const i of remaining) {
+          const embedding = candidates[i].document.embedding;
+          if (embedding) {
+            redundancy[i] = Math.max(
+              redundancy[i],
+              this.cosineSimilarity(chosen.document.embedding, embedding)
+            );
+          }
+        }
+      }
     }
 
+    return selected;
+  }
+
+  /**
+   * Ranks the documents against a query embedding, through the HNSW index when
+   * there is one and brute force otherwise
+   */
+  private rank(embedding: number[], options: SimilaritySearchOptions): SearchResult[] {
+    if (this.index && !options.exact) {
+      const results = this.approximateSearch(this.index, embedding, options);
+      if (results) {
+        return results;
+      }
+    }
+
+    return this.exactSearch(embedding, options);
+  }
+
+  /**
+   * Compares the query against every document
+   */
+  private exactSearch(embedding: number[], options: SimilaritySearchOptions): SearchResult[] {
+    const { topK = 5, threshold = 0, filter } = options;
+
     // Calculate similarity scores for all documents
     const results: SearchResult[] = [];
 
     for (const doc of this.documents.values()) {
+      // Apply filter if provided
       if (filter && !filter(doc)) {
         continue;
       }
@@ -318,6 +1086,7 @@ export class MemoryVectorStore {
 
       const score = this.cosineSimilarity(embedding, doc.embedding);
 
+      // Only include results above the threshold
       if (score >= threshold) {
         results.push({
           document: doc,
@@ -326,29 +1095,196 @@ export class MemoryVectorStore {
       }
     }
 
-    return results
-      .sort((a, b) => b.score - a.score)
-      .slice(0, topK);
+    // Sort by score (descending) and take top K
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  /**
+   * Searches the HNSW index. With a filter, the whole candidate list is
+   * filtered; if too few candidates pass, returns undefined so the caller can
+   * fall back to an exact search.
+   */
+  private approximateSearch(
+    index: HnswIndex,
+    embedding: number[],
+    options: SimilaritySearchOptions
+  ): SearchResult[] | undefined {
+    const { topK = 5, threshold = 0, filter, efSearch = index.efSearch } = options;
+    const candidates = index.search(embedding, filter ? Math.max(efSearch, topK) : topK, efSearch);
+
+    const results: SearchResult[] = [];
+    for (const { id, score } of candidates) {
+      const document = this.documents.get(id);
+      if (document && (!filter || filter(document))) {
+        results.push({ document, score });
+      }
+    }
+
+    if (filter && results.length < topK && candidates.length < this.documents.size) {
+      return undefined;
+    }
+
+    return results.filter(result => result.score >= threshold).slice(0, topK);
   }
 
   /**
    * Exports all documents (useful for persistence)
+   * @param collection - Only export the documents of this collection
    * @returns Array of all documents
    */
-  export(): Document[] {
-    return this.getAllDocuments();
+  export(collection?: string): Document[] {
+    return this.getAllDocuments(collection);
   }
 
   /**
    * Imports documents into the store (useful for loading from persistence)
    * @param documents - Array of documents with embeddings to import
+   * @param collection - Import every document into this collection instead of
+   *   the one it names
+   * @throws CollectionNotFoundError if a target collection does not exist
    */
-  import(documents: Document[]): void {
-    for (const doc of documents) {
+  import(documents: Document[], collection?: string): void {
+    const targets = documents.map(doc => {
       if (!doc.embedding) {
         throw new Error(`Document ${doc.id} must have an embedding for import`);
       }
-      this.documents.set(doc.id, doc);
+      return collection === undefined ? doc : { ...doc, collection };
+    });
+    targets.forEach(doc => this.collectionOf(doc));
+    targets.forEach(doc => this.put(doc));
+  }
+
+  /**
+   * Saves the store to a file in the binary vector store format (see
+   * vector-store-file.ts). Full saves replace the file atomically.
+   * @param path - The file to write
+   * @param options - Save options
+   */
+  async save(path: string, options: SaveOptions = {}): Promise<void> {
+    const target = resolve(path);
+    const header = { embeddingModel: this.embeddingModel, dimension: this.dimension };
+
+    // Collections are recorded in the header, so changing them takes a full write
+    if (
+      options.incremental &&
+      this.persistedPath === target &&
+      existsSync(target) &&
+      !this.collectionsChanged
+    ) {
+      const records: VectorStoreRecord[] = [...this.changes].map(([key, { id, collection }]) => {
+        const document = this.documents.get(key);
+        if (document) {
+          return { op: 'put', document };
+        }
+        return collection === undefined ? { op: 'delete', id } : { op: 'delete', id, collection };
+      });
+      await appendVectorStoreRecords(target, header, records);
+    } else {
+      const collections = [...this.collections]
+        .filter(([name]) => name !== DEFAULT_COLLECTION)
+        .map(([name, { createdAt }]) => ({ name, createdAt }));
+      await writeVectorStoreFile(
+        target,
+        collections.length > 0 ? { ...header, collections } : header,
+        this.getAllDocuments(),
+        this.index?.toJSON()
+      );
+    }
+
+    this.persistedPath = target;
+    this.changes.clear();
+    this.collectionsChanged = false;
+  }
+
+  /**
+   * Replaces the contents of the store with the documents saved in a file
+   * @param path - The file to read
+   * @throws Error if the file was written with a different embedding model or dimension
+   * @throws VectorStoreCorruptionError if the file is damaged
+   */
+  async load(path: string): Promise<void> {
+    const target = resolve(path);
+    const { header, documents, index } = await readVectorStoreFile(target);
+
+    if (header.embeddingModel !== this.embeddingModel || header.dimension !== this.dimension) {
+      throw new Error(
+        `${path} was saved with ${header.embeddingModel} (${header.dimension} dimensions), but this store uses ${this.embeddingModel} (${this.dimension} dimensions)`
+      );
+    }
+
+    this.collections = new Map([[DEFAULT_COLLECTION, { createdAt: header.createdAt }]]);
+    for (const { name, createdAt } of header.collections || []) {
+      this.collections.set(name, { createdAt });
+    }
+    for (const doc of documents) {
+      if (doc.collection !== undefined && !this.collections.has(doc.collection)) {
+        this.collections.set(doc.collection, { createdAt: header.createdAt });
+      }
+    }
+
+    this.documents = new Map(documents.map(doc => [documentKey(doc.id, doc.collection), doc]));
+    this.bm25.clear();
+    this.documents.forEach((doc, key) => this.bm25.add(key, doc.content));
+    this.persistedPath = target;
+    this.changes.clear();
+    this.collectionsChanged = false;
+    this.restoreIndex(index);
+  }
+
+  /**
+   * Restores the HNSW index saved with the documents, replaying the changes
+   * appended after it. The index is rebuilt from scratch when the file has no
+   * index or one built with different parameters.
+   */
+  private restoreIndex(saved?: { data: unknown; pending: VectorStoreRecord[] }): void {
+    if (!this.hnswOptions) {
+      this.index = undefined;
+      return;
+    }
+
+    const { m = 16, efConstruction = 200 } = this.hnswOptions;
+    const snapshot = saved?.data as HnswIndexSnapshot | undefined;
+    if (saved && snapshot && snapshot.m === m && snapshot.efConstruction === efConstruction) {
+      // Documents deleted after the index was saved only need a placeholder vector
+      const placeholder = new Array<number>(this.dimension).fill(0);
+      const vectors = new Map<string, number[]>();
+      for (const record of saved.pending) {
+        if (record.op === 'put') {
+          vectors.set(
+            documentKey(record.document.id, record.document.collection),
+            record.document.embedding!
+          );
+        } else {
+          vectors.set(documentKey(record.id, record.collection), placeholder);
+        }
+      }
+
+      try {
+        const index = HnswIndex.fromJSON(
+          snapshot,
+          id => vectors.get(id) || this.documents.get(id)?.embedding,
+          this.hnswOptions
+        );
+        for (const record of saved.pending) {
+          if (record.op === 'put') {
+            index.add(
+              documentKey(record.document.id, record.document.collection),
+              record.document.embedding!
+            );
+          } else {
+            index.remove(documentKey(record.id, record.collection));
+          }
+        }
+        this.index = index;
+        return;
+      } catch {
+        // Fall through to a rebuild
+      }
+    }
+
+    this.index = new HnswIndex(this.hnswOptions);
+    for (const [key, doc] of this.documents) {
+      this.index.add(key, doc.embedding!);
     }
   }
 }
@@ -0,0 +1,264 @@
+import { z } from 'zod';
+
+/**
+ * A value that metadata fields are compared against
+ */
+export type MetadataScalar = string | number | boolean | null;
+
+/**
+ * Bounds of a range condition; numbers compare with numbers and strings with strings
+ */
+export interface MetadataRange {
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+}
+
+/**
+ * Operators applied to one metadata field. Several operators must all hold.
+ * On array fields, `eq` and `in` match if any element matches.
+ */
+export interface MetadataCondition {
+  /**
+   * The field equals the value
+   */
+  eq?: MetadataScalar;
+
+  /**
+   * The field does not equal the value (also true when the field is missing)
+   */
+  ne?: MetadataScalar;
+
+  /**
+   * The field equals one of the values
+   */
+  in?: MetadataScalar[];
+
+  /**
+   * The field equals none of the values (also true when the field is missing)
+   */
+  nin?: MetadataScalar[];
+
+  /**
+   * The field lies within the bounds
+   */
+  range?: MetadataRange;
+
+  /**
+   * The field is present (true) or missing (false)
+   */
+  exists?: boolean;
+}
+
+/**
+ * Declarative filter on document metadata, e.g.
+ * `{ paperId: { in: ['a', 'b'] }, section: { ne: 'References' } }`.
+ *
+ * Keys are field paths (`author.name` reads nested objects) mapped to a
+ * condition, or to a plain value as a shorthand for `eq`. All keys must match.
+ * The reserved keys `and`, `or` and `not` combine filters.
+ */
+export interface MetadataFilter {
+  and?: MetadataFilter[];
+  or?: MetadataFilter[];
+  not?: MetadataFilter;
+  [path: string]:
+    | MetadataScalar
+    | MetadataCondition
+    | MetadataFilter
+    | MetadataFilter[]
+    | undefined;
+}
+
+/**
+ * Error raised for a filter that does not follow the filter syntax
+ */
+export class MetadataFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataFilterError';
+  }
+}
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const boundSchema = z.union([z.number(), z.string()]);
+
+const rangeSchema = z
+  .object({
+    gt: boundSchema.optional(),
+    gte: boundSchema.optional(),
+    lt: boundSchema.optional(),
+    lte: boundSchema.optional(),
+  })
+  .strict()
+  .refine(range => Object.keys(range).length > 0, 'range needs at least one of gt, gte, lt, lte');
+
+const conditionSchema = z
+  .object({
+    eq: scalarSchema.optional(),
+    ne: scalarSchema.optional(),
+    in: z.array(scalarSchema).optional(),
+    nin: z.array(scalarSchema).optional(),
+    range: rangeSchema.optional(),
+    exists: z.boolean().optional(),
+  })
+  .strict()
+  .refine(
+    condition => Object.keys(condition).length > 0,
+    'condition needs at least one of eq, ne, in, nin, range, exists'
+  );
+
+/**
+ * Schema of a MetadataFilter
+ */
+export const metadataFilterSchema: z.ZodType<MetadataFilter> = z.lazy(() =>
+  z.record(z.unknown()).superRefine((filter, ctx) => {
+    for (const [key, value] of Object.entries(filter)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (key === '') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'field path must not be empty' });
+        continue;
+      }
+
+      const schema =
+        key === 'and' || key === 'or'
+          ? z.array(metadataFilterSchema).min(1)
+          : key === 'not'
+            ? metadataFilterSchema
+            : typeof value === 'object' && value !== null
+              ? conditionSchema
+              : scalarSchema;
+      const result = schema.safeParse(value);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: issue.message,
+            path: [key, ...issue.path],
+          });
+        }
+      }
+    }
+  })
+) as z.ZodType<MetadataFilter>;
+
+/**
+ * Formats an issue path as e.g. `and[0].section.ne`
+ */
+function formatPath(path: (string | number)[]): string {
+  return path
+    .map((part, i) => (typeof part === 'number' ? `[${part}]` : i === 0 ? part : `.${part}`))
+    .join('');
+}
+
+/**
+ * Validates a filter, given as an object or as JSON text
+ * @param input - The filter
+ * @returns The validated filter
+ * @throws MetadataFilterError if the input is not valid JSON or not a valid filter
+ */
+export function parseMetadataFilter(input: unknown): MetadataFilter {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      throw new MetadataFilterError(
+        `Invalid metadata filter: not valid JSON (${error instanceof Error ? error.message : String(error)})`
+      );
+    }
+  }
+
+  const result = metadataFilterSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${formatPath(issue.path)}: ${issue.message}` : issue.message
+    );
+    throw new MetadataFilterError(`Invalid metadata filter: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Reads a field by path; an exact key match wins over nested lookup
+ */
+function readPath(metadata: Record<string, unknown> | undefined, path: string): unknown {
+  if (metadata === undefined || metadata === null) {
+    return undefined;
+  }
+  if (path in metadata) {
+    return metadata[path];
+  }
+
+  let value: unknown = metadata;
+  for (const part of path.split('.')) {
+    if (value === undefined || value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function equals(field: unknown, value: MetadataScalar): boolean {
+  return Array.isArray(field) ? field.some(item => item === value) : field === value;
+}
+
+function inRange(field: unknown, range: MetadataRange): boolean {
+  if (typeof field !== 'number' && typeof field !== 'string') {
+    return false;
+  }
+  const comparable = (bound: number | string) => typeof bound === typeof field;
+  return (
+    (range.gt === undefined || (comparable(range.gt) && field > range.gt)) &&
+    (range.gte === undefined || (comparable(range.gte) && field >= range.gte)) &&
+    (range.lt === undefined || (comparable(range.lt) && field < range.lt)) &&
+    (range.lte === undefined || (comparable(range.lte) && field <= range.lte))
+  );
+}
+
+function matchesCondition(field: unknown, condition: MetadataCondition): boolean {
+  return (
+    (condition.eq === undefined || equals(field, condition.eq)) &&
+    (condition.ne === undefined || !equals(field, condition.ne)) &&
+    (condition.in === undefined || condition.in.some(value => equals(field, value))) &&
+    (condition.nin === undefined || !condition.nin.some(value => equals(field, value))) &&
+    (condition.range === undefined || inRange(field, condition.range)) &&
+    (condition.exists === undefined || (field !== undefined) === condition.exists)
+  );
+}
+
+/**
+ * Tests metadata against a filter (assumed valid, see parseMetadataFilter)
+ * @param metadata - The document metadata
+ * @param filter - The filter
+ * @returns True if the metadata matches
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, unknown> | undefined,
+  filter: MetadataFilter
+): boolean {
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) {
+      continue;
+    }
+    const matches =
+      key === 'and'
+        ? (value as MetadataFilter[]).every(child => matchesMetadataFilter(metadata, child))
+        : key === 'or'
+          ? (value as MetadataFilter[]).some(child => matchesMetadataFilter(metadata, child))
+          : key === 'not'
+            ? !matchesMetadataFilter(metadata, value as MetadataFilter)
+            : typeof value === 'object' && value !== null
+              ? matchesCondition(readPath(metadata, key), value as MetadataCondition)
+              : equals(readPath(metadata, key), value as MetadataScalar);
+    if (!matches) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,286 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { z } from 'zod';
+import { parseYaml } from './yaml.js';
+
+/**
+ * Base name of the file registering models in the library directory
+ * (models.json, models.yaml or models.yml)
+ */
+export const MODELS_FILE_NAME = 'models';
+
+/**
+ * Share of the context window kept free for the answer when a model does
+ * not declare its maximum output
+ */
+const DEFAULT_OUTPUT_SHARE = 0.25;
+
+/**
+ * What a model can do
+ */
+export interface ModelCapabilities {
+  /**
+   * Calls function tools
+   */
+  tools: boolean;
+
+  /**
+   * Returns output following a JSON schema (needed by digests and comparisons)
+   */
+  structuredOutput: boolean;
+
+  /**
+   * Streams its answer as it is generated
+   */
+  streaming: boolean;
+}
+
+/**
+ * Capabilities as named in messages
+ */
+export const MODEL_CAPABILITY_NAMES: Record<keyof ModelCapabilities, string> = {
+  tools: 'tools',
+  structuredOutput: 'structured output',
+  streaming: 'streaming',
+};
+
+/**
+ * Description of a model the agent can run on
+ */
+export interface ModelInfo {
+  /**
+   * Name the model is selected by, e.g. with --model
+   */
+  id: string;
+
+  /**
+   * API serving the model: OpenAI itself, or any server exposing the OpenAI
+   * Chat Completions API (Ollama, LM Studio, vLLM, llama.cpp server, ...)
+   */
+  provider: 'openai' | 'openai-compatible';
+
+  /**
+   * Name of the model on the server, if different from the id
+   */
+  model?: string;
+
+  /**
+   * Base URL of the API, e.g. "http://localhost:11434/v1". Required for
+   * OpenAI-compatible servers.
+   */
+  baseURL?: string;
+
+  /**
+   * Environment variable holding the API key, if the server needs one
+   */
+  apiKeyEnv?: string;
+
+  /**
+   * Size of the context window in tokens
+   */
+  contextWindow: number;
+
+  /**
+   * Maximum number of tokens the model generates in one answer
+   */
+  maxOutputTokens?: number;
+
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Schema of a model registered from a config file. Capabilities default to
+ * all supported for OpenAI models, and to streaming only for OpenAI-compatible
+ * servers, whose support for tools and JSON schemas varies.
+ */
+export const ModelInfoSchema = z
+  .object({
+    id: z.string().min(1),
+    provider: z.enum(['openai', 'openai-compatible']).default('openai-compatible'),
+    model: z.string().optional(),
+    baseURL: z.string().url().optional(),
+    apiKeyEnv: z.string().optional(),
+    contextWindow: z.number().int().positive(),
+    maxOutputTokens: z.number().int().positive().optional(),
+    capabilities: z
+      .object({
+        tools: z.boolean().optional(),
+        structuredOutput: z.boolean().optional(),
+        streaming: z.boolean().optional(),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict()
+  .refine(info => info.provider === 'openai' || info.baseURL, {
+    message: 'baseURL is required for OpenAI-compatible models',
+    path: ['baseURL'],
+  })
+  .transform((info): ModelInfo => {
+    const supported = info.provider === 'openai';
+    return {
+      ...info,
+      capabilities: {
+        tools: info.capabilities.tools ?? supported,
+        structuredOutput: info.capabilities.structuredOutput ?? supported,
+        streaming: info.capabilities.streaming ?? true,
+      },
+    };
+  });
+
+const OPENAI_CAPABILITIES: ModelCapabilities = {
+  tools: true,
+  structuredOutput: true,
+  streaming: true,
+};
+
+/**
+ * OpenAI models available out of the box
+ */
+export const BUILTIN_MODELS: ModelInfo[] = [
+  ...['gpt-4.1', 'gpt-4.1-nano', 'gpt-4.1-mini'].map(id => ({
+    id,
+    provider: 'openai' as const,
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    capabilities: OPENAI_CAPABILITIES,
+  })),
+  ...['gpt-5-nano', 'gpt-5-mini', 'gpt-5'].map(id => ({
+    id,
+    provider: 'openai' as const,
+    contextWindow: 400000,
+    maxOutputTokens: 128000,
+    capabilities: OPENAI_CAPABILITIES,
+  })),
+];
+
+/**
+ * Error raised when a model cannot be registered or is used for something it
+ * cannot do
+ */
+export class ModelRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelRegistryError';
+  }
+}
+
+/**
+ * Set of models the agent can run on, looked up by id
+ */
+export class ModelRegistry {
+  private models = new Map<string, ModelInfo>();
+
+  /**
+   * Creates a new ModelRegistry
+   * @param models - Models to register, in order
+   */
+  constructor(models: ModelInfo[] = []) {
+    models.forEach(model => this.register(model));
+  }
+
+  /**
+   * Adds a model, replacing any model registered with the same id
+   * @param model - The model, validated against ModelInfoSchema
+   * @throws ModelRegistryError if the model description is invalid
+   */
+  register(model: z.input<typeof ModelInfoSchema>): void {
+    const result = ModelInfoSchema.safeParse(model);
+    if (!result.success) {
+      const issues = result.error.errors.map(
+        issue => `${issue.path.join('.') || 'model'}: ${issue.message}`
+      );
+      throw new ModelRegistryError(`Invalid model "${model.id}": ${issues.join('; ')}`);
+    }
+    this.models.set(result.data.id, result.data);
+  }
+
+  /**
+   * Gets a model by id
+   * @param id - The model id
+   * @returns The model, or undefined if it is not registered
+   */
+  get(id: string): ModelInfo | undefined {
+    return this.models.get(id);
+  }
+
+  /**
+   * Gets the registered models, in order of registration
+   * @returns The models
+   */
+  list(): ModelInfo[] {
+    return [...this.models.values()];
+  }
+
+  /**
+   * Gets the ids of the registered models, in order of registration
+   * @returns The ids
+   */
+  ids(): string[] {
+    return [...this.models.keys()];
+  }
+}
+
+/**
+ * Registry used by agents that are not given one: the built-in OpenAI models
+ */
+export const modelRegistry = new ModelRegistry(BUILTIN_MODELS);
+
+/**
+ * Number of tokens of a model's context window left for the prompt
+ * @param model - The model
+ * @returns The prompt budget in tokens
+ */
+export function promptBudget(model: ModelInfo): number {
+  const output = model.maxOutputTokens ?? Math.floor(model.contextWindow * DEFAULT_OUTPUT_SHARE);
+  return Math.max(0, model.contextWindow - Math.min(output, model.contextWindow));
+}
+
+/**
+ * Parses a models file: a list of models, or an object with a `models` list
+ * @param text - Contents of the file
+ * @param fileName - Name of the file, whose extension tells JSON from YAML
+ * @returns The models
+ * @throws ModelRegistryError if the file cannot be parsed
+ */
+export function parseModelsFile(text: string, fileName: string): z.input<typeof ModelInfoSchema>[] {
+  let data: unknown;
+  try {
+    data = fileName.toLowerCase().endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ModelRegistryError(
+      `Cannot parse ${fileName}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const models = Array.isArray(data) ? data : (data as { models?: unknown } | null)?.models;
+  if (!Array.isArray(models)) {
+    throw new ModelRegistryError(`${fileName} must contain a list of models`);
+  }
+  return models;
+}
+
+/**
+ * Creates a registry with the built-in models and those registered in
+ * `<libraryDir>/models.{json,yaml,yml}`. A model with the id of a built-in
+ * replaces it.
+ * @param libraryDir - The library directory
+ * @returns The registry
+ * @throws ModelRegistryError if the models file is invalid
+ */
+export async function loadModelRegistry(libraryDir?: string): Promise<ModelRegistry> {
+  const registry = new ModelRegistry(BUILTIN_MODELS);
+  if (!libraryDir) {
+    return registry;
+  }
+
+  for (const extension of ['.json', '.yaml', '.yml']) {
+    const path = join(libraryDir, `${MODELS_FILE_NAME}${extension}`);
+    if (existsSync(path)) {
+      const text = await readFile(path, 'utf-8');
+      parseModelsFile(text, path).forEach(model => registry.register(model));
+    }
+  }
+  return registry;
+}
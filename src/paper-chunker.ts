@@ -0,0 +1,391 @@
+import type { Document } from './memory-vector-store.js';
+
+/**
+ * A page of a parsed paper, as a character range of the full text
+ */
+export interface PaperPage {
+  /**
+   * 1-based page number
+   */
+  number: number;
+
+  /**
+   * Offset of the first character of the page in the paper text
+   */
+  start: number;
+
+  /**
+   * Offset one past the last character of the page in the paper text
+   */
+  end: number;
+}
+
+/**
+ * Plain text of a paper together with its page layout
+ */
+export interface ParsedPaper {
+  /**
+   * Full text of the paper, pages joined by blank lines
+   */
+  text: string;
+
+  /**
+   * Page boundaries within `text`, in page order. Formats without pages
+   * (LaTeX, HTML, Markdown) have a single page spanning the whole text.
+   */
+  pages: PaperPage[];
+
+  /**
+   * Sections known from the document structure, covering the whole text in
+   * order. When absent, they are detected from the text by detectSections.
+   */
+  sections?: PaperSection[];
+}
+
+/**
+ * Kind of a detected paper section
+ */
+export type PaperSectionKind = 'front-matter' | 'abstract' | 'section' | 'references' | 'appendix';
+
+/**
+ * A structural section detected in a paper
+ */
+export interface PaperSection {
+  /**
+   * Heading of the section as it appears in the paper (e.g. "3.1 Attention")
+   */
+  title: string;
+
+  /**
+   * Kind of the section
+   */
+  kind: PaperSectionKind;
+
+  /**
+   * Offset of the section heading in the paper text
+   */
+  start: number;
+
+  /**
+   * Offset one past the end of the section
+   */
+  end: number;
+}
+
+/**
+ * Options for chunking a paper
+ */
+export interface ChunkPaperOptions {
+  /**
+   * Identifier of the paper, used for chunk ids and metadata
+   */
+  paperId: string;
+
+  /**
+   * Maximum size of a chunk in (estimated) tokens
+   * @default 512
+   */
+  maxTokens?: number;
+
+  /**
+   * Number of (estimated) tokens repeated from the end of the previous chunk
+   * @default 64
+   */
+  overlapTokens?: number;
+}
+
+/**
+ * Metadata attached to every chunk produced by chunkPaper
+ */
+export interface PaperChunkMetadata {
+  paperId: string;
+  chunkIndex: number;
+  section: string;
+  sectionKind: PaperSectionKind;
+  pageStart: number;
+  pageEnd: number;
+  charStart: number;
+  charEnd: number;
+}
+
+/**
+ * Rough number of characters per token for English prose
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the number of tokens in a text without a tokenizer
+ * @param text - The text to measure
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Joins per-page texts into a ParsedPaper, recording page offsets
+ * @param pages - Page texts in page order
+ * @returns The parsed paper
+ */
+export function joinPages(pages: { number: number; text: string }[]): ParsedPaper {
+  let text = '';
+  const layout: PaperPage[] = [];
+
+  for (const page of pages) {
+    if (text.length > 0) {
+      text += '\n\n';
+    }
+    const start = text.length;
+    text += page.text;
+    layout.push({ number: page.number, start, end: text.length });
+  }
+
+  return { text, pages: layout };
+}
+
+/**
+ * Joins the sections of a structured document (LaTeX, HTML, Markdown) into a
+ * single-page ParsedPaper, with each heading followed by its body. Text
+ * before the first heading becomes the front matter.
+ * @param frontMatter - Text before the first heading
+ * @param sections - Headings and bodies in document order; the kind is
+ *   inferred from the heading unless given
+ * @returns The parsed paper with its sections
+ */
+export function joinSections(
+  frontMatter: string,
+  sections: { title: string; text: string; kind?: PaperSectionKind }[]
+): ParsedPaper {
+  let text = frontMatter.trim();
+  const layout: PaperSection[] = [];
+  if (text.length > 0) {
+    layout.push({ title: 'Front Matter', kind: 'front-matter', start: 0, end: text.length });
+  }
+
+  let inBackMatter = false;
+  for (const section of sections) {
+    const title = section.title.trim();
+    const kind =
+      section.kind ??
+      classifyHeading(title, inBackMatter) ??
+      (inBackMatter ? 'appendix' : 'section');
+    if (kind === 'references' || kind === 'appendix') {
+      inBackMatter = true;
+    }
+
+    if (text.length > 0) {
+      text += '\n\n';
+    }
+    const start = text.length;
+    const body = section.text.trim();
+    text += body.length > 0 ? `${title}\n\n${body}` : title;
+    layout.push({ title, kind, start, end: text.length });
+  }
+
+  // Sections run up to the next heading, like detected ones
+  layout.forEach((section, i) => {
+    section.end = i + 1 < layout.length ? layout[i + 1].start : text.length;
+  });
+
+  return { text, pages: [{ number: 1, start: 0, end: text.length }], sections: layout };
+}
+
+const UNNUMBERED_HEADINGS =
+  /^(introduction|background|related work|preliminaries|method(s|ology)?|experiments?|results|evaluation|discussion|limitations|conclusions?|future work|acknowledge?ments?)$/i;
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2})*)\.?\s+([A-Z][^\n]*)$/;
+const ROMAN_HEADING = /^([IVX]{1,5})\.\s+([A-Z][^\n]*)$/;
+const APPENDIX_LETTER_HEADING = /^([A-H](?:\.\d{1,2})*)\.?\s+([A-Z][^\n]*)$/;
+
+/**
+ * Classifies a single line as a section heading, if it looks like one
+ */
+function classifyHeading(line: string, inBackMatter: boolean): PaperSectionKind | undefined {
+  if (line.length === 0 || line.length > 80 || /[,;]$/.test(line)) {
+    return undefined;
+  }
+
+  if (/^abstract\b/i.test(line) && (line.length <= 10 || /^abstract\s*[.:—-]/i.test(line))) {
+    return 'abstract';
+  }
+  if (/^(references|bibliography|works cited)$/i.test(line)) {
+    return 'references';
+  }
+  if (/^(appendix|appendices|supplementary material)\b/i.test(line)) {
+    return 'appendix';
+  }
+  if (UNNUMBERED_HEADINGS.test(line)) {
+    return 'section';
+  }
+
+  // Headings are short phrases, not sentences or table rows
+  const isShortTitle = (title: string) =>
+    title.split(/\s+/).length <= 12 &&
+    !/[.:]$/.test(title) &&
+    !/\d{3,}/.test(title) &&
+    !/_|\s\d+$/.test(title);
+
+  const numbered = line.match(NUMBERED_HEADING);
+  if (numbered && isShortTitle(numbered[2]) && parseInt(numbered[1], 10) <= 30) {
+    return inBackMatter ? 'appendix' : 'section';
+  }
+
+  const roman = line.match(ROMAN_HEADING);
+  if (roman && isShortTitle(roman[2]) && roman[2] === roman[2].toUpperCase()) {
+    return inBackMatter ? 'appendix' : 'section';
+  }
+
+  const lettered = line.match(APPENDIX_LETTER_HEADING);
+  if (inBackMatter && lettered && isShortTitle(lettered[2])) {
+    return 'appendix';
+  }
+
+  return undefined;
+}
+
+/**
+ * Detects the structural sections of a paper (abstract, numbered sections,
+ * references, appendix). Text before the first heading is returned as front matter.
+ * @param text - The paper text
+ * @returns Sections in document order, covering the whole text
+ */
+export function detectSections(text: string): PaperSection[] {
+  const headings: { title: string; kind: PaperSectionKind; start: number }[] = [];
+  let inBackMatter = false;
+  let offset = 0;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    const kind = classifyHeading(line, inBackMatter);
+
+    if (kind) {
+      const title = kind === 'abstract' ? 'Abstract' : line;
+      headings.push({ title, kind, start: offset + rawLine.indexOf(line) });
+      if (kind === 'references' || kind === 'appendix') {
+        inBackMatter = true;
+      }
+    }
+
+    offset += rawLine.length + 1;
+  }
+
+  const sections: PaperSection[] = [];
+  const firstStart = headings.length > 0 ? headings[0].start : text.length;
+
+  if (text.slice(0, firstStart).trim().length > 0) {
+    sections.push({ title: 'Front Matter', kind: 'front-matter', start: 0, end: firstStart });
+  }
+
+  headings.forEach((heading, index) => {
+    const end = index + 1 < headings.length ? headings[index + 1].start : text.length;
+    sections.push({ ...heading, end });
+  });
+
+  return sections;
+}
+
+/**
+ * Finds the best place to end a chunk within [min, max], preferring paragraph
+ * breaks, then sentence ends, then whitespace
+ */
+function findBreak(text: string, min: number, max: number): number {
+  const window = text.slice(min, max);
+  const patterns = [/\n\s*\n/g, /[.!?]["')\]]?\s+/g, /\s+/g];
+
+  for (const pattern of patterns) {
+    let best = -1;
+    for (const match of window.matchAll(pattern)) {
+      best = (match.index ?? 0) + match[0].length;
+    }
+    if (best > 0) {
+      return min + best;
+    }
+  }
+
+  return max;
+}
+
+/**
+ * Finds the pages overlapping a character range
+ */
+function pageRange(pages: PaperPage[], start: number, end: number): [number, number] {
+  const overlapping = pages.filter(page => page.start < end && page.end > start);
+  if (overlapping.length === 0) {
+    const page = pages.find(p => p.start >= start) || pages[pages.length - 1];
+    return page ? [page.number, page.number] : [1, 1];
+  }
+  return [overlapping[0].number, overlapping[overlapping.length - 1].number];
+}
+
+/**
+ * Splits a parsed paper into vector store documents along its section boundaries.
+ * Sections larger than the token budget are split at paragraph, sentence or word
+ * boundaries, with consecutive chunks overlapping by `overlapTokens`.
+ * @param paper - The parsed paper
+ * @param options - Chunking options
+ * @returns Documents ready to be added to a MemoryVectorStore
+ */
+export function chunkPaper(
+  paper: ParsedPaper,
+  options: ChunkPaperOptions
+): Omit<Document, 'embedding'>[] {
+  const { paperId, maxTokens = 512, overlapTokens = 64 } = options;
+
+  if (maxTokens <= 0) {
+    throw new Error('maxTokens must be positive');
+  }
+  if (overlapTokens < 0 || overlapTokens >= maxTokens) {
+    throw new Error('overlapTokens must be at least 0 and smaller than maxTokens');
+  }
+
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const overlapChars = overlapTokens * CHARS_PER_TOKEN;
+  const { text } = paper;
+  const chunks: Omit<Document, 'embedding'>[] = [];
+
+  for (const section of paper.sections ?? detectSections(text)) {
+    let start = section.start;
+
+    while (start < section.end) {
+      let end = section.end;
+      if (end - start > maxChars) {
+        end = findBreak(text, start + Math.floor(maxChars / 2), start + maxChars);
+      }
+
+      // Trim surrounding whitespace so offsets point at the actual content
+      let charStart = start;
+      let charEnd = end;
+      while (charStart < charEnd && /\s/.test(text[charStart])) charStart++;
+      while (charEnd > charStart && /\s/.test(text[charEnd - 1])) charEnd--;
+
+      if (charEnd > charStart) {
+        const [pageStart, pageEnd] = pageRange(paper.pages, charStart, charEnd);
+        const metadata: PaperChunkMetadata = {
+          paperId,
+          chunkIndex: chunks.length,
+          section: section.title,
+          sectionKind: section.kind,
+          pageStart,
+          pageEnd,
+          charStart,
+          charEnd,
+        };
+        chunks.push({
+          id: `${paperId}#${chunks.length}`,
+          content: text.slice(charStart, charEnd),
+          metadata: { ...metadata },
+        });
+      }
+
+      if (end >= section.end) {
+        break;
+      }
+
+      // Step back for overlap, snapping forward to a word boundary
+      let next = Math.max(end - overlapChars, start + 1);
+      while (next < end && !/\s/.test(text[next - 1])) next++;
+      start = next;
+    }
+  }
+
+  return chunks;
+}
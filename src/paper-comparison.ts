@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import type { Citation } from './gansgta-agent.js';
+import { formatSourceList } from './paper-digest.js';
+
+/**
+ * Least and most papers that can be compared at once
+ */
+export const MIN_COMPARED_PAPERS = 2;
+export const MAX_COMPARED_PAPERS = 5;
+
+/**
+ * Aspects papers are compared on, with the query used to retrieve the
+ * evidence for each from every paper
+ */
+export const COMPARISON_ASPECTS = [
+  { key: 'problem', label: 'Problem', query: 'problem statement motivation challenge' },
+  { key: 'approach', label: 'Approach', query: 'method approach model architecture algorithm' },
+  { key: 'datasets', label: 'Datasets', query: 'datasets benchmarks experimental setup' },
+  { key: 'metrics', label: 'Metrics', query: 'evaluation metrics measured score' },
+  {
+    key: 'results',
+    label: 'Reported Results',
+    query: 'results table accuracy score improvement outperforms',
+  },
+  { key: 'limitations', label: 'Limitations', query: 'limitations drawbacks failure cases' },
+] as const;
+
+/**
+ * An aspect papers are compared on
+ */
+export type ComparisonAspect = (typeof COMPARISON_ASPECTS)[number]['key'];
+
+/**
+ * A cell of the matrix: what one paper says about one aspect
+ */
+const cell = z.object({
+  text: z.string().describe('Short answer for this paper, empty if its excerpts do not cover it'),
+  sources: z
+    .array(z.string())
+    .describe('Ids of the excerpts of this paper the cell is taken from, e.g. "attention#3"'),
+});
+
+/**
+ * Schema of a comparison matrix: one row per paper, one cell per aspect
+ */
+export const ComparisonMatrixSchema = z.object({
+  papers: z.array(
+    z.object({
+      paperId: z.string(),
+      title: z.string(),
+      problem: cell,
+      approach: cell,
+      datasets: cell,
+      metrics: cell,
+      results: cell.describe('Reported results with their numbers exactly as stated'),
+      limitations: cell,
+    })
+  ),
+});
+
+/**
+ * A side-by-side comparison of papers, each cell citing the excerpts it comes from
+ */
+export type ComparisonMatrix = z.infer<typeof ComparisonMatrixSchema>;
+
+/**
+ * A row of a comparison matrix
+ */
+export type ComparisonRow = ComparisonMatrix['papers'][number];
+
+/**
+ * Aligns the rows of a model-produced matrix with the compared papers:
+ * rows come in the order of the papers, missing papers get empty rows, and
+ * cells only cite retrieved chunks of their own paper
+ * @param matrix - The matrix as produced by the model
+ * @param papers - The compared papers, in order
+ * @param chunkIds - Ids of the retrieved chunks
+ * @returns A copy of the matrix with one row per paper
+ */
+export function resolveComparison(
+  matrix: ComparisonMatrix,
+  papers: { paperId: string; title: string }[],
+  chunkIds: string[]
+): ComparisonMatrix {
+  const known = new Set(chunkIds);
+  // Parsing copies the matrix, so the model output is left untouched
+  const rows = ComparisonMatrixSchema.parse(matrix).papers;
+
+  return {
+    papers: papers.map(({ paperId, title }) => {
+      const row = rows.find(candidate => candidate.paperId === paperId);
+      const resolved = { paperId, title: row?.title || title } as ComparisonRow;
+      for (const { key } of COMPARISON_ASPECTS) {
+        const sources = (row?.[key].sources ?? [])
+          .map(id => id.replace(/^\[|\]$/g, '').trim())
+          .filter(id => known.has(id) && id.startsWith(`${paperId}#`));
+        resolved[key] = { text: row?.[key].text.trim() ?? '', sources: [...new Set(sources)] };
+      }
+      return resolved;
+    }),
+  };
+}
+
+/**
+ * Gets the ids of the chunks a matrix cites, paper by paper
+ * @param matrix - The matrix
+ * @returns The chunk ids
+ */
+export function comparisonChunkIds(matrix: ComparisonMatrix): string[] {
+  return [
+    ...new Set(
+      matrix.papers.flatMap(row => COMPARISON_ASPECTS.flatMap(({ key }) => row[key].sources))
+    ),
+  ];
+}
+
+/**
+ * Makes text safe for a Markdown table cell
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, '<br>');
+}
+
+/**
+ * Formats a matrix as a Markdown table with the papers side by side, one
+ * column per paper and one row per aspect. Cells cite their excerpts as
+ * [chunk-id]; the cited chunks are listed below the table.
+ * @param matrix - The matrix
+ * @param citations - The chunks the matrix cites, to list as sources
+ * @returns The Markdown document
+ */
+export function formatComparisonMarkdown(
+  matrix: ComparisonMatrix,
+  citations: Citation[] = []
+): string {
+  const header = ['Aspect', ...matrix.papers.map(row => `${row.title} (${row.paperId})`)];
+  const lines = [
+    `# Comparison of ${matrix.papers.length} papers`,
+    '',
+    `| ${header.map(tableCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+  ];
+
+  for (const { key, label } of COMPARISON_ASPECTS) {
+    const cells = matrix.papers.map(row => {
+      const { text, sources } = row[key];
+      const cited = sources.length > 0 ? ` [${sources.join(', ')}]` : '';
+      return tableCell(text ? `${text}${cited}` : '-');
+    });
+    lines.push(`| **${label}** | ${cells.join(' | ')} |`);
+  }
+
+  const sources = formatSourceList(citations);
+  if (sources.length > 0) {
+    lines.push('', '## Sources', '', ...sources.map(source => `- ${source}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,218 @@
+import { z } from 'zod';
+import type { Citation } from './gansgta-agent.js';
+
+/**
+ * Ids of the excerpts a digest field comes from
+ */
+const sources = z
+  .array(z.string())
+  .describe('Ids of the excerpts this field is taken from, e.g. "attention#3"');
+
+/**
+ * A piece of text backed by excerpts
+ */
+const citedText = z.object({
+  text: z.string(),
+  sources,
+});
+
+/**
+ * Schema of a paper digest. Every field lists the excerpts it is taken from.
+ * Fields the excerpts do not cover are empty (or null) rather than guessed.
+ * Optional values are nullable instead of optional, as structured model
+ * output requires every field to be present.
+ */
+export const PaperDigestSchema = z.object({
+  title: citedText,
+  authors: z.object({
+    names: z.array(z.string()),
+    sources,
+  }),
+  publication: z.object({
+    venue: z.string().nullable().describe('Conference or journal, null if not stated'),
+    year: z.number().int().nullable(),
+    sources,
+  }),
+  abstract: citedText.describe('The abstract, condensed to a few sentences'),
+  problem: citedText.describe('The problem the paper addresses and why it matters'),
+  contributions: z.array(citedText).describe('Key contributions, one per item'),
+  methods: z.array(citedText).describe('Methods, models and techniques used or proposed'),
+  datasets: z.array(
+    z.object({
+      name: z.string(),
+      description: z.string().describe('What the dataset is and how the paper uses it'),
+      sources,
+    })
+  ),
+  results: z
+    .array(
+      z.object({
+        description: z.string().describe('What was measured, on what, compared with what'),
+        metric: z.string(),
+        value: z.number(),
+        unit: z.string().nullable().describe('Unit of the value, e.g. "%", null if none'),
+        dataset: z.string().nullable(),
+        sources,
+      })
+    )
+    .describe('Quantitative results exactly as reported in the paper'),
+  limitations: z.array(citedText),
+  openQuestions: z.array(citedText).describe('Open questions and future work'),
+});
+
+/**
+ * A structured digest of a paper, each field citing the excerpts it comes from
+ */
+export type PaperDigest = z.infer<typeof PaperDigestSchema>;
+
+/**
+ * Queries used to retrieve the excerpts a digest is written from, one per
+ * part of the digest
+ */
+export const DIGEST_QUERIES = [
+  'abstract summary of the paper',
+  'problem statement motivation challenge',
+  'our contributions we propose we introduce',
+  'method approach model architecture algorithm',
+  'datasets benchmarks experimental setup training data',
+  'results table accuracy score improvement outperforms',
+  'limitations drawbacks failure cases',
+  'future work open questions conclusion',
+];
+
+/**
+ * Every part of a digest that cites excerpts, in document order
+ */
+function citedParts(digest: PaperDigest): { sources: string[] }[] {
+  return [
+    digest.title,
+    digest.authors,
+    digest.publication,
+    digest.abstract,
+    digest.problem,
+    ...digest.contributions,
+    ...digest.methods,
+    ...digest.datasets,
+    ...digest.results,
+    ...digest.limitations,
+    ...digest.openQuestions,
+  ];
+}
+
+/**
+ * Drops citations of excerpts that were not retrieved, so every cited id
+ * refers to a chunk the digest was actually written from
+ * @param digest - The digest as produced by the model
+ * @param chunkIds - Ids of the retrieved chunks
+ * @returns A copy of the digest citing known chunks only
+ */
+export function resolveDigestSources(digest: PaperDigest, chunkIds: string[]): PaperDigest {
+  const known = new Set(chunkIds);
+  // Parsing copies the digest, so the model output is left untouched
+  const resolved = PaperDigestSchema.parse(digest);
+  for (const part of citedParts(resolved)) {
+    part.sources = [...new Set(part.sources.map(id => id.replace(/^\[|\]$/g, '').trim()))].filter(
+      id => known.has(id)
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Gets the ids of the chunks a digest cites, in order of first citation
+ * @param digest - The digest
+ * @returns The chunk ids
+ */
+export function digestChunkIds(digest: PaperDigest): string[] {
+  return [...new Set(citedParts(digest).flatMap(part => part.sources))];
+}
+
+/**
+ * Formats the sources of a digest field as a citation marker
+ */
+function cite(part: { sources: string[] }): string {
+  return part.sources.length > 0 ? ` [${part.sources.join(', ')}]` : '';
+}
+
+/**
+ * Formats a value and its unit, e.g. "28.4 BLEU" or "92.1%"
+ */
+function formatValue(value: number, unit: string | null): string {
+  if (!unit) {
+    return String(value);
+  }
+  return /^[%‰°×x]$/.test(unit) ? `${value}${unit}` : `${value} ${unit}`;
+}
+
+/**
+ * Formats cited chunks as source list items, e.g. "[attention#3] 6 Results, pp. 8-9"
+ * @param citations - The cited chunks
+ * @returns One item per chunk
+ */
+export function formatSourceList(citations: Citation[]): string[] {
+  return citations.map(citation => {
+    const pages =
+      citation.page === undefined
+        ? ''
+        : citation.page === citation.pageEnd || citation.pageEnd === undefined
+          ? `p. ${citation.page}`
+          : `pp. ${citation.page}-${citation.pageEnd}`;
+    const location = [citation.section, pages].filter(Boolean).join(', ');
+    return `[${citation.chunkId}]${location ? ` ${location}` : ''}`;
+  });
+}
+
+/**
+ * Formats a digest as Markdown, e.g. for a team wiki. Fields cite their
+ * excerpts as [chunk-id]; the cited chunks are listed at the end.
+ * @param digest - The digest
+ * @param citations - The chunks the digest cites, to list as sources
+ * @returns The Markdown document
+ */
+export function formatDigestMarkdown(digest: PaperDigest, citations: Citation[] = []): string {
+  const lines: string[] = [`# ${digest.title.text || 'Untitled paper'}`, ''];
+
+  if (digest.authors.names.length > 0) {
+    lines.push(`**Authors:** ${digest.authors.names.join(', ')}${cite(digest.authors)}`);
+  }
+  const { venue, year } = digest.publication;
+  if (venue || year) {
+    const published = [venue, year].filter(part => part !== null).join(', ');
+    lines.push(`**Published:** ${published}${cite(digest.publication)}`);
+  }
+
+  const paragraph = (heading: string, part: { text: string; sources: string[] }) => {
+    if (part.text.trim()) {
+      lines.push('', `## ${heading}`, '', `${part.text.trim()}${cite(part)}`);
+    }
+  };
+  const citedItem = (item: { text: string; sources: string[] }) => `${item.text}${cite(item)}`;
+  const list = (heading: string, items: string[]) => {
+    if (items.length > 0) {
+      lines.push('', `## ${heading}`, '', ...items.map(item => `- ${item}`));
+    }
+  };
+
+  paragraph('Abstract', digest.abstract);
+  paragraph('Problem', digest.problem);
+  list('Key Contributions', digest.contributions.map(citedItem));
+  list('Methods', digest.methods.map(citedItem));
+  list(
+    'Datasets',
+    digest.datasets.map(item => `**${item.name}**: ${item.description}${cite(item)}`)
+  );
+  list(
+    'Results',
+    digest.results.map(result => {
+      const context = [result.metric, result.dataset].filter(Boolean).join(', ');
+      const value = formatValue(result.value, result.unit);
+      return `${result.description}: **${value}** (${context})${cite(result)}`;
+    })
+  );
+  list('Limitations', digest.limitations.map(citedItem));
+  list('Open Questions', digest.openQuestions.map(citedItem));
+
+  list('Sources', formatSourceList(citations));
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,461 @@
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { basename, extname, join, resolve } from 'path';
+import type { EmbeddingBatchOptions } from './embedding-batch.js';
+import { Bibliography, extractBibliography, formatReference } from './bibliography.js';
+import { EmbeddingCache } from './embedding-cache.js';
+import { createEmbeddingProvider, EmbeddingProvider } from './embedding-providers.js';
+import { Document, MemoryVectorStore } from './memory-vector-store.js';
+import { chunkPaper, ChunkPaperOptions, PaperChunkMetadata } from './paper-chunker.js';
+import { LoadedPaper, parsePaper } from './paper-loader.js';
+import { readVectorStoreFile } from './vector-store-file.js';
+
+/**
+ * Default location of the paper library
+ */
+export const DEFAULT_LIBRARY_DIR = join(homedir(), '.research-gangsta');
+
+/**
+ * Name of a project-local library directory, picked up from the working directory
+ */
+export const PROJECT_LIBRARY_DIR_NAME = '.research-gangsta';
+
+/**
+ * Environment variable overriding the library location
+ */
+export const LIBRARY_DIR_ENV = 'RESEARCH_GANGSTA_LIBRARY';
+
+/**
+ * File holding the embedded chunks of a paper
+ */
+const CHUNKS_FILE = 'chunks.rgvs';
+
+/**
+ * File holding the parsed references and citation links of a paper
+ */
+const BIBLIOGRAPHY_FILE = 'bibliography.json';
+
+/**
+ * Manifest describing an ingested paper
+ */
+export interface PaperManifest {
+  /**
+   * Library identifier of the paper
+   */
+  id: string;
+
+  /**
+   * Title of the paper
+   */
+  title: string;
+
+  /**
+   * Name of the ingested file
+   */
+  fileName: string;
+
+  /**
+   * Absolute path the paper was ingested from
+   */
+  sourcePath: string;
+
+  /**
+   * SHA-256 of the ingested file
+   */
+  hash: string;
+
+  /**
+   * Number of pages of the paper
+   */
+  pageCount: number;
+
+  /**
+   * Number of chunks stored for the paper
+   */
+  chunkCount: number;
+
+  /**
+   * Number of entries parsed from the references section. Absent for papers
+   * ingested before bibliographies were extracted.
+   */
+  referenceCount?: number;
+
+  /**
+   * ISO timestamp of the ingestion
+   */
+  ingestedAt: string;
+
+  /**
+   * Embedding model the chunks were embedded with
+   */
+  embeddingModel: string;
+
+  /**
+   * Dimension of the stored embeddings
+   */
+  embeddingDimension: number;
+
+  /**
+   * Endpoint of the OpenAI-compatible server the chunks were embedded with;
+   * unset for OpenAI and offline models
+   */
+  embeddingBaseURL?: string;
+}
+
+/**
+ * Options for ingesting a paper
+ */
+export interface IngestOptions {
+  /**
+   * Provider used to embed the paper chunks
+   */
+  embeddingProvider: EmbeddingProvider;
+
+  /**
+   * Chunking options (the paper id is set by the library)
+   */
+  chunking?: Omit<ChunkPaperOptions, 'paperId'>;
+
+  /**
+   * Batching, concurrency and retry settings for embedding the chunks
+   */
+  batching?: EmbeddingBatchOptions;
+
+  /**
+   * Re-ingest the paper even if the same file is already in the library
+   * @default false
+   */
+  force?: boolean;
+}
+
+/**
+ * Result of an ingestion
+ */
+export interface IngestResult {
+  /**
+   * Manifest of the ingested paper
+   */
+  manifest: PaperManifest;
+
+  /**
+   * True if the paper was already in the library and nothing was done
+   */
+  alreadyIngested: boolean;
+}
+
+/**
+ * Error raised when a paper cannot be found in the library
+ */
+export class PaperNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaperNotFoundError';
+  }
+}
+
+/**
+ * Resolves the library directory: an explicit path wins, then the
+ * RESEARCH_GANGSTA_LIBRARY environment variable, then a `.research-gangsta`
+ * directory in the current project, then `~/.research-gangsta`.
+ * @param explicitDir - Directory given on the command line or in code
+ * @returns The absolute library directory
+ */
+export function resolveLibraryDir(explicitDir?: string): string {
+  if (explicitDir) {
+    return resolve(explicitDir);
+  }
+  if (process.env[LIBRARY_DIR_ENV]) {
+    return resolve(process.env[LIBRARY_DIR_ENV] as string);
+  }
+
+  const projectDir = resolve(PROJECT_LIBRARY_DIR_NAME);
+  if (existsSync(projectDir)) {
+    return projectDir;
+  }
+
+  return DEFAULT_LIBRARY_DIR;
+}
+
+/**
+ * Turns a title or file name into a short, filesystem-safe slug
+ */
+function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40)
+      .replace(/-+$/, '') || 'paper'
+  );
+}
+
+/**
+ * Writes a file atomically by writing a sibling temp file and renaming it
+ */
+export async function writeFileAtomic(path: string, data: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, data);
+  await rename(tempPath, path);
+}
+
+/**
+ * On-disk library of ingested papers.
+ *
+ * Layout:
+ *   <dir>/papers/<paper-id>/manifest.json  - PaperManifest
+ *   <dir>/papers/<paper-id>/chunks.rgvs    - embedded chunks (MemoryVectorStore.save)
+ *   <dir>/papers/<paper-id>/bibliography.json - parsed references (Bibliography)
+ *   <dir>/embedding-cache/                 - EmbeddingCache shared by ingests and queries
+ *
+ * The manifest is written last, so a paper without one is an interrupted ingest.
+ */
+export class PaperLibrary {
+  readonly dir: string;
+  readonly embeddingCache: EmbeddingCache;
+
+  /**
+   * Creates a new PaperLibrary instance
+   * @param dir - The library directory (see resolveLibraryDir)
+   */
+  constructor(dir: string = resolveLibraryDir()) {
+    this.dir = resolve(dir);
+    this.embeddingCache = new EmbeddingCache({ dir: join(this.dir, 'embedding-cache') });
+  }
+
+  private get papersDir(): string {
+    return join(this.dir, 'papers');
+  }
+
+  private paperDir(id: string): string {
+    return join(this.papersDir, id);
+  }
+
+  /**
+   * Ingests a paper file: parses, chunks, embeds and persists it
+   * @param filePath - Path to the paper file
+   * @param options - Ingestion options
+   * @returns The manifest of the paper
+   */
+  async ingest(filePath: string, options: IngestOptions): Promise<IngestResult> {
+    const sourcePath = resolve(filePath);
+    const data = await readFile(sourcePath);
+    const hash = createHash('sha256').update(data).digest('hex');
+
+    const existing = (await this.listPapers()).find(paper => paper.hash === hash);
+    if (existing && !options.force) {
+      return { manifest: existing, alreadyIngested: true };
+    }
+
+    const paper = await parsePaper(data, sourcePath);
+    const manifest = await this.addPaper(paper, { sourcePath, hash, id: existing?.id }, options);
+    return { manifest, alreadyIngested: false };
+  }
+
+  /**
+   * Chunks, embeds and persists an already parsed paper
+   * @param paper - The parsed paper
+   * @param source - Where the paper came from
+   * @param options - Ingestion options
+   * @returns The manifest of the paper
+   */
+  async addPaper(
+    paper: LoadedPaper,
+    source: { sourcePath: string; hash: string; id?: string },
+    options: IngestOptions
+  ): Promise<PaperManifest> {
+    const fileName = basename(source.sourcePath);
+    const title = paper.title || this.guessTitle(paper) || basename(fileName, extname(fileName));
+    const id = source.id || `${slugify(title)}-${source.hash.slice(0, 8)}`;
+
+    const store = new MemoryVectorStore({
+      embeddingProvider: options.embeddingProvider,
+      embeddingCache: this.embeddingCache,
+    });
+    const bibliography = extractBibliography(paper);
+    const references = new Map(bibliography.entries.map(entry => [entry.id, entry]));
+    const chunks = chunkPaper(paper, { ...options.chunking, paperId: id }).map(chunk => {
+      const { charStart, charEnd } = chunk.metadata as PaperChunkMetadata;
+      const cited = bibliography.links
+        .filter(link => link.start >= charStart && link.end <= charEnd)
+        .flatMap(link => link.entryIds);
+      const metadata: Record<string, unknown> = { ...chunk.metadata, title };
+      if (cited.length > 0) {
+        metadata.citedReferences = [...new Set(cited)].map(ref =>
+          formatReference(references.get(ref)!)
+        );
+      }
+      return { ...chunk, metadata };
+    });
+    await store.addDocuments(chunks, options.batching);
+
+    const manifest: PaperManifest = {
+      id,
+      title,
+      fileName,
+      sourcePath: source.sourcePath,
+      hash: source.hash,
+      pageCount: paper.pages.length,
+      chunkCount: chunks.length,
+      referenceCount: bibliography.entries.length,
+      ingestedAt: new Date().toISOString(),
+      embeddingModel: store.getEmbeddingModel(),
+      embeddingDimension: store.getDimension(),
+      ...(options.embeddingProvider.baseURL
+        ? { embeddingBaseURL: options.embeddingProvider.baseURL }
+        : {}),
+    };
+
+    const dir = this.paperDir(id);
+    await mkdir(dir, { recursive: true });
+    await store.save(join(dir, CHUNKS_FILE));
+    await writeFileAtomic(join(dir, BIBLIOGRAPHY_FILE), JSON.stringify(bibliography, null, 2));
+    await writeFileAtomic(join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+    return manifest;
+  }
+
+  /**
+   * Uses the first substantial line of the paper as its title
+   */
+  private guessTitle(paper: LoadedPaper): string | undefined {
+    return paper.text
+      .split('\n')
+      .map(line => line.trim())
+      .find(line => line.length >= 8 && line.length <= 200 && /[a-z]/i.test(line));
+  }
+
+  /**
+   * Lists all papers in the library
+   * @returns Manifests of all complete papers, oldest first
+   */
+  async listPapers(): Promise<PaperManifest[]> {
+    if (!existsSync(this.papersDir)) {
+      return [];
+    }
+
+    const manifests: PaperManifest[] = [];
+    for (const entry of await readdir(this.papersDir, { withFileTypes: true })) {
+      const manifestPath = join(this.papersDir, entry.name, 'manifest.json');
+      if (entry.isDirectory() && existsSync(manifestPath)) {
+        manifests.push(JSON.parse(await readFile(manifestPath, 'utf-8')));
+      }
+    }
+
+    return manifests.sort((a, b) => a.ingestedAt.localeCompare(b.ingestedAt));
+  }
+
+  /**
+   * Finds a paper by its id or a unique id prefix
+   * @param idOrPrefix - The paper id or prefix
+   * @returns The paper manifest
+   * @throws PaperNotFoundError if no paper, or more than one, matches
+   */
+  async getPaper(idOrPrefix: string): Promise<PaperManifest> {
+    const papers = await this.listPapers();
+    const exact = papers.find(paper => paper.id === idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = papers.filter(paper => paper.id.startsWith(idOrPrefix));
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    if (matches.length > 1) {
+      throw new PaperNotFoundError(
+        `Paper id "${idOrPrefix}" is ambiguous: ${matches.map(paper => paper.id).join(', ')}`
+      );
+    }
+    throw new PaperNotFoundError(`No paper with id "${idOrPrefix}" in ${this.dir}`);
+  }
+
+  /**
+   * Loads the stored chunks of a paper
+   * @param idOrPrefix - The paper id or prefix
+   * @returns The chunks with their embeddings
+   */
+  async getChunks(idOrPrefix: string): Promise<Document[]> {
+    const manifest = await this.getPaper(idOrPrefix);
+    const dir = this.paperDir(manifest.id);
+
+    const { documents } = await readVectorStoreFile(join(dir, CHUNKS_FILE));
+    return documents;
+  }
+
+  /**
+   * Loads the bibliography extracted from a paper's references section
+   * @param idOrPrefix - The paper id or prefix
+   * @returns The entries and citation links; empty for papers ingested before
+   *   bibliographies were extracted
+   */
+  async getBibliography(idOrPrefix: string): Promise<Bibliography> {
+    const manifest = await this.getPaper(idOrPrefix);
+    const path = join(this.paperDir(manifest.id), BIBLIOGRAPHY_FILE);
+    if (!existsSync(path)) {
+      return { entries: [], links: [] };
+    }
+    return JSON.parse(await readFile(path, 'utf-8'));
+  }
+
+  /**
+   * Opens a vector store holding the chunks of the given papers
+   * @param ids - Paper ids or prefixes
+   * @param embeddingProvider - Provider for query embeddings; defaults to one for the
+   *   model and server recorded in the manifests
+   * @returns The vector store
+   * @throws Error if no papers are given and no embedding provider either
+   */
+  async openStore(
+    ids: string[],
+    embeddingProvider?: EmbeddingProvider
+  ): Promise<MemoryVectorStore> {
+    if (ids.length === 0 && !embeddingProvider) {
+      throw new Error('Cannot pick an embedding model for a store without papers');
+    }
+
+    const manifests = await Promise.all(ids.map(id => this.getPaper(id)));
+    const models = new Set(
+      manifests.map(m =>
+        [m.embeddingModel, m.embeddingDimension, m.embeddingBaseURL].filter(Boolean).join(':')
+      )
+    );
+    if (models.size > 1) {
+      throw new Error(
+        `Papers were embedded with different models (${[...models].join(', ')}) and cannot be searched together`
+      );
+    }
+
+    const [first] = manifests;
+    const provider =
+      embeddingProvider ||
+      createEmbeddingProvider(
+        first.embeddingModel,
+        first.embeddingDimension,
+        first.embeddingBaseURL
+      );
+    const store = new MemoryVectorStore({
+      embeddingProvider: provider,
+      embeddingCache: this.embeddingCache,
+    });
+
+    for (const manifest of manifests) {
+      store.import(await this.getChunks(manifest.id));
+    }
+
+    return store;
+  }
+
+  /**
+   * Removes a paper from the library
+   * @param idOrPrefix - The paper id or prefix
+   * @returns The manifest of the removed paper
+   */
+  async removePaper(idOrPrefix: string): Promise<PaperManifest> {
+    const manifest = await this.getPaper(idOrPrefix);
+    await rm(this.paperDir(manifest.id), { recursive: true, force: true });
+    return manifest;
+  }
+}
@@ -0,0 +1,260 @@
+import { Buffer } from 'buffer';
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { PDFParse } from 'pdf-parse';
+import { htmlLoader } from './html-loader.js';
+import { latexLoader } from './latex-loader.js';
+import { markdownLoader } from './markdown-loader.js';
+import { joinPages, ParsedPaper } from './paper-chunker.js';
+import { cleanPdfPages, SourceSpan } from './pdf-cleanup.js';
+
+/**
+ * A paper parsed from a file, with the metadata the file itself provides
+ */
+export interface LoadedPaper extends ParsedPaper {
+  /**
+   * Title declared by the document, if any
+   */
+  title?: string;
+
+  /**
+   * For PDFs, where each part of the cleaned text was extracted from
+   */
+  sourceMap?: SourceSpan[];
+}
+
+/**
+ * Parser for one family of paper file formats
+ */
+export interface PaperLoader {
+  /**
+   * Short name of the format, e.g. "pdf"
+   */
+  name: string;
+
+  /**
+   * File extensions handled, lowercase with the leading dot (e.g. ".tar.gz")
+   */
+  extensions: string[];
+
+  /**
+   * MIME types handled, as reported by sniffMimeType
+   */
+  mimeTypes: string[];
+
+  /**
+   * Parses the raw bytes of a file.
+   * @param data - The file contents.
+   * @param fileName - The file name or path; loaders may read files next to it.
+   * @returns The text of the paper with its sections and page layout.
+   */
+  load(data: Uint8Array, fileName: string): Promise<LoadedPaper>;
+}
+
+/**
+ * Error raised for files that no registered loader handles
+ */
+export class UnsupportedPaperFormatError extends Error {
+  constructor(fileName: string, supported: string[]) {
+    super(`Unsupported file type: ${basename(fileName)}. Supported: ${supported.join(', ')}`);
+    this.name = 'UnsupportedPaperFormatError';
+  }
+}
+
+/**
+ * MIME types recognized from magic bytes, which win over the file extension
+ */
+const BINARY_MIME_TYPES = ['application/pdf', 'application/gzip', 'application/x-tar'];
+
+/**
+ * Guesses the MIME type of a file from its contents.
+ * @param data - The file contents.
+ * @returns The MIME type, or undefined for binary data of unknown type.
+ */
+export function sniffMimeType(data: Uint8Array): string | undefined {
+  const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (bytes.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'application/pdf';
+  }
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return 'application/gzip';
+  }
+  if (bytes.length >= 262 && bytes.subarray(257, 262).toString('latin1') === 'ustar') {
+    return 'application/x-tar';
+  }
+
+  const head = bytes.subarray(0, 4096);
+  if (head.includes(0)) {
+    return undefined;
+  }
+  const text = head.toString('utf-8').replace(/^\uFEFF/, '');
+  if (/^\s*(<!doctype html|<html|<\?xml[^>]*>\s*<html)/i.test(text)) {
+    return 'text/html';
+  }
+  if (/\\(documentclass|begin\{document\}|section\*?\{)/.test(text)) {
+    return 'application/x-tex';
+  }
+  if (/^(---\n|#{1,6} \S)/.test(text) || /\n#{1,6} \S/.test(text)) {
+    return 'text/markdown';
+  }
+  return 'text/plain';
+}
+
+/**
+ * Parses PDF files page by page, cleaning up the extracted text (running
+ * headers, hyphenation, ligatures, two-column layouts)
+ */
+const pdfLoader: PaperLoader = {
+  name: 'pdf',
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+  async load(data) {
+    const parser = new PDFParse({
+      data,
+    });
+    try {
+      const pdfTextNode = await parser.getText();
+      const pdfInfo = await parser.getInfo();
+      const title = typeof pdfInfo.info?.Title === 'string' ? pdfInfo.info.Title.trim() : '';
+
+      return {
+        ...cleanPdfPages(pdfTextNode.pages.map(page => ({ number: page.num, text: page.text }))),
+        title: title || undefined,
+      };
+    } finally {
+      await parser.destroy();
+    }
+  },
+};
+
+/**
+ * Reads plain text, treating form feeds as page breaks
+ */
+const textLoader: PaperLoader = {
+  name: 'text',
+  extensions: ['.txt', '.text'],
+  mimeTypes: ['text/plain'],
+  async load(data) {
+    const text = Buffer.from(data)
+      .toString('utf-8')
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n');
+    return joinPages(text.split('\f').map((page, i) => ({ number: i + 1, text: page.trim() })));
+  },
+};
+
+/**
+ * Set of loaders, looked up by file contents and extension
+ */
+export class PaperLoaderRegistry {
+  private loaders: PaperLoader[] = [];
+
+  /**
+   * Creates a new PaperLoaderRegistry
+   * @param loaders - Loaders to register, in order
+   */
+  constructor(loaders: PaperLoader[] = []) {
+    loaders.forEach(loader => this.register(loader));
+  }
+
+  /**
+   * Adds a loader. It takes precedence over loaders registered earlier for the
+   * same extensions or MIME types.
+   * @param loader - The loader to add
+   */
+  register(loader: PaperLoader): void {
+    this.loaders = [loader, ...this.loaders.filter(existing => existing.name !== loader.name)];
+  }
+
+  /**
+   * Gets the registered loaders, most recently registered first
+   * @returns The loaders
+   */
+  list(): PaperLoader[] {
+    return [...this.loaders];
+  }
+
+  /**
+   * Finds the loader for a file: by magic bytes for binary formats, then by
+   * extension, then by sniffing the text
+   * @param data - The file contents
+   * @param fileName - The file name
+   * @returns The loader, or undefined if none handles the file
+   */
+  find(data: Uint8Array, fileName: string): PaperLoader | undefined {
+    const mimeType = sniffMimeType(data);
+    const byMimeType = () => this.loaders.find(loader => loader.mimeTypes.includes(mimeType!));
+
+    if (mimeType && BINARY_MIME_TYPES.includes(mimeType)) {
+      const loader = byMimeType();
+      if (loader) {
+        return loader;
+      }
+    }
+
+    const name = basename(fileName).toLowerCase();
+    let best: { loader: PaperLoader; length: number } | undefined;
+    for (const loader of this.loaders) {
+      for (const extension of loader.extensions) {
+        if (name.endsWith(extension) && extension.length > (best?.length ?? 0)) {
+          best = { loader, length: extension.length };
+        }
+      }
+    }
+    if (best) {
+      return best.loader;
+    }
+
+    return mimeType ? byMimeType() : undefined;
+  }
+
+  /**
+   * Parses a paper file with the matching loader
+   * @param data - The file contents
+   * @param fileName - The file name or path
+   * @returns The text of the paper with its sections and page layout
+   * @throws UnsupportedPaperFormatError if no loader handles the file
+   */
+  async load(data: Uint8Array, fileName: string): Promise<LoadedPaper> {
+    const loader = this.find(data, fileName);
+    if (!loader) {
+      const extensions = this.loaders.flatMap(loader => loader.extensions);
+      throw new UnsupportedPaperFormatError(fileName, [...new Set(extensions)].sort());
+    }
+    return loader.load(data, fileName);
+  }
+}
+
+/**
+ * Loaders used by parsePaper: PDF, LaTeX (including arXiv source tarballs),
+ * HTML, Markdown and plain text
+ */
+export const paperLoaders = new PaperLoaderRegistry([
+  textLoader,
+  markdownLoader,
+  htmlLoader,
+  latexLoader,
+  pdfLoader,
+]);
+
+/**
+ * Parses the raw bytes of a paper file.
+ * @param data - The file contents.
+ * @param fileName - The file name, used to pick the parser.
+ * @returns The text of the paper with its page layout.
+ * @throws UnsupportedPaperFormatError if the file type is not supported.
+ */
+export async function parsePaper(data: Uint8Array, fileName: string): Promise<LoadedPaper> {
+  return paperLoaders.load(data, fileName);
+}
+
+/**
+ * Loads a paper from the file system.
+ * @param filePath - The path to the file to load.
+ * @returns The text of the paper with its page layout.
+ * @throws UnsupportedPaperFormatError if the file type is not supported.
+ */
+export async function loadPaperFile(filePath: string): Promise<LoadedPaper> {
+  const data = await readFile(filePath);
+  return parsePaper(data, filePath);
+}
@@ -0,0 +1,434 @@
+import { tool, Tool } from '@openai/agents';
+import { z } from 'zod';
+import { BibEntry, formatReference } from './bibliography.js';
+import type { Document, MemoryVectorStore, SearchResult } from './memory-vector-store.js';
+import { PaperLibrary, PaperNotFoundError } from './paper-library.js';
+
+/**
+ * Most chunks a tool returns at once, to keep tool output within the context window
+ */
+const MAX_TOOL_CHUNKS = 6;
+
+/**
+ * Most references lookup_reference returns
+ */
+const MAX_REFERENCES = 5;
+
+/**
+ * Longest figure or table caption returned, in characters
+ */
+const MAX_CAPTION_LENGTH = 600;
+
+/**
+ * A call the agent made to one of the paper tools
+ */
+export interface ToolCall {
+  /**
+   * Name of the tool, e.g. "search_paper"
+   */
+  name: string;
+
+  /**
+   * Arguments the model called the tool with
+   */
+  arguments: Record<string, unknown>;
+
+  /**
+   * Ids of the chunks the tool returned
+   */
+  chunkIds: string[];
+
+  /**
+   * Error message, if the call failed
+   */
+  error?: string;
+}
+
+/**
+ * Options for creating the paper tools
+ */
+export interface PaperToolsOptions {
+  /**
+   * Vector store holding the papers in scope; the tools only see these papers
+   */
+  store: MemoryVectorStore;
+
+  /**
+   * Library the papers come from, needed to look up references
+   */
+  library?: PaperLibrary;
+
+  /**
+   * Called after every tool call
+   */
+  onToolCall?: (call: ToolCall) => void;
+}
+
+/**
+ * Formats a chunk as an excerpt the model can cite: its id, title, section
+ * and pages, then its text and the references it cites.
+ * @param document - The chunk
+ * @returns The excerpt
+ */
+export function formatExcerpt(document: Document): string {
+  const { title, section, pageStart, pageEnd, citedReferences } = document.metadata || {};
+  const pages = pageStart === pageEnd ? `p. ${pageStart}` : `pp. ${pageStart}-${pageEnd}`;
+  const excerpt = `[${document.id}] ${title ?? ''} / ${section ?? ''} (${pages})\n${document.content}`;
+  // Resolve the citation markers of the excerpt, e.g. [12], to the works they cite
+  const references = Array.isArray(citedReferences) ? (citedReferences as string[]) : [];
+  return references.length > 0
+    ? `${excerpt}\nReferences cited in this excerpt:\n${references.map(ref => `- ${ref}`).join('\n')}`
+    : excerpt;
+}
+
+/**
+ * Formats a tool call for logs, e.g.
+ * `search_paper(query: "dropout rate", paperId: null) -> attention#4, attention#9`
+ * @param call - The tool call
+ * @returns The formatted call
+ */
+export function formatToolCall(call: ToolCall): string {
+  const args = Object.entries(call.arguments)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(', ');
+  const outcome = call.error
+    ? `error: ${call.error}`
+    : call.chunkIds.length > 0
+      ? call.chunkIds.join(', ')
+      : 'ok';
+  return `${call.name}(${args}) -> ${outcome}`;
+}
+
+/**
+ * Finds the caption of a figure or table in a text
+ * @param text - The text
+ * @param kind - "Figure" or "Table"
+ * @param number - The figure or table number, e.g. "3" or "2b"
+ * @returns The caption, or undefined if the text has none
+ */
+export function findCaption(
+  text: string,
+  kind: 'Figure' | 'Table',
+  number: string
+): string | undefined {
+  const label = kind === 'Figure' ? 'Fig(?:ure|\\.)?' : 'Tab(?:le|\\.)?';
+  const escaped = number.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Captions start a line with the label followed by a colon or period, unlike mentions in the text
+  const match = text.match(
+    new RegExp(`(?:^|\\n)[ \\t]*(${label}\\s*${escaped}\\s*[:.|][^]*?)(?:\\n\\s*\\n|$)`, 'i')
+  );
+  if (!match) {
+    return undefined;
+  }
+  const caption = match[1].replace(/\s+/g, ' ').trim();
+  return caption.length > MAX_CAPTION_LENGTH
+    ? `${caption.slice(0, MAX_CAPTION_LENGTH)}...`
+    : caption;
+}
+
+/**
+ * Finds the bibliography entries a reference points to
+ * @param entries - The entries of the bibliography
+ * @param reference - A citation marker ("[12]", "12"), an author and year
+ *   ("Vaswani et al., 2017") or words from the reference
+ * @returns The matching entries, best first
+ */
+export function findReferences(entries: BibEntry[], reference: string): BibEntry[] {
+  const numbered = reference.trim().match(/^\[?\s*([\w.-]+?)\s*\]?$/);
+  const byLabel = numbered && entries.find(entry => entry.label === numbered[1]);
+  if (byLabel) {
+    return [byLabel];
+  }
+
+  const year = reference.match(/\b(1[89]\d\d|20\d\d)[a-z]?\b/)?.[1];
+  const words = reference
+    .toLowerCase()
+    .replace(/\bet al\b\.?|\band\b|[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && word !== year);
+  if (words.length === 0) {
+    return [];
+  }
+
+  return entries
+    .map(entry => {
+      const raw = entry.raw.toLowerCase();
+      const family = entry.authors[0]?.family.toLowerCase();
+      let score = words.filter(word => raw.includes(word)).length / words.length;
+      if (family && words.includes(family)) {
+        score += 1;
+      }
+      if (year && entry.year !== Number(year) && entry.year !== undefined) {
+        score = 0;
+      }
+      return { entry, score };
+    })
+    .filter(({ score }) => score >= 0.5)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_REFERENCES)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Function tools that let the agent look things up in the papers in scope
+ * itself: search them, read a section or a page, list them, resolve
+ * references and find figure captions. Tool calls are recorded, and the
+ * chunks the tools return can be cited like the retrieved excerpts.
+ */
+export class PaperTools {
+  private options: PaperToolsOptions;
+  private returned = new Map<string, SearchResult>();
+  private log: ToolCall[] = [];
+
+  /**
+   * Creates the paper tools
+   * @param options - The store and library the tools read from
+   */
+  constructor(options: PaperToolsOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Calls made so far, in order
+   */
+  get calls(): ToolCall[] {
+    return [...this.log];
+  }
+
+  /**
+   * Chunks returned by the tools so far, as search results the answer can cite
+   */
+  get results(): SearchResult[] {
+    return [...this.returned.values()];
+  }
+
+  /**
+   * The tools to give the agent. lookup_reference is only included when the
+   * tools have a library to read bibliographies from.
+   */
+  get tools(): Tool[] {
+    const paperId = z.string().describe('Id of the paper, as listed by list_papers');
+
+    const tools: Tool[] = [
+      tool({
+        name: 'search_paper',
+        description:
+          'Searches the papers for the passages most relevant to a query, by meaning and by exact terms.',
+        parameters: z.object({
+          query: z.string().describe('What to look for'),
+          paperId: paperId.nullable().describe('Paper to search, or null to search all papers'),
+          topK: z.number().int().min(1).max(MAX_TOOL_CHUNKS).nullable().describe('Default 3'),
+        }),
+        execute: args =>
+          this.call('search_paper', args, async () => {
+            const id = args.paperId ? this.resolvePaper(args.paperId) : undefined;
+            return this.options.store.hybridSearch(args.query, {
+              topK: args.topK ?? 3,
+              mmr: true,
+              filter: id ? document => document.metadata?.paperId === id : undefined,
+            });
+          }),
+      }),
+      tool({
+        name: 'get_section',
+        description:
+          'Reads a section of a paper, e.g. "3.1", "Experiments" or "3.1 Scaled Dot-Product Attention".',
+        parameters: z.object({ paperId, section: z.string().describe('Number or title') }),
+        execute: args =>
+          this.call('get_section', args, async () => {
+            const chunks = this.chunksOf(this.resolvePaper(args.paperId));
+            const wanted = args.section.trim().toLowerCase();
+            const sections = [...new Set(chunks.map(chunk => String(chunk.metadata?.section)))];
+            const section =
+              sections.find(title => title.toLowerCase() === wanted) ??
+              sections.find(title => title.toLowerCase().startsWith(`${wanted} `)) ??
+              sections.find(title => title.toLowerCase().includes(wanted));
+            if (!section) {
+              throw new Error(`No section "${args.section}". Sections: ${sections.join('; ')}`);
+            }
+            return chunks.filter(chunk => chunk.metadata?.section === section).map(toResult);
+          }),
+      }),
+      tool({
+        name: 'get_page',
+        description: 'Reads a page of a paper.',
+        parameters: z.object({ paperId, page: z.number().int().min(1).describe('1-based') }),
+        execute: args =>
+          this.call('get_page', args, async () => {
+            const chunks = this.chunksOf(this.resolvePaper(args.paperId));
+            const pageCount = Math.max(0, ...chunks.map(chunk => chunk.metadata?.pageEnd ?? 0));
+            if (args.page > pageCount) {
+              throw new Error(
+                `Page ${args.page} is out of range: the paper has ${pageCount} pages`
+              );
+            }
+            return chunks
+              .filter(
+                ({ metadata }) => metadata?.pageStart <= args.page && metadata?.pageEnd >= args.page
+              )
+              .map(toResult);
+          }),
+      }),
+      tool({
+        name: 'list_papers',
+        description: 'Lists the papers that can be looked up, with their sections and page counts.',
+        parameters: z.object({}),
+        execute: args =>
+          this.call('list_papers', args, async () =>
+            this.paperIds().map(id => {
+              const chunks = this.chunksOf(id);
+              const { title } = chunks[0].metadata || {};
+              const pages = Math.max(...chunks.map(chunk => chunk.metadata?.pageEnd ?? 0));
+              const sections = [...new Set(chunks.map(chunk => chunk.metadata?.section))];
+              return `${id}: ${title ?? id} (${pages} pages)\nSections: ${sections.join('; ')}`;
+            })
+          ),
+      }),
+      tool({
+        name: 'get_figure_caption',
+        description: 'Finds the caption of a figure or table of a paper, with the page it is on.',
+        parameters: z.object({
+          paperId,
+          figure: z.string().describe('e.g. "3", "Figure 3" or "Table 2"'),
+        }),
+        execute: args =>
+          this.call('get_figure_caption', args, async () => {
+            const kind = /^\s*tab/i.test(args.figure) ? 'Table' : 'Figure';
+            const number = args.figure.replace(/^\s*(fig(ure)?|tab(le)?)\.?\s*/i, '').trim();
+            for (const chunk of this.chunksOf(this.resolvePaper(args.paperId))) {
+              const caption = findCaption(chunk.content, kind, number);
+              if (caption) {
+                return [toResult({ ...chunk, content: caption })];
+              }
+            }
+            throw new Error(`No caption found for ${kind} ${number}`);
+          }),
+      }),
+    ];
+
+    const { library } = this.options;
+    if (library) {
+      tools.push(
+        tool({
+          name: 'lookup_reference',
+          description:
+            'Looks up a work cited by a paper in its references section, and where the paper cites it.',
+          parameters: z.object({
+            paperId,
+            reference: z
+              .string()
+              .describe(
+                'Citation marker ("[12]"), author and year ("Vaswani et al., 2017") or title words'
+              ),
+          }),
+          execute: args =>
+            this.call('lookup_reference', args, async () => {
+              const id = this.resolvePaper(args.paperId);
+              const { entries } = await library.getBibliography(id);
+              if (entries.length === 0) {
+                throw new Error(`No references were extracted from ${id}`);
+              }
+              const found = findReferences(entries, args.reference);
+              if (found.length === 0) {
+                throw new Error(`No reference matches "${args.reference}"`);
+              }
+              return found.map(entry => {
+                const reference = formatReference(entry);
+                const citing = this.chunksOf(id)
+                  .filter(chunk => (chunk.metadata?.citedReferences ?? []).includes(reference))
+                  .map(chunk => `[${chunk.id}]`);
+                return citing.length > 0
+                  ? `${reference}\nCited in ${citing.join(', ')}`
+                  : reference;
+              });
+            }),
+        })
+      );
+    }
+
+    return tools;
+  }
+
+  /**
+   * Runs a tool, records the call and formats its output for the model.
+   * Errors are reported to the model, which can correct its call.
+   */
+  private async call(
+    name: string,
+    args: Record<string, unknown>,
+    execute: () => Promise<SearchResult[] | string[]>
+  ): Promise<string> {
+    const call: ToolCall = { name, arguments: args, chunkIds: [] };
+    let output: string;
+    try {
+      const results = await execute();
+      if (results.length === 0) {
+        output = 'Nothing found.';
+      } else if (typeof results[0] === 'string') {
+        output = (results as string[]).join('\n\n');
+      } else {
+        const chunks = (results as SearchResult[]).slice(0, MAX_TOOL_CHUNKS);
+        for (const result of chunks) {
+          call.chunkIds.push(result.document.id);
+          if (!this.returned.has(result.document.id)) {
+            this.returned.set(result.document.id, result);
+          }
+        }
+        output = chunks.map(({ document }) => formatExcerpt(document)).join('\n\n');
+        if (results.length > chunks.length) {
+          output += `\n\n(${results.length - chunks.length} more chunks not shown)`;
+        }
+      }
+    } catch (error) {
+      call.error = error instanceof Error ? error.message : String(error);
+      output = `Error: ${call.error}`;
+    }
+
+    this.log.push(call);
+    this.options.onToolCall?.(call);
+    return output;
+  }
+
+  /**
+   * Ids of the papers in the store, in order of their chunks
+   */
+  private paperIds(): string[] {
+    const ids = this.options.store.getAllDocuments().map(doc => doc.metadata?.paperId);
+    return [...new Set(ids.filter((id): id is string => typeof id === 'string'))];
+  }
+
+  /**
+   * Resolves a paper id or unique prefix among the papers in scope
+   * @throws PaperNotFoundError if no paper, or more than one, matches
+   */
+  private resolvePaper(idOrPrefix: string): string {
+    const ids = this.paperIds();
+    if (ids.includes(idOrPrefix)) {
+      return idOrPrefix;
+    }
+    const matches = ids.filter(id => id.startsWith(idOrPrefix));
+    if (matches.length !== 1) {
+      throw new PaperNotFoundError(
+        `No paper "${idOrPrefix}" in scope. Papers: ${ids.join(', ') || 'none'}`
+      );
+    }
+    return matches[0];
+  }
+
+  /**
+   * Chunks of a paper, in reading order
+   */
+  private chunksOf(paperId: string): Document[] {
+    return this.options.store
+      .getAllDocuments()
+      .filter(doc => doc.metadata?.paperId === paperId)
+      .sort((a, b) => (a.metadata?.chunkIndex ?? 0) - (b.metadata?.chunkIndex ?? 0));
+  }
+}
+
+/**
+ * Wraps a chunk read by id as a search result, scored 1 since it was asked for
+ */
+function toResult(document: Document): SearchResult {
+  return { document, score: 1 };
+}
@@ -0,0 +1,469 @@
+import type { ParsedPaper, PaperPage } from './paper-chunker.js';
+
+/**
+ * Options for cleaning up text extracted from a PDF
+ */
+export interface CleanPdfOptions {
+  /**
+   * Remove running headers, footers and page numbers repeated across pages
+   * @default true
+   */
+  headersAndFooters?: boolean;
+
+  /**
+   * Join words hyphenated across line (and page) breaks
+   * @default true
+   */
+  dehyphenate?: boolean;
+
+  /**
+   * Replace typographic ligatures (ﬁ, ﬂ, ...) by their letters
+   * @default true
+   */
+  ligatures?: boolean;
+
+  /**
+   * Read two-column pages column by column instead of line by line
+   * @default true
+   */
+  columns?: boolean;
+}
+
+/**
+ * Where a run of cleaned text comes from. The run starts at `start` in the
+ * cleaned text and continues up to the start of the next span.
+ */
+export interface SourceSpan {
+  /**
+   * Offset of the run in the cleaned paper text
+   */
+  start: number;
+
+  /**
+   * Page the run was extracted from
+   */
+  page: number;
+
+  /**
+   * Offset of the run in the text extracted from that page
+   */
+  sourceOffset: number;
+}
+
+/**
+ * A paper parsed from PDF text, with the mapping back to the extracted pages
+ */
+export interface CleanedPaper extends ParsedPaper {
+  /**
+   * Spans mapping cleaned offsets to offsets in the extracted page texts,
+   * ordered by `start`
+   */
+  sourceMap: SourceSpan[];
+}
+
+/**
+ * A piece of a line together with its offset in the extracted page text
+ */
+interface Segment {
+  text: string;
+  source: number;
+}
+
+type Line = Segment[];
+
+const LIGATURES: Record<string, string> = {
+  '\ufb00': 'ff',
+  '\ufb01': 'fi',
+  '\ufb02': 'fl',
+  '\ufb03': 'ffi',
+  '\ufb04': 'ffl',
+  '\ufb05': 'st',
+  '\ufb06': 'st',
+};
+
+/**
+ * Number of lines at the top and bottom of a page searched for headers and footers
+ */
+const EDGE_LINES = 3;
+
+/**
+ * Running headers and footers once their digits are masked, e.g. "- # -" or "Page # of #"
+ */
+const PAGE_NUMBER = /^(page\s*)?[-–—(]?\s*#+\s*[-–—)]?(\s*(of|\/)\s*#+)?$/i;
+
+/**
+ * Minimum length of both halves of a line for it to count as two columns
+ */
+const MIN_COLUMN_CHARS = 12;
+
+const lineText = (line: Line) => line.map(segment => segment.text).join('');
+
+/**
+ * Splits page text into lines of segments that remember their source offsets
+ */
+function splitLines(text: string): Line[] {
+  let offset = 0;
+  return text.split('\n').map(line => {
+    const segment = { text: line, source: offset };
+    offset += line.length + 1;
+    return [segment];
+  });
+}
+
+/**
+ * Removes characters from the start of a line, keeping source offsets exact
+ */
+function dropPrefix(line: Line, count: number): Line {
+  const result: Line = [];
+  let remaining = count;
+  for (const segment of line) {
+    if (remaining >= segment.text.length) {
+      remaining -= segment.text.length;
+    } else {
+      result.push({
+        text: segment.text.slice(remaining),
+        source: segment.source + remaining,
+      });
+      remaining = 0;
+    }
+  }
+  return result;
+}
+
+/**
+ * Splits a line at a character offset
+ */
+function splitLine(line: Line, at: number): [Line, Line] {
+  const tail = dropPrefix(line, at);
+  const head: Line = [];
+  let remaining = at;
+  for (const segment of line) {
+    if (remaining <= 0) {
+      break;
+    }
+    head.push({ text: segment.text.slice(0, remaining), source: segment.source });
+    remaining -= segment.text.length;
+  }
+  return [head, tail];
+}
+
+/**
+ * Trims whitespace at both ends of a line
+ */
+function trimLine(line: Line): Line {
+  const text = lineText(line);
+  const start = text.length - text.trimStart().length;
+  const [head] = splitLine(line, text.trimEnd().length);
+  return dropPrefix(head, start);
+}
+
+/**
+ * Replaces ligatures and drops soft hyphens, splitting segments so that each
+ * replaced character maps to its own source offset
+ */
+function normalizeCharacters(line: Line, ligatures: boolean): Line {
+  const pattern = ligatures ? /[\ufb00-\ufb06\u00ad]/g : /\u00ad/g;
+  return line.flatMap(segment => {
+    const pieces: Segment[] = [];
+    let last = 0;
+    for (const match of segment.text.matchAll(pattern)) {
+      const index = match.index!;
+      pieces.push({ text: segment.text.slice(last, index), source: segment.source + last });
+      // A soft hyphen at the end of a line is a hyphenation point
+      const replacement =
+        match[0] === '\u00ad'
+          ? index === segment.text.length - 1
+            ? '-'
+            : ''
+          : LIGATURES[match[0]];
+      pieces.push({ text: replacement, source: segment.source + index });
+      last = index + 1;
+    }
+    pieces.push({ text: segment.text.slice(last), source: segment.source + last });
+    return pieces.filter(piece => piece.text.length > 0);
+  });
+}
+
+/**
+ * Key under which a line is compared with lines on other pages
+ */
+function edgeKey(line: Line): string {
+  return lineText(line).trim().replace(/\s+/g, ' ').replace(/\d+/g, '#').toLowerCase();
+}
+
+/**
+ * Offset between the number printed at either end of a line and the page
+ * number, e.g. "Chapter 2: Methods 4" on page 7 gives "-3"
+ */
+function pageNumberOffset(line: Line, pageNumber: number): string | undefined {
+  const printed = lineText(line)
+    .trim()
+    .match(/^(\d{1,4})\b|\b(\d{1,4})$/);
+  return printed ? String(Number(printed[1] ?? printed[2]) - pageNumber) : undefined;
+}
+
+/**
+ * Finds running headers and footers: lines near the top or bottom of a page
+ * that repeat, up to their digits, on many pages. Outermost lines whose
+ * printed number follows the page number are running headers too, even when
+ * their text changes (e.g. with the chapter).
+ * @returns For each page, the indexes of lines to remove
+ */
+function findRunningLines(pages: Line[][], pageNumbers: number[]): Set<number>[] {
+  const edges = pages.map((lines, page) => {
+    const nonEmpty = lines
+      .map((line, index) => ({
+        index,
+        key: edgeKey(line),
+        offset: pageNumberOffset(line, pageNumbers[page]),
+      }))
+      .filter(({ key }) => key.length > 0);
+    return {
+      top: nonEmpty.slice(0, EDGE_LINES),
+      bottom: nonEmpty.slice(-EDGE_LINES).reverse(),
+    };
+  });
+
+  const counts = new Map<string, number>();
+  for (const { top, bottom } of edges) {
+    const keys = new Set([
+      ...top.map(({ key }) => `top:${key}`),
+      ...bottom.map(({ key }) => `bottom:${key}`),
+      `top-number:${top[0]?.offset}`,
+      `bottom-number:${bottom[0]?.offset}`,
+    ]);
+    keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  }
+
+  // Odd and even pages often have different headers, so 40% of the pages is enough
+  const minPages = Math.max(2, Math.ceil(pages.length * 0.4));
+  const repeated = (position: string, key: string) =>
+    pages.length >= 3 && (counts.get(`${position}:${key}`) ?? 0) >= minPages;
+
+  return edges.map(({ top, bottom }) => {
+    const removed = new Set<number>();
+    for (const [position, lines] of [
+      ['top', top],
+      ['bottom', bottom],
+    ] as const) {
+      // Only strip from the edge inwards, so body text between is never touched
+      for (const [i, { index, key, offset }] of lines.entries()) {
+        const numbered = i === 0 && offset !== undefined && repeated(`${position}-number`, offset);
+        if (!PAGE_NUMBER.test(key) && !repeated(position, key) && !numbered) {
+          break;
+        }
+        removed.add(index);
+      }
+    }
+    return removed;
+  });
+}
+
+/**
+ * Reorders a two-column page so the left column is read before the right one.
+ * Text extraction separates items on the same baseline that are far apart
+ * with a tab, so a two-column page has a tab between the columns on most lines.
+ */
+function readColumns(lines: Line[]): Line[] {
+  const splits = lines.map(line => {
+    const text = lineText(line);
+    const tab = text.indexOf('\t');
+    if (tab === -1) {
+      return undefined;
+    }
+    const left = text.slice(0, tab).trim();
+    const right = text.slice(tab + 1).trim();
+    return left.length >= MIN_COLUMN_CHARS && right.length >= MIN_COLUMN_CHARS ? tab : undefined;
+  });
+
+  const nonEmpty = lines.filter(line => lineText(line).trim().length > 0).length;
+  const twoColumn = splits.filter(split => split !== undefined).length;
+  if (twoColumn < 5 || twoColumn < nonEmpty * 0.3) {
+    return lines;
+  }
+
+  // Lines before the first and after the last two-column line span the page
+  const first = splits.findIndex(split => split !== undefined);
+  const last = splits.length - 1 - [...splits].reverse().findIndex(split => split !== undefined);
+
+  const left: Line[] = [];
+  const right: Line[] = [];
+  for (let i = first; i <= last; i++) {
+    const split = splits[i];
+    if (split === undefined) {
+      left.push(lines[i]);
+    } else {
+      const [head, tail] = splitLine(lines[i], split);
+      left.push(head);
+      right.push(dropPrefix(tail, 1));
+    }
+  }
+
+  return [...lines.slice(0, first), ...left, ...right, ...lines.slice(last + 1)];
+}
+
+/**
+ * Joins words hyphenated at the end of a line with their continuation on the
+ * next line. The hyphen is kept when the document spells the word with one
+ * elsewhere (e.g. "self-attention").
+ * @returns The pages without lines left empty by joining
+ */
+function dehyphenate(pages: Line[][]): Line[][] {
+  const words = new Set<string>();
+  for (const lines of pages) {
+    for (const line of lines) {
+      for (const match of lineText(line).matchAll(/\p{L}+(?:-\p{L}+)*/gu)) {
+        words.add(match[0].toLowerCase());
+      }
+    }
+  }
+
+  const emptied = new Set<Line>();
+  const positions = pages.flatMap((lines, page) => lines.map((_, line) => ({ page, line })));
+  for (let i = 0; i < positions.length; i++) {
+    const { page, line } = positions[i];
+    const current = trimLine(pages[page][line]);
+    const text = lineText(current);
+    const prefix = text.match(/(\p{L}+)-$/u);
+    if (!prefix) {
+      continue;
+    }
+
+    // The continuation is on the next non-empty line, possibly on the next page
+    let j = i + 1;
+    while (j < positions.length && !lineText(pages[positions[j].page][positions[j].line]).trim()) {
+      j++;
+    }
+    if (j >= positions.length) {
+      continue;
+    }
+    const next = positions[j];
+    const nextLine = trimLine(pages[next.page][next.line]);
+    const fragment = lineText(nextLine).match(/^\p{Ll}[\p{L}'’]*[.,;:!?)\]]*/u);
+    if (!fragment) {
+      continue;
+    }
+
+    const word = fragment[0].match(/^[\p{L}'’]+/u)![0];
+    const joined = `${prefix[1]}${word}`.toLowerCase();
+    const hyphenated = `${prefix[1]}-${word}`.toLowerCase();
+    const keepHyphen = words.has(hyphenated) && !words.has(joined);
+
+    const [head] = splitLine(current, keepHyphen ? text.length : text.length - 1);
+    const [moved, rest] = splitLine(nextLine, fragment[0].length);
+    pages[page][line] = [...head, ...moved];
+    pages[next.page][next.line] = trimLine(rest);
+    if (pages[next.page][next.line].length === 0) {
+      emptied.add(pages[next.page][next.line]);
+    }
+  }
+
+  // Drop lines that were only the end of a hyphenated word
+  return pages.map(lines => lines.filter(line => !emptied.has(line)));
+}
+
+/**
+ * Cleans the text extracted from the pages of a PDF and joins it into a
+ * ParsedPaper: running headers, footers and page numbers are removed,
+ * hyphenated words joined, ligatures expanded and two-column pages read
+ * column by column. Page boundaries are kept, and `sourceMap` maps offsets
+ * in the cleaned text back to offsets in the extracted page texts.
+ * @param pages - Extracted page texts in page order
+ * @param options - Cleanup steps to apply
+ * @returns The cleaned paper
+ */
+export function cleanPdfPages(
+  pages: { number: number; text: string }[],
+  options: CleanPdfOptions = {}
+): CleanedPaper {
+  const {
+    headersAndFooters = true,
+    dehyphenate: joinHyphenated = true,
+    ligatures = true,
+    columns = true,
+  } = options;
+
+  let lines = pages.map(page =>
+    splitLines(page.text.replace(/\r/g, ' ')).map(line => normalizeCharacters(line, ligatures))
+  );
+
+  if (headersAndFooters) {
+    const running = findRunningLines(
+      lines,
+      pages.map(page => page.number)
+    );
+    lines = lines.map((pageLines, page) => pageLines.filter((_, i) => !running[page].has(i)));
+  }
+  if (columns) {
+    lines = lines.map(readColumns);
+  }
+  if (joinHyphenated) {
+    lines = dehyphenate(lines);
+  }
+
+  let text = '';
+  const layout: PaperPage[] = [];
+  const sourceMap: SourceSpan[] = [];
+
+  pages.forEach((page, index) => {
+    const pageLines = lines[index].map(trimLine);
+    while (pageLines.length > 0 && pageLines[0].length === 0) pageLines.shift();
+    while (pageLines.length > 0 && pageLines[pageLines.length - 1].length === 0) pageLines.pop();
+
+    if (text.length > 0) {
+      text += '\n\n';
+    }
+    const start = text.length;
+    pageLines.forEach((line, i) => {
+      if (i > 0) {
+        text += '\n';
+      }
+      for (const segment of line) {
+        // Only record where the text stops following the source one to one
+        const previous = sourceMap[sourceMap.length - 1];
+        if (
+          !previous ||
+          previous.page !== page.number ||
+          previous.sourceOffset + (text.length - previous.start) !== segment.source
+        ) {
+          sourceMap.push({ start: text.length, page: page.number, sourceOffset: segment.source });
+        }
+        text += segment.text;
+      }
+    });
+    layout.push({ number: page.number, start, end: text.length });
+  });
+
+  return { text, pages: layout, sourceMap };
+}
+
+/**
+ * Finds where a character of a cleaned paper was extracted from
+ * @param paper - The cleaned paper, or a paper loaded from a PDF
+ * @param offset - Offset in the cleaned text
+ * @returns The page and the offset in the text extracted from it, or
+ *   undefined if the offset is outside the text
+ */
+export function sourceLocation(
+  paper: { text: string; sourceMap?: SourceSpan[] },
+  offset: number
+): { page: number; offset: number } | undefined {
+  const { sourceMap = [] } = paper;
+  if (offset < 0 || offset >= paper.text.length || sourceMap.length === 0) {
+    return undefined;
+  }
+
+  let low = 0;
+  let high = sourceMap.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (sourceMap[mid].start <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const span = sourceMap[low];
+  return { page: span.page, offset: span.sourceOffset + Math.max(0, offset - span.start) };
+}
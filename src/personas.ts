@@ -0,0 +1,228 @@
+import { existsSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { basename, extname, join } from 'path';
+import { z } from 'zod';
+import { GangstaAgentInitializationOptionsSchema } from './gansgta-agent.js';
+import { parseYaml } from './yaml.js';
+
+/**
+ * Persona used when none is selected
+ */
+export const DEFAULT_PERSONA = 'the-g';
+
+/**
+ * Directory of the library holding persona files
+ */
+export const PERSONAS_DIR_NAME = 'personas';
+
+/**
+ * File extensions persona files may have
+ */
+const PERSONA_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * A persona as defined in a file: every field is optional, and missing ones
+ * are inherited from the personas and principle packs it extends
+ */
+export const PersonaDefinitionSchema = z
+  .object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    extends: z.union([z.string(), z.array(z.string())]).optional(),
+    principles: z.array(z.string()).optional(),
+    model: z.string().optional(),
+  })
+  .strict();
+
+export type PersonaDefinition = z.infer<typeof PersonaDefinitionSchema>;
+
+/**
+ * A fully resolved persona, validated by the agent options schema
+ */
+export const GangstaPersonaSchema = GangstaAgentInitializationOptionsSchema.pick({
+  name: true,
+  description: true,
+  principles: true,
+}).extend({ model: z.string().optional() });
+
+export type GangstaPersona = z.infer<typeof GangstaPersonaSchema>;
+
+/**
+ * Error raised when a persona cannot be found, read or resolved
+ */
+export class PersonaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonaError';
+  }
+}
+
+/**
+ * Built-in principle packs: personas without a name that other personas
+ * extend to pick up a set of principles
+ */
+export const BUILTIN_PRINCIPLE_PACKS: Record<string, PersonaDefinition> = {
+  grounded: {
+    principles: [
+      'Keep it real: only claim what the paper actually says, and say when it does not say.',
+      'Cite the excerpt ids you rely on.',
+    ],
+  },
+  'plain-language': {
+    principles: ['Break hard ideas down so anyone can follow, without dumbing them down.'],
+  },
+  practical: {
+    principles: ['Point out what can be put into practice.'],
+  },
+  critical: {
+    principles: [
+      'Question every claim: check that the evidence in the paper actually supports it.',
+      'Call out missing baselines, weak ablations, small samples and cherry-picked results.',
+    ],
+  },
+};
+
+/**
+ * Built-in personas
+ */
+export const BUILTIN_PERSONAS: Record<string, PersonaDefinition> = {
+  'the-g': {
+    name: 'The G',
+    description: 'The original gangster of research: clear, factual, and real with you.',
+    extends: ['grounded', 'plain-language', 'practical'],
+  },
+  'skeptical-reviewer': {
+    name: 'Skeptical Reviewer',
+    description:
+      'A tough but fair reviewer who reads every paper as a submission to accept or reject.',
+    extends: ['grounded', 'critical'],
+    principles: ['End with the strongest and the weakest point of the paper.'],
+  },
+  'eli5-mentor': {
+    name: 'ELI5 Mentor',
+    description: 'A patient mentor who explains research to someone new to the field.',
+    extends: ['grounded', 'plain-language'],
+    principles: [
+      'Explain like the reader is five: everyday analogies first, jargon only once defined.',
+      'Check understanding by summing up the idea in one sentence at the end.',
+    ],
+  },
+  practitioner: {
+    name: 'The Practitioner',
+    description: 'An engineer who wants to know what works in production and what it costs.',
+    extends: ['grounded', 'practical'],
+    principles: [
+      'Focus on compute, data and engineering effort needed to reproduce the results.',
+      'Say when a result is unlikely to hold outside the benchmark it was measured on.',
+    ],
+  },
+  'the-og': {
+    name: 'The OG',
+    description: 'The G, old school: has read every paper since the nineties and keeps score.',
+    extends: 'the-g',
+    principles: [
+      'Place the paper in the history of its field: what came before and what it changed.',
+    ],
+  },
+};
+
+/**
+ * Parses a persona file
+ * @param text - Contents of the file
+ * @param fileName - Name of the file, whose extension tells JSON from YAML
+ * @returns The persona definition
+ * @throws PersonaError if the file cannot be parsed or does not define a persona
+ */
+export function parsePersonaFile(text: string, fileName: string): PersonaDefinition {
+  let data: unknown;
+  try {
+    data = extname(fileName).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new PersonaError(
+      `Cannot parse ${fileName}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = PersonaDefinitionSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.errors.map(
+      issue => `${issue.path.join('.') || 'persona'}: ${issue.message}`
+    );
+    throw new PersonaError(`Invalid persona in ${fileName}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Loads the built-in personas and principle packs together with those
+ * defined in `<libraryDir>/personas/*.{json,yaml,yml}`. A file named like a
+ * built-in replaces it.
+ * @param libraryDir - The library directory
+ * @returns Persona definitions by id (the file name without extension)
+ */
+export async function loadPersonas(libraryDir?: string): Promise<Map<string, PersonaDefinition>> {
+  const personas = new Map(Object.entries({ ...BUILTIN_PRINCIPLE_PACKS, ...BUILTIN_PERSONAS }));
+
+  const dir = libraryDir && join(libraryDir, PERSONAS_DIR_NAME);
+  if (!dir || !existsSync(dir)) {
+    return personas;
+  }
+
+  for (const fileName of (await readdir(dir)).sort()) {
+    const extension = extname(fileName).toLowerCase();
+    if (PERSONA_EXTENSIONS.includes(extension)) {
+      const text = await readFile(join(dir, fileName), 'utf-8');
+      personas.set(basename(fileName, extname(fileName)), parsePersonaFile(text, fileName));
+    }
+  }
+
+  return personas;
+}
+
+/**
+ * Resolves a persona, merging in what it extends: principles are composed
+ * in order (those of extended personas first, without duplicates), and name,
+ * description and model are inherited unless the persona sets them.
+ * @param id - The persona id
+ * @param personas - Persona definitions by id, see loadPersonas
+ * @returns The resolved persona
+ * @throws PersonaError if a persona is unknown, extends itself, or resolves
+ *   to an incomplete persona
+ */
+export function resolvePersona(
+  id: string,
+  personas: Map<string, PersonaDefinition>
+): GangstaPersona {
+  const resolve = (current: string, chain: string[]): PersonaDefinition => {
+    const definition = personas.get(current);
+    if (!definition) {
+      const known = [...personas.keys()].join(', ');
+      const from = chain.length > 0 ? ` (extended by "${chain[chain.length - 1]}")` : '';
+      throw new PersonaError(`Unknown persona "${current}"${from}. Available: ${known}`);
+    }
+    if (chain.includes(current)) {
+      throw new PersonaError(
+        `Persona "${current}" extends itself: ${[...chain, current].join(' -> ')}`
+      );
+    }
+
+    const parents = [definition.extends ?? []]
+      .flat()
+      .map(parent => resolve(parent, [...chain, current]));
+    const merged: PersonaDefinition = {};
+    for (const layer of [...parents, definition]) {
+      merged.name = layer.name ?? merged.name;
+      merged.description = layer.description ?? merged.description;
+      merged.model = layer.model ?? merged.model;
+      merged.principles = [...new Set([...(merged.principles ?? []), ...(layer.principles ?? [])])];
+    }
+    return merged;
+  };
+
+  const result = GangstaPersonaSchema.safeParse(resolve(id, []));
+  if (!result.success) {
+    const missing = result.error.errors.map(issue => issue.path.join('.')).join(', ');
+    throw new PersonaError(`Persona "${id}" is incomplete: ${missing} must be set`);
+  }
+  return result.data;
+}
@@ -1,5 +1,26 @@
-import { describe, it, expect } from 'vitest';
-import { GangstaAgent, GangstaAgentInitializationOptionsError } from '../gansgta-agent';
+import { describe, it, expect, vi } from 'vitest';
+import { run } from '@openai/agents';
+import {
+  GangstaAgent,
+  GangstaAgentInitializationOptionsError,
+  extractCitations,
+} from '../gansgta-agent';
+import { HashEmbeddingProvider } from '../embedding-providers';
+import { MemoryVectorStore, SearchResult } from '../memory-vector-store';
+
+vi.mock('@openai/agents', async importOriginal => {
+  const actual = await importOriginal<typeof import('@openai/agents')>();
+  return { ...actual, run: vi.fn() };
+});
+
+const source = (id: string, score: number, section: string, page: number): SearchResult => ({
+  document: {
+    id,
+    content: `content of ${id}`,
+    metadata: { paperId: 'paper', section, pageStart: page, pageEnd: page },
+  },
+  score,
+});
 
 describe('Gangsta Agent', () => {
   it('should construct successfully with valid options', () => {
@@ -108,4 +129,85 @@ describe('Gangsta Agent', () => {
       );
     }
   });
+
+  describe('Grounded responses', () => {
+    const options = {
+      name: 'OG Researcher',
+      description: 'The original gangster in research analysis',
+      principles: ['realness'],
+      model: 'gpt-4.1',
+      embeddingProvider: new HashEmbeddingProvider({ dimension: 64 }),
+    };
+
+    it('should extract citations in order of first use', () => {
+      const sources = [
+        source('paper#0', 0.9, 'Abstract', 1),
+        source('paper#1', 0.8, '2 Method', 3),
+        source('paper#2', 0.7, '4 Results', 6),
+      ];
+
+      const citations = extractCitations(
+        'It works [paper#2]. Because of the method [paper#1, paper#2]. See [1].',
+        sources
+      );
+
+      expect(citations).toEqual([
+        {
+          chunkId: 'paper#2',
+          paperId: 'paper',
+          section: '4 Results',
+          page: 6,
+          pageEnd: 6,
+          score: 0.7,
+        },
+        {
+          chunkId: 'paper#1',
+          paperId: 'paper',
+          section: '2 Method',
+          page: 3,
+          pageEnd: 3,
+          score: 0.8,
+        },
+      ]);
+    });
+
+    it('should not attribute an uncited answer to the retrieved chunks', () => {
+      const sources = [source('paper#0', 0.9, 'Abstract', 1)];
+      expect(extractCitations("The excerpts don't say.", sources)).toEqual([]);
+    });
+
+    it('should answer from retrieved chunks and return citations', async () => {
+      const store = new MemoryVectorStore({ embeddingProvider: options.embeddingProvider });
+      await store.addDocuments([
+        {
+          id: 'paper#0',
+          content: 'The Transformer relies entirely on self-attention.',
+          metadata: { paperId: 'paper', section: 'Abstract', pageStart: 1, pageEnd: 1 },
+        },
+        {
+          id: 'paper#1',
+          content: 'We train on the WMT 2014 English-German dataset.',
+          metadata: { paperId: 'paper', section: '5 Training', pageStart: 7, pageEnd: 7 },
+        },
+      ]);
+      vi.mocked(run).mockResolvedValueOnce({
+        finalOutput: 'They trained on WMT 2014 [paper#1].',
+        rawResponses: [],
+      } as unknown as Awaited<ReturnType<typeof run>>);
+
+      const agent = new GangstaAgent(options);
+      const response = await agent.answer('Which dataset was used?', store, { topK: 2 });
+
+      const [, prompt] = vi.mocked(run).mock.calls[0];
+      expect(prompt).toContain('[paper#1]');
+      expect(prompt).toContain('We train on the WMT 2014 English-German dataset.');
+      expect(response.answer).toBe('They trained on WMT 2014 [paper#1].');
+      expect(response.citations).toHaveLength(1);
+      expect(response.citations[0]).toMatchObject({
+        chunkId: 'paper#1',
+        section: '5 Training',
+        page: 7,
+      });
+    });
+  });
 });
@@ -0,0 +1,491 @@
+import { Buffer } from 'buffer';
+import { randomBytes } from 'crypto';
+import { open, readFile, rename, unlink, type FileHandle } from 'fs/promises';
+import type { Document } from './memory-vector-store.js';
+
+/**
+ * Current version of the vector store file format
+ */
+export const VECTOR_STORE_FILE_VERSION = 1;
+
+/**
+ * File magic: "RGVS" (Research Gangsta Vector Store)
+ */
+const MAGIC = Buffer.from('RGVS', 'ascii');
+
+/**
+ * Segment type holding document records and their vectors
+ */
+const DOCUMENT_SEGMENT = 0x44; // 'D'
+
+/**
+ * Segment type holding a serialized search index (JSON)
+ */
+const INDEX_SEGMENT = 0x49; // 'I'
+
+/**
+ * Size of the fixed preamble: magic, version, reserved, header length
+ */
+const PREAMBLE_SIZE = 4 + 2 + 2 + 4;
+
+/**
+ * Header of a vector store file
+ */
+export interface VectorStoreFileHeader {
+  /**
+   * Format version the file was written with
+   */
+  formatVersion: number;
+
+  /**
+   * Embedding model the vectors were produced by
+   */
+  embeddingModel: string;
+
+  /**
+   * Dimension of every vector in the file
+   */
+  dimension: number;
+
+  /**
+   * ISO timestamp of the last full rewrite
+   */
+  createdAt: string;
+
+  /**
+   * Named collections of the store besides the default one, including empty ones
+   */
+  collections?: { name: string; createdAt: string }[];
+}
+
+/**
+ * A change to the document set, as stored in a document segment
+ */
+export type VectorStoreRecord =
+  | { op: 'put'; document: Document }
+  | { op: 'delete'; id: string; collection?: string };
+
+/**
+ * Identifies a document across collections: its id in the default
+ * collection, and collection and id otherwise
+ * @param id - The document id
+ * @param collection - The collection, undefined for the default collection
+ * @returns The key
+ */
+export function documentKey(id: string, collection?: string): string {
+  return collection === undefined ? id : `${collection}\u0000${id}`;
+}
+
+/**
+ * Contents of a vector store file
+ */
+export interface VectorStoreFileContents {
+  header: VectorStoreFileHeader;
+
+  /**
+   * Current documents, after replaying all segments
+   */
+  documents: Document[];
+
+  /**
+   * The last search index saved in the file, if any
+   */
+  index?: {
+    /**
+     * The serialized index
+     */
+    data: unknown;
+
+    /**
+     * Changes appended after the index was written, to be applied to it
+     */
+    pending: VectorStoreRecord[];
+  };
+}
+
+/**
+ * Error raised when a vector store file is truncated, has a bad checksum or
+ * is otherwise not a valid vector store file
+ */
+export class VectorStoreCorruptionError extends Error {
+  constructor(path: string, message: string) {
+    super(`Corrupt vector store file ${path}: ${message}`);
+    this.name = 'VectorStoreCorruptionError';
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 (IEEE) checksum of a buffer
+ * @param data - The bytes to checksum
+ * @returns The checksum
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encodes the file preamble and JSON header, followed by the header checksum
+ */
+function encodeHeader(header: VectorStoreFileHeader): Buffer {
+  const json = Buffer.from(JSON.stringify(header), 'utf-8');
+  const preamble = Buffer.alloc(PREAMBLE_SIZE);
+  MAGIC.copy(preamble, 0);
+  preamble.writeUInt16LE(VECTOR_STORE_FILE_VERSION, 4);
+  preamble.writeUInt16LE(0, 6);
+  preamble.writeUInt32LE(json.length, 8);
+
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32LE(crc32(Buffer.concat([preamble, json])), 0);
+  return Buffer.concat([preamble, json, checksum]);
+}
+
+/**
+ * Encodes a segment: type byte, payload length, payload, payload checksum
+ */
+function encodeSegment(type: number, payload: Buffer): Buffer {
+  const head = Buffer.alloc(5);
+  head.writeUInt8(type, 0);
+  head.writeUInt32LE(payload.length, 1);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32LE(crc32(payload), 0);
+  return Buffer.concat([head, payload, checksum]);
+}
+
+/**
+ * Encodes document records: the records as JSON (without vectors), then the
+ * vectors of the `put` records as packed little-endian Float32
+ */
+function encodeDocumentSegment(records: VectorStoreRecord[], dimension: number): Buffer {
+  const vectors: number[][] = [];
+  const entries = records.map(record => {
+    if (record.op === 'delete') {
+      return record;
+    }
+    const { embedding, ...rest } = record.document;
+    if (!embedding || embedding.length !== dimension) {
+      throw new Error(`Document ${rest.id} must have an embedding of dimension ${dimension}`);
+    }
+    vectors.push(embedding);
+    return { op: 'put', ...rest };
+  });
+
+  const json = Buffer.from(JSON.stringify(entries), 'utf-8');
+  const body = Buffer.alloc(4 + json.length + vectors.length * dimension * 4);
+  body.writeUInt32LE(json.length, 0);
+  json.copy(body, 4);
+
+  let offset = 4 + json.length;
+  for (const vector of vectors) {
+    for (const value of vector) {
+      body.writeFloatLE(value, offset);
+      offset += 4;
+    }
+  }
+
+  return encodeSegment(DOCUMENT_SEGMENT, body);
+}
+
+/**
+ * Decodes the records of a document segment payload
+ */
+function decodeDocumentSegment(
+  path: string,
+  payload: Buffer,
+  dimension: number
+): VectorStoreRecord[] {
+  const jsonLength = payload.readUInt32LE(0);
+  let entries:
+    | ({ op: 'put'; id: string } & Omit<Document, 'id'>)[]
+    | { op: 'delete'; id: string; collection?: string }[];
+  try {
+    entries = JSON.parse(payload.subarray(4, 4 + jsonLength).toString('utf-8'));
+  } catch {
+    throw new VectorStoreCorruptionError(path, 'unreadable document records');
+  }
+
+  let offset = 4 + jsonLength;
+  const records: VectorStoreRecord[] = [];
+  for (const entry of entries) {
+    if (entry.op === 'delete') {
+      records.push(
+        entry.collection === undefined
+          ? { op: 'delete', id: entry.id }
+          : { op: 'delete', id: entry.id, collection: entry.collection }
+      );
+      continue;
+    }
+
+    if (offset + dimension * 4 > payload.length) {
+      throw new VectorStoreCorruptionError(path, `missing vector for document ${entry.id}`);
+    }
+    const embedding = new Array<number>(dimension);
+    for (let i = 0; i < dimension; i++) {
+      embedding[i] = payload.readFloatLE(offset);
+      offset += 4;
+    }
+
+    const { id, content, metadata, collection } = entry;
+    records.push({
+      op: 'put',
+      document: {
+        id,
+        content,
+        ...(metadata !== undefined ? { metadata } : {}),
+        embedding,
+        ...(collection !== undefined ? { collection } : {}),
+      },
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Reads and validates the header at the start of a file
+ * @returns The header and the offset of the first segment
+ */
+function decodeHeader(path: string, data: Buffer): { header: VectorStoreFileHeader; end: number } {
+  if (data.length < PREAMBLE_SIZE || !data.subarray(0, 4).equals(MAGIC)) {
+    throw new VectorStoreCorruptionError(path, 'not a vector store file');
+  }
+
+  const version = data.readUInt16LE(4);
+  if (version > VECTOR_STORE_FILE_VERSION) {
+    throw new Error(
+      `Vector store file ${path} has format version ${version}; this version supports up to ${VECTOR_STORE_FILE_VERSION}`
+    );
+  }
+
+  const jsonLength = data.readUInt32LE(8);
+  const end = PREAMBLE_SIZE + jsonLength + 4;
+  if (data.length < end) {
+    throw new VectorStoreCorruptionError(path, 'truncated header');
+  }
+  if (crc32(data.subarray(0, PREAMBLE_SIZE + jsonLength)) !== data.readUInt32LE(end - 4)) {
+    throw new VectorStoreCorruptionError(path, 'header checksum mismatch');
+  }
+
+  const header = JSON.parse(
+    data.subarray(PREAMBLE_SIZE, PREAMBLE_SIZE + jsonLength).toString('utf-8')
+  );
+  return { header, end };
+}
+
+/**
+ * Writes a complete vector store file atomically: the data goes to a temp file
+ * that is flushed to disk and then renamed over the target.
+ * @param path - The target file
+ * @param header - The file header
+ * @param documents - All documents of the store
+ * @param index - Serialized search index to store after the documents
+ */
+export async function writeVectorStoreFile(
+  path: string,
+  header: Omit<VectorStoreFileHeader, 'formatVersion' | 'createdAt'>,
+  documents: Document[],
+  index?: unknown
+): Promise<void> {
+  const segments = [
+    encodeHeader({
+      formatVersion: VECTOR_STORE_FILE_VERSION,
+      createdAt: new Date().toISOString(),
+      ...header,
+    }),
+    encodeDocumentSegment(
+      documents.map(document => ({ op: 'put', document })),
+      header.dimension
+    ),
+  ];
+  if (index !== undefined) {
+    segments.push(encodeSegment(INDEX_SEGMENT, Buffer.from(JSON.stringify(index), 'utf-8')));
+  }
+  const data = Buffer.concat(segments);
+
+  const tempPath = `${path}.${randomBytes(6).toString('hex')}.tmp`;
+  const handle = await open(tempPath, 'w');
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } catch (error) {
+    await handle.close();
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+  await handle.close();
+  await rename(tempPath, path);
+}
+
+/**
+ * Finds the end of the last intact segment of an open file. A final segment
+ * torn by an interrupted append is left out, so the next append replaces it.
+ * @param start - Offset of the first segment
+ * @param size - Size of the file
+ * @returns The offset to append at
+ * @throws VectorStoreCorruptionError if the first segment is damaged
+ */
+async function findAppendOffset(
+  path: string,
+  handle: FileHandle,
+  start: number,
+  size: number
+): Promise<number> {
+  const head = Buffer.alloc(5);
+  let last = -1;
+  let offset = start;
+  while (offset + 5 <= size) {
+    await handle.read(head, 0, 5, offset);
+    const next = offset + 5 + head.readUInt32LE(1) + 4;
+    if (next > size) {
+      break;
+    }
+    last = offset;
+    offset = next;
+  }
+
+  if (last === -1 && offset < size) {
+    throw new VectorStoreCorruptionError(path, `truncated segment at byte ${offset}`);
+  }
+  // Only a segment that ends the file can have been torn without being cut short
+  if (last > start && offset === size) {
+    const segment = Buffer.alloc(offset - last);
+    await handle.read(segment, 0, segment.length, last);
+    const payload = segment.subarray(5, segment.length - 4);
+    if (crc32(payload) !== segment.readUInt32LE(segment.length - 4)) {
+      return last;
+    }
+  }
+  return offset;
+}
+
+/**
+ * Appends a segment of changes to an existing vector store file, replacing a
+ * last segment torn by an earlier interrupted append
+ * @param path - The file to append to
+ * @param expected - Embedding model and dimension the records were produced with
+ * @param records - The changes to append
+ * @throws Error if the file was written for a different embedding model or dimension
+ */
+export async function appendVectorStoreRecords(
+  path: string,
+  expected: { embeddingModel: string; dimension: number },
+  records: VectorStoreRecord[]
+): Promise<void> {
+  const handle = await open(path, 'r+');
+  try {
+    const { size } = await handle.stat();
+    const preamble = Buffer.alloc(Math.min(size, PREAMBLE_SIZE));
+    await handle.read(preamble, 0, preamble.length, 0);
+    const head = Buffer.alloc(
+      preamble.length < PREAMBLE_SIZE
+        ? preamble.length
+        : Math.min(size, PREAMBLE_SIZE + preamble.readUInt32LE(8) + 4)
+    );
+    await handle.read(head, 0, head.length, 0);
+    const { header, end } = decodeHeader(path, head);
+
+    if (
+      header.embeddingModel !== expected.embeddingModel ||
+      header.dimension !== expected.dimension
+    ) {
+      throw new Error(
+        `Cannot append to ${path}: it holds ${header.embeddingModel} (${header.dimension}d) vectors, not ${expected.embeddingModel} (${expected.dimension}d)`
+      );
+    }
+
+    if (records.length > 0) {
+      const offset = await findAppendOffset(path, handle, end, size);
+      if (offset < size) {
+        await handle.truncate(offset);
+      }
+      await handle.write(encodeDocumentSegment(records, header.dimension), 0, undefined, offset);
+      await handle.sync();
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Reads a vector store file, replaying all appended segments
+ * @param path - The file to read
+ * @returns The header, the current documents and the saved index
+ * @throws VectorStoreCorruptionError if the file is damaged
+ */
+export async function readVectorStoreFile(path: string): Promise<VectorStoreFileContents> {
+  const data = await readFile(path);
+  const { header, end } = decodeHeader(path, data);
+  const documents = new Map<string, Document>();
+  let index: VectorStoreFileContents['index'];
+
+  let offset = end;
+  while (offset < data.length) {
+    // An append interrupted by a crash leaves a torn last segment, which is
+    // ignored. The first segment is written with the header, atomically.
+    const appended = offset > end;
+    if (offset + 5 > data.length) {
+      if (appended) {
+        break;
+      }
+      throw new VectorStoreCorruptionError(path, `truncated segment at byte ${offset}`);
+    }
+    const type = data.readUInt8(offset);
+    const length = data.readUInt32LE(offset + 1);
+    const payloadStart = offset + 5;
+    const payloadEnd = payloadStart + length;
+
+    if (payloadEnd + 4 > data.length) {
+      if (appended) {
+        break;
+      }
+      throw new VectorStoreCorruptionError(path, `truncated segment at byte ${offset}`);
+    }
+    const payload = data.subarray(payloadStart, payloadEnd);
+    if (crc32(payload) !== data.readUInt32LE(payloadEnd)) {
+      if (appended && payloadEnd + 4 === data.length) {
+        break;
+      }
+      throw new VectorStoreCorruptionError(path, `checksum mismatch in segment at byte ${offset}`);
+    }
+
+    // Unknown segment types are skipped so newer writers stay readable
+    if (type === DOCUMENT_SEGMENT) {
+      for (const record of decodeDocumentSegment(path, payload, header.dimension)) {
+        if (record.op === 'put') {
+          documents.set(
+            documentKey(record.document.id, record.document.collection),
+            record.document
+          );
+        } else {
+          documents.delete(documentKey(record.id, record.collection));
+        }
+        index?.pending.push(record);
+      }
+    } else if (type === INDEX_SEGMENT) {
+      try {
+        index = { data: JSON.parse(payload.toString('utf-8')), pending: [] };
+      } catch {
+        throw new VectorStoreCorruptionError(path, 'unreadable index');
+      }
+    }
+
+    offset = payloadEnd + 4;
+  }
+
+  return { header, documents: Array.from(documents.values()), index };
+}
@@ -0,0 +1,378 @@
+/**
+ * Error raised for YAML the parser does not understand, with the line it was found on
+ */
+export class YamlSyntaxError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'YamlSyntaxError';
+    this.line = line;
+  }
+}
+
+/**
+ * A mapping key followed by its value, e.g. `name: The G`
+ */
+const KEY =
+  /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s'"#[\]{},:-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+|$)(.*)$/;
+
+/**
+ * Block scalar header, e.g. `|` or `>-`
+ */
+const BLOCK_SCALAR = /^([|>])([+-]?)$/;
+
+/**
+ * What may come before a quote that opens a quoted scalar: nothing, a mapping
+ * key, a sequence dash or a flow collection delimiter
+ */
+const BEFORE_QUOTED = /(?:^|[[{,:]|(?:^|\s)-)\s*$/;
+
+/**
+ * Removes a trailing comment, leaving # inside quoted scalars alone. A quote
+ * within a plain scalar, like the apostrophe in `don't`, is just a character.
+ */
+function stripComment(text: string): string {
+  let quote = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = '';
+      }
+    } else if ((char === '"' || char === "'") && BEFORE_QUOTED.test(text.slice(0, i))) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Parses a quoted or plain scalar
+ */
+function parseScalar(text: string, line: number): unknown {
+  if (text.startsWith('"')) {
+    if (!/^"(?:[^"\\]|\\.)*"$/.test(text)) {
+      throw new YamlSyntaxError('Unterminated double-quoted string', line);
+    }
+    try {
+      return JSON.parse(text.replace(/\\'/g, "'"));
+    } catch {
+      throw new YamlSyntaxError('Invalid escape in double-quoted string', line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) {
+      throw new YamlSyntaxError('Unterminated single-quoted string', line);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (/^(~|null|Null|NULL)?$/.test(text)) {
+    return null;
+  }
+  if (/^(true|True|TRUE|false|False|FALSE)$/.test(text)) {
+    return text.toLowerCase() === 'true';
+  }
+  if (/^[-+]?(\d+|\d+\.\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Splits the inside of a flow collection at top-level commas
+ */
+function splitFlow(text: string, line: number): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = '';
+      }
+    } else if ((char === '"' || char === "'") && BEFORE_QUOTED.test(text.slice(0, i))) {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  if (quote || depth !== 0) {
+    throw new YamlSyntaxError('Unterminated flow collection', line);
+  }
+  const last = text.slice(start).trim();
+  return last ? [...items, last] : items;
+}
+
+/**
+ * Parses a flow sequence (`[a, b]`), flow mapping (`{a: 1}`) or scalar
+ */
+function parseFlow(text: string, line: number): unknown {
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new YamlSyntaxError('Unterminated flow sequence', line);
+    }
+    return splitFlow(text.slice(1, -1), line).map(item => parseFlow(item, line));
+  }
+  if (text.startsWith('{')) {
+    if (!text.endsWith('}')) {
+      throw new YamlSyntaxError('Unterminated flow mapping', line);
+    }
+    const mapping: Record<string, unknown> = {};
+    for (const item of splitFlow(text.slice(1, -1), line)) {
+      const match = item.match(KEY);
+      if (!match) {
+        throw new YamlSyntaxError(`Expected "key: value" in flow mapping, got "${item}"`, line);
+      }
+      mapping[String(parseScalar(match[1], line))] = parseFlow(match[2].trim(), line);
+    }
+    return mapping;
+  }
+  return parseScalar(text, line);
+}
+
+/**
+ * Recursive descent over the lines of a document, tracking block structure
+ * by indentation
+ */
+class YamlParser {
+  private index = 0;
+
+  constructor(private lines: string[]) {}
+
+  parseDocument(): unknown {
+    this.skipEmpty();
+    if (this.done()) {
+      return null;
+    }
+    const value = this.parseBlock(this.indent());
+    this.skipEmpty();
+    if (!this.done()) {
+      throw new YamlSyntaxError('Unexpected content after the document', this.index + 1);
+    }
+    return value;
+  }
+
+  private done(): boolean {
+    return this.index >= this.lines.length || /^(---|\.\.\.)(\s|$)/.test(this.lines[this.index]);
+  }
+
+  /**
+   * Skips blank lines, comment lines and a leading document marker
+   */
+  private skipEmpty(): void {
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (stripComment(line).trim() && !(this.index === 0 && /^---\s*$/.test(line))) {
+        return;
+      }
+      this.index++;
+    }
+  }
+
+  private indent(): number {
+    const line = this.lines[this.index];
+    const indent = line.length - line.trimStart().length;
+    if (line.slice(0, indent).includes('\t')) {
+      throw new YamlSyntaxError('Tabs are not allowed for indentation', this.index + 1);
+    }
+    return indent;
+  }
+
+  private content(): string {
+    return stripComment(this.lines[this.index]).trim();
+  }
+
+  private isSequenceItem(content: string): boolean {
+    return content === '-' || content.startsWith('- ');
+  }
+
+  private parseBlock(indent: number): unknown {
+    const content = this.content();
+    if (this.isSequenceItem(content)) {
+      return this.parseSequence(indent);
+    }
+    if (KEY.test(content)) {
+      return this.parseMapping(indent);
+    }
+    return this.parseValue(content, indent);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    while (
+      (this.skipEmpty(), !this.done()) &&
+      this.indent() === indent &&
+      this.isSequenceItem(this.content())
+    ) {
+      const line = this.lines[this.index];
+      const rest = this.content().slice(1).trim();
+      if (!rest) {
+        items.push(this.parseNested(indent));
+      } else if (KEY.test(rest) && !/^["'[{]/.test(rest)) {
+        // "- key: value" starts a mapping indented to where its key begins
+        const offset = line.indexOf(rest);
+        this.lines[this.index] = `${' '.repeat(offset)}${line.slice(offset)}`;
+        items.push(this.parseMapping(offset));
+      } else {
+        items.push(this.parseValue(rest, indent));
+      }
+    }
+    this.checkDedent(indent);
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    while ((this.skipEmpty(), !this.done()) && this.indent() === indent) {
+      const content = this.content();
+      const match = content.match(KEY);
+      if (!match) {
+        throw new YamlSyntaxError(`Expected "key: value", got "${content}"`, this.index + 1);
+      }
+      const key = String(parseScalar(match[1], this.index + 1));
+      if (Object.hasOwn(mapping, key)) {
+        throw new YamlSyntaxError(`Duplicate key "${key}"`, this.index + 1);
+      }
+
+      const rest = match[2].trim();
+      if (rest) {
+        mapping[key] = this.parseValue(rest, indent);
+        continue;
+      }
+
+      // A sequence may sit at the same indentation as its key
+      this.index++;
+      this.skipEmpty();
+      if (!this.done() && this.indent() === indent && this.isSequenceItem(this.content())) {
+        mapping[key] = this.parseSequence(indent);
+      } else {
+        this.index--;
+        mapping[key] = this.parseNested(indent);
+      }
+    }
+    this.checkDedent(indent);
+    return mapping;
+  }
+
+  /**
+   * Parses the block nested under the current line, or null if there is none
+   */
+  private parseNested(indent: number): unknown {
+    this.index++;
+    this.skipEmpty();
+    if (this.done() || this.indent() <= indent) {
+      return null;
+    }
+    return this.parseBlock(this.indent());
+  }
+
+  /**
+   * Parses the value on the current line after a key or dash. Plain
+   * scalars may continue on more deeply indented lines.
+   */
+  private parseValue(text: string, indent: number): unknown {
+    const line = this.index + 1;
+    const block = text.match(BLOCK_SCALAR);
+    if (block) {
+      return this.parseBlockScalar(block[1], block[2], indent);
+    }
+
+    this.index++;
+    if (/^["'[{]/.test(text)) {
+      return parseFlow(text, line);
+    }
+
+    let value = text;
+    while (this.index < this.lines.length && this.content() && this.indent() > indent) {
+      if (KEY.test(this.content())) {
+        throw new YamlSyntaxError('Unexpected indentation', this.index + 1);
+      }
+      value += ` ${this.content()}`;
+      this.index++;
+    }
+    return parseScalar(value, line);
+  }
+
+  /**
+   * Parses a literal (|) or folded (>) block scalar
+   */
+  private parseBlockScalar(style: string, chomping: string, indent: number): string {
+    this.index++;
+    const lines: string[] = [];
+    let blockIndent = -1;
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (!line.trim()) {
+        lines.push('');
+        this.index++;
+        continue;
+      }
+      const lineIndent = line.length - line.trimStart().length;
+      if (lineIndent <= indent || (blockIndent >= 0 && lineIndent < blockIndent)) {
+        break;
+      }
+      if (blockIndent < 0) {
+        blockIndent = lineIndent;
+      }
+      lines.push(line.slice(blockIndent));
+      this.index++;
+    }
+
+    const trailing = lines.length - (lines.map(l => l !== '').lastIndexOf(true) + 1);
+    const body = lines.slice(0, lines.length - trailing);
+    let text = '';
+    body.forEach((line, i) => {
+      if (i === 0) {
+        text = line;
+      } else if (style === '|') {
+        text += `\n${line}`;
+      } else {
+        // Folding joins lines with spaces; blank lines become line breaks
+        text += line === '' ? '\n' : body[i - 1] === '' ? line : ` ${line}`;
+      }
+    });
+
+    if (chomping === '-' || body.length === 0) {
+      return text;
+    }
+    return chomping === '+' ? `${text}${'\n'.repeat(trailing + 1)}` : `${text}\n`;
+  }
+
+  /**
+   * Rejects lines indented deeper than the block that just ended
+   */
+  private checkDedent(indent: number): void {
+    this.skipEmpty();
+    if (!this.done() && this.indent() > indent) {
+      throw new YamlSyntaxError('Unexpected indentation', this.index + 1);
+    }
+  }
+}
+
+/**
+ * Parses the subset of YAML used by configuration files: block mappings and
+ * sequences, flow collections, quoted and plain scalars (strings, numbers,
+ * booleans, null), literal and folded block scalars, and comments. Anchors,
+ * tags and multiple documents are not supported.
+ * @param source - The YAML text
+ * @returns The parsed value; null for an empty document
+ * @throws YamlSyntaxError if the text is not valid in the supported subset
+ */
+export function parseYaml(source: string): unknown {
+  return new YamlParser(source.replace(/^\uFEFF/, '').split(/\r?\n/)).parseDocument();
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { APIConnectionError } from 'openai';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ask, ASK_EXIT_CODES, AskError, formatAskMarkdown } from '../src/ask';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { GangstaAgent } from '../src/gansgta-agent';
+import { joinPages } from '../src/paper-chunker';
+import { PaperLibrary } from '../src/paper-library';
+
+const run = vi.hoisted(() => vi.fn());
+vi.mock('@openai/agents', async importOriginal => ({
+  ...(await importOriginal<typeof import('@openai/agents')>()),
+  run,
+}));
+
+describe('Ask', () => {
+  let dir: string;
+  let library: PaperLibrary;
+  let agent: GangstaAgent;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-ask-'));
+    library = new PaperLibrary(dir);
+    agent = new GangstaAgent({
+      name: 'The G',
+      description: 'Test',
+      principles: [],
+      model: 'gpt-4.1-mini',
+    });
+    run.mockReset();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const addPaper = () =>
+    library.addPaper(
+      {
+        ...joinPages([
+          { number: 1, text: '5 Training\nWe train on the WMT 2014 English-German dataset.' },
+        ]),
+        title: 'Attention Is All You Need',
+      },
+      { sourcePath: '/a.pdf', hash: 'aaaaaaaaaa' },
+      { embeddingProvider: new HashEmbeddingProvider({ dimension: 64 }) }
+    );
+
+  const exitCode = (promise: Promise<unknown>) =>
+    promise.then(
+      () => 0,
+      error => (error instanceof AskError ? error.exitCode : 1)
+    );
+
+  it('should answer with citations, model and token usage', async () => {
+    const { id } = await addPaper();
+    run.mockResolvedValue({
+      finalOutput: 'They trained on WMT 2014 [attention-is-all-you-need-aaaaaaaa#0].',
+      rawResponses: [
+        { usage: { requests: 1, inputTokens: 100, outputTokens: 8, totalTokens: 108 } },
+        { usage: { requests: 1, inputTokens: 20, outputTokens: 4, totalTokens: 24 } },
+      ],
+    });
+
+    const result = await ask(agent, library, 'Which dataset was used?', {
+      paperIds: ['attention'],
+      persona: 'the-g',
+    });
+
+    expect(result).toEqual({
+      question: 'Which dataset was used?',
+      answer: 'They trained on WMT 2014 [attention-is-all-you-need-aaaaaaaa#0].',
+      citations: [expect.objectContaining({ chunkId: `${id}#0`, section: '5 Training', page: 1 })],
+      papers: [id],
+      model: 'gpt-4.1-mini',
+      persona: 'the-g',
+      usage: { requests: 2, inputTokens: 120, outputTokens: 12, totalTokens: 132 },
+    });
+    expect(formatAskMarkdown(result)).toBe(
+      `${result.answer}\n\n## Sources\n\n- [${id}#0] 5 Training, p. 1\n`
+    );
+  });
+
+  it('should fail with a distinct exit code for each kind of failure', async () => {
+    expect(await exitCode(ask(agent, library, 'Which dataset was used?'))).toBe(
+      ASK_EXIT_CODES.noPapers
+    );
+
+    await addPaper();
+    expect(await exitCode(ask(agent, library, 'capital city of France'))).toBe(
+      ASK_EXIT_CODES.noRelevantContext
+    );
+    expect(run).not.toHaveBeenCalled();
+
+    run.mockRejectedValue(new APIConnectionError({}));
+    await expect(ask(agent, library, 'Which dataset was used?')).rejects.toThrow(
+      new AskError('The model failed to answer: Connection error.', ASK_EXIT_CODES.modelError)
+    );
+    expect(await exitCode(ask(agent, library, 'Which dataset was used?'))).toBe(
+      ASK_EXIT_CODES.modelError
+    );
+
+    run.mockRejectedValue(new TypeError('Cannot read properties of undefined'));
+    await expect(ask(agent, library, 'Which dataset was used?')).rejects.toThrow(TypeError);
+  });
+
+  it('should fail with the model exit code when the query embedder cannot be set up', async () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    await library.addPaper(
+      joinPages([{ number: 1, text: '5 Training\nWe train on WMT 2014.' }]),
+      { sourcePath: '/a.pdf', hash: 'aaaaaaaaaa' },
+      {
+        embeddingProvider: {
+          model: 'text-embedding-3-small',
+          dimension: 8,
+          embed: async texts => texts.map(() => new Array(8).fill(1)),
+        },
+      }
+    );
+
+    await expect(ask(agent, library, 'Which dataset was used?')).rejects.toThrow(
+      new AskError(
+        'The model failed to answer: OpenAI API key is required. Provide it via config or OPENAI_API_KEY environment variable.',
+        ASK_EXIT_CODES.modelError
+      )
+    );
+  });
+});
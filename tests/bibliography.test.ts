@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractBibliography,
+  formatReference,
+  linkCitations,
+  parseReference,
+  splitReferences,
+  toBibTeX,
+  toCslJson,
+} from '../src/bibliography';
+import { joinPages } from '../src/paper-chunker';
+
+const numbered = joinPages([
+  {
+    number: 1,
+    text: [
+      '1 Introduction',
+      'Transformers [1] replaced recurrent networks [2, 3]; see [1-3] for an overview.',
+      '',
+      'References',
+      '[1] Ashish Vaswani, Noam Shazeer, Niki Parmar, et al. Attention is all you need. In Advances',
+      'in Neural Information Processing Systems, pages 5998-6008, 2017.',
+      '[2] S. Hochreiter and J. Schmidhuber, "Long short-term memory," Neural Computation, vol. 9,',
+      'no. 8, pp. 1735-1780, 1997. doi:10.1162/neco.1997.9.8.1735.',
+      '[3] Jimmy Lei Ba, Jamie Ryan Kiros, and Geoffrey E. Hinton. Layer normalization. arXiv',
+      'preprint arXiv:1607.06450, 2016.',
+    ].join('\n'),
+  },
+]);
+
+describe('Bibliography', () => {
+  it('should split numbered and author-year reference lists', () => {
+    expect(
+      splitReferences(
+        'References\n[1] First, A. Title one. 2020.\n[2] Second, B. Title\ntwo. 2021.'
+      )
+    ).toEqual([
+      { label: '1', raw: 'First, A. Title one. 2020.' },
+      { label: '2', raw: 'Second, B. Title two. 2021.' },
+    ]);
+    expect(
+      splitReferences(
+        [
+          'Doe, A. (2019). A title that goes on and on, wrapping onto',
+          'the next line. Proceedings of ACL.',
+          'Smith, J. (2020). Another title. Nature, 5, 1-2.',
+        ].join('\n')
+      ).map(entry => entry.raw)
+    ).toEqual([
+      'Doe, A. (2019). A title that goes on and on, wrapping onto the next line. Proceedings of ACL.',
+      'Smith, J. (2020). Another title. Nature, 5, 1-2.',
+    ]);
+  });
+
+  it('should split and link a references section with a single entry', () => {
+    expect(splitReferences('References\n[1] Vaswani, A. and Shazeer, N. Attention. 2017.')).toEqual(
+      [{ label: '1', raw: 'Vaswani, A. and Shazeer, N. Attention. 2017.' }]
+    );
+
+    const { entries, links } = extractBibliography(
+      joinPages([
+        {
+          number: 1,
+          text: [
+            'Transformers [1] rely on attention.',
+            '',
+            'References',
+            '[1] A. Vaswani and N. Shazeer. Attention is all you need. 2017.',
+          ].join('\n'),
+        },
+      ])
+    );
+    expect(entries.map(entry => [entry.label, entry.title])).toEqual([
+      ['1', 'Attention is all you need'],
+    ]);
+    expect(entries[0].authors.map(author => author.family)).toEqual(['Vaswani', 'Shazeer']);
+    expect(links.map(link => [link.marker, link.entryIds])).toEqual([['[1]', [entries[0].id]]]);
+  });
+
+  it('should parse references in common citation styles', () => {
+    const { entries } = extractBibliography(numbered);
+
+    expect(entries[0]).toMatchObject({
+      id: 'vaswani2017attention',
+      label: '1',
+      kind: 'conference',
+      title: 'Attention is all you need',
+      venue: 'Advances in Neural Information Processing Systems',
+      year: 2017,
+    });
+    expect(entries[0].authors.map(author => author.family)).toEqual([
+      'Vaswani',
+      'Shazeer',
+      'Parmar',
+    ]);
+    expect(entries[1]).toMatchObject({
+      id: 'hochreiter1997long',
+      kind: 'journal',
+      authors: [
+        { family: 'Hochreiter', given: 'S.' },
+        { family: 'Schmidhuber', given: 'J.' },
+      ],
+      title: 'Long short-term memory',
+      venue: 'Neural Computation',
+      doi: '10.1162/neco.1997.9.8.1735',
+    });
+    expect(entries[2]).toMatchObject({ kind: 'preprint', arxivId: '1607.06450', year: 2016 });
+
+    expect(
+      parseReference(
+        'Smith, J., & Doe, A. (2020). Deep learning & you. Journal of Things, 12(3), 45-67.'
+      )
+    ).toMatchObject({
+      authors: [
+        { family: 'Smith', given: 'J.' },
+        { family: 'Doe', given: 'A.' },
+      ],
+      title: 'Deep learning & you',
+      venue: 'Journal of Things',
+      year: 2020,
+      kind: 'journal',
+    });
+  });
+
+  it('should link numbered citations, but not inside the references section', () => {
+    const { links } = extractBibliography(numbered);
+    expect(links.map(link => [link.marker, link.entryIds])).toEqual([
+      ['[1]', ['vaswani2017attention']],
+      ['[2, 3]', ['hochreiter1997long', 'ba2016layer']],
+      ['[1-3]', ['vaswani2017attention', 'hochreiter1997long', 'ba2016layer']],
+    ]);
+    expect(numbered.text.slice(links[1].start, links[1].end)).toBe('[2, 3]');
+  });
+
+  it('should link author-year citations', () => {
+    const entries = [
+      'Doe, A. (2019a). First thing. Proceedings of ACL.',
+      'Doe, A. (2019b). Second thing. Proceedings of EMNLP.',
+      'Smith, J., Brown, K., and Lee, M. (2020). A study. Nature, 5, 1-2.',
+    ].map((raw, i) => ({ id: `e${i}`, ...parseReference(raw) }));
+
+    const links = linkCitations(
+      'As shown before (Smith et al., 2020; Doe, 2019a), and Doe (2019b) agrees (in 2021).',
+      entries
+    );
+    expect(links.map(link => [link.marker, link.entryIds])).toEqual([
+      ['(Smith et al., 2020; Doe, 2019a)', ['e2', 'e0']],
+      ['Doe (2019b)', ['e1']],
+    ]);
+  });
+
+  it('should export BibTeX and CSL-JSON', () => {
+    const { entries } = extractBibliography(numbered);
+
+    expect(toBibTeX(entries.slice(2))).toBe(
+      [
+        '@misc{ba2016layer,',
+        '  author = {Ba, Jimmy Lei and Kiros, Jamie Ryan and Hinton, Geoffrey E.},',
+        '  title = {Layer normalization},',
+        '  howpublished = {arXiv preprint},',
+        '  year = {2016},',
+        '  eprint = {1607.06450},',
+        '  archivePrefix = {arXiv},',
+        '}',
+      ].join('\n')
+    );
+    expect(toBibTeX([{ ...entries[0], title: 'R&D at 100%' }])).toContain(
+      'title = {R\\&D at 100\\%}'
+    );
+
+    expect(toCslJson(entries.slice(1, 2))).toEqual([
+      {
+        id: 'hochreiter1997long',
+        type: 'article-journal',
+        title: 'Long short-term memory',
+        author: [
+          { family: 'Hochreiter', given: 'S.' },
+          { family: 'Schmidhuber', given: 'J.' },
+        ],
+        issued: { 'date-parts': [[1997]] },
+        'container-title': 'Neural Computation',
+        DOI: '10.1162/neco.1997.9.8.1735',
+      },
+    ]);
+    expect(formatReference(entries[1])).toBe(
+      '[2] Hochreiter and Schmidhuber (1997). Long short-term memory. Neural Computation. doi:10.1162/neco.1997.9.8.1735.'
+    );
+  });
+});
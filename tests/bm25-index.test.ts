@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { Bm25Index, tokenize } from '../src/bm25-index';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+
+describe('tokenize', () => {
+  it('should keep model names whole and add their parts', () => {
+    expect(tokenize('We fine-tune GPT-4 on SQuAD v1.1.')).toEqual([
+      'fine-tune',
+      'fine',
+      'tune',
+      'gpt-4',
+      'gpt',
+      '4',
+      'squad',
+      'v1.1',
+      'v1',
+      '1',
+    ]);
+  });
+
+  it('should drop stopwords', () => {
+    expect(tokenize('the attention of the model')).toEqual(['attention', 'model']);
+  });
+});
+
+describe('Bm25Index', () => {
+  const createIndex = () => {
+    const index = new Bm25Index();
+    index.add('bert', 'BERT is pre-trained on BooksCorpus and English Wikipedia.');
+    index.add('resnet', 'ResNet-50 is trained on ImageNet with residual connections.');
+    index.add('vit', 'ViT splits images into patches and is trained on ImageNet-21k.');
+    return index;
+  };
+
+  it('should rank documents containing rare query terms first', () => {
+    const matches = createIndex().search('ResNet-50 ImageNet', 3);
+    expect(matches.map(match => match.id)).toEqual(['resnet', 'vit']);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+
+  it('should score single documents consistently with search', () => {
+    const index = createIndex();
+    const [best] = index.search('BooksCorpus', 1);
+    expect(index.score('BooksCorpus', 'bert')).toBeCloseTo(best.score, 10);
+    expect(index.score('BooksCorpus', 'vit')).toBe(0);
+  });
+
+  it('should forget removed and replaced documents', () => {
+    const index = createIndex();
+    expect(index.remove('resnet')).toBe(true);
+    expect(index.remove('resnet')).toBe(false);
+    index.add('vit', 'Vision transformers.');
+
+    expect(index.size).toBe(2);
+    expect(index.search('ImageNet', 5)).toEqual([]);
+  });
+
+  it('should apply the filter', () => {
+    const matches = createIndex().search('trained', 5, id => id !== 'bert');
+    expect(matches.map(match => match.id).sort()).toEqual(['resnet', 'vit']);
+  });
+});
+
+describe('MemoryVectorStore.hybridSearch', () => {
+  const createStore = async () => {
+    const store = new MemoryVectorStore({
+      embeddingProvider: new HashEmbeddingProvider({ dimension: 64 }),
+    });
+    await store.addDocuments([
+      { id: 'intro', content: 'Large language models learn from text.', metadata: { p: 1 } },
+      { id: 'data', content: 'We evaluate on the WMT14 En-De benchmark.', metadata: { p: 2 } },
+      { id: 'method', content: 'Language models are trained with self-supervision.' },
+    ]);
+    return store;
+  };
+
+  it('should report lexical and semantic scores per result', async () => {
+    const store = await createStore();
+    const results = await store.hybridSearch('WMT14 results', { topK: 3 });
+
+    expect(results[0].document.id).toBe('data');
+    expect(results[0].lexicalRank).toBe(1);
+    expect(results[0].lexicalScore).toBeGreaterThan(0);
+    expect(results[0].semanticScore).toBeGreaterThan(-1);
+    for (const result of results.slice(1)) {
+      expect(result.lexicalScore).toBe(0);
+      expect(result.lexicalRank).toBeUndefined();
+    }
+  });
+
+  it('should fuse ranks with RRF by default', async () => {
+    const store = await createStore();
+    const [top] = await store.hybridSearch('WMT14', { topK: 1, rrfK: 10 });
+    const expected =
+      1 / (10 + top.lexicalRank!) + (top.semanticRank ? 1 / (10 + top.semanticRank) : 0);
+    expect(top.score).toBeCloseTo(expected, 10);
+  });
+
+  it('should support weighted fusion', async () => {
+    const store = await createStore();
+    const lexicalOnly = await store.hybridSearch('WMT14', {
+      fusion: 'weighted',
+      semanticWeight: 0,
+    });
+    expect(lexicalOnly[0].document.id).toBe('data');
+    expect(lexicalOnly[0].score).toBe(1);
+  });
+
+  it('should keep the keyword index in sync and honour filters', async () => {
+    const store = await createStore();
+    store.deleteDocument('data');
+    const afterDelete = await store.hybridSearch('WMT14', { topK: 3 });
+    expect(afterDelete.every(result => result.lexicalScore === 0)).toBe(true);
+
+    const filtered = await store.hybridSearch('language models', {
+      topK: 3,
+      filter: doc => doc.metadata?.p === 1,
+    });
+    expect(filtered.map(result => result.document.id)).toEqual(['intro']);
+  });
+
+  it('should apply the caps to fused results', async () => {
+    const store = await createStore();
+    await store.addDocument({
+      id: 'intro-2',
+      content: 'Large language models learn from more text.',
+      metadata: { p: 1 },
+    });
+
+    const results = await store.hybridSearch('large language models', {
+      topK: 3,
+      mmr: true,
+      maxPer: { p: 1 },
+    });
+    const ids = results.map(result => result.document.id);
+    expect(ids).toContain('method');
+    expect(ids.filter(id => id.startsWith('intro'))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Agent, AgentInputItem, assistant, user } from '@openai/agents';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { ChatSessionStore, SessionNotFoundError } from '../src/chat-sessions';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { GChat } from '../src/g-chat';
+import { GangstaAgent, GangstaChatOptions, toCitation } from '../src/gansgta-agent';
+import { ModelRegistry } from '../src/model-registry';
+import { joinPages } from '../src/paper-chunker';
+import { PaperLibrary } from '../src/paper-library';
+
+const run = vi.hoisted(() => vi.fn());
+vi.mock('@openai/agents', async importOriginal => ({
+  ...(await importOriginal<typeof import('@openai/agents')>()),
+  run,
+}));
+
+describe('Chat Sessions', () => {
+  let dir: string;
+  let sessions: ChatSessionStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-sessions-'));
+    sessions = new ChatSessionStore(dir);
+    run.mockReset();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should save, list and load sessions by id, prefix or "last"', async () => {
+    const first = sessions.create({ persona: 'the-g', paperIds: ['attention'] });
+    first.id = 'aaa-1';
+    first.transcript.push({ role: 'user', content: 'Why attention?', at: first.createdAt });
+    await sessions.save(first);
+    const second = sessions.create({ persona: 'eli5-mentor', model: 'gpt-4.1-mini' });
+    second.id = 'aaa-2';
+    await sessions.save(second);
+
+    expect(first.title).toBe('Why attention?');
+    expect((await sessions.list()).map(session => session.id)).toEqual(['aaa-2', 'aaa-1']);
+    expect(await sessions.load('aaa-1')).toEqual(first);
+    expect((await sessions.load('last')).persona).toBe('eli5-mentor');
+    await expect(sessions.load('aaa')).rejects.toThrow('ambiguous');
+    await expect(sessions.load('bbb')).rejects.toThrow(SessionNotFoundError);
+
+    await sessions.remove('aaa-2');
+    expect((await sessions.load('aaa')).id).toBe('aaa-1');
+  });
+
+  it('should skip and report unreadable session files', async () => {
+    const session = sessions.create({ persona: 'the-g' });
+    await sessions.save(session);
+    await writeFile(join(sessions.dir, 'truncated.json'), '{"id": "trunc');
+    await writeFile(join(sessions.dir, 'edited.json'), '{"title": "no id"}');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect((await sessions.list()).map(saved => saved.id)).toEqual([session.id]);
+    expect((await sessions.load('last')).id).toBe(session.id);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(`Skipping unreadable session ${join(sessions.dir, 'edited.json')}`)
+    );
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('truncated.json'));
+    warn.mockRestore();
+  });
+
+  it('should save the chat after every answer and resume it', async () => {
+    const library = new PaperLibrary(dir);
+    await library.addPaper(
+      {
+        ...joinPages([
+          { number: 1, text: '1 Introduction\nSelf-attention replaces recurrence.' },
+          { number: 2, text: '2 Background\nRecurrent models read one token at a time.' },
+        ]),
+        title: 'Attention Is All You Need',
+      },
+      { sourcePath: '/a.pdf', hash: 'aaaaaaaaaa' },
+      { embeddingProvider: new HashEmbeddingProvider({ dimension: 32 }) }
+    );
+    const agent = {
+      principles: [],
+      streamResponse: vi.fn(async (prompt: string, options: GangstaChatOptions = {}) => {
+        const sources = (await options.store?.similaritySearch(prompt, { topK: 2 })) || [];
+        const citations = sources.slice(0, 1).map(toCitation);
+        const answer = `Answer ${(options.history?.length ?? 0) / 2 + 1}`;
+        options.onToken?.(answer);
+        const history = [...(options.history ?? []), user(prompt), assistant(answer)];
+        return { answer, sources, citations, history, toolCalls: [], cancelled: false };
+      }),
+    } as unknown as GangstaAgent;
+
+    const chat = async (session: ReturnType<ChatSessionStore['create']>, lines: string[]) => {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      let printed = '';
+      output.on('data', chunk => (printed += chunk.toString()));
+      const done = new GChat({ agent, library, input, output, session, sessions }).start();
+      input.end(lines.map(line => `${line}\n`).join(''));
+      await done;
+      return printed;
+    };
+
+    const session = sessions.create({ persona: 'the-g', paperIds: ['attention'] });
+    await chat(session, ['why attention?', '/exit']);
+
+    const saved = await sessions.load(session.id);
+    expect(saved.paperIds).toEqual(['attention-is-all-you-need-aaaaaaaa']);
+    expect(saved.history).toHaveLength(2);
+    expect(saved.transcript.map(message => message.content)).toEqual([
+      'why attention?',
+      'Answer 1',
+    ]);
+    expect(saved.transcript[1].sources).toEqual([
+      expect.objectContaining({ section: '1 Introduction', page: 1 }),
+    ]);
+
+    const printed = await chat(saved, ['/session', 'and recurrence?', '/exit']);
+    expect(printed).toContain('Resuming "why attention?" (1 questions so far).');
+    expect(printed).toContain(`Session ${session.id}.`);
+    expect(printed).toContain('G> Answer 2');
+    expect((await sessions.load(session.id)).transcript).toHaveLength(4);
+  });
+
+  it('should roll older turns into a summary when the history overflows', async () => {
+    const registry = new ModelRegistry([]);
+    registry.register({
+      id: 'tiny',
+      baseURL: 'http://localhost:11434/v1',
+      contextWindow: 2000,
+      maxOutputTokens: 200,
+      capabilities: { streaming: false },
+    });
+    const agent = new GangstaAgent({
+      name: 'The G',
+      description: 'Test',
+      principles: [],
+      model: 'tiny',
+      modelRegistry: registry,
+    });
+    const history: AgentInputItem[] = Array.from({ length: 5 }, (_, i) => [
+      user(`Question ${i}`),
+      assistant(`Answer ${i}: ${'attention '.repeat(60)}`),
+    ]).flat();
+    run
+      .mockResolvedValueOnce({ finalOutput: 'We talked about questions 0 to 2.' })
+      .mockResolvedValueOnce({ finalOutput: 'Answer 5' });
+
+    const turn = await agent.streamResponse('Question 5', { history });
+
+    expect(run).toHaveBeenCalledTimes(2);
+    const [summarizer, transcript] = run.mock.calls[0] as [Agent, string];
+    expect(summarizer.name).toBe('Gangsta Agent: The G');
+    expect(String(summarizer.instructions)).toContain('summarize the earlier part');
+    expect(transcript).toMatch(/^User: Question 0\n\nThe G: Answer 0/);
+    expect(transcript).not.toContain('Question 3');
+
+    expect(turn.summarized).toBe(true);
+    expect(turn.history).toHaveLength(7);
+    expect(turn.history[0]).toMatchObject({
+      role: 'system',
+      content: 'Summary of the conversation so far:\nWe talked about questions 0 to 2.',
+    });
+    expect(turn.history.slice(1, 5)).toEqual(history.slice(-4));
+
+    // A history that fits is sent as it is
+    run.mockResolvedValueOnce({ finalOutput: 'Answer 6' });
+    const next = await agent.streamResponse('Question 6', { history: history.slice(0, 2) });
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(next.summarized).toBe(false);
+    expect(next.history).toHaveLength(4);
+  });
+});
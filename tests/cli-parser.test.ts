@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CommandLineError,
+  CommandSpec,
+  completionScript,
+  formatHelp,
+  parseCommandLine,
+} from '../src/cli-parser';
+
+const run = vi.fn();
+
+const program: CommandSpec = {
+  name: 'rg',
+  summary: 'Research papers',
+  options: {
+    library: { type: 'string', valueName: 'dir', description: 'Library directory' },
+    json: { type: 'boolean', description: 'Print JSON' },
+  },
+  subcommands: [
+    {
+      name: 'papers',
+      summary: 'Manage papers',
+      subcommands: [
+        { name: 'list', summary: 'List papers', run },
+        {
+          name: 'show',
+          summary: 'Show a paper',
+          args: [{ name: 'id', description: 'Paper id', required: true }],
+          run,
+        },
+      ],
+    },
+    {
+      name: 'ask',
+      summary: 'Ask a question',
+      args: [
+        { name: 'question', description: 'The question', required: true },
+        { name: 'paper', description: 'Paper ids', variadic: true },
+      ],
+      options: {
+        format: {
+          type: 'string',
+          valueName: 'format',
+          description: 'Output format',
+          choices: ['markdown', 'json'],
+          default: 'markdown',
+        },
+      },
+      examples: ['rg ask "Why?" attention'],
+      run,
+    },
+    {
+      name: 'completion',
+      summary: 'Print a completion script',
+      args: [
+        { name: 'shell', description: 'The shell', required: true, choices: ['bash', 'fish'] },
+      ],
+      run,
+    },
+  ],
+};
+
+describe('CLI Parser', () => {
+  it('should resolve subcommands with global options anywhere on the line', () => {
+    const parsed = parseCommandLine(program, [
+      '--library',
+      'papers',
+      'papers',
+      'show',
+      'attention',
+      '--json',
+    ]);
+
+    expect(parsed.commands.map(command => command.name)).toEqual(['rg', 'papers', 'show']);
+    expect(parsed.help).toBe(false);
+    expect(parsed.invocation).toEqual({
+      path: ['papers', 'show'],
+      args: { id: 'attention' },
+      options: { library: 'papers', json: true },
+    });
+
+    const ask = parseCommandLine(program, ['ask', 'Why attention?', 'attention', 'bert']);
+    expect(ask.invocation.args).toEqual({
+      question: 'Why attention?',
+      paper: ['attention', 'bert'],
+    });
+    expect(ask.invocation.options.format).toBe('markdown');
+
+    expect(parseCommandLine(program, ['papers']).help).toBe(true);
+    expect(parseCommandLine(program, ['ask', '-h']).help).toBe(true);
+  });
+
+  it('should reject unknown commands and options, and missing or invalid values', () => {
+    const error = (argv: string[]) => {
+      try {
+        parseCommandLine(program, argv);
+      } catch (error) {
+        expect(error).toBeInstanceOf(CommandLineError);
+        const { message, commands } = error as CommandLineError;
+        return `${commands.map(command => command.name).join(' ')}: ${message}`;
+      }
+      return undefined;
+    };
+
+    expect(error(['papers', 'frob'])).toBe('rg papers: Unknown command "papers frob"');
+    expect(error(['papers', 'list', '--force'])).toBe("rg papers list: Unknown option '--force'");
+    expect(error(['papers', 'show'])).toBe('rg papers show: Missing <id>');
+    expect(error(['papers', 'show', 'a', 'b'])).toBe('rg papers show: Unexpected argument "b"');
+    expect(error(['ask', 'Why?', '--format', 'xml'])).toBe(
+      'rg ask: Invalid value "xml" for --format. Use markdown, json.'
+    );
+    expect(error(['completion', 'ksh'])).toBe(
+      'rg completion: Invalid shell "ksh". Use bash, fish.'
+    );
+  });
+
+  it('should generate the help of every command', () => {
+    expect(formatHelp(parseCommandLine(program, ['ask', '--help']).commands)).toBe(
+      [
+        'Usage: rg ask [options] <question> [paper...]',
+        '',
+        'Ask a question',
+        '',
+        'Arguments:',
+        '  <question>         The question',
+        '  [paper...]         Paper ids',
+        '',
+        'Options:',
+        '  --format <format>  Output format (markdown, json; default: markdown)',
+        '',
+        'Global options:',
+        '  --library <dir>    Library directory',
+        '  --json             Print JSON',
+        '  -h, --help         Show this help',
+        '',
+        'Examples:',
+        '  rg ask "Why?" attention',
+        '',
+      ].join('\n')
+    );
+
+    const help = formatHelp([program]);
+    expect(help).toMatch(/^Usage: rg <command> \[options\]\n/);
+    expect(help).toContain('\nCommands:\n  papers           Manage papers\n');
+    expect(help).toContain('  -h, --help       Show this help\n');
+    expect(help).not.toContain('Global options');
+  });
+
+  it('should generate completion scripts for bash, zsh and fish', () => {
+    const bash = completionScript(program, 'bash');
+    expect(bash).toContain('" papers"|" papers list"|" papers show"|" ask"|" completion")');
+    expect(bash).toContain('        --format) candidates="markdown json" ;;');
+    expect(bash).toContain('    " completion")');
+    expect(bash).toContain('*) candidates="bash fish --library --json --help -h" ;;');
+    expect(bash).toContain('complete -o default -F _rg rg');
+
+    const zsh = completionScript(program, 'zsh');
+    expect(zsh).toMatch(/^#compdef rg\n/);
+    expect(zsh).toContain('*) candidates="papers ask completion --library --json --help -h" ;;');
+    expect(zsh).toContain('compdef _rg rg');
+
+    expect(completionScript(program, 'fish').split('\n')).toEqual(
+      expect.arrayContaining([
+        "complete -c rg -n '__fish_use_subcommand' -a papers -d 'Manage papers'",
+        "complete -c rg -n '__fish_seen_subcommand_from papers; and not __fish_seen_subcommand_from list show' -a show -d 'Show a paper'",
+        "complete -c rg -l library -r -d 'Library directory'",
+        "complete -c rg -n '__fish_seen_subcommand_from ask' -l format -x -a 'markdown json' -d 'Output format'",
+        "complete -c rg -n '__fish_seen_subcommand_from completion' -x -a 'bash fish'",
+      ])
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+
+const run = promisify(execFile);
+
+describe('CLI', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-cli-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should print no search results as JSON for an empty library, offline', async () => {
+    const env: Record<string, string | undefined> = {
+      ...process.env,
+      RESEARCH_GANGSTA_LIBRARY: join(dir, 'library'),
+      XDG_CONFIG_HOME: join(dir, 'config'),
+    };
+    delete env.OPENAI_API_KEY;
+
+    const { stdout } = await run(
+      process.execPath,
+      ['--import', 'tsx', 'src/cli.ts', 'search', 'attention', '--json'],
+      { env }
+    );
+
+    expect(JSON.parse(stdout)).toEqual([]);
+  }, 30000);
+});
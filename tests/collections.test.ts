@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { CollectionNotFoundError, MemoryVectorStore } from '../src/memory-vector-store';
+
+describe('Collections', () => {
+  const embeddingProvider = new HashEmbeddingProvider({ dimension: 32 });
+  let store: MemoryVectorStore;
+
+  beforeEach(async () => {
+    store = new MemoryVectorStore({ embeddingProvider, hnsw: { m: 4 } });
+    store.createCollection('attention');
+    store.createCollection('bert');
+    await store.addDocuments([
+      { id: 'intro', content: 'Self-attention replaces recurrence.', collection: 'attention' },
+      { id: 'method', content: 'Multi-head attention layers.', collection: 'attention' },
+      { id: 'intro', content: 'Masked language model pre-training.', collection: 'bert' },
+      { id: 'note', content: 'Reading group notes on attention.' },
+    ]);
+  });
+
+  it('should keep documents with the same id apart', () => {
+    expect(store.size()).toBe(4);
+    expect(store.getDocument('intro', 'attention')?.content).toContain('recurrence');
+    expect(store.getDocument('intro', 'bert')?.content).toContain('Masked');
+    expect(store.getDocument('intro')).toBeUndefined();
+    expect(store.getDocument('note')?.collection).toBeUndefined();
+  });
+
+  it('should list, describe and drop collections', () => {
+    expect(store.listCollections().map(({ name, size }) => [name, size])).toEqual([
+      ['default', 1],
+      ['attention', 2],
+      ['bert', 1],
+    ]);
+    expect(store.size('attention')).toBe(2);
+    expect(store.getCollectionStats('bert')).toMatchObject({
+      name: 'bert',
+      size: 1,
+      characters: 'Masked language model pre-training.'.length,
+      metadataKeys: [],
+    });
+
+    expect(store.dropCollection('attention')).toBe(true);
+    expect(store.dropCollection('attention')).toBe(false);
+    expect(store.hasCollection('attention')).toBe(false);
+    expect(store.size()).toBe(2);
+    expect(() => store.dropCollection('default')).toThrow('cannot be dropped');
+  });
+
+  it('should reject unknown and duplicate collections', async () => {
+    expect(() => store.createCollection('bert')).toThrow('Collection "bert" already exists');
+    expect(() => store.createCollection(' padded')).toThrow('Invalid collection name');
+    await expect(
+      store.addDocument({ id: 'x', content: 'text', collection: 'missing' })
+    ).rejects.toThrow(CollectionNotFoundError);
+    await expect(store.similaritySearch('text', { collections: ['missing'] })).rejects.toThrow(
+      'Collection "missing" does not exist'
+    );
+  });
+
+  it('should search across or within collections', async () => {
+    const all = await store.similaritySearch('attention', { topK: 10, threshold: -1 });
+    expect(all).toHaveLength(4);
+
+    const bert = await store.similaritySearch('attention', {
+      topK: 10,
+      threshold: -1,
+      collections: ['bert'],
+    });
+    expect(bert.map(result => [result.document.collection, result.document.id])).toEqual([
+      ['bert', 'intro'],
+    ]);
+
+    const hybrid = await store.hybridSearch('attention', {
+      topK: 10,
+      collections: ['attention', 'default'],
+    });
+    expect(hybrid.map(result => result.document.collection ?? 'default').sort()).toEqual([
+      'attention',
+      'attention',
+      'default',
+    ]);
+  });
+
+  it('should export and import one collection', () => {
+    const exported = store.export('attention');
+    expect(exported.map(doc => doc.id)).toEqual(['intro', 'method']);
+
+    store.createCollection('copy');
+    store.import(exported, 'copy');
+    expect(store.size('copy')).toBe(2);
+    expect(store.size('attention')).toBe(2);
+    expect(() => store.import(exported, 'missing')).toThrow(CollectionNotFoundError);
+  });
+
+  describe('Persistence', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'rg-collections-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should save and load collections, including empty ones', async () => {
+      const file = join(dir, 'store.rgvs');
+      store.createCollection('empty');
+      await store.save(file);
+
+      store.deleteDocument('intro', 'bert');
+      await store.save(file, { incremental: true });
+
+      const loaded = new MemoryVectorStore({ embeddingProvider, hnsw: { m: 4 } });
+      await loaded.load(file);
+      expect(loaded.listCollections().map(({ name, size }) => [name, size])).toEqual([
+        ['default', 1],
+        ['attention', 2],
+        ['bert', 0],
+        ['empty', 0],
+      ]);
+      expect(loaded.getDocument('intro', 'attention')).toBeDefined();
+
+      const [top] = await loaded.similaritySearch('Multi-head attention layers.', {
+        topK: 1,
+        collections: ['attention'],
+      });
+      expect(top.document.id).toBe('method');
+    });
+  });
+});
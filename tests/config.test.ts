@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ConfigError,
+  DEFAULT_CONFIG,
+  formatSettingValue,
+  loadConfig,
+  readConfigFile,
+  setConfigValue,
+} from '../src/config';
+
+describe('Config', () => {
+  let dir: string;
+  let userConfigPath: string;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-config-'));
+    userConfigPath = join(dir, 'user', 'config.yaml');
+    projectDir = join(dir, 'project');
+    await mkdir(join(projectDir, 'src'), { recursive: true });
+    await mkdir(join(dir, 'user'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should merge defaults, user file, project file, environment and command line', async () => {
+    await writeFile(userConfigPath, 'model: gpt-4.1-mini\nsearch:\n  topK: 8\n');
+    await writeFile(join(projectDir, '.research-gangstarc'), '{"library": "papers"}');
+
+    const { settings, origins, projectConfigPath } = await loadConfig({
+      cwd: join(projectDir, 'src'),
+      env: { RESEARCH_GANGSTA_TOP_K: '3', OPENAI_API_KEY: 'sk-test-1234567890' },
+      userConfigPath,
+      overrides: { persona: 'eli5-mentor', model: undefined },
+    });
+
+    expect(projectConfigPath).toBe(join(projectDir, '.research-gangstarc'));
+    expect(settings).toEqual({
+      library: join(projectDir, 'papers'),
+      model: 'gpt-4.1-mini',
+      persona: 'eli5-mentor',
+      embedding: DEFAULT_CONFIG.embedding,
+      search: { topK: 3 },
+      openai: { apiKey: 'sk-test-1234567890' },
+    });
+    expect(origins).toEqual({
+      library: projectConfigPath,
+      model: userConfigPath,
+      persona: 'command line',
+      'embedding.model': 'default',
+      'search.topK': 'RESEARCH_GANGSTA_TOP_K',
+      'openai.apiKey': 'OPENAI_API_KEY',
+    });
+    expect(formatSettingValue('openai.apiKey', settings.openai.apiKey)).toBe('sk-...7890');
+
+    const offline = await loadConfig({ cwd: projectDir, env: {}, userConfigPath });
+    expect(offline.settings.embedding.model).toBe('hash-ngram-v1');
+    expect(offline.origins['embedding.model']).toBe('default');
+  });
+
+  it('should point at the invalid settings and where they come from', async () => {
+    await writeFile(userConfigPath, 'search:\n  topK: 0\n  depth: 2\nmodle: gpt-4.1\n');
+    await expect(loadConfig({ cwd: projectDir, env: {}, userConfigPath })).rejects.toThrow(
+      new ConfigError(
+        `Invalid config in ${userConfigPath}: search.topK: Number must be greater than 0; ` +
+          "search: Unrecognized key(s) in object: 'depth'; config: Unrecognized key(s) in object: 'modle'"
+      )
+    );
+
+    await writeFile(userConfigPath, '');
+    await expect(
+      loadConfig({ cwd: projectDir, env: { RESEARCH_GANGSTA_TOP_K: 'many' }, userConfigPath })
+    ).rejects.toThrow('Invalid config in RESEARCH_GANGSTA_TOP_K: search.topK: Expected number');
+  });
+
+  it('should set values in YAML and JSON config files, keeping other settings', async () => {
+    expect(await setConfigValue(userConfigPath, 'search.topK', '7')).toBe(7);
+    await setConfigValue(userConfigPath, 'model', 'llama3.1');
+    expect(await readFile(userConfigPath, 'utf-8')).toBe('search:\n  topK: 7\nmodel: "llama3.1"\n');
+
+    const projectConfigPath = join(projectDir, '.research-gangstarc');
+    await writeFile(projectConfigPath, '{ "persona": "the-og" }\n');
+    await setConfigValue(projectConfigPath, 'embedding.model', 'hash-ngram-v1');
+    expect(JSON.parse(await readFile(projectConfigPath, 'utf-8'))).toEqual({
+      persona: 'the-og',
+      embedding: { model: 'hash-ngram-v1' },
+    });
+
+    await setConfigValue(userConfigPath, 'library', './papers', join(projectDir, 'src'));
+    expect((await readConfigFile(userConfigPath)).library).toBe(join(projectDir, 'src', 'papers'));
+
+    await expect(setConfigValue(userConfigPath, 'search.topK', 'ten')).rejects.toThrow(
+      'Invalid value "ten" for search.topK: Expected number, received nan'
+    );
+    const { settings } = await loadConfig({ cwd: projectDir, env: {}, userConfigPath });
+    expect(settings.search.topK).toBe(7);
+    expect(settings.persona).toBe('the-og');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest';
+import { setTimeout as sleep } from 'timers/promises';
+import { embedInBatches, getRetryAfterMs, isRetryableError } from '../src/embedding-batch';
+import type { EmbeddingProvider } from '../src/embedding-providers';
+import { EmbeddingBatchError, MemoryVectorStore } from '../src/memory-vector-store';
+
+/**
+ * Error shaped like the ones thrown by the OpenAI SDK
+ */
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+/**
+ * Provider embedding each text as [length, 1]
+ */
+function createProvider(embed?: (texts: string[]) => Promise<number[][]>) {
+  const provider = {
+    model: 'fake',
+    dimension: 2,
+    embed: vi.fn(embed || (async (texts: string[]) => texts.map(text => [text.length, 1]))),
+  };
+  return provider satisfies EmbeddingProvider;
+}
+
+describe('Embedding batches', () => {
+  it('should embed texts in batches and keep input order', async () => {
+    const provider = createProvider();
+    const texts = ['a', 'bb', 'ccc', 'dddd', 'eeeee'];
+
+    const { embeddings, errors } = await embedInBatches(provider, texts, { batchSize: 2 });
+
+    expect(provider.embed).toHaveBeenCalledTimes(3);
+    expect(embeddings).toEqual([
+      [1, 1],
+      [2, 1],
+      [3, 1],
+      [4, 1],
+      [5, 1],
+    ]);
+    expect(errors.size).toBe(0);
+  });
+
+  it('should bound the number of requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const provider = createProvider(async texts => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await sleep(5);
+      inFlight--;
+      return texts.map(() => [0, 1]);
+    });
+
+    const progress: number[] = [];
+    await embedInBatches(provider, new Array(10).fill('x'), {
+      batchSize: 1,
+      concurrency: 3,
+      onProgress: done => progress.push(done),
+    });
+
+    expect(maxInFlight).toBe(3);
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('should retry rate-limited requests', async () => {
+    const provider = createProvider();
+    provider.embed
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }))
+      .mockRejectedValueOnce(httpError(503));
+
+    const { embeddings, errors } = await embedInBatches(provider, ['abc'], {
+      initialDelayMs: 1,
+    });
+
+    expect(provider.embed).toHaveBeenCalledTimes(3);
+    expect(embeddings).toEqual([[3, 1]]);
+    expect(errors.size).toBe(0);
+  });
+
+  it('should wait the full Retry-After, and fail right away when it is too long', async () => {
+    const provider = createProvider();
+    provider.embed.mockRejectedValueOnce(httpError(429, { 'retry-after-ms': '60' }));
+
+    const started = Date.now();
+    const { embeddings } = await embedInBatches(provider, ['abc'], { maxDelayMs: 1 });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(55);
+    expect(embeddings).toEqual([[3, 1]]);
+
+    provider.embed.mockReset().mockRejectedValueOnce(httpError(429, { 'retry-after': '600' }));
+    const { errors } = await embedInBatches(provider, ['abc'], { maxRetryAfterMs: 60000 });
+    expect(provider.embed).toHaveBeenCalledOnce();
+    expect(errors.get(0)?.message).toBe(
+      'The server asked to retry after 600 s, longer than the 60 s allowed by maxRetryAfterMs'
+    );
+  });
+
+  it('should give up after maxRetries', async () => {
+    const provider = createProvider(async () => {
+      throw httpError(429);
+    });
+
+    const { errors } = await embedInBatches(provider, ['a', 'b'], {
+      maxRetries: 2,
+      initialDelayMs: 1,
+    });
+
+    expect(provider.embed).toHaveBeenCalledTimes(3);
+    expect(errors.get(0)?.message).toBe('HTTP 429');
+    expect(errors.get(1)?.message).toBe('HTTP 429');
+  });
+
+  it('should isolate inputs that the provider rejects', async () => {
+    const provider = createProvider(async texts => {
+      if (texts.includes('bad')) {
+        throw httpError(400);
+      }
+      return texts.map(text => [text.length, 1]);
+    });
+
+    const { embeddings, errors } = await embedInBatches(provider, ['one', 'bad', 'three', 'four']);
+
+    expect([...errors.keys()]).toEqual([1]);
+    expect(embeddings[0]).toEqual([3, 1]);
+    expect(embeddings[1]).toBeUndefined();
+    expect(embeddings[3]).toEqual([4, 1]);
+  });
+
+  it('should classify errors and read Retry-After', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(500))).toBe(true);
+    expect(isRetryableError(httpError(401))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(getRetryAfterMs(httpError(429, { 'retry-after-ms': '150' }))).toBe(150);
+    const headers = { get: (name: string) => (name === 'retry-after' ? '1' : null) };
+    expect(getRetryAfterMs({ headers })).toBe(1000);
+    expect(getRetryAfterMs(httpError(429))).toBeUndefined();
+  });
+
+  describe('MemoryVectorStore', () => {
+    const failingOn = (bad: string) =>
+      createProvider(async texts => {
+        if (texts.includes(bad)) {
+          throw httpError(400);
+        }
+        return texts.map(text => [text.length, 1]);
+      });
+
+    it('should report documents that could not be embedded', async () => {
+      const store = new MemoryVectorStore({ embeddingProvider: failingOn('bad') });
+
+      const report = await store.addDocumentsWithReport([
+        { id: 'a', content: 'good' },
+        { id: 'b', content: 'bad' },
+      ]);
+
+      expect(report.added.map(doc => doc.id)).toEqual(['a']);
+      expect(report.failed.map(failure => failure.document.id)).toEqual(['b']);
+      expect(store.size()).toBe(1);
+    });
+
+    it('should keep the embedded documents when addDocuments throws', async () => {
+      const store = new MemoryVectorStore({ embeddingProvider: failingOn('bad') });
+
+      const error = await store
+        .addDocuments([
+          { id: 'a', content: 'good' },
+          { id: 'b', content: 'bad' },
+        ])
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(EmbeddingBatchError);
+      expect(error.message).toBe('Failed to embed 1 of 2 documents (b: HTTP 400)');
+      expect(store.getDocument('a')).toBeDefined();
+    });
+  });
+});
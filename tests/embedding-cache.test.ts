@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { setTimeout as sleep } from 'timers/promises';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EmbeddingCache, embeddingCacheKey, normalizeForEmbedding } from '../src/embedding-cache';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+
+describe('EmbeddingCache', () => {
+  let dir: string;
+
+  const createProvider = () => {
+    const provider = new HashEmbeddingProvider({ dimension: 16 });
+    vi.spyOn(provider, 'embed');
+    return provider;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should key texts by their normalized content', () => {
+    expect(normalizeForEmbedding('  Self-attention\n\n  layers ')).toBe('Self-attention layers');
+    expect(embeddingCacheKey('a  b')).toBe(embeddingCacheKey('a\nb'));
+    expect(embeddingCacheKey('a b')).not.toBe(embeddingCacheKey('a c'));
+  });
+
+  it('should serve repeated documents and queries from the cache', async () => {
+    const provider = createProvider();
+    const cache = new EmbeddingCache({ dir });
+    const store = new MemoryVectorStore({ embeddingProvider: provider, embeddingCache: cache });
+
+    await store.addDocuments([
+      { id: 'a', content: 'self-attention layers' },
+      { id: 'b', content: 'residual connections' },
+    ]);
+    await store.addDocument({ id: 'c', content: 'self-attention   layers' });
+    await store.similaritySearch('residual connections');
+
+    expect(provider.embed).toHaveBeenCalledTimes(1);
+    expect(await cache.getStats()).toMatchObject({ hits: 2, misses: 2, entries: 2 });
+  });
+
+  it('should persist across instances and keep models apart', async () => {
+    const first = new MemoryVectorStore({
+      embeddingProvider: createProvider(),
+      embeddingCache: new EmbeddingCache({ dir }),
+    });
+    await first.addDocument({ id: 'a', content: 'layer normalization' });
+
+    const provider = createProvider();
+    const second = new MemoryVectorStore({
+      embeddingProvider: provider,
+      embeddingCache: new EmbeddingCache({ dir }),
+    });
+    await second.addDocument({ id: 'a', content: 'layer normalization' });
+    expect(provider.embed).not.toHaveBeenCalled();
+
+    const otherModel = new HashEmbeddingProvider({ dimension: 8 });
+    vi.spyOn(otherModel, 'embed');
+    const third = new MemoryVectorStore({
+      embeddingProvider: otherModel,
+      embeddingCache: new EmbeddingCache({ dir }),
+    });
+    await third.addDocument({ id: 'a', content: 'layer normalization' });
+    expect(otherModel.embed).toHaveBeenCalledTimes(1);
+    expect(await readdir(dir)).toHaveLength(2);
+  });
+
+  it('should evict the least recently used entries beyond the size limit', async () => {
+    const provider = createProvider();
+    // 16 dimensions take 64 bytes per vector plus overhead: room for two entries
+    const cache = new EmbeddingCache({ dir, maxSizeBytes: 400 });
+
+    await cache.set(provider, ['one'], [new Array(16).fill(1)]);
+    await sleep(2);
+    await cache.set(provider, ['two'], [new Array(16).fill(2)]);
+    await cache.set(provider, ['three'], [new Array(16).fill(3)]);
+    await cache.flush();
+
+    const reloaded = new EmbeddingCache({ dir });
+    const [one, two, three] = await reloaded.get(provider, ['one', 'two', 'three']);
+    expect(one).toBeUndefined();
+    expect(two).toBeDefined();
+    expect(three?.[0]).toBe(3);
+  });
+
+  it('should prune entries by age and size', async () => {
+    const provider = createProvider();
+    const cache = new EmbeddingCache({ dir });
+    await cache.set(provider, ['one', 'two'], [new Array(16).fill(1), new Array(16).fill(2)]);
+    await cache.flush();
+
+    const pruned = await new EmbeddingCache({ dir }).prune({
+      unusedSince: new Date(Date.now() + 1000),
+    });
+    expect(pruned.removed).toBe(2);
+    expect(pruned.stats.entries).toBe(0);
+
+    const [one] = await new EmbeddingCache({ dir }).get(provider, ['one']);
+    expect(one).toBeUndefined();
+  });
+
+  it('should start over when a cache file is damaged', async () => {
+    const provider = createProvider();
+    const cache = new EmbeddingCache({ dir });
+    await cache.set(provider, ['one'], [new Array(16).fill(1)]);
+    await cache.flush();
+    const [file] = await readdir(dir);
+    await writeFile(join(dir, file), 'garbage');
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const [one] = await new EmbeddingCache({ dir }).get(provider, ['one']);
+    expect(one).toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
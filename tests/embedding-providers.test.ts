@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEmbeddingProvider,
+  HashEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  EmbeddingProvider,
+} from '../src/embedding-providers';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+
+describe('Embedding Providers', () => {
+  describe('HashEmbeddingProvider', () => {
+    it('should produce vectors of the configured dimension', async () => {
+      const provider = new HashEmbeddingProvider({ dimension: 64 });
+      const [embedding] = await provider.embed(['attention is all you need']);
+
+      expect(provider.dimension).toBe(64);
+      expect(embedding).toHaveLength(64);
+    });
+
+    it('should be deterministic across instances', async () => {
+      const [a] = await new HashEmbeddingProvider().embed(['Transformer encoder']);
+      const [b] = await new HashEmbeddingProvider().embed(['Transformer encoder']);
+
+      expect(a).toEqual(b);
+    });
+
+    it('should produce unit-length vectors', async () => {
+      const [embedding] = await new HashEmbeddingProvider().embed(['BLEU on WMT14']);
+      const magnitude = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+
+      expect(magnitude).toBeCloseTo(1, 6);
+    });
+
+    it('should return a zero vector for text without words', async () => {
+      const [embedding] = await new HashEmbeddingProvider({ dimension: 8 }).embed(['  ...  ']);
+      expect(embedding).toEqual(new Array(8).fill(0));
+    });
+
+    it('should record non-default n-gram sizes in the model id', async () => {
+      expect(new HashEmbeddingProvider({ ngramSizes: [3, 4] }).model).toBe('hash-ngram-v1');
+      const provider = new HashEmbeddingProvider({ dimension: 64, ngramSizes: [2, 5] });
+      expect(provider.model).toBe('hash-ngram-v1:2,5');
+
+      const reopened = createEmbeddingProvider(provider.model, 64);
+      expect(reopened.model).toBe('hash-ngram-v1:2,5');
+      expect(await reopened.embed(['attention'])).toEqual(await provider.embed(['attention']));
+      expect(() => new HashEmbeddingProvider({ ngramSizes: [0] })).toThrow(
+        'ngramSizes must be positive integers'
+      );
+    });
+
+    it('should reject an invalid dimension', () => {
+      expect(() => new HashEmbeddingProvider({ dimension: 0 })).toThrow(
+        'dimension must be a positive integer'
+      );
+    });
+  });
+
+  describe('OpenAI providers', () => {
+    it('should derive the dimension from the model', () => {
+      const provider = new OpenAIEmbeddingProvider({
+        apiKey: 'test-api-key',
+        model: 'text-embedding-3-large',
+      });
+      expect(provider.dimension).toBe(3072);
+    });
+
+    it('should honour requested dimensions', () => {
+      const provider = new OpenAIEmbeddingProvider({ apiKey: 'test-api-key', dimensions: 256 });
+      expect(provider.dimension).toBe(256);
+    });
+
+    it('should reject unknown models without explicit dimensions', () => {
+      expect(
+        () => new OpenAIEmbeddingProvider({ apiKey: 'test-api-key', model: 'my-embedder' })
+      ).toThrow('Unknown dimension');
+    });
+
+    it('should not require an API key for OpenAI-compatible endpoints', () => {
+      const provider = new OpenAICompatibleEmbeddingProvider({
+        baseURL: 'http://localhost:11434/v1',
+        model: 'nomic-embed-text',
+        dimension: 768,
+      });
+      expect(provider.model).toBe('nomic-embed-text');
+      expect(provider.dimension).toBe(768);
+    });
+  });
+
+  describe('MemoryVectorStore integration', () => {
+    it('should take its dimension and model from the provider', () => {
+      const store = new MemoryVectorStore({
+        embeddingProvider: new HashEmbeddingProvider({ dimension: 128 }),
+      });
+
+      expect(store.getDimension()).toBe(128);
+      expect(store.getEmbeddingModel()).toBe('hash-ngram-v1');
+    });
+
+    it('should ingest and search offline', async () => {
+      const store = new MemoryVectorStore({ embeddingProvider: new HashEmbeddingProvider() });
+
+      await store.addDocuments([
+        { id: 'attention', content: 'Multi-head attention lets the model attend jointly' },
+        { id: 'resnet', content: 'Residual connections ease training of very deep networks' },
+      ]);
+
+      const results = await store.similaritySearch('multi-head attention', { topK: 1 });
+      expect(results[0].document.id).toBe('attention');
+    });
+
+    it('should reject vectors that do not match the provider dimension', async () => {
+      const brokenProvider: EmbeddingProvider = {
+        model: 'broken',
+        dimension: 4,
+        embed: async texts => texts.map(() => [1, 2]),
+      };
+      const store = new MemoryVectorStore({ embeddingProvider: brokenProvider });
+
+      await expect(store.addDocument({ id: 'doc1', content: 'Test' })).rejects.toThrow(
+        'Embedding dimension mismatch'
+      );
+    });
+  });
+});
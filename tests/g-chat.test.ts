@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { GChat, parseSlashCommand } from '../src/g-chat';
+import type { GangstaAgent, GangstaChatOptions } from '../src/gansgta-agent';
+import { joinPages } from '../src/paper-chunker';
+import { PaperLibrary } from '../src/paper-library';
+
+/**
+ * Runs a chat session over the given input lines and returns everything it printed
+ */
+async function runSession(chat: GChat, input: PassThrough, output: PassThrough, lines: string[]) {
+  let printed = '';
+  output.on('data', chunk => (printed += chunk.toString()));
+
+  const done = chat.start();
+  input.end(lines.map(line => `${line}\n`).join(''));
+  await done;
+
+  return printed;
+}
+
+describe('G-Chat', () => {
+  let dir: string;
+  let library: PaperLibrary;
+  let input: PassThrough;
+  let output: PassThrough;
+
+  const fakeAgent = {
+    principles: ['keep it real'],
+    streamResponse: vi.fn(async (prompt: string, options: GangstaChatOptions = {}) => {
+      const sources = (await options.store?.similaritySearch(prompt, { topK: 2 })) || [];
+      options.onToken?.('Attention ');
+      options.onToken?.('is all you need.');
+      return {
+        answer: 'Attention is all you need.',
+        sources,
+        citations: sources.slice(0, 1).map(source => ({
+          chunkId: source.document.id,
+          score: source.score,
+        })),
+        history: [...(options.history || [])],
+        cancelled: false,
+      };
+    }),
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-chat-'));
+    library = new PaperLibrary(dir);
+    await library.addPaper(
+      {
+        ...joinPages([{ number: 1, text: '1 Introduction\nSelf-attention replaces recurrence.' }]),
+        title: 'Attention Is All You Need',
+      },
+      { sourcePath: '/a.pdf', hash: 'aaaaaaaaaa' },
+      { embeddingProvider: new HashEmbeddingProvider({ dimension: 32 }) }
+    );
+    input = new PassThrough();
+    output = new PassThrough();
+    fakeAgent.streamResponse.mockClear();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createChat = () =>
+    new GChat({ agent: fakeAgent as unknown as GangstaAgent, library, input, output });
+
+  describe('parseSlashCommand', () => {
+    it('should parse commands and arguments', () => {
+      expect(parseSlashCommand('/paper  abc def')).toEqual({ name: 'paper', args: ['abc', 'def'] });
+      expect(parseSlashCommand('/EXIT')).toEqual({ name: 'exit', args: [] });
+    });
+
+    it('should treat other lines as messages', () => {
+      expect(parseSlashCommand('what is /dev/null?')).toBeUndefined();
+    });
+  });
+
+  it('should put the whole library in scope by default', async () => {
+    const printed = await runSession(createChat(), input, output, ['/exit']);
+
+    expect(printed).toContain('Papers in scope:');
+    expect(printed).toContain('Attention Is All You Need');
+  });
+
+  it('should stream answers and show their sources', async () => {
+    const printed = await runSession(createChat(), input, output, [
+      'why attention?',
+      '/sources',
+      '/exit',
+    ]);
+
+    expect(fakeAgent.streamResponse).toHaveBeenCalledTimes(1);
+    expect(printed).toContain('G> Attention is all you need.');
+    expect(printed).toMatch(
+      /\* \[1\] attention-is-all-you-need-aaaaaaaa#0 {2}1 Introduction, p\. 1/
+    );
+  });
+
+  it('should print the principles', async () => {
+    const printed = await runSession(createChat(), input, output, ['/principles', '/exit']);
+    expect(printed).toContain('- keep it real');
+  });
+
+  it('should save the transcript as Markdown', async () => {
+    const file = join(dir, 'chat.md');
+    await runSession(createChat(), input, output, ['why attention?', `/save ${file}`, '/exit']);
+
+    const transcript = await readFile(file, 'utf-8');
+    expect(transcript).toContain('## You\n\nwhy attention?');
+    expect(transcript).toContain('## The G\n\nAttention is all you need.');
+  });
+
+  it('should report unknown commands and stop at the end of input', async () => {
+    const printed = await runSession(createChat(), input, output, ['/dance']);
+    expect(printed).toContain('Unknown command /dance');
+  });
+});
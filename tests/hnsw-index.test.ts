@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { HnswIndex } from '../src/hnsw-index';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+
+/**
+ * Deterministic pseudo-random vectors
+ */
+function randomVectors(count: number, dimension: number, seed = 1): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+function exactTopK(vectors: Map<string, number[]>, query: number[], k: number): string[] {
+  return [...vectors.entries()]
+    .map(([id, vector]) => ({ id, score: cosine(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(match => match.id);
+}
+
+function recall(index: HnswIndex, vectors: Map<string, number[]>, queries: number[][]): number {
+  let hits = 0;
+  for (const query of queries) {
+    const expected = new Set(exactTopK(vectors, query, 10));
+    hits += index.search(query, 10).filter(match => expected.has(match.id)).length;
+  }
+  return hits / (queries.length * 10);
+}
+
+describe('HnswIndex', () => {
+  const vectors = new Map(randomVectors(400, 16).map((vector, i) => [`v${i}`, vector]));
+  const queries = randomVectors(20, 16, 7);
+
+  const buildIndex = () => {
+    const index = new HnswIndex({ m: 8, efConstruction: 64 });
+    vectors.forEach((vector, id) => index.add(id, vector));
+    return index;
+  };
+
+  it('should find the nearest neighbours with high recall', () => {
+    const index = buildIndex();
+    expect(index.size).toBe(400);
+    expect(recall(index, vectors, queries)).toBeGreaterThan(0.9);
+
+    const [best] = index.search(vectors.get('v5')!, 1);
+    expect(best.id).toBe('v5');
+    expect(best.score).toBeCloseTo(1, 6);
+  });
+
+  it('should stay navigable after removals', () => {
+    const index = buildIndex();
+    const remaining = new Map(vectors);
+    for (let i = 0; i < 400; i += 3) {
+      expect(index.remove(`v${i}`)).toBe(true);
+      remaining.delete(`v${i}`);
+    }
+
+    expect(index.remove('v0')).toBe(false);
+    expect(index.size).toBe(remaining.size);
+    for (const query of queries) {
+      expect(index.search(query, 10).every(match => remaining.has(match.id))).toBe(true);
+    }
+    expect(recall(index, remaining, queries)).toBeGreaterThan(0.9);
+  });
+
+  it('should restore the same graph from a snapshot', () => {
+    const index = buildIndex();
+    const restored = HnswIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())), id =>
+      vectors.get(id)
+    );
+
+    for (const query of queries) {
+      expect(restored.search(query, 5)).toEqual(index.search(query, 5));
+    }
+  });
+
+  it('should validate its parameters', () => {
+    expect(() => new HnswIndex({ m: 1 })).toThrow(/at least 2/);
+    expect(() => new HnswIndex({ efSearch: 0 })).toThrow(/positive/);
+  });
+});
+
+describe('MemoryVectorStore with an HNSW index', () => {
+  let dir: string;
+  const embeddingProvider = new HashEmbeddingProvider({ dimension: 64 });
+  const topics = [
+    'transformers use self-attention',
+    'residual networks ease deep training',
+    'dropout prevents overfitting',
+    'batch normalization stabilizes training',
+    'convolutions share weights across positions',
+    'recurrent networks process sequences step by step',
+  ];
+
+  const createStore = async () => {
+    const store = new MemoryVectorStore({ embeddingProvider, hnsw: { m: 4, efConstruction: 32 } });
+    await store.addDocuments(
+      topics.map((content, i) => ({ id: `doc${i}`, content, metadata: { even: i % 2 === 0 } }))
+    );
+    return store;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-hnsw-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return the same results as an exact search', async () => {
+    const store = await createStore();
+    for (const query of ['self-attention', 'deep residual training', 'sequences']) {
+      const approximate = await store.similaritySearch(query, { topK: 3 });
+      const exact = await store.similaritySearch(query, { topK: 3, exact: true });
+      expect(approximate.map(r => r.document.id)).toEqual(exact.map(r => r.document.id));
+      approximate.forEach((result, i) => expect(result.score).toBeCloseTo(exact[i].score, 10));
+    }
+  });
+
+  it('should keep the index in sync with deletes and imports', async () => {
+    const store = await createStore();
+    store.deleteDocument('doc0');
+    const results = await store.similaritySearch('transformers use self-attention', { topK: 6 });
+    expect(results.map(r => r.document.id)).not.toContain('doc0');
+
+    const other = new MemoryVectorStore({ embeddingProvider, hnsw: {} });
+    other.import(store.export());
+    const [top] = await other.similaritySearch('dropout prevents overfitting', { topK: 1 });
+    expect(top.document.id).toBe('doc2');
+  });
+
+  it('should apply filters to the index candidates', async () => {
+    const store = await createStore();
+    const results = await store.similaritySearch('training', {
+      topK: 3,
+      filter: doc => doc.metadata?.even === true,
+    });
+    expect(results).toHaveLength(3);
+    expect(results.every(r => r.document.metadata?.even)).toBe(true);
+  });
+
+  it('should persist the index with incremental changes', async () => {
+    const file = join(dir, 'store.rgvs');
+    const store = await createStore();
+    await store.save(file);
+    await store.addDocument({ id: 'doc6', content: 'attention heads attend to tokens' });
+    store.deleteDocument('doc1');
+    await store.save(file, { incremental: true });
+
+    const loaded = new MemoryVectorStore({ embeddingProvider, hnsw: { m: 4, efConstruction: 32 } });
+    await loaded.load(file);
+    const approximate = await loaded.similaritySearch('attention', { topK: 6 });
+    const exact = await loaded.similaritySearch('attention', { topK: 6, exact: true });
+    expect(approximate.map(r => r.document.id)).toEqual(exact.map(r => r.document.id));
+    expect(approximate.map(r => r.document.id)).not.toContain('doc1');
+  });
+});
@@ -6,16 +6,18 @@ vi.mock('openai', () => {
   return {
     default: class OpenAI {
       embeddings = {
-        create: vi.fn().mockImplementation(({ input }: { input: string }) => {
+        create: vi.fn().mockImplementation(({ input }: { input: string | string[] }) => {
           // Generate a simple deterministic "embedding" based on text length and content
           // For testing purposes only
-          const embedding = new Array(1536).fill(0).map((_, i) => {
-            return (input.charCodeAt(i % input.length) / 255 + i / 1536) / 2;
-          });
-
-          return Promise.resolve({
-            data: [{ embedding }],
-          });
+          const inputs = Array.isArray(input) ? input : [input];
+          const data = inputs.map((text, index) => ({
+            index,
+            embedding: new Array(1536).fill(0).map((_, i) => {
+              return (text.charCodeAt(i % text.length) / 255 + i / 1536) / 2;
+            }),
+          }));
+
+          return Promise.resolve({ data });
         }),
       };
     },
@@ -237,6 +239,87 @@ describe('MemoryVectorStore', () => {
     });
   });
 
+  describe('Diversity', () => {
+    // Embeddings with the given leading components, padded to the mocked dimension
+    const vector = (...components: number[]) => [
+      ...components,
+      ...new Array(1536 - components.length).fill(0),
+    ];
+
+    beforeEach(() => {
+      store.import([
+        {
+          id: 'intro-1',
+          content: 'Attention is all you need',
+          metadata: { paperId: 'p1', section: 'Introduction' },
+          embedding: vector(1, 0.01, 0),
+        },
+        {
+          id: 'intro-2',
+          content: 'Attention is all you need, really',
+          metadata: { paperId: 'p1', section: 'Introduction' },
+          embedding: vector(1, 0.02, 0),
+        },
+        {
+          id: 'method',
+          content: 'Multi-head attention',
+          metadata: { paperId: 'p1', section: 'Method' },
+          embedding: vector(0, 1, 0),
+        },
+        {
+          id: 'other-intro',
+          content: 'Recurrent networks',
+          metadata: { paperId: 'p2', section: 'Introduction' },
+          embedding: vector(0.9, 0, 0.5),
+        },
+      ]);
+    });
+
+    it('should prefer diverse results with MMR', () => {
+      const query = vector(1, 1, 0);
+
+      const plain = store.similaritySearchByVector(query, { topK: 2 });
+      expect(plain.map(result => result.document.id)).toEqual(['intro-2', 'intro-1']);
+
+      const diverse = store.similaritySearchByVector(query, { topK: 2, mmr: true });
+      expect(diverse.map(result => result.document.id)).toEqual(['intro-2', 'method']);
+      // Scores stay similarities to the query
+      expect(diverse[1].score).toBeCloseTo(Math.SQRT1_2, 5);
+    });
+
+    it('should only rank by relevance with an MMR lambda of 1', () => {
+      const results = store.similaritySearchByVector(vector(1, 1, 0), {
+        topK: 2,
+        mmr: true,
+        mmrLambda: 1,
+      });
+      expect(results.map(result => result.document.id)).toEqual(['intro-2', 'intro-1']);
+      expect(() =>
+        store.similaritySearchByVector(vector(1, 1, 0), { mmr: true, mmrLambda: 2 })
+      ).toThrow('MMR lambda must be between 0 and 1');
+    });
+
+    it('should cap results per metadata value', () => {
+      const query = vector(1, 0, 0);
+
+      const perSection = store.similaritySearchByVector(query, {
+        topK: 4,
+        maxPer: { section: 1 },
+      });
+      expect(perSection.map(result => result.document.id)).toEqual(['intro-1', 'method']);
+
+      const perPaperSection = store.similaritySearchByVector(query, {
+        topK: 4,
+        maxPer: { 'paperId,section': 1 },
+      });
+      expect(perPaperSection.map(result => result.document.id)).toEqual([
+        'intro-1',
+        'other-intro',
+        'method',
+      ]);
+    });
+  });
+
   describe('Import/Export', () => {
     it('should export documents', async () => {
       await store.addDocuments([
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+import {
+  matchesMetadataFilter,
+  MetadataFilterError,
+  parseMetadataFilter,
+} from '../src/metadata-filter';
+
+const chunk = {
+  paperId: 'attention',
+  section: 'Results',
+  pageStart: 8,
+  tags: ['translation', 'bleu'],
+  source: { venue: 'NeurIPS', year: 2017 },
+};
+
+describe('Metadata filters', () => {
+  it('should match field conditions', () => {
+    expect(matchesMetadataFilter(chunk, { paperId: 'attention' })).toBe(true);
+    expect(matchesMetadataFilter(chunk, { paperId: { in: ['bert', 'attention'] } })).toBe(true);
+    expect(matchesMetadataFilter(chunk, { section: { ne: 'References' } })).toBe(true);
+    expect(matchesMetadataFilter(chunk, { section: { nin: ['Results'] } })).toBe(false);
+    expect(matchesMetadataFilter(chunk, { pageStart: { range: { gte: 5, lt: 8 } } })).toBe(false);
+    expect(matchesMetadataFilter(chunk, { pageStart: { range: { gt: '5' } } })).toBe(false);
+    expect(matchesMetadataFilter(chunk, { tags: 'bleu' })).toBe(true);
+    expect(matchesMetadataFilter(chunk, { figure: { exists: false } })).toBe(true);
+    expect(matchesMetadataFilter(undefined, { section: { ne: 'References' } })).toBe(true);
+  });
+
+  it('should read nested paths', () => {
+    expect(matchesMetadataFilter(chunk, { 'source.year': { range: { gte: 2017 } } })).toBe(true);
+    expect(matchesMetadataFilter(chunk, { 'source.venue.name': { exists: true } })).toBe(false);
+    expect(matchesMetadataFilter({ 'a.b': 1 }, { 'a.b': 1 })).toBe(true);
+  });
+
+  it('should combine filters with and, or and not', () => {
+    expect(
+      matchesMetadataFilter(chunk, {
+        or: [{ section: 'Abstract' }, { and: [{ paperId: 'attention' }, { pageStart: 8 }] }],
+      })
+    ).toBe(true);
+    expect(matchesMetadataFilter(chunk, { not: { section: 'Results' } })).toBe(false);
+    expect(matchesMetadataFilter(chunk, {})).toBe(true);
+  });
+
+  it('should parse JSON and report invalid filters with their path', () => {
+    expect(parseMetadataFilter('{"section":{"ne":"References"}}')).toEqual({
+      section: { ne: 'References' },
+    });
+
+    expect(() => parseMetadataFilter('{section: 1}')).toThrow(MetadataFilterError);
+    expect(() => parseMetadataFilter('{section: 1}')).toThrow('not valid JSON');
+    expect(() => parseMetadataFilter({ and: [{ page: { between: [1, 2] } }] })).toThrow(
+      "Invalid metadata filter: and[0].page: Unrecognized key(s) in object: 'between'"
+    );
+    expect(() => parseMetadataFilter({ page: { range: {} } })).toThrow(
+      'page.range: range needs at least one of gt, gte, lt, lte'
+    );
+    expect(() => parseMetadataFilter({ or: [] })).toThrow('or:');
+    expect(() => parseMetadataFilter([{ section: 'Results' }])).toThrow(MetadataFilterError);
+  });
+
+  it('should filter searches before scoring', async () => {
+    const store = new MemoryVectorStore({
+      embeddingProvider: new HashEmbeddingProvider({ dimension: 32 }),
+    });
+    await store.addDocuments([
+      { id: 'a', content: 'BLEU on WMT14', metadata: { paperId: 'p1', section: 'Results' } },
+      { id: 'b', content: 'BLEU on WMT14', metadata: { paperId: 'p1', section: 'References' } },
+      { id: 'c', content: 'BLEU on WMT14', metadata: { paperId: 'p2', section: 'Results' } },
+    ]);
+
+    const where = { paperId: { in: ['p1'] }, section: { ne: 'References' } };
+    const semantic = await store.similaritySearch('BLEU', { topK: 3, where });
+    expect(semantic.map(result => result.document.id)).toEqual(['a']);
+
+    const hybrid = await store.hybridSearch('BLEU', {
+      topK: 3,
+      where: { section: 'Results' },
+      filter: doc => doc.id !== 'c',
+    });
+    expect(hybrid.map(result => result.document.id)).toEqual(['a']);
+
+    await expect(
+      store.similaritySearch('BLEU', { where: { section: { like: 'Res%' } } as never })
+    ).rejects.toThrow(MetadataFilterError);
+  });
+});
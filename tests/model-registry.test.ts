@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Agent } from '@openai/agents';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { GangstaAgent } from '../src/gansgta-agent';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+import {
+  loadModelRegistry,
+  ModelRegistry,
+  ModelRegistryError,
+  modelRegistry,
+  promptBudget,
+} from '../src/model-registry';
+
+const run = vi.hoisted(() => vi.fn());
+vi.mock('@openai/agents', async importOriginal => ({
+  ...(await importOriginal<typeof import('@openai/agents')>()),
+  run,
+}));
+
+const tinyModel = {
+  id: 'tiny',
+  baseURL: 'http://localhost:11434/v1',
+  model: 'tiny:1b',
+  contextWindow: 600,
+  maxOutputTokens: 100,
+};
+
+describe('Model Registry', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-models-'));
+    run.mockReset();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should register models with capability defaults', () => {
+    const registry = new ModelRegistry();
+    registry.register(tinyModel);
+    registry.register({ id: 'gpt-4o', provider: 'openai', contextWindow: 128000 });
+
+    expect(registry.get('tiny')).toMatchObject({
+      provider: 'openai-compatible',
+      capabilities: { tools: false, structuredOutput: false, streaming: true },
+    });
+    expect(registry.get('gpt-4o')?.capabilities).toEqual({
+      tools: true,
+      structuredOutput: true,
+      streaming: true,
+    });
+    expect(promptBudget(registry.get('tiny')!)).toBe(500);
+    expect(promptBudget(registry.get('gpt-4o')!)).toBe(96000);
+    expect(modelRegistry.ids()).toContain('gpt-4.1-mini');
+
+    expect(() => registry.register({ id: 'local', contextWindow: 4096 })).toThrow(
+      new ModelRegistryError(
+        'Invalid model "local": baseURL: baseURL is required for OpenAI-compatible models'
+      )
+    );
+    expect(() => registry.register({ ...tinyModel, contextWindow: 0 })).toThrow(
+      /contextWindow: Number must be greater than 0/
+    );
+  });
+
+  it('should load models from the library', async () => {
+    await writeFile(
+      join(dir, 'models.yaml'),
+      [
+        'models:',
+        '  - id: llama3.1',
+        '    baseURL: http://localhost:11434/v1',
+        '    contextWindow: 131072',
+        '    capabilities:',
+        '      structuredOutput: true',
+        '  - id: gpt-4.1',
+        '    provider: openai',
+        '    contextWindow: 200000',
+      ].join('\n')
+    );
+    await writeFile(join(dir, 'models.json'), JSON.stringify([tinyModel]));
+
+    const registry = await loadModelRegistry(dir);
+
+    expect(registry.ids().slice(0, 3)).toEqual(['gpt-4.1', 'gpt-4.1-nano', 'gpt-4.1-mini']);
+    expect(registry.ids().slice(-2)).toEqual(['tiny', 'llama3.1']);
+    expect(registry.get('gpt-4.1')?.contextWindow).toBe(200000);
+    expect(registry.get('llama3.1')?.capabilities.structuredOutput).toBe(true);
+
+    await writeFile(join(dir, 'models.json'), '{"id": "tiny"}');
+    await expect(loadModelRegistry(dir)).rejects.toThrow('must contain a list of models');
+  });
+
+  describe('GangstaAgent', () => {
+    let store: MemoryVectorStore;
+    let agent: GangstaAgent;
+
+    beforeEach(async () => {
+      const registry = new ModelRegistry([]);
+      registry.register({ ...tinyModel, capabilities: { streaming: false } });
+      agent = new GangstaAgent({
+        name: 'The G',
+        description: 'Test',
+        principles: [],
+        model: 'tiny',
+        modelRegistry: registry,
+      });
+
+      store = new MemoryVectorStore({
+        embeddingProvider: new HashEmbeddingProvider({ dimension: 64 }),
+      });
+      await store.addDocuments(
+        Array.from({ length: 5 }, (_, i) => ({
+          id: `paper#${i}`,
+          content: `Attention section ${i}. ${'Transformers attend to every token. '.repeat(12)}`,
+          metadata: { paperId: 'paper', section: `Section ${i}` },
+        }))
+      );
+    });
+
+    it('should only accept models of its registry', () => {
+      expect(
+        () => new GangstaAgent({ name: 'G', description: 'Test', principles: [], model: 'tiny' })
+      ).toThrow(/Invalid model\. Supported models: gpt-4\.1,/);
+      expect(
+        () =>
+          new GangstaAgent({
+            name: 'G',
+            description: 'Test',
+            principles: [],
+            model: 'gpt-4.1',
+            modelRegistry: new ModelRegistry([]),
+          })
+      ).toThrow('Invalid model. Supported models: ');
+    });
+
+    it('should fit the excerpts into the context window', async () => {
+      run.mockResolvedValue({ finalOutput: 'Answer [paper#0]' });
+
+      const result = await agent.streamResponse('What is attention?', { store, topK: 5 });
+
+      expect(result.sources.length).toBeGreaterThan(0);
+      expect(result.sources.length).toBeLessThan(5);
+      // Models that cannot stream are run without streaming, nor tools they cannot call
+      expect(run.mock.calls[0][2]).toEqual({ signal: undefined });
+      expect((run.mock.calls[0][0] as Agent).tools).toEqual([]);
+      expect(result.answer).toBe('Answer [paper#0]');
+    });
+
+    it('should refuse structured output the model does not support', async () => {
+      await expect(agent.digest(store, { paperId: 'paper' })).rejects.toThrow(
+        new ModelRegistryError(
+          'Model "tiny" cannot write digests: it does not support structured output'
+        )
+      );
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { chunkPaper, detectSections, joinPages, estimateTokens } from '../src/paper-chunker';
+
+const paragraph = (words: number, seed: string) =>
+  Array.from({ length: words }, (_, i) => `${seed}${i}`).join(' ') + '.';
+
+const paper = joinPages([
+  {
+    number: 1,
+    text: [
+      'Attention Is All You Need',
+      'Ashish Vaswani, Noam Shazeer',
+      '',
+      'Abstract',
+      'The dominant sequence transduction models are based on recurrent networks.',
+      '',
+      '1 Introduction',
+      'Recurrent neural networks have been firmly established.',
+    ].join('\n'),
+  },
+  {
+    number: 2,
+    text: [
+      '3.1 Scaled Dot-Product Attention',
+      'We call our particular attention "Scaled Dot-Product Attention".',
+      '',
+      'References',
+      '[1] Jimmy Lei Ba, Jamie Ryan Kiros. Layer normalization. 2016.',
+      '',
+      'A Additional Experiments',
+      'We report further ablations here.',
+    ].join('\n'),
+  },
+]);
+
+describe('Paper Chunker', () => {
+  describe('joinPages', () => {
+    it('should record page offsets into the joined text', () => {
+      const joined = joinPages([
+        { number: 1, text: 'first' },
+        { number: 2, text: 'second' },
+      ]);
+
+      expect(joined.text).toBe('first\n\nsecond');
+      expect(joined.pages).toEqual([
+        { number: 1, start: 0, end: 5 },
+        { number: 2, start: 7, end: 13 },
+      ]);
+    });
+  });
+
+  describe('detectSections', () => {
+    it('should detect front matter, abstract, sections, references and appendix', () => {
+      const sections = detectSections(paper.text);
+
+      expect(sections.map(s => [s.kind, s.title])).toEqual([
+        ['front-matter', 'Front Matter'],
+        ['abstract', 'Abstract'],
+        ['section', '1 Introduction'],
+        ['section', '3.1 Scaled Dot-Product Attention'],
+        ['references', 'References'],
+        ['appendix', 'A Additional Experiments'],
+      ]);
+    });
+
+    it('should cover the whole text without gaps', () => {
+      const sections = detectSections(paper.text);
+
+      expect(sections[0].start).toBe(0);
+      expect(sections[sections.length - 1].end).toBe(paper.text.length);
+      for (let i = 1; i < sections.length; i++) {
+        expect(sections[i].start).toBe(sections[i - 1].end);
+      }
+    });
+
+    it('should not treat sentences starting with a number as headings', () => {
+      const sections = detectSections(
+        'Intro text\n3 of the 12 runs diverged, so we report the rest.'
+      );
+      expect(sections).toHaveLength(1);
+      expect(sections[0].kind).toBe('front-matter');
+    });
+
+    it('should not treat numbered table rows as headings', () => {
+      const sections = detectSections(
+        '1 Introduction\nLayout:\n2 CARD16 MAJOR_VERSION 1\n4 Bytes 32'
+      );
+      expect(sections.map(s => s.title)).toEqual(['1 Introduction']);
+    });
+  });
+
+  describe('chunkPaper', () => {
+    it('should tag chunks with section, page and offset metadata', () => {
+      const chunks = chunkPaper(paper, { paperId: 'vaswani2017' });
+      const intro = chunks.find(c => c.metadata?.section === '1 Introduction');
+
+      expect(intro).toBeDefined();
+      expect(intro?.id).toMatch(/^vaswani2017#\d+$/);
+      expect(intro?.metadata).toMatchObject({
+        paperId: 'vaswani2017',
+        sectionKind: 'section',
+        pageStart: 1,
+        pageEnd: 1,
+      });
+      expect(paper.text.slice(intro?.metadata?.charStart, intro?.metadata?.charEnd)).toBe(
+        intro?.content
+      );
+    });
+
+    it('should never cross a section boundary', () => {
+      const chunks = chunkPaper(paper, { paperId: 'p' });
+      const references = chunks.filter(c => c.metadata?.sectionKind === 'references');
+
+      expect(references).toHaveLength(1);
+      expect(references[0].content).not.toContain('Additional Experiments');
+      expect(references[0].metadata?.pageStart).toBe(2);
+    });
+
+    it('should split long sections within the token budget with overlap', () => {
+      const long = joinPages([
+        {
+          number: 1,
+          text: ['1 Introduction', paragraph(200, 'alpha'), '', paragraph(200, 'beta')].join('\n'),
+        },
+      ]);
+
+      const chunks = chunkPaper(long, { paperId: 'p', maxTokens: 200, overlapTokens: 20 });
+
+      expect(chunks.length).toBeGreaterThan(2);
+      chunks.forEach(chunk => {
+        expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(200);
+      });
+      for (let i = 1; i < chunks.length; i++) {
+        expect(chunks[i].metadata?.charStart).toBeLessThan(chunks[i - 1].metadata?.charEnd);
+      }
+    });
+
+    it('should reject an overlap that is not smaller than the budget', () => {
+      expect(() => chunkPaper(paper, { paperId: 'p', maxTokens: 10, overlapTokens: 10 })).toThrow(
+        'overlapTokens'
+      );
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Agent } from '@openai/agents';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { GangstaAgent } from '../src/gansgta-agent';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+import { chunkPaper, joinPages } from '../src/paper-chunker';
+import {
+  ComparisonMatrix,
+  ComparisonMatrixSchema,
+  ComparisonRow,
+  formatComparisonMarkdown,
+  resolveComparison,
+} from '../src/paper-comparison';
+
+const run = vi.hoisted(() => vi.fn());
+vi.mock('@openai/agents', async importOriginal => ({
+  ...(await importOriginal<typeof import('@openai/agents')>()),
+  run,
+}));
+
+const empty = { text: '', sources: [] };
+
+const row = (paperId: string, title: string, cells: Partial<ComparisonRow> = {}) => ({
+  paperId,
+  title,
+  problem: empty,
+  approach: empty,
+  datasets: empty,
+  metrics: empty,
+  results: empty,
+  limitations: empty,
+  ...cells,
+});
+
+const matrix: ComparisonMatrix = {
+  papers: [
+    row('bert', 'BERT', {
+      approach: { text: 'Bidirectional encoder | masked LM', sources: ['bert#1', 'attention#1'] },
+    }),
+    row('attention', 'Attention Is All You Need', {
+      approach: { text: 'Self-attention only', sources: ['[attention#1]'] },
+      results: { text: '28.4 BLEU on WMT 2014', sources: ['attention#2', 'attention#9'] },
+    }),
+  ],
+};
+
+describe('Paper Comparison', () => {
+  it('should align rows with the compared papers and their own chunks', () => {
+    const resolved = resolveComparison(
+      matrix,
+      [
+        { paperId: 'attention', title: 'attention' },
+        { paperId: 'bert', title: 'bert' },
+        { paperId: 'gpt', title: 'GPT' },
+      ],
+      ['attention#1', 'attention#2', 'bert#1']
+    );
+
+    expect(resolved.papers.map(p => [p.paperId, p.title])).toEqual([
+      ['attention', 'Attention Is All You Need'],
+      ['bert', 'BERT'],
+      ['gpt', 'GPT'],
+    ]);
+    expect(resolved.papers[0].approach.sources).toEqual(['attention#1']);
+    expect(resolved.papers[0].results.sources).toEqual(['attention#2']);
+    // A cell cites chunks of its own paper only
+    expect(resolved.papers[1].approach.sources).toEqual(['bert#1']);
+    expect(resolved.papers[2].problem).toEqual(empty);
+    expect(matrix.papers[1].approach.sources).toEqual(['[attention#1]']);
+  });
+
+  it('should format the matrix as a Markdown table', () => {
+    const markdown = formatComparisonMarkdown(matrix, [
+      { chunkId: 'attention#2', section: '6 Results', page: 8, pageEnd: 8, score: 1 },
+    ]);
+
+    expect(markdown).toContain(
+      '| Aspect | BERT (bert) | Attention Is All You Need (attention) |\n'
+    );
+    expect(markdown).toContain('| --- | --- | --- |\n');
+    expect(markdown).toContain(
+      '| **Approach** | Bidirectional encoder \\| masked LM [bert#1, attention#1] | Self-attention only [[attention#1]] |'
+    );
+    expect(markdown).toContain('| **Limitations** | - | - |\n');
+    expect(markdown).toContain('## Sources\n\n- [attention#2] 6 Results, p. 8\n');
+  });
+
+  describe('GangstaAgent.compare', () => {
+    let store: MemoryVectorStore;
+    let agent: GangstaAgent;
+
+    beforeEach(async () => {
+      run.mockReset();
+      agent = new GangstaAgent({
+        name: 'The G',
+        description: 'Test',
+        principles: [],
+        model: 'gpt-4.1',
+      });
+      store = new MemoryVectorStore({
+        embeddingProvider: new HashEmbeddingProvider({ dimension: 64 }),
+      });
+      const papers = {
+        attention: ['Abstract\nSelf-attention for translation.', '6 Results\n28.4 BLEU.'],
+        bert: ['Abstract\nPre-training bidirectional encoders.', '5 Results\nGLUE score 80.5.'],
+      };
+      for (const [paperId, pages] of Object.entries(papers)) {
+        const paper = joinPages(pages.map((text, i) => ({ number: i + 1, text })));
+        await store.addDocuments(
+          chunkPaper(paper, { paperId, maxTokens: 16, overlapTokens: 0 }).map(chunk => ({
+            ...chunk,
+            metadata: { ...chunk.metadata, title: paperId.toUpperCase() },
+          }))
+        );
+      }
+    });
+
+    it('should retrieve evidence from every paper and validate the matrix', async () => {
+      run.mockResolvedValue({ finalOutput: matrix });
+
+      const result = await agent.compare(store, ['attention', 'bert']);
+
+      const [model, prompt] = run.mock.calls[0] as [Agent<unknown, unknown>, string];
+      expect(model.outputType).toBe(ComparisonMatrixSchema);
+      expect(prompt).toContain('Excerpts from the papers:');
+      expect(prompt).toContain('Compare these papers: attention (ATTENTION), bert (BERT).');
+      expect(prompt).toContain('28.4 BLEU');
+      expect(prompt).toContain('GLUE score 80.5');
+      expect(prompt.indexOf('[attention#1]')).toBeLessThan(prompt.indexOf('[bert#0]'));
+
+      expect(result.matrix.papers.map(p => p.paperId)).toEqual(['attention', 'bert']);
+      expect(result.citations.map(citation => citation.chunkId)).toEqual(['attention#1', 'bert#1']);
+    });
+
+    it('should compare two to five papers', async () => {
+      await expect(agent.compare(store, ['attention', 'attention'])).rejects.toThrow(
+        'Compare 2 to 5 papers, got 1'
+      );
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+});
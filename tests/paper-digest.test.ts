@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Agent } from '@openai/agents';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { GangstaAgent } from '../src/gansgta-agent';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+import { chunkPaper, joinPages } from '../src/paper-chunker';
+import {
+  digestChunkIds,
+  formatDigestMarkdown,
+  PaperDigest,
+  PaperDigestSchema,
+  resolveDigestSources,
+} from '../src/paper-digest';
+
+const run = vi.hoisted(() => vi.fn());
+vi.mock('@openai/agents', async importOriginal => ({
+  ...(await importOriginal<typeof import('@openai/agents')>()),
+  run,
+}));
+
+const digest: PaperDigest = {
+  title: { text: 'Attention Is All You Need', sources: ['attention#0'] },
+  authors: { names: ['Ashish Vaswani', 'Noam Shazeer'], sources: ['attention#0'] },
+  publication: { venue: 'NeurIPS', year: 2017, sources: [] },
+  abstract: { text: 'A model based solely on attention.', sources: ['attention#1'] },
+  problem: { text: '', sources: [] },
+  contributions: [{ text: 'The Transformer.', sources: ['[attention#1]', 'attention#9'] }],
+  methods: [{ text: 'Multi-head self-attention.', sources: ['attention#2'] }],
+  datasets: [{ name: 'WMT 2014', description: 'English-German translation.', sources: [] }],
+  results: [
+    {
+      description: 'Transformer (big) on English-German',
+      metric: 'BLEU',
+      value: 28.4,
+      unit: null,
+      dataset: 'WMT 2014',
+      sources: ['attention#3'],
+    },
+    {
+      description: 'Training cost reduction',
+      metric: 'FLOPs',
+      value: 75,
+      unit: '%',
+      dataset: null,
+      sources: [],
+    },
+  ],
+  limitations: [],
+  openQuestions: [{ text: 'Local attention for images.', sources: ['attention#3'] }],
+};
+
+describe('Paper Digest', () => {
+  it('should validate digests against the schema', () => {
+    expect(PaperDigestSchema.parse(digest)).toEqual(digest);
+    expect(PaperDigestSchema.safeParse({ ...digest, results: [{ value: 'high' }] }).success).toBe(
+      false
+    );
+  });
+
+  it('should keep only citations of retrieved chunks', () => {
+    const resolved = resolveDigestSources(digest, ['attention#0', 'attention#1', 'attention#3']);
+    expect(resolved.contributions[0].sources).toEqual(['attention#1']);
+    expect(resolved.methods[0].sources).toEqual([]);
+    expect(digest.contributions[0].sources).toHaveLength(2);
+    expect(digestChunkIds(resolved)).toEqual(['attention#0', 'attention#1', 'attention#3']);
+  });
+
+  it('should format digests as Markdown', () => {
+    const markdown = formatDigestMarkdown(digest, [
+      { chunkId: 'attention#3', section: '6 Results', page: 8, pageEnd: 9, score: 1 },
+    ]);
+
+    expect(markdown).toContain('# Attention Is All You Need\n');
+    expect(markdown).toContain('**Authors:** Ashish Vaswani, Noam Shazeer [attention#0]');
+    expect(markdown).toContain('**Published:** NeurIPS, 2017\n');
+    expect(markdown).not.toContain('## Problem');
+    expect(markdown).not.toContain('## Limitations');
+    expect(markdown).toContain(
+      '- Transformer (big) on English-German: **28.4** (BLEU, WMT 2014) [attention#3]'
+    );
+    expect(markdown).toContain('- Training cost reduction: **75%** (FLOPs)');
+    expect(markdown).toContain('## Sources\n\n- [attention#3] 6 Results, pp. 8-9\n');
+  });
+
+  describe('GangstaAgent.digest', () => {
+    let store: MemoryVectorStore;
+
+    beforeEach(async () => {
+      run.mockReset();
+      store = new MemoryVectorStore({
+        embeddingProvider: new HashEmbeddingProvider({ dimension: 64 }),
+      });
+      const paper = joinPages([
+        {
+          number: 1,
+          text: [
+            'Attention Is All You Need',
+            'Ashish Vaswani, Noam Shazeer',
+            '',
+            'Abstract',
+            'We propose the Transformer, based solely on attention.',
+            '',
+            '1 Introduction',
+            'Recurrent models preclude parallelization.',
+          ].join('\n'),
+        },
+        { number: 2, text: '6 Results\nThe big model reaches 28.4 BLEU on WMT 2014.' },
+      ]);
+      await store.addDocuments(
+        chunkPaper(paper, { paperId: 'attention', maxTokens: 16, overlapTokens: 0 })
+      );
+    });
+
+    it('should write a digest from retrieved excerpts with structured output', async () => {
+      run.mockResolvedValue({ finalOutput: digest });
+      const agent = new GangstaAgent({
+        name: 'The G',
+        description: 'Test',
+        principles: ['Keep it real.'],
+        model: 'gpt-4.1',
+      });
+
+      const result = await agent.digest(store, { paperId: 'attention' });
+
+      const [model, prompt] = run.mock.calls[0] as [Agent<unknown, unknown>, string];
+      expect(model.outputType).toBe(PaperDigestSchema);
+      expect(prompt).toContain('[attention#0]');
+      expect(prompt).toContain('28.4 BLEU');
+      expect(prompt.indexOf('[attention#0]')).toBeLessThan(prompt.indexOf('28.4 BLEU'));
+
+      expect(result.digest.contributions[0].sources).toEqual(['attention#1']);
+      expect(result.citations.map(citation => [citation.chunkId, citation.page])).toEqual([
+        ['attention#0', 1],
+        ['attention#1', 1],
+        ['attention#2', 1],
+        ['attention#3', 2],
+      ]);
+    });
+
+    it('should reject model output that does not match the schema', async () => {
+      run.mockResolvedValue({ finalOutput: { title: 'Attention' } });
+      const agent = new GangstaAgent({
+        name: 'The G',
+        description: 'Test',
+        principles: [],
+        model: 'gpt-4.1',
+      });
+
+      await expect(agent.digest(store)).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  HashEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+} from '../src/embedding-providers';
+import { joinPages } from '../src/paper-chunker';
+import {
+  LIBRARY_DIR_ENV,
+  PaperLibrary,
+  PaperNotFoundError,
+  resolveLibraryDir,
+} from '../src/paper-library';
+
+const attention = {
+  ...joinPages([
+    {
+      number: 1,
+      text: 'Abstract\nWe propose the Transformer, based solely on attention mechanisms.',
+    },
+    { number: 2, text: '1 Introduction\nRecurrent models preclude parallelization.' },
+  ]),
+  title: 'Attention Is All You Need',
+};
+
+const resnet = joinPages([
+  {
+    number: 1,
+    text: 'Deep Residual Learning for Image Recognition\n\nResidual blocks ease training.',
+  },
+]);
+
+describe('PaperLibrary', () => {
+  let dir: string;
+  let library: PaperLibrary;
+  const options = { embeddingProvider: new HashEmbeddingProvider({ dimension: 64 }) };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-library-'));
+    library = new PaperLibrary(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist a paper with its manifest', async () => {
+    const manifest = await library.addPaper(
+      attention,
+      { sourcePath: '/papers/attention.pdf', hash: 'abcdef0123456789' },
+      options
+    );
+
+    expect(manifest.id).toBe('attention-is-all-you-need-abcdef01');
+    expect(manifest).toMatchObject({
+      title: 'Attention Is All You Need',
+      fileName: 'attention.pdf',
+      pageCount: 2,
+      embeddingModel: 'hash-ngram-v1',
+      embeddingDimension: 64,
+    });
+    expect(manifest.chunkCount).toBeGreaterThan(0);
+    expect(await readdir(join(dir, 'papers', manifest.id))).toEqual(
+      expect.arrayContaining(['manifest.json', 'chunks.rgvs'])
+    );
+  });
+
+  it('should fall back to the first line of the text as title', async () => {
+    const manifest = await library.addPaper(
+      resnet,
+      { sourcePath: '/papers/resnet.pdf', hash: '1111111111' },
+      options
+    );
+    expect(manifest.title).toBe('Deep Residual Learning for Image Recognition');
+  });
+
+  it('should list, find by prefix and remove papers', async () => {
+    await library.addPaper(attention, { sourcePath: '/a.pdf', hash: 'aaaaaaaaaa' }, options);
+    await library.addPaper(resnet, { sourcePath: '/r.pdf', hash: 'bbbbbbbbbb' }, options);
+
+    expect(await library.listPapers()).toHaveLength(2);
+    expect((await library.getPaper('deep')).title).toMatch(/Residual/);
+
+    await library.removePaper('attention');
+    expect(await library.listPapers()).toHaveLength(1);
+    await expect(library.getPaper('attention')).rejects.toThrow(PaperNotFoundError);
+  });
+
+  it('should report ambiguous prefixes', async () => {
+    await library.addPaper(attention, { sourcePath: '/a.pdf', hash: 'aaaaaaaaaa' }, options);
+    await library.addPaper(attention, { sourcePath: '/b.pdf', hash: 'cccccccccc' }, options);
+
+    await expect(library.getPaper('attention')).rejects.toThrow('ambiguous');
+  });
+
+  it('should open a searchable store with the recorded embedder', async () => {
+    const manifest = await library.addPaper(
+      attention,
+      { sourcePath: '/a.pdf', hash: 'aaaaaaaaaa' },
+      options
+    );
+
+    const store = await library.openStore([manifest.id]);
+    const [top] = await store.similaritySearch('recurrent models parallelization', { topK: 1 });
+
+    expect(store.size()).toBe(manifest.chunkCount);
+    expect(top.document.metadata).toMatchObject({
+      paperId: manifest.id,
+      section: '1 Introduction',
+    });
+    await expect(library.openStore([])).rejects.toThrow(
+      'Cannot pick an embedding model for a store without papers'
+    );
+  });
+
+  it('should reopen papers embedded by an OpenAI-compatible server with that server', async () => {
+    const embed = vi
+      .spyOn(OpenAICompatibleEmbeddingProvider.prototype, 'embed')
+      .mockImplementation(async texts => texts.map(() => new Array(8).fill(0.5)));
+    const manifest = await library.addPaper(
+      attention,
+      { sourcePath: '/a.pdf', hash: 'aaaaaaaaaa' },
+      {
+        embeddingProvider: new OpenAICompatibleEmbeddingProvider({
+          baseURL: 'http://localhost:11434/v1',
+          model: 'nomic-embed-text',
+          dimension: 8,
+        }),
+      }
+    );
+    expect(manifest.embeddingBaseURL).toBe('http://localhost:11434/v1');
+
+    embed.mockClear();
+    const store = await library.openStore([manifest.id]);
+    await store.similaritySearch('recurrent models', { topK: 1 });
+    expect(store.getEmbeddingModel()).toBe('nomic-embed-text');
+    expect(embed).toHaveBeenCalledWith(['recurrent models']);
+    embed.mockRestore();
+  });
+
+  it('should store the bibliography and the references each chunk cites', async () => {
+    const paper = joinPages([
+      { number: 1, text: '1 Introduction\nWe build on layer normalization [2].' },
+      {
+        number: 2,
+        text: [
+          'References',
+          '[1] Ashish Vaswani and Noam Shazeer. Attention is all you need. In NeurIPS, 2017.',
+          '[2] Jimmy Lei Ba and Geoffrey E. Hinton. Layer normalization. arXiv:1607.06450, 2016.',
+        ].join('\n'),
+      },
+    ]);
+    const manifest = await library.addPaper(
+      paper,
+      { sourcePath: '/ba.pdf', hash: 'dddddddddd' },
+      options
+    );
+
+    expect(manifest.referenceCount).toBe(2);
+    const { entries, links } = await library.getBibliography(manifest.id);
+    expect(entries.map(entry => entry.id)).toEqual(['vaswani2017attention', 'ba2016layer']);
+    expect(links).toEqual([expect.objectContaining({ marker: '[2]', entryIds: ['ba2016layer'] })]);
+
+    const [intro] = await library.getChunks(manifest.id);
+    expect(intro.metadata?.citedReferences).toEqual([
+      '[2] Ba and Hinton (2016). Layer normalization. arXiv:1607.06450.',
+    ]);
+  });
+
+  it('should return an empty list for a missing library directory', async () => {
+    expect(await new PaperLibrary(join(dir, 'missing')).listPapers()).toEqual([]);
+  });
+
+  describe('resolveLibraryDir', () => {
+    it('should prefer an explicit directory over the environment', () => {
+      const original = process.env[LIBRARY_DIR_ENV];
+      process.env[LIBRARY_DIR_ENV] = '/from/env';
+
+      expect(resolveLibraryDir('/explicit')).toBe('/explicit');
+      expect(resolveLibraryDir()).toBe('/from/env');
+
+      if (original === undefined) {
+        delete process.env[LIBRARY_DIR_ENV];
+      } else {
+        process.env[LIBRARY_DIR_ENV] = original;
+      }
+    });
+  });
+});
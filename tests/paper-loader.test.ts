@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Buffer } from 'buffer';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { chunkPaper } from '../src/paper-chunker';
+import {
+  paperLoaders,
+  parsePaper,
+  sniffMimeType,
+  PaperLoaderRegistry,
+  UnsupportedPaperFormatError,
+} from '../src/paper-loader';
+
+const bytes = (text: string) => Buffer.from(text, 'utf-8');
+
+/**
+ * Builds a minimal ustar archive
+ */
+function tar(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const header = Buffer.alloc(512);
+    const body = bytes(content);
+    header.write(name, 0);
+    header.write('0000644\0', 100);
+    header.write(`${body.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write('0', 156);
+    header.write('ustar\u000000', 257);
+    blocks.push(header, body, Buffer.alloc((512 - (body.length % 512)) % 512));
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+const sectionTitles = (paper: { sections?: { title: string; kind: string }[] }) =>
+  paper.sections?.map(section => [section.title, section.kind]);
+
+describe('Paper Loader', () => {
+  it('should sniff MIME types from file contents', () => {
+    expect(sniffMimeType(bytes('%PDF-1.7\n'))).toBe('application/pdf');
+    expect(sniffMimeType(gzipSync(bytes('x')))).toBe('application/gzip');
+    expect(sniffMimeType(tar({ 'a.tex': 'x' }))).toBe('application/x-tar');
+    expect(sniffMimeType(bytes('<!DOCTYPE html><html></html>'))).toBe('text/html');
+    expect(sniffMimeType(bytes('\\documentclass{article}'))).toBe('application/x-tex');
+    expect(sniffMimeType(bytes('# Notes\n\nText'))).toBe('text/markdown');
+    expect(sniffMimeType(bytes('Just some text.'))).toBe('text/plain');
+    expect(sniffMimeType(Buffer.from([1, 0, 2]))).toBeUndefined();
+  });
+
+  it('should pick loaders by magic bytes, extension, then sniffing', () => {
+    const find = (text: string, name: string) => paperLoaders.find(bytes(text), name)?.name ?? null;
+    expect(find('%PDF-1.7', 'paper.txt')).toBe('pdf');
+    expect(find('# Title', 'notes.txt')).toBe('text');
+    expect(find('<html><body></body></html>', 'download')).toBe('html');
+    expect(find('\\section{Intro}', 'main')).toBe('latex');
+    expect(paperLoaders.find(Buffer.from([1, 0, 2]), 'image.png')).toBeUndefined();
+  });
+
+  it('should let registered loaders take precedence', async () => {
+    const registry = new PaperLoaderRegistry(paperLoaders.list().reverse());
+    registry.register({
+      name: 'upper',
+      extensions: ['.txt'],
+      mimeTypes: [],
+      load: async data => ({
+        text: Buffer.from(data).toString('utf-8').toUpperCase(),
+        pages: [{ number: 1, start: 0, end: data.length }],
+      }),
+    });
+
+    expect((await registry.load(bytes('shout'), 'a.txt')).text).toBe('SHOUT');
+    await expect(registry.load(Buffer.from([0, 1]), 'a.bin')).rejects.toThrow(
+      UnsupportedPaperFormatError
+    );
+    await expect(parsePaper(Buffer.from([0, 1]), 'a.bin')).rejects.toThrow(
+      /Unsupported file type: a\.bin\. Supported: .*\.pdf.*\.tar\.gz/
+    );
+  });
+
+  it('should split plain text into pages at form feeds', async () => {
+    const paper = await parsePaper(bytes('Page one.\fPage two.\r\n'), 'paper.txt');
+    expect(paper.text).toBe('Page one.\n\nPage two.');
+    expect(paper.pages.map(page => paper.text.slice(page.start, page.end))).toEqual([
+      'Page one.',
+      'Page two.',
+    ]);
+  });
+
+  it('should parse Markdown headings into sections', async () => {
+    const paper = await parsePaper(
+      bytes(
+        [
+          '# Attention Is All You Need',
+          'Vaswani et al.',
+          '',
+          'Abstract',
+          '--------',
+          'We propose the **Transformer**, see [the code](https://example.com).',
+          '',
+          '## 1 Introduction',
+          '```',
+          '# not a heading',
+          '```',
+          '## References',
+          '[1] Ba et al. Layer normalization.',
+        ].join('\n')
+      ),
+      'notes.md'
+    );
+
+    expect(paper.title).toBe('Attention Is All You Need');
+    expect(sectionTitles(paper)).toEqual([
+      ['Front Matter', 'front-matter'],
+      ['Abstract', 'abstract'],
+      ['1 Introduction', 'section'],
+      ['References', 'references'],
+    ]);
+    expect(paper.text).toContain('We propose the Transformer, see the code.');
+    expect(paper.text).toContain('# not a heading');
+  });
+
+  it('should parse HTML pages, dropping scripts and keeping math alt text', async () => {
+    const paper = await parsePaper(
+      bytes(`<!DOCTYPE html>
+        <html><head><title>arXiv | Attention</title><script>var x = "<h2>";</script></head>
+        <body><nav>Home</nav>
+        <h1>Attention Is All You Need</h1>
+        <h2>Abstract</h2><p>Sequence models &amp; attention&nbsp;only.</p>
+        <h2>3 Model</h2><p>Scores are <math alttext="\\frac{QK^T}{\\sqrt{d_k}}"><mi>Q</mi></math>.</p>
+        <ul><li>first</li><li>second</li></ul>
+        <footer>Footer links</footer></body></html>`),
+      'page.html'
+    );
+
+    expect(paper.title).toBe('Attention Is All You Need');
+    expect(sectionTitles(paper)).toEqual([
+      ['Front Matter', 'front-matter'],
+      ['Abstract', 'abstract'],
+      ['3 Model', 'section'],
+    ]);
+    expect(paper.text).toContain('Sequence models & attention only.');
+    expect(paper.text).toContain('\\frac{QK^T}{\\sqrt{d_k}}');
+    expect(paper.text).toContain('- first\n- second');
+    expect(paper.text).not.toMatch(/var x|Home|Footer/);
+  });
+
+  describe('LaTeX', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'rg-latex-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const main = [
+      '\\documentclass{article}',
+      '\\title{Attention Is All You Need\\thanks{Work done at Google.}}',
+      '\\begin{document}',
+      '\\maketitle',
+      '\\begin{abstract}',
+      'The Transformer~\\cite{vaswani2017, ba2016} uses attention. % a comment',
+      '\\end{abstract}',
+      '\\input{sections/intro}',
+      '\\bibliography{refs}',
+      '\\appendix',
+      '\\section{Extra Results}',
+      'More in Table~\\ref{tab:1}.',
+      '\\end{document}',
+    ].join('\n');
+    const intro = [
+      '\\section{Introduction}\\label{sec:intro}',
+      'We use \\emph{scaled} attention 50\\% faster -- see',
+      '\\begin{equation}',
+      '  \\mathrm{softmax}(QK^T)',
+      '\\end{equation}',
+      'Caf\\\'e na\\"{\\i}ve.\\footnote{A note.}',
+    ].join('\n');
+    const bbl = [
+      '\\begin{thebibliography}{1}',
+      '\\bibitem{ba2016} J. Ba. Layer normalization. 2016.',
+      '\\end{thebibliography}',
+    ].join('\n');
+
+    const expectAttentionPaper = (paper: Awaited<ReturnType<typeof parsePaper>>) => {
+      expect(paper.title).toBe('Attention Is All You Need');
+      expect(sectionTitles(paper)).toEqual([
+        ['Abstract', 'abstract'],
+        ['Introduction', 'section'],
+        ['References', 'references'],
+        ['Extra Results', 'appendix'],
+      ]);
+      expect(paper.text).toContain('The Transformer [vaswani2017, ba2016] uses attention.');
+      expect(paper.text).toContain('We use scaled attention 50% faster – see');
+      expect(paper.text).toContain('$$ \\mathrm{softmax}(QK^T) $$');
+      expect(paper.text).toContain('Café naïve. (A note.)');
+      expect(paper.text).toContain('[ba2016] J. Ba. Layer normalization. 2016.');
+      expect(paper.text).toContain('More in Table ?.');
+      expect(paper.text).not.toMatch(/comment|sec:intro/);
+    };
+
+    it('should expand \\input files next to a .tex file', async () => {
+      await writeFile(join(dir, 'main.tex'), main);
+      await writeFile(join(dir, 'main.bbl'), bbl);
+      await mkdir(join(dir, 'sections'));
+      await writeFile(join(dir, 'sections', 'intro.tex'), intro);
+
+      expectAttentionPaper(await parsePaper(bytes(main), join(dir, 'main.tex')));
+    });
+
+    it('should read arXiv source tarballs', async () => {
+      const archive = gzipSync(
+        tar({
+          'figures.tex': '\\section{Figures}',
+          'ms.tex': main,
+          'ms.bbl': bbl,
+          'sections/intro.tex': intro,
+        })
+      );
+
+      const paper = await parsePaper(archive, join(dir, '1706.03762.tar.gz'));
+      expectAttentionPaper(paper);
+
+      const chunks = chunkPaper(paper, { paperId: 'attention' });
+      expect(chunks.map(chunk => chunk.metadata.section)).toContain('Introduction');
+    });
+  });
+});
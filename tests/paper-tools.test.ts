@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Agent, FunctionTool, RunContext } from '@openai/agents';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { GangstaAgent } from '../src/gansgta-agent';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+import { joinPages } from '../src/paper-chunker';
+import { PaperLibrary } from '../src/paper-library';
+import { findCaption, formatToolCall, PaperTools, ToolCall } from '../src/paper-tools';
+
+const run = vi.hoisted(() => vi.fn());
+vi.mock('@openai/agents', async importOriginal => ({
+  ...(await importOriginal<typeof import('@openai/agents')>()),
+  run,
+}));
+
+const attention = {
+  ...joinPages([
+    {
+      number: 1,
+      text: [
+        'Abstract',
+        'We propose the Transformer, based solely on attention mechanisms.',
+        '',
+        '1 Introduction',
+        'Recurrent models [1] preclude parallelization within training examples.',
+      ].join('\n'),
+    },
+    {
+      number: 2,
+      text: [
+        '3 Model Architecture',
+        'The encoder maps an input sequence to a sequence of representations, as in Figure 1.',
+        '',
+        'Figure 1: The Transformer - model architecture.',
+        '',
+        'References',
+        '[1] Sepp Hochreiter and Jürgen Schmidhuber. Long short-term memory. Neural Computation, 1997.',
+        '[2] Kaiming He, Xiangyu Zhang, Shaoqing Ren, and Jian Sun. Deep residual learning for image recognition. In CVPR, 2016.',
+      ].join('\n'),
+    },
+  ]),
+  title: 'Attention Is All You Need',
+};
+
+/**
+ * Calls a tool the way the agent runner does, with its arguments as JSON
+ */
+async function invoke(tools: PaperTools, name: string, args: Record<string, unknown>) {
+  const tool = tools.tools.find(candidate => candidate.name === name) as FunctionTool;
+  return String(await tool.invoke(new RunContext(), JSON.stringify(args)));
+}
+
+describe('Paper Tools', () => {
+  let dir: string;
+  let library: PaperLibrary;
+  let store: MemoryVectorStore;
+  let paperId: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-tools-'));
+    library = new PaperLibrary(dir);
+    const embeddingProvider = new HashEmbeddingProvider({ dimension: 64 });
+    const manifest = await library.addPaper(
+      attention,
+      { sourcePath: '/a.pdf', hash: 'aaaaaaaaaa' },
+      { embeddingProvider, chunking: { maxTokens: 32, overlapTokens: 0 } }
+    );
+    paperId = manifest.id;
+    store = await library.openStore([paperId], embeddingProvider);
+    run.mockReset();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should find figure and table captions, not mentions', () => {
+    const text =
+      'As shown in Figure 2, it works.\nFigure 2: Scaled dot-product\nattention.\n\nNext.';
+
+    expect(findCaption(text, 'Figure', '2')).toBe('Figure 2: Scaled dot-product attention.');
+    expect(findCaption('Table 3. BLEU scores.', 'Table', '3')).toBe('Table 3. BLEU scores.');
+    expect(findCaption(text, 'Figure', '1')).toBeUndefined();
+  });
+
+  it('should read the papers through the tools and record the calls', async () => {
+    const calls: ToolCall[] = [];
+    const tools = new PaperTools({ store, library, onToolCall: call => calls.push(call) });
+
+    expect(tools.tools.map(tool => tool.name)).toEqual([
+      'search_paper',
+      'get_section',
+      'get_page',
+      'list_papers',
+      'get_figure_caption',
+      'lookup_reference',
+    ]);
+
+    expect(await invoke(tools, 'list_papers', {})).toMatch(
+      /: Attention Is All You Need \(2 pages\)\nSections: Abstract; 1 Introduction; 3 Model/
+    );
+    expect(await invoke(tools, 'get_section', { paperId, section: '1' })).toContain(
+      'Recurrent models [1] preclude parallelization'
+    );
+    expect(await invoke(tools, 'get_page', { paperId: 'attention', page: 2 })).toContain(
+      '3 Model Architecture'
+    );
+    expect(await invoke(tools, 'get_figure_caption', { paperId, figure: 'Figure 1' })).toContain(
+      'Figure 1: The Transformer - model architecture.'
+    );
+    expect(
+      await invoke(tools, 'search_paper', { query: 'encoder', paperId: null, topK: 1 })
+    ).toMatch(/^\[attention-is-all-you-need-aaaaaaaa#\d+\]/);
+
+    const reference = await invoke(tools, 'lookup_reference', { paperId, reference: '[1]' });
+    expect(reference).toMatch(
+      /^\[1\] Hochreiter and Schmidhuber \(1997\)\. Long short-term memory/
+    );
+    expect(reference).toMatch(/Cited in \[attention-is-all-you-need-aaaaaaaa#\d+\]/);
+    expect(
+      await invoke(tools, 'lookup_reference', { paperId, reference: 'He et al., 2016' })
+    ).toMatch(/^\[2\] He et al\. \(2016\)/);
+
+    expect(await invoke(tools, 'get_page', { paperId, page: 9 })).toBe(
+      'Error: Page 9 is out of range: the paper has 2 pages'
+    );
+    expect(calls).toHaveLength(8);
+    expect(calls[1].chunkIds.length).toBeGreaterThan(0);
+    expect(formatToolCall(calls[7])).toBe(
+      `get_page(paperId: "${paperId}", page: 9) -> error: Page 9 is out of range: the paper has 2 pages`
+    );
+    expect(tools.results.map(result => result.document.id)).toEqual([
+      ...new Set(calls.flatMap(call => call.chunkIds)),
+    ]);
+  });
+
+  it('should let the agent cite what it looked up with tools', async () => {
+    const agent = new GangstaAgent({
+      name: 'The G',
+      description: 'Test',
+      principles: [],
+      model: 'gpt-4.1',
+    });
+    run.mockImplementation(async (model: Agent) => {
+      const tool = model.tools.find(candidate => candidate.name === 'get_figure_caption');
+      const output = await (tool as FunctionTool).invoke(
+        new RunContext(),
+        JSON.stringify({ paperId, figure: '1' })
+      );
+      const chunkId = String(output).match(/^\[([^\]]+)\]/)![1];
+      return { finalOutput: `The architecture is in Figure 1 [${chunkId}].`, rawResponses: [] };
+    });
+    const onToolCall = vi.fn();
+
+    const response = await agent.answer('Where is the architecture shown?', store, {
+      topK: 1,
+      library,
+      onToolCall,
+    });
+
+    const [model] = run.mock.calls[0] as [Agent];
+    expect(model.tools).toHaveLength(6);
+    expect(String(model.instructions)).toContain('use the tools to search the papers');
+    expect(onToolCall).toHaveBeenCalledOnce();
+    expect(response.toolCalls.map(call => call.name)).toEqual(['get_figure_caption']);
+    expect(response.citations).toEqual([
+      expect.objectContaining({ chunkId: response.toolCalls[0].chunkIds[0], page: 2 }),
+    ]);
+  });
+});
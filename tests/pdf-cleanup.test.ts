@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { cleanPdfPages, sourceLocation } from '../src/pdf-cleanup';
+
+const page = (number: number, lines: string[]) => ({ number, text: lines.join('\n') });
+
+describe('PDF Cleanup', () => {
+  it('should strip running headers, footers and page numbers', () => {
+    const bodies = ['Introduction.', 'Background.', 'Model architecture.', 'Training.'];
+    const pages = bodies.map((body, i) =>
+      page(i + 1, [
+        i % 2 ? `Published at NIPS 2017 ${i + 1}` : 'Attention Is All You Need',
+        body,
+        `- ${i + 1} -`,
+      ])
+    );
+
+    const paper = cleanPdfPages(pages);
+    expect(paper.text).toBe(bodies.join('\n\n'));
+    expect(paper.pages.map(p => paper.text.slice(p.start, p.end))).toEqual(bodies);
+
+    // Too few pages to tell running headers from content
+    expect(cleanPdfPages(pages.slice(0, 2)).text).toContain('Attention Is All You Need');
+  });
+
+  it('should join hyphenated words and expand ligatures', () => {
+    const paper = cleanPdfPages([
+      page(1, [
+        'We train a self-attention model that is signif-',
+        'icantly more e\ufb03cient. The self-',
+        'attention layers reduce compu\u00ad',
+        'tation, as shown in the \ufb01rst',
+        'table. Our contribution is two-',
+      ]),
+      page(2, ['fold: speed and quality.']),
+    ]);
+
+    expect(paper.text).toBe(
+      [
+        'We train a self-attention model that is significantly',
+        'more efficient. The self-attention',
+        'layers reduce computation,',
+        'as shown in the first',
+        'table. Our contribution is twofold:',
+        '',
+        'speed and quality.',
+      ].join('\n')
+    );
+    expect(paper.pages.map(p => p.number)).toEqual([1, 2]);
+  });
+
+  it('should read two-column pages column by column', () => {
+    const left = ['Left one starts here', 'left two continues on', 'left three and so on'];
+    const right = ['Right one starts here', 'right two continues on', 'right three ends here'];
+    const paper = cleanPdfPages([
+      page(1, [
+        'A Two Column Paper',
+        ...[...left, 'left four is the last', 'left five, really.'].map(
+          (line, i) => `${line}\t${[...right, 'right four goes on', 'right five. Done.'][i]}`
+        ),
+      ]),
+    ]);
+
+    expect(paper.text.split('\n')).toEqual([
+      'A Two Column Paper',
+      ...left,
+      'left four is the last',
+      'left five, really.',
+      ...right,
+      'right four goes on',
+      'right five. Done.',
+    ]);
+  });
+
+  it('should map cleaned offsets back to the extracted pages', () => {
+    const pages = [
+      page(1, ['Header', 'The \ufb01rst page.', 'Footer 1']),
+      page(2, ['Header', 'A hyphen-', 'ated word.', 'Footer 2']),
+      page(3, ['Header', 'Third page.', 'Footer 3']),
+    ];
+    const paper = cleanPdfPages(pages);
+    expect(paper.text).toBe('The first page.\n\nA hyphenated\nword.\n\nThird page.');
+
+    const locate = (needle: string) => {
+      const location = sourceLocation(paper, paper.text.indexOf(needle))!;
+      const source = pages[location.page - 1].text;
+      return [location.page, source.slice(location.offset, location.offset + 3)];
+    };
+    expect(locate('page.')).toEqual([1, 'pag']);
+    expect(locate('ated')).toEqual([2, 'ate']);
+    expect(locate('word')).toEqual([2, 'wor']);
+    expect(locate('Third')).toEqual([3, 'Thi']);
+    expect(sourceLocation(paper, paper.text.length)).toBeUndefined();
+  });
+
+  it('should leave text alone when cleanup steps are disabled', () => {
+    const paper = cleanPdfPages([page(1, ['signif-', 'icant \ufb01x', '- 1 -'])], {
+      headersAndFooters: false,
+      dehyphenate: false,
+      ligatures: false,
+      columns: false,
+    });
+    expect(paper.text).toBe('signif-\nicant \ufb01x\n- 1 -');
+  });
+});
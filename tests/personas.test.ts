@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Agent } from '@openai/agents';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { GangstaAgent } from '../src/gansgta-agent';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+import {
+  loadPersonas,
+  parsePersonaFile,
+  PersonaDefinition,
+  PersonaError,
+  resolvePersona,
+} from '../src/personas';
+
+const run = vi.hoisted(() => vi.fn());
+vi.mock('@openai/agents', async importOriginal => ({
+  ...(await importOriginal<typeof import('@openai/agents')>()),
+  run,
+}));
+
+describe('Personas', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-personas-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should resolve the built-in personas', async () => {
+    const personas = await loadPersonas();
+
+    expect(resolvePersona('the-g', personas)).toEqual({
+      name: 'The G',
+      description: 'The original gangster of research: clear, factual, and real with you.',
+      principles: [
+        'Keep it real: only claim what the paper actually says, and say when it does not say.',
+        'Cite the excerpt ids you rely on.',
+        'Break hard ideas down so anyone can follow, without dumbing them down.',
+        'Point out what can be put into practice.',
+      ],
+    });
+    for (const id of ['skeptical-reviewer', 'eli5-mentor', 'practitioner', 'the-og']) {
+      expect(resolvePersona(id, personas).principles[0]).toMatch(/^Keep it real/);
+    }
+    expect(resolvePersona('the-og', personas).principles.at(-1)).toMatch(/history of its field/);
+  });
+
+  it('should load personas from JSON and YAML files in the library', async () => {
+    await mkdir(join(dir, 'personas'));
+    await writeFile(
+      join(dir, 'personas', 'lab-mate.yaml'),
+      [
+        'name: Lab Mate',
+        'description: Reads papers with our projects in mind.',
+        'extends: [skeptical-reviewer, practical]',
+        'principles:',
+        '  - Compare with our own results.',
+        '  - Cite the excerpt ids you rely on.',
+        'model: gpt-4.1-mini',
+      ].join('\n')
+    );
+    await writeFile(
+      join(dir, 'personas', 'the-g.json'),
+      JSON.stringify({ extends: 'grounded', name: 'The G', description: 'Our own G.' })
+    );
+    await writeFile(join(dir, 'personas', 'notes.txt'), 'not a persona');
+
+    const personas = await loadPersonas(dir);
+    const labMate = resolvePersona('lab-mate', personas);
+
+    expect(labMate).toMatchObject({ name: 'Lab Mate', model: 'gpt-4.1-mini' });
+    expect(labMate.principles).toHaveLength(7);
+    expect(labMate.principles.slice(-2)).toEqual([
+      'Point out what can be put into practice.',
+      'Compare with our own results.',
+    ]);
+    expect(resolvePersona('the-g', personas).description).toBe('Our own G.');
+    expect(personas.has('notes')).toBe(false);
+  });
+
+  it('should reject invalid, unknown, cyclic and incomplete personas', () => {
+    expect(() => parsePersonaFile('principles: Keep it real', 'bad.yaml')).toThrow(
+      'Invalid persona in bad.yaml: principles: Expected array, received string'
+    );
+    expect(() => parsePersonaFile('{"nmae": "typo"}', 'typo.json')).toThrow(PersonaError);
+    expect(() => parsePersonaFile('name: [unterminated', 'broken.yml')).toThrow(
+      'Cannot parse broken.yml'
+    );
+
+    const personas = new Map<string, PersonaDefinition>([
+      ['a', { name: 'A', description: 'A', extends: 'b' }],
+      ['b', { extends: ['a'] }],
+      ['orphan', { name: 'Orphan', description: 'Orphan', extends: 'missing' }],
+      ['pack', { principles: ['Be brief.'] }],
+    ]);
+    expect(() => resolvePersona('a', personas)).toThrow('Persona "a" extends itself: a -> b -> a');
+    expect(() => resolvePersona('orphan', personas)).toThrow(
+      'Unknown persona "missing" (extended by "orphan")'
+    );
+    expect(() => resolvePersona('pack', personas)).toThrow(
+      'Persona "pack" is incomplete: name, description must be set'
+    );
+  });
+
+  it('should give the agent the persona description', async () => {
+    run.mockResolvedValue({ finalOutput: 'Hello.', rawResponses: [] });
+    const persona = resolvePersona('eli5-mentor', await loadPersonas());
+    const agent = new GangstaAgent({ ...persona, model: 'gpt-4.1' });
+    const store = new MemoryVectorStore({
+      embeddingProvider: new HashEmbeddingProvider({ dimension: 64 }),
+    });
+
+    await agent.answer('What is attention?', store);
+
+    const [model] = run.mock.calls[0] as [Agent<unknown, unknown>];
+    expect(model.instructions).toContain(`called ELI5 Mentor: ${persona.description}`);
+    expect(model.instructions).toContain('Explain like the reader is five');
+  });
+});
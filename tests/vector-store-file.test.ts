@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Buffer } from 'buffer';
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HashEmbeddingProvider } from '../src/embedding-providers';
+import { MemoryVectorStore } from '../src/memory-vector-store';
+import { crc32, readVectorStoreFile, VectorStoreCorruptionError } from '../src/vector-store-file';
+
+describe('Vector store file', () => {
+  let dir: string;
+  let file: string;
+  const embeddingProvider = new HashEmbeddingProvider({ dimension: 32 });
+
+  const createStore = async () => {
+    const store = new MemoryVectorStore({ embeddingProvider });
+    await store.addDocuments([
+      { id: 'a', content: 'self-attention layers', metadata: { page: 1 } },
+      { id: 'b', content: 'residual connections' },
+      { id: 'c', content: 'layer normalization' },
+    ]);
+    return store;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rg-vsf-'));
+    file = join(dir, 'store.rgvs');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should compute standard CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should round-trip documents and record the embedding model', async () => {
+    const store = await createStore();
+    await store.save(file);
+
+    const { header, documents } = await readVectorStoreFile(file);
+    expect(header).toMatchObject({
+      formatVersion: 1,
+      embeddingModel: 'hash-ngram-v1',
+      dimension: 32,
+    });
+    expect(documents.map(doc => doc.id)).toEqual(['a', 'b', 'c']);
+
+    const loaded = new MemoryVectorStore({ embeddingProvider });
+    await loaded.load(file);
+    expect(loaded.getDocument('a')?.metadata).toEqual({ page: 1 });
+    loaded.getDocument('a')?.embedding?.forEach((value, i) => {
+      expect(value).toBeCloseTo(store.getDocument('a')!.embedding![i], 6);
+    });
+
+    const [top] = await loaded.similaritySearch('self-attention', { topK: 1 });
+    expect(top.document.id).toBe('a');
+  });
+
+  it('should not leave temp files behind', async () => {
+    await (await createStore()).save(file);
+    expect(await readdir(dir)).toEqual(['store.rgvs']);
+  });
+
+  it('should append only the changes on incremental saves', async () => {
+    const store = await createStore();
+    await store.save(file);
+    const fullSize = (await stat(file)).size;
+
+    await store.addDocument({ id: 'd', content: 'positional encodings' });
+    store.deleteDocument('b');
+    await store.save(file, { incremental: true });
+
+    expect((await stat(file)).size).toBeLessThan(fullSize * 2);
+    const { documents } = await readVectorStoreFile(file);
+    expect(documents.map(doc => doc.id).sort()).toEqual(['a', 'c', 'd']);
+  });
+
+  it('should ignore a last segment torn by an interrupted append, and append over it', async () => {
+    const store = await createStore();
+    await store.save(file);
+    await store.addDocument({ id: 'd', content: 'positional encodings' });
+    await store.save(file, { incremental: true });
+    const data = await readFile(file);
+
+    await store.addDocument({ id: 'e', content: 'label smoothing' });
+    await store.save(file, { incremental: true });
+    const appended = await readFile(file);
+    const torn = [
+      appended.subarray(0, appended.length - 7),
+      Buffer.concat([data, Buffer.from([0x44, 0xff])]),
+      Buffer.concat([appended.subarray(0, appended.length - 1), Buffer.from([0])]),
+    ];
+    for (const contents of torn) {
+      await writeFile(file, contents);
+      const { documents } = await readVectorStoreFile(file);
+      expect(documents.map(doc => doc.id)).toEqual(['a', 'b', 'c', 'd']);
+    }
+
+    store.deleteDocument('a');
+    await store.save(file, { incremental: true });
+    const { documents } = await readVectorStoreFile(file);
+    expect(documents.map(doc => doc.id)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('should append to a file with a header larger than 64 KB', async () => {
+    const store = await createStore();
+    for (let i = 0; i < 1000; i++) {
+      store.createCollection(`collection-${i}-${'x'.repeat(60)}`);
+    }
+    await store.save(file);
+
+    await store.addDocument({ id: 'd', content: 'positional encodings' });
+    await store.save(file, { incremental: true });
+
+    const { header, documents } = await readVectorStoreFile(file);
+    expect(header.collections).toHaveLength(1000);
+    expect(documents.map(doc => doc.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should refuse to load a file written with another embedding model', async () => {
+    await (await createStore()).save(file);
+    const other = new MemoryVectorStore({
+      embeddingProvider: new HashEmbeddingProvider({ dimension: 16 }),
+    });
+    await expect(other.load(file)).rejects.toThrow(/hash-ngram-v1 \(32 dimensions\)/);
+  });
+
+  it('should detect corrupted and truncated files', async () => {
+    await (await createStore()).save(file);
+    const data = await readFile(file);
+
+    const flipped = Buffer.from(data);
+    flipped[data.length - 20] ^= 0xff;
+    await writeFile(file, flipped);
+    await expect(readVectorStoreFile(file)).rejects.toThrow(/checksum mismatch/);
+
+    await writeFile(file, data.subarray(0, data.length - 10));
+    await expect(readVectorStoreFile(file)).rejects.toThrow(VectorStoreCorruptionError);
+
+    const headerEnd = 12 + data.readUInt32LE(8) + 4;
+    await writeFile(file, data.subarray(0, headerEnd + 2));
+    await expect(readVectorStoreFile(file)).rejects.toThrow(/truncated segment/);
+
+    await writeFile(file, 'not a store');
+    await expect(readVectorStoreFile(file)).rejects.toThrow(/not a vector store file/);
+  });
+});
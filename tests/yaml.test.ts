@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { parseYaml, YamlSyntaxError } from '../src/yaml';
+
+describe('parseYaml', () => {
+  it('should parse mappings, sequences and scalars', () => {
+    const yaml = [
+      '---',
+      '# A persona',
+      'name: The G # trailing comment',
+      'extends: [grounded, "plain-language"]',
+      'principles:',
+      '- Keep it real, and cite',
+      '  the excerpts.',
+      "- 'Quoted: with a colon'",
+      '- "Escaped \\"quotes\\" and # hash"',
+      'settings:',
+      '  topK: 5',
+      '  temperature: 0.2',
+      '  stream: true',
+      '  model: ~',
+      '  filters:',
+      '    - field: section',
+      '      ne: References',
+      'empty: {}',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      name: 'The G',
+      extends: ['grounded', 'plain-language'],
+      principles: [
+        'Keep it real, and cite the excerpts.',
+        'Quoted: with a colon',
+        'Escaped "quotes" and # hash',
+      ],
+      settings: {
+        topK: 5,
+        temperature: 0.2,
+        stream: true,
+        model: null,
+        filters: [{ field: 'section', ne: 'References' }],
+      },
+      empty: {},
+    });
+    expect(parseYaml('')).toBeNull();
+  });
+
+  it('should strip comments after apostrophes in plain scalars', () => {
+    const yaml = [
+      "principle: don't guess # note",
+      'principles:',
+      "  - it's fine # comment",
+      "  - 'quoted # kept' # dropped",
+      '  - say "hi" # there',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      principle: "don't guess",
+      principles: ["it's fine", 'quoted # kept', 'say "hi"'],
+    });
+  });
+
+  it('should parse literal and folded block scalars', () => {
+    const yaml = [
+      'literal: |',
+      '  line one',
+      '    indented',
+      'folded: >-',
+      '  joined',
+      '  lines',
+      '',
+      '  new paragraph',
+      'next: value',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      literal: 'line one\n  indented\n',
+      folded: 'joined lines\nnew paragraph',
+      next: 'value',
+    });
+  });
+
+  it('should report syntax errors with their line', () => {
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('Duplicate key "a" (line 2)');
+    expect(() => parseYaml('list: [a, b')).toThrow(YamlSyntaxError);
+    expect(() => parseYaml('a:\n\tb: 1')).toThrow('Tabs are not allowed');
+    expect(() => parseYaml('a: 1\n  b: 2')).toThrow('Unexpected indentation (line 2)');
+  });
+});